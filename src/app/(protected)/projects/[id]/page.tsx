@@ -3,6 +3,8 @@
 import { useEffect, useState } from 'react'
 import { useParams } from 'next/navigation'
 import { useProjects, Project } from '@/hooks/use-projects'
+import { useAIProviders } from '@/hooks/use-ai-providers'
+import { getProviderSettingDisplayName } from '@/lib/ai/credentials'
 import { ProjectWorkspaceLayout } from '@/components/project/project-workspace-layout'
 import { ProjectNavigationTest } from '@/components/project/project-navigation-test'
 import { ComingSoonCard } from '@/components/feature-flags/feature-gate'
@@ -15,6 +17,7 @@ import { format } from 'date-fns'
 export default function ProjectPage() {
   const params = useParams()
   const { getProject } = useProjects()
+  const { providers } = useAIProviders()
   const [project, setProject] = useState<Project | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -91,7 +94,7 @@ export default function ProjectPage() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">AI Provider</p>
-                <p className="font-medium">{project.settings?.defaultAIProvider || 'Not configured'}</p>
+                <p className="font-medium">{getProviderSettingDisplayName(providers, project.settings?.defaultAIProvider) || 'Not configured'}</p>
               </div>
             </CardContent>
           </Card>
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const stats = enhancedChatService.getCacheStats();
+    const stats = await enhancedChatService.getCacheStats();
     return NextResponse.json({ stats });
   } catch (error) {
     console.error('Error getting cache stats:', error);
@@ -22,6 +22,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Clear cached responses. Users clear their own entries, optionally limited
+ * to one project with ?projectId=. ?scope=global clears every user's entries
+ * and is restricted to admins.
+ */
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -31,8 +36,21 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    enhancedChatService.clearCache();
-    return NextResponse.json({ success: true, message: 'Cache cleared successfully' });
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('scope') === 'global') {
+      // app_metadata can only be set with the service role, unlike user_metadata
+      if (user.app_metadata?.role !== 'admin') {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+      }
+
+      const cleared = await enhancedChatService.clearCache();
+      return NextResponse.json({ success: true, cleared, message: 'Cache cleared for all users' });
+    }
+
+    const projectId = searchParams.get('projectId') || undefined;
+    const cleared = await enhancedChatService.clearCache({ userId: user.id, projectId });
+    return NextResponse.json({ success: true, cleared, message: 'Cache cleared successfully' });
   } catch (error) {
     console.error('Error clearing cache:', error);
     return NextResponse.json(
@@ -40,4 +58,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
+import { chatService, ComparisonTarget, MAX_COMPARISON_TARGETS } from '@/lib/ai/chat-service';
+import { isAutoRouted } from '@/lib/ai/credentials';
+import { generationManager, GENERATION_STREAM_HEADERS } from '@/lib/ai/generation-manager';
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const body = await request.json();
+    const {
+      content,
+      projectId,
+      conversationId,
+      targets,
+      temperature,
+      maxTokens,
+      context,
+      assistantProfileId,
+      templateId,
+      attachmentIds,
+    } = body;
+
+    if (!projectId || (!content && !attachmentIds?.length)) {
+      return new Response('Content and projectId are required', { status: 400 });
+    }
+
+    if (!Array.isArray(targets) || targets.length < 2 || targets.length > MAX_COMPARISON_TARGETS) {
+      return new Response(`Between 2 and ${MAX_COMPARISON_TARGETS} targets are required`, { status: 400 });
+    }
+
+    // Each column has to be a concrete model, so the router can't take part
+    if (targets.some((target: ComparisonTarget) => !target?.providerId || isAutoRouted(target.providerId))) {
+      return new Response('Each target needs a provider other than Auto', { status: 400 });
+    }
+
+    // Verify user has access to the project
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response('Project not found', { status: 404 });
+    }
+
+    // Check if user is project owner or member
+    const isOwner = project.user_id === user.id;
+    let isMember = false;
+
+    if (!isOwner) {
+      const { data: membership } = await supabase
+        .from('project_members')
+        .select('id')
+        .eq('project_id', projectId)
+        .eq('user_id', user.id)
+        .single();
+
+      isMember = !!membership;
+    }
+
+    if (!isOwner && !isMember) {
+      return new Response('Access denied to project', { status: 403 });
+    }
+
+    // Every column gets the profile's prompt; the targets pick the models
+    const assistant = await assistantProfileService.resolve(user.id, {
+      projectId,
+      conversationId,
+      profileId: assistantProfileId,
+      context,
+    });
+
+    const generation = await generationManager.start(
+      { userId: user.id, projectId, conversationId },
+      signal => chatService.compareStream(user.id, {
+        content,
+        projectId,
+        conversationId,
+        targets: targets.map(({ providerId, model }: ComparisonTarget) => ({ providerId, model })),
+        temperature: assistant.temperature ?? temperature,
+        maxTokens: assistant.maxTokens ?? maxTokens,
+        systemPrompt: assistant.systemPrompt,
+        attachmentIds,
+        templateId,
+        signal,
+      })
+    );
+
+    const stream = await generationManager.openStream(generation.id, user.id);
+    if (!stream) {
+      return new Response('Generation not found', { status: 404 });
+    }
+
+    return new Response(stream, {
+      headers: {
+        ...GENERATION_STREAM_HEADERS,
+        'X-Generation-Id': generation.id,
+      },
+    });
+  } catch (error) {
+    console.error('Error in comparison API:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
 import { enhancedChatService } from '@/lib/ai/enhanced-chat-service';
 
 export async function POST(request: NextRequest) {
@@ -19,14 +20,17 @@ export async function POST(request: NextRequest) {
       model, 
       temperature, 
       maxTokens, 
-      systemPrompt,
+      context,
+      assistantProfileId,
       fallbackConfig,
       enableCaching = true,
+      enableTools = false,
+      tools,
     } = body;
 
-    if (!content || !projectId || !providerId) {
+    if (!content || !projectId) {
       return NextResponse.json(
-        { error: 'Content, projectId, and providerId are required' },
+        { error: 'Content and projectId are required' },
         { status: 400 }
       );
     }
@@ -42,16 +46,32 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found or access denied' }, { status: 403 });
     }
 
+    // The prompt comes from the project's assistant profile, not the client
+    const assistant = await assistantProfileService.resolve(user.id, {
+      projectId,
+      profileId: assistantProfileId,
+      context,
+    });
+
+    if (!assistant.providerId && !providerId) {
+      return NextResponse.json(
+        { error: 'providerId is required' },
+        { status: 400 }
+      );
+    }
+
     const response = await enhancedChatService.sendMessage(user.id, {
       content,
       projectId,
-      providerId,
-      model,
-      temperature,
-      maxTokens,
-      systemPrompt,
+      providerId: assistant.providerId ?? providerId,
+      model: assistant.providerId ? assistant.model : model,
+      temperature: assistant.temperature ?? temperature,
+      maxTokens: assistant.maxTokens ?? maxTokens,
+      systemPrompt: assistant.systemPrompt,
       fallbackConfig,
       enableCaching,
+      enableTools,
+      tools,
     });
 
     return NextResponse.json(response);
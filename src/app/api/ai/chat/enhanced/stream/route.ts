@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
 import { enhancedChatService } from '@/lib/ai/enhanced-chat-service';
+import { generationManager, GENERATION_STREAM_HEADERS } from '@/lib/ai/generation-manager';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,12 +21,15 @@ export async function POST(request: NextRequest) {
       model, 
       temperature, 
       maxTokens, 
-      systemPrompt,
+      context,
+      assistantProfileId,
       fallbackConfig,
+      enableTools = false,
+      tools,
     } = body;
 
-    if (!content || !projectId || !providerId) {
-      return new Response('Content, projectId, and providerId are required', { status: 400 });
+    if (!content || !projectId) {
+      return new Response('Content and projectId are required', { status: 400 });
     }
 
     // Verify user has access to the project
@@ -38,49 +43,44 @@ export async function POST(request: NextRequest) {
       return new Response('Project not found or access denied', { status: 403 });
     }
 
-    // Create a readable stream for Server-Sent Events
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-        
-        try {
-          for await (const chunk of enhancedChatService.sendMessageStream(user.id, {
-            content,
-            projectId,
-            providerId,
-            model,
-            temperature,
-            maxTokens,
-            systemPrompt,
-            fallbackConfig,
-          })) {
-            const data = `data: ${JSON.stringify(chunk)}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          }
-          
-          // Send completion signal
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch (error) {
-          console.error('Enhanced streaming error:', error);
-          const errorData = `data: ${JSON.stringify({ 
-            type: 'error', 
-            data: { message: error instanceof Error ? error.message : 'Unknown error' } 
-          })}\n\n`;
-          controller.enqueue(encoder.encode(errorData));
-          controller.close();
-        }
-      },
+    // The prompt comes from the project's assistant profile, not the client
+    const assistant = await assistantProfileService.resolve(user.id, {
+      projectId,
+      profileId: assistantProfileId,
+      context,
     });
 
+    if (!assistant.providerId && !providerId) {
+      return new Response('providerId is required', { status: 400 });
+    }
+
+    // Run as a generation that the client can resume or cancel by id
+    const generation = await generationManager.start(
+      { userId: user.id, projectId },
+      signal => enhancedChatService.sendMessageStream(user.id, {
+        content,
+        projectId,
+        providerId: assistant.providerId ?? providerId,
+        model: assistant.providerId ? assistant.model : model,
+        temperature: assistant.temperature ?? temperature,
+        maxTokens: assistant.maxTokens ?? maxTokens,
+        systemPrompt: assistant.systemPrompt,
+        fallbackConfig,
+        enableTools,
+        tools,
+        signal,
+      })
+    );
+
+    const stream = await generationManager.openStream(generation.id, user.id);
+    if (!stream) {
+      return new Response('Generation not found', { status: 404 });
+    }
+
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        ...GENERATION_STREAM_HEADERS,
+        'X-Generation-Id': generation.id,
       },
     });
   } catch (error) {
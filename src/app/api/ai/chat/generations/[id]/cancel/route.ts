@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { generationManager } from '@/lib/ai/generation-manager';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const generation = await generationManager.cancel(id, user.id);
+
+    if (!generation) {
+      return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+    }
+
+    // Still streaming means another instance is running it and can't be reached
+    if (generation.status === 'streaming') {
+      return NextResponse.json(
+        { error: 'Generation is running elsewhere and cannot be cancelled', generation },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ generation });
+  } catch (error) {
+    console.error('Error cancelling generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel generation' },
+      { status: 500 }
+    );
+  }
+}
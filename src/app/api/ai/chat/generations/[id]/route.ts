@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { generationManager } from '@/lib/ai/generation-manager';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const generation = await generationManager.get(id, user.id);
+
+    if (!generation) {
+      return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ generation });
+  } catch (error) {
+    console.error('Error getting generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to get generation' },
+      { status: 500 }
+    );
+  }
+}
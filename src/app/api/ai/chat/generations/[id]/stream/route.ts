@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { generationManager, GENERATION_STREAM_HEADERS } from '@/lib/ai/generation-manager';
+
+/**
+ * Resume a generation's event stream after the event named by Last-Event-ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const lastEventId = parseInt(
+      request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId') || '0',
+      10
+    );
+
+    const stream = await generationManager.openStream(id, user.id, Number.isNaN(lastEventId) ? 0 : lastEventId);
+    if (!stream) {
+      return new Response('Generation not found', { status: 404 });
+    }
+
+    return new Response(stream, {
+      headers: {
+        ...GENERATION_STREAM_HEADERS,
+        'X-Generation-Id': id,
+      },
+    });
+  } catch (error) {
+    console.error('Error resuming generation stream:', error);
+    return new Response('Internal server error', { status: 500 });
+  }
+}
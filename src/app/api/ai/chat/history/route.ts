@@ -13,6 +13,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
+    const conversationId = searchParams.get('conversationId') || undefined;
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
@@ -34,7 +35,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found or access denied' }, { status: 403 });
     }
 
-    const messages = await chatService.getConversationHistory(projectId, limit, offset);
+    const messages = await chatService.getConversationHistory(projectId, limit, offset, conversationId);
     const stats = await chatService.getMessageStats(projectId);
 
     return NextResponse.json({ 
@@ -16,11 +16,26 @@ export async function PATCH(
 
     const { id } = await params;
     const body = await request.json();
-    const { content, rating, feedback } = body;
+    const { content, rating, feedback, selected, winner } = body;
 
-    // If rating is provided, rate the message
-    if (typeof rating === 'number') {
-      await chatService.rateMessage(id, rating, feedback);
+    // Keep this reply from a model comparison; the others stay as versions
+    if (winner === true) {
+      const message = await chatService.chooseComparisonWinner(id);
+      return NextResponse.json({ message });
+    }
+
+    // Show this version in place of its siblings
+    if (selected === true) {
+      const message = await chatService.selectVersion(id);
+      return NextResponse.json({ message });
+    }
+
+    // If rating is provided, rate the message: thumbs up or down
+    if (rating !== undefined) {
+      if (rating !== 1 && rating !== -1) {
+        return NextResponse.json({ error: 'Rating must be 1 or -1' }, { status: 400 });
+      }
+      await chatService.rateMessage(user.id, id, rating, feedback);
       return NextResponse.json({ success: true });
     }
 
@@ -31,7 +46,7 @@ export async function PATCH(
     }
 
     return NextResponse.json(
-      { error: 'Either content or rating must be provided' },
+      { error: 'One of content, rating or selected must be provided' },
       { status: 400 }
     );
   } catch (error) {
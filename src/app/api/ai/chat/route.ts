@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
 import { chatService } from '@/lib/ai/chat-service';
 import { withAPIErrorHandling } from '@/lib/errors';
 
@@ -19,12 +20,16 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
     model, 
     temperature, 
     maxTokens, 
-    systemPrompt 
+    context,
+    assistantProfileId,
+    templateId,
+    attachmentIds = [],
   } = body;
 
-  if (!content || !projectId || !providerId) {
+  // A message may consist of attachments alone
+  if ((!content && attachmentIds.length === 0) || !projectId) {
     return NextResponse.json(
-      { error: 'Content, projectId, and providerId are required' },
+      { error: 'Content and projectId are required' },
       { status: 400 }
     );
   }
@@ -40,14 +45,30 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
     return NextResponse.json({ error: 'Project not found or access denied' }, { status: 403 });
   }
 
+  // The prompt comes from the project's assistant profile, not the client
+  const assistant = await assistantProfileService.resolve(user.id, {
+    projectId,
+    profileId: assistantProfileId,
+    context,
+  });
+
+  if (!assistant.providerId && !providerId) {
+    return NextResponse.json(
+      { error: 'providerId is required' },
+      { status: 400 }
+    );
+  }
+
   const response = await chatService.sendMessage(user.id, {
     content,
     projectId,
-    providerId,
-    model,
-    temperature,
-    maxTokens,
-    systemPrompt,
+    providerId: assistant.providerId ?? providerId,
+    model: assistant.providerId ? assistant.model : model,
+    temperature: assistant.temperature ?? temperature,
+    maxTokens: assistant.maxTokens ?? maxTokens,
+    systemPrompt: assistant.systemPrompt,
+    attachmentIds,
+    templateId,
   });
 
   return NextResponse.json(response);
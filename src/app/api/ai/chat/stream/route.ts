@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
 import { chatService } from '@/lib/ai/chat-service';
+import { generationManager, GENERATION_STREAM_HEADERS } from '@/lib/ai/generation-manager';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,11 +22,26 @@ export async function POST(request: NextRequest) {
       model, 
       temperature, 
       maxTokens, 
-      systemPrompt 
+      context,
+      assistantProfileId,
+      templateId,
+      attachmentIds,
+      regenerateMessageId,
+      editMessageId,
     } = body;
 
-    if (!content || !projectId || !providerId) {
-      return new Response('Content, projectId, and providerId are required', { status: 400 });
+    if (!projectId) {
+      return new Response('projectId is required', { status: 400 });
+    }
+
+    // New versions default to the original's provider; a regenerate reuses its prompt
+    if (!regenerateMessageId && !editMessageId) {
+      // A message may consist of attachments alone
+      if (!content && !attachmentIds?.length) {
+        return new Response('Content is required', { status: 400 });
+      }
+    } else if (editMessageId && !content) {
+      return new Response('Content is required to edit a message', { status: 400 });
     }
 
     // Verify user has access to the project
@@ -57,49 +74,47 @@ export async function POST(request: NextRequest) {
       return new Response('Access denied to project', { status: 403 });
     }
 
-    // Create a readable stream for Server-Sent Events
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-        
-        try {
-          for await (const chunk of chatService.sendMessageStream(user.id, {
-            content,
-            projectId,
-            providerId,
-            conversationId,
-            model,
-            temperature,
-            maxTokens,
-            systemPrompt,
-          })) {
-            const data = `data: ${JSON.stringify(chunk)}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          }
-          
-          // Send completion signal
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch (error) {
-          console.error('Streaming error:', error);
-          const errorData = `data: ${JSON.stringify({ 
-            type: 'error', 
-            data: { message: error instanceof Error ? error.message : 'Unknown error' } 
-          })}\n\n`;
-          controller.enqueue(encoder.encode(errorData));
-          controller.close();
-        }
-      },
+    // The prompt comes from the assistant profile in effect, not the client
+    const assistant = await assistantProfileService.resolve(user.id, {
+      projectId,
+      conversationId,
+      profileId: assistantProfileId,
+      context,
     });
 
+    if (!regenerateMessageId && !editMessageId && !assistant.providerId && !providerId) {
+      return new Response('providerId is required', { status: 400 });
+    }
+
+    // The generation runs on the server, so it survives this connection dropping
+    const generation = await generationManager.start(
+      { userId: user.id, projectId, conversationId },
+      signal => chatService.sendMessageStream(user.id, {
+        content,
+        projectId,
+        providerId: assistant.providerId ?? providerId,
+        conversationId,
+        model: assistant.providerId ? assistant.model : model,
+        temperature: assistant.temperature ?? temperature,
+        maxTokens: assistant.maxTokens ?? maxTokens,
+        systemPrompt: assistant.systemPrompt,
+        attachmentIds,
+        templateId,
+        regenerateMessageId,
+        editMessageId,
+        signal,
+      })
+    );
+
+    const stream = await generationManager.openStream(generation.id, user.id);
+    if (!stream) {
+      return new Response('Generation not found', { status: 404 });
+    }
+
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        ...GENERATION_STREAM_HEADERS,
+        'X-Generation-Id': generation.id,
       },
     });
   } catch (error) {
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { aiAbstractionLayer } from '@/lib/ai/abstraction-layer';
+import { isAutoRouted } from '@/lib/ai/credentials';
+import { modelRouter } from '@/lib/ai/model-router';
+import { jsonSchemaToZod } from '@/lib/ai/structured-output';
+import {
+  withAPIErrorHandling,
+  AuthenticationError,
+  AuthorizationError,
+  ValidationError,
+} from '@/lib/errors';
+
+const structuredRequestSchema = z.object({
+  providerId: z.string().min(1),
+  model: z.string().optional(),
+  projectId: z.string().optional(),
+  systemPrompt: z.string().optional(),
+  // Either a single prompt or a full message list
+  prompt: z.string().optional(),
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string(),
+  })).optional(),
+  name: z.string().optional(),
+  schema: z.record(z.string(), z.any()),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  maxAttempts: z.number().int().min(1).max(5).optional(),
+}).refine(body => body.prompt || body.messages?.length, {
+  message: 'Either prompt or messages is required',
+  path: ['prompt'],
+});
+
+/**
+ * Ask a model for a JSON value matching a JSON Schema and return it parsed.
+ * Invalid requests and replies that never validate come back as validation
+ * errors listing the issues.
+ */
+export const POST = withAPIErrorHandling(async (request: NextRequest) => {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new AuthenticationError('Unauthorized', 'Authentication required. Please sign in.');
+  }
+
+  const parsed = structuredRequestSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    throw new ValidationError('Invalid structured output request', 'Please check your input and try again.', {
+      metadata: {
+        issues: parsed.error.issues.map(issue => ({
+          path: issue.path.map(String).join('.'),
+          message: issue.message,
+        })),
+      },
+    });
+  }
+
+  const body = parsed.data;
+
+  // Fail on a schema we can't validate against before paying for a reply
+  try {
+    jsonSchemaToZod(body.schema);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid JSON Schema: ${error instanceof Error ? error.message : 'unsupported schema'}`,
+      'The JSON Schema could not be used. Please check it and try again.',
+      { metadata: { issues: [{ path: 'schema', message: error instanceof Error ? error.message : 'Unsupported schema' }] } }
+    );
+  }
+
+  if (body.projectId) {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, user_id')
+      .eq('id', body.projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new AuthorizationError('Project access denied', 'Project not found or access denied.');
+    }
+
+    // Owners and members can use the project, as with the other chat routes
+    if (project.user_id !== user.id) {
+      const { data: membership } = await supabase
+        .from('project_members')
+        .select('id')
+        .eq('project_id', body.projectId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!membership) {
+        throw new AuthorizationError('Project access denied', 'Project not found or access denied.');
+      }
+    }
+  }
+
+  const messages = [
+    ...(body.systemPrompt ? [{ role: 'system' as const, content: body.systemPrompt }] : []),
+    ...(body.messages || []),
+    ...(body.prompt ? [{ role: 'user' as const, content: body.prompt }] : []),
+  ];
+
+  let providerId = body.providerId;
+  let model = body.model;
+  if (isAutoRouted(providerId)) {
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const decision = await modelRouter.route(user.id, {
+      content: lastUserMessage?.content || '',
+      systemPrompt: body.systemPrompt,
+      history: messages,
+      maxOutputTokens: body.maxTokens,
+    });
+    providerId = decision.providerId;
+    model = decision.model;
+  }
+
+  const { data, response, attempts } = await aiAbstractionLayer.chatCompletionStructured(
+    providerId,
+    {
+      messages,
+      model,
+      temperature: body.temperature,
+      maxTokens: body.maxTokens,
+      responseFormat: { type: 'json_schema', name: body.name, schema: body.schema },
+    },
+    user.id,
+    body.projectId,
+    { maxAttempts: body.maxAttempts }
+  );
+
+  return {
+    object: data,
+    attempts,
+    provider: response.provider,
+    model: response.model,
+    usage: response.usage,
+  };
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { aiProviderService } from '@/lib/ai/service';
+import { resolveCustomBaseUrl } from '@/lib/ai/custom-endpoint-utils';
 
 export async function GET(
   request: NextRequest,
@@ -67,7 +68,7 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { isActive, settings } = body;
+    const { isActive, settings, endpoint, label, isDefault } = body;
 
     const updates: any = {};
     if (typeof isActive === 'boolean') {
@@ -76,8 +77,42 @@ export async function PATCH(
     if (settings) {
       updates.settings = settings;
     }
+    if (typeof label === 'string') {
+      const trimmed = label.trim();
+      if (!trimmed || trimmed.length > 50) {
+        return NextResponse.json(
+          { error: 'Key label must be between 1 and 50 characters' },
+          { status: 400 }
+        );
+      }
+      updates.label = trimmed;
+    }
+    if (endpoint && provider.provider === 'custom') {
+      if (endpoint.baseUrl !== undefined) {
+        try {
+          updates.base_url = await resolveCustomBaseUrl(endpoint.baseUrl);
+        } catch (error) {
+          return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Invalid custom endpoint URL' },
+            { status: 400 }
+          );
+        }
+      }
+      if (endpoint.authHeader !== undefined) {
+        updates.auth_header = endpoint.authHeader || null;
+      }
+      if (Array.isArray(endpoint.models)) {
+        updates.models = endpoint.models.map((m: string) => m.trim()).filter(Boolean);
+      }
+    }
 
-    const updatedProvider = await aiProviderService.updateProvider(id, updates);
+    let updatedProvider = Object.keys(updates).length > 0
+      ? await aiProviderService.updateProvider(id, updates)
+      : provider;
+
+    if (isDefault === true && !updatedProvider.isDefault) {
+      updatedProvider = await aiProviderService.setDefaultProvider(id);
+    }
 
     // Remove sensitive data before sending to client
     const sanitizedProvider = {
@@ -88,6 +123,12 @@ export async function PATCH(
     return NextResponse.json({ provider: sanitizedProvider });
   } catch (error) {
     console.error('Error updating AI provider:', error);
+    if ((error as any)?.code === '23505') {
+      return NextResponse.json(
+        { error: 'A key with this label already exists for this provider' },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to update AI provider' },
       { status: 500 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { enhancedChatService } from '@/lib/ai/enhanced-chat-service';
+import { aiProviderService } from '@/lib/ai/service';
+import { ServerDatabaseClient } from '@/lib/supabase/database';
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,8 +13,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const health = await enhancedChatService.getProviderHealth();
-    const cacheStats = enhancedChatService.getCacheStats();
+    // Per-key breaker state is only reported for the caller's own keys
+    const credentials = await aiProviderService.getProviders(user.id, new ServerDatabaseClient(supabase));
+    const health = await enhancedChatService.getProviderHealth(credentials);
+    const cacheStats = await enhancedChatService.getCacheStats();
 
     return NextResponse.json({ 
       health,
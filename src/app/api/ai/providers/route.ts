@@ -57,25 +57,35 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
   }
 
   const body = await request.json();
-  const { provider, apiKey, settings } = body;
+  const { provider, apiKey = '', settings, endpoint, label } = body;
 
   // Basic server-side logging (no API key) for diagnostics
   console.log('[AI Provider][CREATE] Incoming request', {
     userId: user.id,
     provider,
+    label,
     hasApiKey: typeof apiKey === 'string' && apiKey.length > 0,
     hasSettings: !!settings,
   });
 
-  if (!provider || !apiKey) {
+  // Custom endpoints may run without authentication (e.g. local Ollama)
+  if (!provider || (!apiKey && provider !== 'custom')) {
     throw new Error('Provider and API key are required');
   }
 
   // Validate provider type
-  const validProviders: AIProviderType[] = ['openai', 'anthropic', 'straico', 'cohere'];
+  const validProviders: AIProviderType[] = ['openai', 'anthropic', 'straico', 'cohere', 'custom'];
   if (!validProviders.includes(provider)) {
     throw new Error('Invalid provider type');
   }
+
+  if (provider === 'custom' && !endpoint?.baseUrl) {
+    throw new Error('A base URL is required for custom endpoints');
+  }
+
+  if (label !== undefined && (typeof label !== 'string' || label.trim().length > 50)) {
+    throw new Error('Key label must be 50 characters or fewer');
+  }
   
   try {
     console.log('[AI Provider][CREATE] Creating ServerDatabaseClient');
@@ -87,7 +97,8 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
       provider,
       apiKey,
       settings,
-      serverDb
+      serverDb,
+      { label, endpoint }
     );
 
     console.log('[AI Provider][CREATE] Provider created successfully:', {
@@ -125,9 +136,11 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
     if (/invalid api key format/i.test(rawMessage)) {
       throw new Error('API key format is invalid for this provider.');
     } else if (code === '23505' || /duplicate|already exists/i.test(rawMessage)) {
-      throw new Error('This provider is already configured. It has been updated instead.');
+      throw new Error('A key with this label already exists for this provider. Choose a different label.');
     } else if (code === '42501' || /permission denied/i.test(rawMessage)) {
       throw new Error('Permission denied inserting provider (RLS). Please retry after policy update.');
+    } else if (/custom endpoint|base url|no models available/i.test(rawMessage)) {
+      throw new Error(rawMessage);
     } else if (/decrypt/i.test(rawMessage)) {
       throw new Error('Stored API key could not be processed.');
     }
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { AIProviderType, validateApiKeyFormat } from '@/lib/ai/providers';
+import { AIProviderType, CustomEndpointConfig, validateApiKeyFormat } from '@/lib/ai/providers';
+import { COHERE_DEFAULT_BASE_URL } from '@/lib/ai/cohere-utils';
+import { fetchCustomEndpointModels } from '@/lib/ai/custom-endpoint-utils';
 import { withAPIErrorHandling } from '@/lib/errors';
 
 interface TestResult {
   success: boolean;
   message?: string;
   error?: string;
+  models?: string[];
 }
 
 /**
@@ -30,7 +33,11 @@ function getApiKeyFormatError(provider: AIProviderType): string {
 /**
  * Test API connection for different providers
  */
-async function testProviderConnection(provider: AIProviderType, apiKey: string): Promise<TestResult> {
+async function testProviderConnection(
+  provider: AIProviderType,
+  apiKey: string,
+  endpoint?: Partial<CustomEndpointConfig>
+): Promise<TestResult> {
   switch (provider) {
     case 'openai':
       return testOpenAIConnection(apiKey);
@@ -40,6 +47,8 @@ async function testProviderConnection(provider: AIProviderType, apiKey: string):
       return testStraicoConnection(apiKey);
     case 'cohere':
       return testCohereConnection(apiKey);
+    case 'custom':
+      return testCustomEndpointConnection(apiKey, endpoint);
     default:
       return { success: false, error: 'Unsupported provider' };
   }
@@ -190,7 +199,8 @@ async function testStraicoConnection(apiKey: string): Promise<TestResult> {
  */
 async function testCohereConnection(apiKey: string): Promise<TestResult> {
   try {
-    const response = await fetch('https://api.cohere.ai/v1/generate', {
+    // Use the chat endpoint so the key is validated against what chat requests use
+    const response = await fetch(`${COHERE_DEFAULT_BASE_URL}/chat`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -198,7 +208,7 @@ async function testCohereConnection(apiKey: string): Promise<TestResult> {
       },
       body: JSON.stringify({
         model: 'command-light',
-        prompt: 'Hi',
+        message: 'Hi',
         max_tokens: 1,
       }),
     });
@@ -215,6 +225,39 @@ async function testCohereConnection(apiKey: string): Promise<TestResult> {
   }
 }
 
+/**
+ * Test a custom OpenAI-compatible endpoint by listing its models
+ */
+async function testCustomEndpointConnection(
+  apiKey: string,
+  endpoint?: Partial<CustomEndpointConfig>
+): Promise<TestResult> {
+  if (!endpoint?.baseUrl) {
+    return { success: false, error: 'A base URL is required for custom endpoints' };
+  }
+
+  try {
+    const models = await fetchCustomEndpointModels(
+      { baseUrl: endpoint.baseUrl, authHeader: endpoint.authHeader },
+      apiKey
+    );
+    return {
+      success: true,
+      message: `Connected to custom endpoint (${models.length} model${models.length === 1 ? '' : 's'} found)`,
+      models,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (/rejected the api key/i.test(message)) {
+      return { success: false, error: 'Invalid API key for custom endpoint' };
+    }
+    if (/invalid custom endpoint url|timed out|private network|could not be resolved/i.test(message)) {
+      return { success: false, error: message };
+    }
+    return { success: false, error: 'Failed to connect to custom endpoint' };
+  }
+}
+
 export const POST = withAPIErrorHandling(async (request: NextRequest) => {
   const supabase = await createClient();
   const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -224,9 +267,10 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
   }
 
   const body = await request.json();
-  const { provider, apiKey } = body;
+  const { provider, apiKey = '', endpoint } = body;
 
-  if (!provider || !apiKey) {
+  // Custom endpoints may run without authentication (e.g. local Ollama)
+  if (!provider || (!apiKey && provider !== 'custom')) {
     return NextResponse.json(
       { success: false, valid: false, message: 'Provider and API key are required' },
       { status: 400 }
@@ -234,7 +278,7 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
   }
 
   // Validate provider type
-  const validProviders: AIProviderType[] = ['openai', 'anthropic', 'straico', 'cohere'];
+  const validProviders: AIProviderType[] = ['openai', 'anthropic', 'straico', 'cohere', 'custom'];
   if (!validProviders.includes(provider)) {
     return NextResponse.json(
       { success: false, valid: false, message: 'Invalid provider type' },
@@ -257,13 +301,14 @@ export const POST = withAPIErrorHandling(async (request: NextRequest) => {
   }
 
   // Test the actual API connection
-  const testResult = await testProviderConnection(provider, apiKey);
+  const testResult = await testProviderConnection(provider, apiKey, endpoint);
   
   if (testResult.success) {
     return NextResponse.json({ 
       success: true,
       valid: true, 
-      message: testResult.message || 'Connection successful!' 
+      message: testResult.message || 'Connection successful!',
+      models: testResult.models,
     }, { status: 200 });
   }
 
@@ -16,9 +16,13 @@ export const GET = withAPIErrorHandling(async (request: NextRequest) => {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // Get the user's Straico provider configuration
-  const providers = await aiProviderService.getProviders(user.id);
-  const straicoProvider = providers.find(p => p.provider === 'straico' && p.isActive);
+  // Use the requested Straico credential, or the user's default Straico key
+  const providerId = request.nextUrl.searchParams.get('providerId');
+  const straicoProvider = providerId
+    ? (await aiProviderService.getProviders(user.id)).find(
+        p => p.id === providerId && p.provider === 'straico' && p.isActive
+      )
+    : await aiProviderService.getActiveProvider(user.id, 'straico');
 
   if (!straicoProvider) {
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service'
+
+/**
+ * GET /api/assistant-profiles
+ * Profiles from every project the user owns, for copying between projects
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profiles = await assistantProfileService.listAvailableProfiles(user.id)
+
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error('Error in GET /api/assistant-profiles:', error)
+    return NextResponse.json({ error: 'Failed to load assistant profiles' }, { status: 500 })
+  }
+}
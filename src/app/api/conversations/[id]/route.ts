@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { conversationService } from '@/lib/conversations/conversation-service';
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service';
 import { withAPIErrorHandling } from '@/lib/errors';
 
 export const GET = withAPIErrorHandling(async (
@@ -62,6 +63,11 @@ export const PATCH = withAPIErrorHandling(async (
     userId: user.id
   });
 
+  // null clears the choice; an absent key leaves it alone
+  if ('assistantProfileId' in body) {
+    await assistantProfileService.setConversationProfile(user.id, conversationId, body.assistantProfileId);
+  }
+
   const conversation = await conversationService.updateConversation(user.id, conversationId, {
     title,
     description,
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { conversationService } from '@/lib/conversations/conversation-service';
+import { conversationMemory } from '@/lib/conversations/conversation-memory';
+import {
+  withAPIErrorHandling,
+  AuthenticationError,
+  AuthorizationError,
+  ValidationError,
+} from '@/lib/errors';
+
+// Summaries are sent with every request, so keep hand-written ones bounded
+const MAX_SUMMARY_LENGTH = 20000;
+
+async function authorize(conversationId: string) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new AuthenticationError('Unauthorized', 'Authentication required. Please sign in.');
+  }
+
+  const conversation = await conversationService.getConversation(user.id, conversationId)
+    .catch(() => null);
+  if (!conversation) {
+    throw new AuthorizationError('Conversation access denied', 'Conversation not found or access denied.');
+  }
+
+  return conversation;
+}
+
+/**
+ * The conversation's rolling summary, or null before one has been written
+ */
+export const GET = withAPIErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const conversation = await authorize(params.id);
+  return { summary: conversation.metadata.summary || null };
+});
+
+/**
+ * Replace the summary with edited text; empty text clears it
+ */
+export const PUT = withAPIErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  await authorize(params.id);
+
+  const { content } = await request.json();
+  if (typeof content !== 'string') {
+    throw new ValidationError('Summary content must be a string', 'Please enter the summary text.');
+  }
+  if (content.length > MAX_SUMMARY_LENGTH) {
+    throw new ValidationError(
+      'Summary too long',
+      `Summaries are limited to ${MAX_SUMMARY_LENGTH.toLocaleString()} characters.`
+    );
+  }
+
+  const summary = await conversationMemory.updateSummary(params.id, content);
+  return { summary };
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { promptEffectivenessService } from '@/lib/analytics/prompt-effectiveness-service'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * GET /api/projects/[id]/analytics/effectiveness
+ * How replies in the project were rated, by model, template, injected context
+ * and cost. Query: days (1-365, default 90).
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = Number(searchParams.get('days') || 90)
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return NextResponse.json({ error: 'days must be a whole number from 1 to 365' }, { status: 400 })
+    }
+
+    const report = await promptEffectivenessService.getReport(user.id, id, days)
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/analytics/effectiveness:', error)
+
+    const message = error instanceof Error ? error.message : ''
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Failed to build effectiveness report' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { assetService } from '@/lib/assets/asset-service'
+
+interface RouteParams {
+  params: {
+    id: string
+    assetId: string
+  }
+}
+
+// Types the browser can show without running anything. SVG is left out
+// since it can carry script.
+const INLINE_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'application/pdf',
+])
+
+/**
+ * GET /api/projects/[id]/assets/[assetId]
+ * Serve an asset's file, e.g. for attachment thumbnails. Only images and PDFs
+ * are shown inline; anything else is downloaded, sandboxed in case it is
+ * opened anyway, so an uploaded page can't run in another user's session.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, assetId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { asset, file } = await assetService.getAssetFile(user.id, id, assetId)
+    const inline = INLINE_TYPES.has(asset.type) && !request.nextUrl.searchParams.get('download')
+
+    return new Response(file, {
+      headers: {
+        'Content-Type': INLINE_TYPES.has(asset.type) ? asset.type : 'application/octet-stream',
+        'Content-Length': String(asset.size),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${encodeURIComponent(asset.name)}"`,
+        'Cache-Control': 'private, max-age=3600',
+        // Uploaded files are untrusted; never let the browser sniff them into HTML
+        'X-Content-Type-Options': 'nosniff',
+        ...(!inline && { 'Content-Security-Policy': 'sandbox' }),
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load asset'
+
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    if (/not found/i.test(message)) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    console.error('Error in GET /api/projects/[id]/assets/[assetId]:', error)
+    return NextResponse.json({ error: 'Failed to load asset' }, { status: 500 })
+  }
+}
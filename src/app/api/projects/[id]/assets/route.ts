@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { assetService } from '@/lib/assets/asset-service'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * POST /api/projects/[id]/assets
+ * Upload a chat attachment (multipart/form-data with a `file` field)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const contentType = request.headers.get('content-type') || ''
+    if (!contentType.includes('multipart/form-data')) {
+      return NextResponse.json(
+        { error: 'Content-Type must be multipart/form-data for file uploads' },
+        { status: 400 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided. Please include a file in the request.' },
+        { status: 400 }
+      )
+    }
+
+    const attachment = await assetService.uploadChatAttachment(user.id, id, file)
+
+    return NextResponse.json({ attachment }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/assets:', error)
+    const message = error instanceof Error ? error.message : 'Failed to upload attachment'
+
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    if (/not supported|exceeds maximum/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Failed to upload attachment' }, { status: 500 })
+  }
+}
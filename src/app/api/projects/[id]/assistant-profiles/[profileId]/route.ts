@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service'
+import { validateAssistantProfileUpdate } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+    profileId: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * PATCH /api/projects/[id]/assistant-profiles/[profileId]
+ * Update a profile; `isDefault` sets or clears it as the project default
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, profileId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { isDefault, ...updates } = await request.json()
+
+    let validatedUpdates
+    try {
+      validatedUpdates = validateAssistantProfileUpdate(updates)
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const profile = Object.keys(validatedUpdates).length > 0
+      ? await assistantProfileService.updateProfile(user.id, id, profileId, validatedUpdates)
+      : await assistantProfileService.getProfile(id, profileId)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Assistant profile not found' }, { status: 404 })
+    }
+
+    if (typeof isDefault === 'boolean') {
+      const { defaultProfileId } = await assistantProfileService.listProfiles(id)
+      if (isDefault) {
+        await assistantProfileService.setDefaultProfile(user.id, id, profileId)
+      } else if (defaultProfileId === profileId) {
+        await assistantProfileService.setDefaultProfile(user.id, id, null)
+      }
+    }
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    console.error('Error in PATCH /api/projects/[id]/assistant-profiles/[profileId]:', error)
+    return errorResponse(error, 'Failed to update assistant profile')
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/assistant-profiles/[profileId]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, profileId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await assistantProfileService.deleteProfile(user.id, id, profileId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/projects/[id]/assistant-profiles/[profileId]:', error)
+    return errorResponse(error, 'Failed to delete assistant profile')
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { assistantProfileService } from '@/lib/assistants/assistant-profile-service'
+import { validateAssistantProfile } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/projects/[id]/assistant-profiles
+ * The project's assistant profiles and its default profile
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { profiles, defaultProfileId } = await assistantProfileService.listProfiles(id)
+
+    return NextResponse.json({ profiles, defaultProfileId })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/assistant-profiles:', error)
+    return errorResponse(error, 'Failed to load assistant profiles')
+  }
+}
+
+/**
+ * POST /api/projects/[id]/assistant-profiles
+ * Create a profile, or copy one from another project when the body has
+ * `sourceProjectId` and `profileId`. `isDefault` makes it the project default.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { sourceProjectId, profileId, isDefault, ...input } = await request.json()
+
+    let profile
+    if (sourceProjectId && profileId) {
+      profile = await assistantProfileService.copyProfile(user.id, sourceProjectId, profileId, id)
+    } else {
+      let validatedProfile
+      try {
+        validatedProfile = validateAssistantProfile(input)
+      } catch (validationError) {
+        return NextResponse.json({
+          error: 'Validation failed',
+          details: validationError instanceof Error ? validationError.message : 'Invalid data'
+        }, { status: 400 })
+      }
+      profile = await assistantProfileService.createProfile(user.id, id, validatedProfile)
+    }
+
+    if (isDefault) {
+      await assistantProfileService.setDefaultProfile(user.id, id, profile.id)
+    }
+
+    return NextResponse.json({ profile }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/assistant-profiles:', error)
+    return errorResponse(error, 'Failed to save assistant profile')
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { codeIndexService } from '@/lib/code/code-index-service'
+import { MAX_ARCHIVE_SIZE, resolveArchiveType } from '@/lib/code/archive-source'
+import { validateCodeImportOptions } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/already being indexed/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 409 })
+  }
+  if (/unsupported archive|not a valid (zip|tar|gzip) file|expands to more than|archives can be at most/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * POST /api/projects/[id]/code-index/archive
+ * Index an uploaded zip or tarball of the project's code. Form fields:
+ * `file`, and optionally `excludePatterns` (one per line) and `maxFileSize`
+ * in bytes.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No archive uploaded' }, { status: 400 })
+    }
+    if (!resolveArchiveType(file.name)) {
+      return NextResponse.json({ error: 'Unsupported archive: upload a .zip, .tar, .tar.gz or .tgz file' }, { status: 400 })
+    }
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      return NextResponse.json({ error: `Archives can be at most ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB` }, { status: 400 })
+    }
+
+    const excludePatterns = ((formData.get('excludePatterns') as string | null) || '')
+      .split('\n')
+      .map(pattern => pattern.trim())
+      .filter(Boolean)
+    const maxFileSize = formData.get('maxFileSize')
+
+    let options
+    try {
+      options = validateCodeImportOptions({
+        excludePatterns,
+        maxFileSize: maxFileSize ? Number(maxFileSize) : undefined
+      })
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const archive = Buffer.from(await file.arrayBuffer())
+    const index = await codeIndexService.indexArchive(user.id, id, archive, file.name, options)
+
+    return NextResponse.json({ index })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/code-index/archive:', error)
+    return errorResponse(error, 'Failed to import archive')
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { codeIndexService } from '@/lib/code/code-index-service'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * GET /api/projects/[id]/code-index/files?path=src/index.ts
+ * Content of one indexed file, for the code browser
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const path = request.nextUrl.searchParams.get('path')
+    if (!path) {
+      return NextResponse.json({ error: 'path is required' }, { status: 400 })
+    }
+
+    const file = await codeIndexService.getFile(user.id, id, path)
+
+    return NextResponse.json({ file })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/code-index/files:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch file'
+
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    if (/not found/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    return NextResponse.json({ error: 'Failed to fetch file' }, { status: 500 })
+  }
+}
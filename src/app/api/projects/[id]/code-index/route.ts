@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { codeIndexService } from '@/lib/code/code-index-service'
+import { validateCodeImport } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+  if (/already being indexed/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 409 })
+  }
+  if (/link a github repository|set a local path|unsupported archive|not enabled on this server/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+  if (/github refused/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 502 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/projects/[id]/code-index
+ * Status of the project's code index, or null before the first indexing
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const index = await codeIndexService.getStatus(user.id, id)
+
+    return NextResponse.json({ index })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/code-index:', error)
+    return errorResponse(error, 'Failed to fetch code index')
+  }
+}
+
+/**
+ * POST /api/projects/[id]/code-index
+ * Index the project's linked GitHub repository, at `branch` if given, or with
+ * `source: 'local'` the project's local path on the server. Archives are
+ * uploaded to ./archive instead.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    let validatedData
+    try {
+      validatedData = validateCodeImport(body)
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const { source, branch, ...options } = validatedData
+    const index = source === 'local'
+      ? await codeIndexService.indexLocalPath(user.id, id, options)
+      : await codeIndexService.indexGitHubRepository(user.id, id, branch, options)
+
+    return NextResponse.json({ index })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/code-index:', error)
+    return errorResponse(error, 'Failed to index repository')
+  }
+}
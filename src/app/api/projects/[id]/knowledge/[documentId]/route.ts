@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { knowledgeService } from '@/lib/knowledge/knowledge-service'
+import { validateKnowledgeUpdate } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+    documentId: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/projects/[id]/knowledge/[documentId]
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, documentId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const document = await knowledgeService.getDocument(user.id, id, documentId)
+
+    return NextResponse.json({ document })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/knowledge/[documentId]:', error)
+    return errorResponse(error, 'Failed to load knowledge document')
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/knowledge/[documentId]
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, documentId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    let validatedUpdates
+    try {
+      validatedUpdates = validateKnowledgeUpdate(body)
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const document = await knowledgeService.updateDocument(user.id, id, documentId, validatedUpdates)
+
+    return NextResponse.json({ document })
+  } catch (error) {
+    console.error('Error in PATCH /api/projects/[id]/knowledge/[documentId]:', error)
+    return errorResponse(error, 'Failed to update knowledge document')
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/knowledge/[documentId]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, documentId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await knowledgeService.deleteDocument(user.id, id, documentId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/projects/[id]/knowledge/[documentId]:', error)
+    return errorResponse(error, 'Failed to delete knowledge document')
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { knowledgeService } from '@/lib/knowledge/knowledge-service'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * POST /api/projects/[id]/knowledge/reindex
+ * Rebuild the embeddings of every knowledge document in the project
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await knowledgeService.reindexProject(user.id, id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/knowledge/reindex:', error)
+    const message = error instanceof Error ? error.message : 'Failed to rebuild the search index'
+
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+
+    return NextResponse.json({ error: 'Failed to rebuild the search index' }, { status: 500 })
+  }
+}
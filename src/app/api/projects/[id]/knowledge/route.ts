@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { knowledgeService, KnowledgeListOptions } from '@/lib/knowledge/knowledge-service'
+import { validateKnowledge } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+const CATEGORIES = ['documentation', 'research', 'assets', 'code']
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/projects/[id]/knowledge
+ * The project's knowledge documents and those recently injected into chat.
+ * Query: category, tag, search.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const category = searchParams.get('category') || undefined
+
+    if (category && !CATEGORIES.includes(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 })
+    }
+
+    const [documents, recentlyInjected] = await Promise.all([
+      knowledgeService.listDocuments(user.id, id, {
+        category: category as KnowledgeListOptions['category'],
+        tag: searchParams.get('tag') || undefined,
+        search: searchParams.get('search') || undefined
+      }),
+      knowledgeService.getRecentlyInjected(user.id, id)
+    ])
+
+    return NextResponse.json({ documents, recentlyInjected })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/knowledge:', error)
+    return errorResponse(error, 'Failed to load knowledge')
+  }
+}
+
+/**
+ * POST /api/projects/[id]/knowledge
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    let validatedData
+    try {
+      // The project comes from the URL
+      validatedData = validateKnowledge({ ...body, project_id: id })
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const document = await knowledgeService.createDocument(user.id, id, validatedData)
+
+    return NextResponse.json({ document }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/knowledge:', error)
+    return errorResponse(error, 'Failed to create knowledge document')
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ingestionService } from '@/lib/knowledge/ingestion-service'
+
+interface RouteParams {
+  params: {
+    id: string
+    assetId: string
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/knowledge/uploads/[assetId]
+ * Remove an uploaded file and the documents ingested from it
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id, assetId } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await ingestionService.deleteUpload(user.id, id, assetId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/projects/[id]/knowledge/uploads/[assetId]:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete upload'
+
+    if (/access denied/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    if (/not found/i.test(message)) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    return NextResponse.json({ error: 'Failed to delete upload' }, { status: 500 })
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ingestionService, IngestionOptions } from '@/lib/knowledge/ingestion-service'
+import type { KnowledgeUpload } from '@/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+const CATEGORIES = ['documentation', 'research', 'assets', 'code']
+
+// Files accepted in one request; each is ingested in turn
+const MAX_FILES_PER_REQUEST = 10
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/projects/[id]/knowledge/uploads
+ * Files uploaded to the knowledge base and their ingestion status
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const uploads = await ingestionService.listUploads(user.id, id)
+
+    return NextResponse.json({ uploads })
+  } catch (error) {
+    console.error('Error in GET /api/projects/[id]/knowledge/uploads:', error)
+    return errorResponse(error, 'Failed to load uploads')
+  }
+}
+
+/**
+ * POST /api/projects/[id]/knowledge/uploads
+ * Upload and ingest documents (multipart/form-data with one or more `files`,
+ * plus optional `category` and comma-separated `tags`). Files that could not
+ * be stored are listed in `errors`; files whose text could not be extracted
+ * are stored with a failed status.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const contentType = request.headers.get('content-type') || ''
+    if (!contentType.includes('multipart/form-data')) {
+      return NextResponse.json(
+        { error: 'Content-Type must be multipart/form-data for file uploads' },
+        { status: 400 }
+      )
+    }
+
+    const formData = await request.formData()
+    const files = formData.getAll('files').filter((file): file is File => file instanceof File)
+    const category = (formData.get('category') as string | null) || 'documentation'
+    const tags = ((formData.get('tags') as string | null) || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean)
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files provided. Please include at least one file in the request.' },
+        { status: 400 }
+      )
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Upload at most ${MAX_FILES_PER_REQUEST} files at a time` },
+        { status: 400 }
+      )
+    }
+    if (!CATEGORIES.includes(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 })
+    }
+
+    const options: IngestionOptions = { category: category as IngestionOptions['category'], tags }
+    const uploads: KnowledgeUpload[] = []
+    const errors: { name: string; error: string }[] = []
+
+    for (const file of files) {
+      try {
+        uploads.push(await ingestionService.ingestFile(user.id, id, file, options))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to upload file'
+        if (/access denied/i.test(message)) throw error
+        errors.push({ name: file.name, error: message })
+      }
+    }
+
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: 'No files could be uploaded', errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ uploads, errors }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/projects/[id]/knowledge/uploads:', error)
+    return errorResponse(error, 'Failed to upload documents')
+  }
+}
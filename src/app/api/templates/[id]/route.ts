@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { templateService } from '@/lib/templates/template-service'
+import { validateTemplateUpdate } from '@/lib/supabase/validation'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (/access denied/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 403 })
+  }
+  if (/not found/i.test(message)) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * GET /api/templates/[id]
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const template = await templateService.getTemplate(user.id, id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error in GET /api/templates/[id]:', error)
+    return errorResponse(error, 'Failed to load template')
+  }
+}
+
+/**
+ * PATCH /api/templates/[id]
+ * Update the fields given; only the owner can change a template
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    let validatedUpdates
+    try {
+      validatedUpdates = validateTemplateUpdate(body)
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    // The schema fills in defaults, which mustn't overwrite fields left out
+    const updates = Object.fromEntries(
+      Object.entries(validatedUpdates).filter(([key]) => key in body)
+    )
+
+    const template = await templateService.updateTemplate(user.id, id, updates)
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error in PATCH /api/templates/[id]:', error)
+    return errorResponse(error, 'Failed to update template')
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await templateService.deleteTemplate(user.id, id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/templates/[id]:', error)
+    return errorResponse(error, 'Failed to delete template')
+  }
+}
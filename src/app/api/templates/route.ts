@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { templateService, TemplateListOptions } from '@/lib/templates/template-service'
+import { validateTemplate } from '@/lib/supabase/validation'
+
+const SCOPES = ['all', 'mine', 'public']
+const SORTS = ['updated', 'usage', 'rating']
+
+/**
+ * GET /api/templates
+ * The user's templates and public ones. Query: scope (all, mine, public),
+ * category, search, sortBy (updated, usage, rating).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope') || 'all'
+    const sortBy = searchParams.get('sortBy') || 'updated'
+
+    if (!SCOPES.includes(scope) || !SORTS.includes(sortBy)) {
+      return NextResponse.json({ error: 'Invalid scope or sortBy' }, { status: 400 })
+    }
+
+    const templates = await templateService.listTemplates(user.id, {
+      scope: scope as TemplateListOptions['scope'],
+      sortBy: sortBy as TemplateListOptions['sortBy'],
+      category: searchParams.get('category') || undefined,
+      search: searchParams.get('search') || undefined
+    })
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Error in GET /api/templates:', error)
+    return NextResponse.json({ error: 'Failed to load templates' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/templates
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    let validatedTemplate
+    try {
+      validatedTemplate = validateTemplate(body)
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationError instanceof Error ? validationError.message : 'Invalid data'
+      }, { status: 400 })
+    }
+
+    const template = await templateService.createTemplate(user.id, validatedTemplate)
+
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/templates:', error)
+    return NextResponse.json({ error: 'Failed to create template' }, { status: 500 })
+  }
+}
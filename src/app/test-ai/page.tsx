@@ -25,17 +25,11 @@ export default function TestAIPage() {
         </TabsList>
 
         <TabsContent value="chat">
-          <ChatInterface 
-            projectId="test-project-123" 
-            systemPrompt="You are a helpful AI assistant for web development projects."
-          />
+          <ChatInterface projectId="test-project-123" />
         </TabsContent>
 
         <TabsContent value="enhanced">
-          <EnhancedChatInterface 
-            projectId="test-project-123" 
-            systemPrompt="You are a helpful AI assistant for web development projects with fallback and caching capabilities."
-          />
+          <EnhancedChatInterface projectId="test-project-123" />
         </TabsContent>
 
         <TabsContent value="providers">
@@ -9,13 +9,38 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
-import { AIProviderType, getAvailableProviders, getProviderConfig } from '@/lib/ai/providers';
+import {
+  AIProviderType,
+  CustomEndpointConfig,
+  getAvailableProviders,
+  getProviderConfig,
+  getProviderModels,
+} from '@/lib/ai/providers';
 
 interface AddProviderDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onAdd: (provider: AIProviderType, apiKey: string, settings?: any) => Promise<void>;
-  onTestApiKey: (provider: AIProviderType, apiKey: string) => Promise<{ valid: boolean; error?: string }>;
+  onAdd: (
+    provider: AIProviderType,
+    apiKey: string,
+    settings?: any,
+    options?: { label?: string; endpoint?: Partial<CustomEndpointConfig> }
+  ) => Promise<void>;
+  onTestApiKey: (
+    provider: AIProviderType,
+    apiKey: string,
+    endpoint?: Partial<CustomEndpointConfig>
+  ) => Promise<{ valid: boolean; error?: string; models?: string[] }>;
+}
+
+/**
+ * Parse a comma or newline separated list of model names
+ */
+function parseModelList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map(model => model.trim())
+    .filter(Boolean);
 }
 
 export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: AddProviderDialogProps) {
@@ -29,15 +54,38 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
   const [keyTestResult, setKeyTestResult] = useState<boolean | null>(null);
   const [keyTestError, setKeyTestError] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [authHeader, setAuthHeader] = useState('');
+  const [customModels, setCustomModels] = useState('');
+  const [label, setLabel] = useState('');
 
   const availableProviders = getAvailableProviders();
   const selectedConfig = getProviderConfig(selectedProvider);
+  const isCustom = selectedProvider === 'custom';
+  const models = getProviderModels(selectedProvider, parseModelList(customModels));
+  const hasCredentials = isCustom ? !!baseUrl.trim() : !!apiKey.trim();
+
+  const getEndpoint = (): Partial<CustomEndpointConfig> | undefined =>
+    isCustom
+      ? {
+          baseUrl: baseUrl.trim(),
+          authHeader: authHeader.trim() || undefined,
+          models: parseModelList(customModels),
+        }
+      : undefined;
+
+  const resetTestResult = () => {
+    setKeyTestResult(null);
+    setKeyTestError(null);
+  };
 
   const handleProviderChange = (provider: AIProviderType) => {
     setSelectedProvider(provider);
     setApiKey('');
-    setKeyTestResult(null);
-    setKeyTestError(null);
+    setBaseUrl('');
+    setAuthHeader('');
+    setCustomModels('');
+    resetTestResult();
     
     const config = getProviderConfig(provider);
     setSettings({
@@ -47,16 +95,20 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
   };
 
   const handleTestApiKey = async () => {
-    if (!apiKey.trim()) return;
+    if (!hasCredentials) return;
 
     try {
       setIsTestingKey(true);
       setKeyTestError(null);
-      const result = await onTestApiKey(selectedProvider, apiKey);
+      const result = await onTestApiKey(selectedProvider, apiKey, getEndpoint());
       setKeyTestResult(result.valid);
       if (!result.valid && result.error) {
         setKeyTestError(result.error);
       }
+      // Pre-fill the model list from discovery unless the user typed their own
+      if (isCustom && result.valid && result.models?.length && !customModels.trim()) {
+        setCustomModels(result.models.join(', '));
+      }
     } catch (error) {
       setKeyTestResult(false);
       setKeyTestError('Failed to test API key. Please try again.');
@@ -66,21 +118,28 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
   };
 
   const handleAdd = async () => {
-    if (!apiKey.trim() || keyTestResult !== true) return;
+    if (!hasCredentials || keyTestResult !== true || models.length === 0) return;
 
     try {
       setIsAdding(true);
       
       const providerSettings = {
-        defaultModel: selectedConfig.models[0].id,
+        defaultModel: models[0].id,
         maxTokens: settings.maxTokens,
         temperature: settings.temperature,
       };
 
-      await onAdd(selectedProvider, apiKey, providerSettings);
+      await onAdd(selectedProvider, apiKey, providerSettings, {
+        label: label.trim() || undefined,
+        endpoint: getEndpoint(),
+      });
       
       // Reset form
       setApiKey('');
+      setLabel('');
+      setBaseUrl('');
+      setAuthHeader('');
+      setCustomModels('');
       setKeyTestResult(null);
       setKeyTestError(null);
       setSettings({
@@ -136,8 +195,13 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
             <CardContent>
               <div className="space-y-2">
                 <h4 className="font-medium">Available Models:</h4>
+                {isCustom && models.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Test the connection to discover models, or enter them below.
+                  </p>
+                )}
                 <div className="grid grid-cols-1 gap-2">
-                  {selectedConfig.models.map((model) => (
+                  {models.map((model) => (
                     <div key={model.id} className="flex justify-between items-center text-sm">
                       <span className="font-medium">{model.name}</span>
                       <span className="text-muted-foreground">{model.description}</span>
@@ -148,6 +212,63 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
             </CardContent>
           </Card>
 
+          {/* Key Label */}
+          <div className="space-y-2">
+            <Label htmlFor="keyLabel">Key Label</Label>
+            <Input
+              id="keyLabel"
+              placeholder="e.g. Personal, Work"
+              maxLength={50}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use different labels to keep several keys for the same provider. Reusing a label replaces that key.
+            </p>
+          </div>
+
+          {/* Custom Endpoint */}
+          {isCustom && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="baseUrl">Base URL</Label>
+                <Input
+                  id="baseUrl"
+                  placeholder="http://localhost:11434/v1"
+                  value={baseUrl}
+                  onChange={(e) => {
+                    setBaseUrl(e.target.value);
+                    resetTestResult();
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="authHeader">Auth Header (optional)</Label>
+                <Input
+                  id="authHeader"
+                  placeholder="Authorization"
+                  value={authHeader}
+                  onChange={(e) => {
+                    setAuthHeader(e.target.value);
+                    resetTestResult();
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Defaults to a Bearer token in the Authorization header.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customModels">Models</Label>
+                <Input
+                  id="customModels"
+                  placeholder="llama3.1, mistral"
+                  value={customModels}
+                  onChange={(e) => setCustomModels(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
           {/* API Key */}
           <div className="space-y-2">
             <Label htmlFor="apiKey">{selectedConfig.apiKeyLabel}</Label>
@@ -159,14 +280,13 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
                 value={apiKey}
                 onChange={(e) => {
                   setApiKey(e.target.value);
-                  setKeyTestResult(null);
-                  setKeyTestError(null);
+                  resetTestResult();
                 }}
               />
               <Button
                 variant="outline"
                 onClick={handleTestApiKey}
-                disabled={!apiKey.trim() || isTestingKey}
+                disabled={!hasCredentials || isTestingKey}
               >
                 {isTestingKey ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -180,7 +300,9 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
                 {keyTestResult ? (
                   <>
                     <CheckCircle className="h-4 w-4 text-green-500" />
-                    <span className="text-green-600">API key is valid and working</span>
+                    <span className="text-green-600">
+                      {isCustom ? 'Endpoint is reachable' : 'API key is valid and working'}
+                    </span>
                   </>
                 ) : (
                   <>
@@ -228,7 +350,7 @@ export function AddProviderDialog({ open, onOpenChange, onAdd, onTestApiKey }: A
           </Button>
           <Button
             onClick={handleAdd}
-            disabled={!apiKey.trim() || keyTestResult !== true || isAdding}
+            disabled={!hasCredentials || keyTestResult !== true || models.length === 0 || isAdding}
           >
             {isAdding ? (
               <>
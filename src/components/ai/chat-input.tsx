@@ -7,7 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent } from '@/components/ui/card';
 import { Send, Square, Settings } from 'lucide-react';
 import { AIProvider } from '@/types';
-import { getProviderConfig } from '@/lib/ai/providers';
+import { getProviderModels } from '@/lib/ai/providers';
+import { getCredentialDisplayName } from '@/lib/ai/credentials';
 
 interface ChatInputProps {
   onSendMessage: (content: string, options?: {
@@ -57,16 +58,17 @@ export function ChatInput({
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const selectedProvider = providers.find(p => p.id === selectedProviderId);
-  const providerConfig = selectedProvider ? getProviderConfig(selectedProvider.provider) : null;
-  const availableModels = providerConfig?.models || [];
+  const availableModels = selectedProvider
+    ? getProviderModels(selectedProvider.provider, selectedProvider.endpoint?.models)
+    : [];
 
   // Auto-select first model when provider changes
   const handleProviderChange = (providerId: string) => {
     setSelectedProviderId(providerId);
     const provider = providers.find(p => p.id === providerId);
     if (provider) {
-      const config = getProviderConfig(provider.provider);
-      setSelectedModel(config.models[0]?.id || '');
+      const models = getProviderModels(provider.provider, provider.endpoint?.models);
+      setSelectedModel(models[0]?.id || '');
     }
   };
 
@@ -118,7 +120,7 @@ export function ChatInput({
               <SelectContent>
                 {providers.filter(p => p.isActive).map((provider) => (
                   <SelectItem key={provider.id} value={provider.id}>
-                    {getProviderConfig(provider.provider).displayName}
+                    {getCredentialDisplayName(provider)}
                   </SelectItem>
                 ))}
               </SelectContent>
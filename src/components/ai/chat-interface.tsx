@@ -13,13 +13,11 @@ import { useAIProviders } from '@/hooks/use-ai-providers';
 
 interface ChatInterfaceProps {
   projectId: string;
-  systemPrompt?: string;
   className?: string;
 }
 
 export function ChatInterface({ 
   projectId, 
-  systemPrompt,
   className 
 }: ChatInterfaceProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -40,7 +38,6 @@ export function ChatInterface({
     abortStream,
   } = useChat({
     projectId,
-    systemPrompt,
   });
 
   // Auto-scroll to bottom when new messages arrive
@@ -57,7 +54,7 @@ export function ChatInterface({
       maxTokens?: number;
     }
   ) => {
-    await sendMessage(content, { ...options, systemPrompt });
+    await sendMessage(content, options);
   };
 
   const handleSendMessageStream = async (
@@ -69,7 +66,7 @@ export function ChatInterface({
       maxTokens?: number;
     }
   ) => {
-    await sendMessageStream(content, { ...options, systemPrompt });
+    await sendMessageStream(content, options);
   };
 
   const handleClearMessages = () => {
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { ChatMessage as ChatMessageType } from '@/types';
 import { cn } from '@/lib/utils';
+import { MarkdownContent } from './markdown-content';
 
 interface ChatMessageProps {
   message: ChatMessageType;
@@ -112,8 +113,12 @@ export function ChatMessage({
                 </div>
               </div>
             ) : (
-              <div className="whitespace-pre-wrap break-words">
-                {message.content}
+              <div className={cn('break-words', !isAssistant && 'whitespace-pre-wrap')}>
+                {isAssistant ? (
+                  <MarkdownContent content={message.content} />
+                ) : (
+                  message.content
+                )}
                 {isStreaming && (
                   <span className="inline-block w-2 h-4 bg-current animate-pulse ml-1" />
                 )}
@@ -26,13 +26,11 @@ import { useAIProviders } from '@/hooks/use-ai-providers';
 
 interface EnhancedChatInterfaceProps {
   projectId: string;
-  systemPrompt?: string;
   className?: string;
 }
 
 export function EnhancedChatInterface({ 
   projectId, 
-  systemPrompt,
   className 
 }: EnhancedChatInterfaceProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -62,7 +60,6 @@ export function EnhancedChatInterface({
     abortStream,
   } = useEnhancedChat({
     projectId,
-    systemPrompt,
   });
 
   // Auto-scroll to bottom when new messages arrive
@@ -98,7 +95,6 @@ export function EnhancedChatInterface({
 
     await sendMessage(content, { 
       ...options, 
-      systemPrompt,
       fallbackConfig,
       enableCaching: cachingEnabled,
     });
@@ -123,7 +119,6 @@ export function EnhancedChatInterface({
 
     await sendMessageStream(content, { 
       ...options, 
-      systemPrompt,
       fallbackConfig,
     });
   };
@@ -135,7 +130,7 @@ export function EnhancedChatInterface({
   };
 
   const handleClearCache = async () => {
-    if (confirm('Are you sure you want to clear the response cache?')) {
+    if (confirm('Are you sure you want to clear cached responses for this project?')) {
       await clearCache();
     }
   };
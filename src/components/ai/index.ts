@@ -6,4 +6,5 @@ export { UsageDashboard } from './usage-dashboard';
 export { ChatInterface } from './chat-interface';
 export { EnhancedChatInterface } from './enhanced-chat-interface';
 export { ChatMessage } from './chat-message';
-export { ChatInput } from './chat-input';
\ No newline at end of file
+export { ChatInput } from './chat-input';
+export { MarkdownContent } from './markdown-content';
\ No newline at end of file
@@ -0,0 +1,253 @@
+'use client';
+
+import { memo, useState, type ComponentProps, type ReactNode } from 'react';
+import Image from 'next/image';
+import ReactMarkdown, { type Components, type ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { Button } from '@/components/ui/button';
+import { Check, ChevronDown, ChevronUp, Copy, Image as ImageIcon } from 'lucide-react';
+import { isUnifiedDiff, parseUnifiedDiff, DiffLine } from '@/lib/utils/diff';
+import { cn } from '@/lib/utils';
+
+// Blocks longer than this start collapsed
+const COLLAPSE_AFTER_LINES = 24;
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+interface HastNode {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: { className?: unknown };
+  children?: HastNode[];
+}
+
+function textOf(node: HastNode): string {
+  if (node.type === 'text') return node.value || '';
+  return (node.children || []).map(textOf).join('');
+}
+
+// Stands in for the page's origin, so relative URLs resolve the same way on
+// the server and in the browser
+const RELATIVE_BASE = 'https://same-origin.invalid';
+
+/**
+ * Whether an image URL is a path on this app. Parsed rather than
+ * prefix-checked, since browsers read `//host` and `/\host` as other sites.
+ */
+function isSameOriginUrl(src: unknown): src is string {
+  if (typeof src !== 'string') return false;
+  try {
+    return new URL(src, RELATIVE_BASE).origin === RELATIVE_BASE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Render model output as markdown. Raw HTML in the source is dropped rather
+ * than injected, and link targets go through react-markdown's URL filter.
+ * Images are only loaded from relative paths on this app; any other image
+ * becomes a link, so output can't send data to another site just by being
+ * displayed.
+ */
+export const MarkdownContent = memo(function MarkdownContent({
+  content,
+  className
+}: MarkdownContentProps) {
+  return (
+    <div className={cn(
+      'space-y-3 break-words text-sm leading-relaxed',
+      '[&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-black/10 [&_:not(pre)>code]:px-1 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:font-mono [&_:not(pre)>code]:text-[0.85em] dark:[&_:not(pre)>code]:bg-white/10',
+      className
+    )}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { plainText: ['diff', 'patch'] }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+});
+
+const components: Components = {
+  pre: CodeBlock,
+  a: ({ node: _node, className, ...props }) => (
+    <a
+      {...props}
+      className={cn('underline underline-offset-2 hover:opacity-80', className)}
+      target="_blank"
+      rel="noopener noreferrer"
+    />
+  ),
+  h1: ({ node: _node, ...props }) => <h1 className="text-lg font-semibold" {...props} />,
+  h2: ({ node: _node, ...props }) => <h2 className="text-base font-semibold" {...props} />,
+  h3: ({ node: _node, ...props }) => <h3 className="font-semibold" {...props} />,
+  h4: ({ node: _node, ...props }) => <h4 className="font-medium" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="list-disc space-y-1 pl-5" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="list-decimal space-y-1 pl-5" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="border-l-2 border-muted-foreground/40 pl-3 text-muted-foreground" {...props} />
+  ),
+  hr: ({ node: _node, ...props }) => <hr className="border-border" {...props} />,
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-xs" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, className, ...props }) => (
+    <th className={cn('border px-2 py-1 text-left font-medium bg-black/5 dark:bg-white/5', className)} {...props} />
+  ),
+  td: ({ node: _node, className, ...props }) => (
+    <td className={cn('border px-2 py-1 align-top', className)} {...props} />
+  ),
+  // The image's size isn't known up front, so it keeps its natural size
+  img: ({ node: _node, alt, src, title }) => isSameOriginUrl(src) ? (
+    <Image
+      alt={alt || ''}
+      className="h-auto w-auto max-w-full rounded"
+      src={src}
+      title={title}
+      width={0}
+      height={0}
+      sizes="100vw"
+      unoptimized
+    />
+  ) : (
+    <a
+      href={typeof src === 'string' ? src : undefined}
+      className="inline-flex items-center gap-1 underline underline-offset-2 hover:opacity-80"
+      target="_blank"
+      rel="noopener noreferrer"
+      title={typeof src === 'string' ? src : undefined}
+    >
+      <ImageIcon className="h-3 w-3" />
+      {alt || 'Image'}
+    </a>
+  ),
+};
+
+/**
+ * A fenced code block: highlighted by rehype-highlight, or drawn line by line
+ * when it is a diff
+ */
+function CodeBlock({ node, children }: ComponentProps<'pre'> & ExtraProps) {
+  const code = (node?.children as HastNode[] | undefined)?.find(child => child.tagName === 'code');
+  const classNames = Array.isArray(code?.properties?.className) ? code.properties.className : [];
+  const language = classNames
+    .find((name): name is string => typeof name === 'string' && name.startsWith('language-'))
+    ?.slice('language-'.length);
+  const text = code ? textOf(code).replace(/\n$/, '') : '';
+  const lineCount = text.split('\n').length;
+
+  const isDiff = language === 'diff' || language === 'patch' || (!language && isUnifiedDiff(text));
+
+  return (
+    <CollapsibleBlock label={language || (isDiff ? 'diff' : 'code')} text={text} lineCount={lineCount}>
+      {isDiff ? (
+        <DiffLines lines={parseUnifiedDiff(text)} />
+      ) : (
+        <pre className="overflow-x-auto p-3 font-mono text-xs leading-5 [&>code]:bg-transparent">
+          {children}
+        </pre>
+      )}
+    </CollapsibleBlock>
+  );
+}
+
+interface CollapsibleBlockProps {
+  label: string;
+  text: string;
+  lineCount: number;
+  children: ReactNode;
+}
+
+function CollapsibleBlock({ label, text, lineCount, children }: CollapsibleBlockProps) {
+  const collapsible = lineCount > COLLAPSE_AFTER_LINES;
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="overflow-hidden rounded-md border bg-background text-foreground">
+      <div className="flex items-center justify-between border-b bg-muted/50 px-3 py-1 text-xs text-muted-foreground">
+        <span className="font-mono">{label}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={handleCopy}
+          title="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+
+      <div className={cn(collapsible && !expanded && 'max-h-[30rem] overflow-hidden')}>
+        {children}
+      </div>
+
+      {collapsible && (
+        <button
+          type="button"
+          className="flex w-full items-center justify-center gap-1 border-t py-1 text-xs text-muted-foreground hover:bg-muted/50"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? (
+            <>
+              <ChevronUp className="h-3 w-3" />
+              Show less
+            </>
+          ) : (
+            <>
+              <ChevronDown className="h-3 w-3" />
+              Show all {lineCount} lines
+            </>
+          )}
+        </button>
+      )}
+    </div>
+  );
+}
+
+const DIFF_LINE_STYLES: Record<DiffLine['type'], string> = {
+  file: 'font-semibold text-muted-foreground',
+  hunk: 'bg-blue-500/10 text-blue-700 dark:text-blue-300',
+  add: 'bg-green-500/10 text-green-800 dark:text-green-300',
+  remove: 'bg-red-500/10 text-red-800 dark:text-red-300',
+  context: '',
+  meta: 'text-muted-foreground',
+};
+
+function DiffLines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="overflow-x-auto py-2 font-mono text-xs leading-5">
+      <table className="min-w-full border-collapse">
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index} className={DIFF_LINE_STYLES[line.type]}>
+              <td className="select-none px-2 text-right text-muted-foreground/70">{line.oldLine ?? ''}</td>
+              <td className="select-none px-2 text-right text-muted-foreground/70">{line.newLine ?? ''}</td>
+              <td className="whitespace-pre pr-3">{line.content || ' '}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
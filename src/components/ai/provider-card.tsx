@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Trash2, Settings, Eye, EyeOff } from 'lucide-react';
+import { Trash2, Settings, Eye, EyeOff, Star } from 'lucide-react';
 import { AIProvider } from '@/types';
 import { getProviderConfig } from '@/lib/ai/providers';
 
@@ -14,10 +14,12 @@ interface ProviderCardProps {
   onToggle: (id: string, isActive: boolean) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
   onSettings: (provider: AIProvider) => void;
+  onSetDefault?: (id: string) => Promise<void>;
 }
 
-export function ProviderCard({ provider, onToggle, onDelete, onSettings }: ProviderCardProps) {
+export function ProviderCard({ provider, onToggle, onDelete, onSettings, onSetDefault }: ProviderCardProps) {
   const [isToggling, setIsToggling] = useState(false);
+  const [isSettingDefault, setIsSettingDefault] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showKey, setShowKey] = useState(false);
 
@@ -34,6 +36,19 @@ export function ProviderCard({ provider, onToggle, onDelete, onSettings }: Provi
     }
   };
 
+  const handleSetDefault = async () => {
+    if (!onSetDefault) return;
+
+    try {
+      setIsSettingDefault(true);
+      await onSetDefault(provider.id);
+    } catch (error) {
+      console.error('Error setting default provider:', error);
+    } finally {
+      setIsSettingDefault(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this AI provider? This action cannot be undone.')) {
       return;
@@ -56,7 +71,12 @@ export function ProviderCard({ provider, onToggle, onDelete, onSettings }: Provi
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <div>
           <CardTitle className="text-lg flex items-center gap-2">
-            {config.displayName}
+            {provider.label || config.displayName}
+            {provider.isDefault && (
+              <Badge variant="secondary" className="text-xs">
+                Default
+              </Badge>
+            )}
             {provider.isActive && (
               <Badge variant="default" className="text-xs">
                 Active
@@ -93,6 +113,18 @@ export function ProviderCard({ provider, onToggle, onDelete, onSettings }: Provi
             </div>
           </div>
 
+          {provider.endpoint && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">
+                Endpoint
+              </label>
+              <p className="text-sm mt-1 font-mono break-all">{provider.endpoint.baseUrl}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {provider.endpoint.models.length} model{provider.endpoint.models.length === 1 ? '' : 's'} configured
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="text-sm font-medium text-muted-foreground">
               Default Model
@@ -105,6 +137,17 @@ export function ProviderCard({ provider, onToggle, onDelete, onSettings }: Provi
               Created {new Date(provider.createdAt || '').toLocaleDateString()}
             </div>
             <div className="flex items-center gap-2">
+              {onSetDefault && !provider.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleSetDefault}
+                  disabled={isSettingDefault}
+                  title="Make default key"
+                >
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { Loader2 } from 'lucide-react';
 import { AIProvider } from '@/types';
-import { getProviderConfig } from '@/lib/ai/providers';
+import { getProviderConfig, getProviderModels } from '@/lib/ai/providers';
 
 interface ProviderSettingsDialogProps {
   provider: AIProvider | null;
@@ -31,11 +31,14 @@ export function ProviderSettingsDialog({
   const [isUpdating, setIsUpdating] = useState(false);
 
   const config = provider ? getProviderConfig(provider.provider) : null;
+  const models = provider ? getProviderModels(provider.provider, provider.endpoint?.models) : [];
 
   useEffect(() => {
     if (provider) {
       setSettings({
-        defaultModel: provider.settings.defaultModel || config?.models[0]?.id || '',
+        defaultModel: provider.settings.defaultModel
+          || getProviderModels(provider.provider, provider.endpoint?.models)[0]?.id
+          || '',
         maxTokens: provider.settings.maxTokens || 4000,
         temperature: provider.settings.temperature || 0.7,
       });
@@ -82,7 +85,7 @@ export function ProviderSettingsDialog({
                 <SelectValue placeholder="Select a model" />
               </SelectTrigger>
               <SelectContent>
-                {config.models.map((model) => (
+                {models.map((model) => (
                   <SelectItem key={model.id} value={model.id}>
                     <div className="flex flex-col">
                       <span className="font-medium">{model.name}</span>
@@ -131,7 +134,7 @@ export function ProviderSettingsDialog({
             <div className="p-3 bg-muted rounded-lg">
               <h4 className="font-medium text-sm mb-2">Selected Model Info</h4>
               {(() => {
-                const model = config.models.find(m => m.id === settings.defaultModel);
+                const model = models.find(m => m.id === settings.defaultModel);
                 if (!model) return null;
                 
                 return (
@@ -10,6 +10,8 @@ import { ProviderCard } from './provider-card';
 import { AddProviderDialog } from './add-provider-dialog';
 import { ProviderSettingsDialog } from './provider-settings-dialog';
 import { AIProvider } from '@/types';
+import { getProviderConfig } from '@/lib/ai/providers';
+import { groupCredentialsByProvider } from '@/lib/ai/credentials';
 
 export function ProvidersManager() {
   const {
@@ -29,6 +31,10 @@ export function ProvidersManager() {
     await updateProvider(id, { isActive });
   };
 
+  const handleSetDefaultProvider = async (id: string) => {
+    await updateProvider(id, { isDefault: true });
+  };
+
   const handleDeleteProvider = async (id: string) => {
     await deleteProvider(id);
   };
@@ -87,15 +93,28 @@ export function ProvidersManager() {
           </CardContent>
         </Card>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {providers.map((provider) => (
-            <ProviderCard
-              key={provider.id}
-              provider={provider}
-              onToggle={handleToggleProvider}
-              onDelete={handleDeleteProvider}
-              onSettings={handleSettingsProvider}
-            />
+        <div className="space-y-8">
+          {groupCredentialsByProvider(providers).map(({ provider, credentials }) => (
+            <section key={provider} className="space-y-3">
+              <div className="flex items-baseline gap-2">
+                <h3 className="text-lg font-semibold">{getProviderConfig(provider).displayName}</h3>
+                <span className="text-sm text-muted-foreground">
+                  {credentials.length} {credentials.length === 1 ? 'key' : 'keys'}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {credentials.map((credential) => (
+                  <ProviderCard
+                    key={credential.id}
+                    provider={credential}
+                    onToggle={handleToggleProvider}
+                    onDelete={handleDeleteProvider}
+                    onSettings={handleSettingsProvider}
+                    onSetDefault={credentials.length > 1 ? handleSetDefaultProvider : undefined}
+                  />
+                ))}
+              </div>
+            </section>
           ))}
         </div>
       )}
@@ -0,0 +1,53 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bot } from 'lucide-react'
+import type { AssistantProfile } from '@/types'
+
+interface AssistantProfileSelectorProps {
+  profiles: AssistantProfile[]
+  defaultProfileId: string | null
+  // Unset follows the project default
+  value?: string
+  onChange: (profileId?: string) => void
+  disabled?: boolean
+}
+
+const PROJECT_DEFAULT = '__default'
+
+/**
+ * Picks the assistant profile for the current conversation
+ */
+export function AssistantProfileSelector({
+  profiles,
+  defaultProfileId,
+  value,
+  onChange,
+  disabled
+}: AssistantProfileSelectorProps) {
+  const defaultProfile = profiles.find(profile => profile.id === defaultProfileId)
+  const selected = value && profiles.some(profile => profile.id === value) ? value : PROJECT_DEFAULT
+
+  return (
+    <Select
+      value={selected}
+      onValueChange={(next) => onChange(next === PROJECT_DEFAULT ? undefined : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-[180px]" title="Assistant profile">
+        <Bot className="h-4 w-4 mr-1 flex-shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PROJECT_DEFAULT}>
+          {defaultProfile ? `Default (${defaultProfile.name})` : 'Default assistant'}
+        </SelectItem>
+        {profiles.map(profile => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
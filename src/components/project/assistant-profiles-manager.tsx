@@ -0,0 +1,447 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertCircle, Bot, Download, Loader2, Pencil, Plus, Star, Trash2 } from 'lucide-react'
+import { useAIProviders } from '@/hooks/use-ai-providers'
+import { AssistantProfileDraft, useAssistantProfiles } from '@/hooks/use-assistant-profiles'
+import { getProviderModels } from '@/lib/ai/providers'
+import { AUTO_ROUTER_ID, getCredentialDisplayName, isAutoRouted, resolveCredential } from '@/lib/ai/credentials'
+import type { AssistantContextDefaults, AssistantProfile, AvailableAssistantProfile } from '@/types'
+
+interface AssistantProfilesManagerProps {
+  projectId: string
+}
+
+// Select value for "use whatever the chat input picks"
+const REQUEST_PROVIDER = '__request'
+
+const defaultContext: AssistantContextDefaults = {
+  enabled: true,
+  autoInjectKnowledge: true,
+  autoInjectCode: false,
+  autoInjectAssets: false,
+  maxContextItems: 5,
+  minRelevanceScore: 0.5
+}
+
+const emptyDraft: AssistantProfileDraft = {
+  name: '',
+  description: '',
+  systemPrompt: ''
+}
+
+/**
+ * Create, edit and share the project's assistant profiles. Changes are saved
+ * as they are made, independently of the surrounding settings dialog.
+ */
+export function AssistantProfilesManager({ projectId }: AssistantProfilesManagerProps) {
+  const {
+    profiles,
+    defaultProfileId,
+    loading,
+    error,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    setDefaultProfile,
+    copyProfile,
+    fetchAvailableProfiles
+  } = useAssistantProfiles(projectId)
+  const { providers } = useAIProviders()
+
+  // null while no editor is open; an id of '' is a new profile
+  const [editing, setEditing] = useState<{ id: string; draft: AssistantProfileDraft } | null>(null)
+  const [available, setAvailable] = useState<AvailableAssistantProfile[] | null>(null)
+  const [importId, setImportId] = useState<string>()
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const activeProviders = providers.filter(p => p.isActive)
+  const draft = editing?.draft
+  const draftProvider = draft?.providerId && !isAutoRouted(draft.providerId)
+    ? resolveCredential(activeProviders, draft.providerId)
+    : undefined
+  const availableModels = draftProvider
+    ? getProviderModels(draftProvider.provider, draftProvider.endpoint?.models)
+    : []
+
+  const updateDraft = (updates: Partial<AssistantProfileDraft>) => {
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...updates } })
+  }
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true)
+      setActionError(null)
+      await action()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = (profile: AssistantProfile) => {
+    const { name, description, systemPrompt, providerId, model, temperature, maxTokens, contextDefaults } = profile
+    setEditing({
+      id: profile.id,
+      draft: { name, description: description || '', systemPrompt, providerId, model, temperature, maxTokens, contextDefaults }
+    })
+  }
+
+  const handleSave = () => runAction(async () => {
+    if (!editing) return
+
+    if (editing.id) {
+      // Unset settings are sent as null so the saved profile drops them
+      await updateProfile(editing.id, {
+        name: editing.draft.name,
+        description: editing.draft.description || null,
+        systemPrompt: editing.draft.systemPrompt,
+        providerId: editing.draft.providerId ?? null,
+        model: editing.draft.model ?? null,
+        temperature: editing.draft.temperature ?? null,
+        maxTokens: editing.draft.maxTokens ?? null,
+        contextDefaults: editing.draft.contextDefaults ?? null
+      })
+    } else {
+      await createProfile({ ...editing.draft, description: editing.draft.description || undefined })
+    }
+    setEditing(null)
+  })
+
+  const handleDelete = (profile: AssistantProfile) => {
+    if (!confirm(`Delete the "${profile.name}" profile? Conversations using it will fall back to the project default.`)) {
+      return
+    }
+    runAction(() => deleteProfile(profile.id))
+  }
+
+  const handleShowImport = () => runAction(async () => {
+    setAvailable(await fetchAvailableProfiles())
+  })
+
+  const handleImport = () => runAction(async () => {
+    const source = available?.find(profile => profile.id === importId)
+    if (!source) return
+
+    await copyProfile(source.projectId, source.id)
+    setAvailable(null)
+    setImportId(undefined)
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Bot className="h-4 w-4" />
+          Assistant Profiles
+        </CardTitle>
+        <CardDescription>
+          Named assistants with their own system prompt, model and context settings. The default profile is used for conversations that don&apos;t pick one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || actionError) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError || error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : profiles.length === 0 && !editing ? (
+          <p className="text-sm text-muted-foreground">
+            No profiles yet. Chats use the project&apos;s built-in prompt.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-start justify-between gap-2 rounded-md border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{profile.name}</span>
+                    {profile.id === defaultProfileId && <Badge variant="secondary">Default</Badge>}
+                    {profile.model && <Badge variant="outline">{profile.model}</Badge>}
+                  </div>
+                  {profile.description && (
+                    <p className="text-xs text-muted-foreground">{profile.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => runAction(() => setDefaultProfile(profile.id, profile.id !== defaultProfileId))}
+                    title={profile.id === defaultProfileId ? 'Stop using as default' : 'Use as default'}
+                  >
+                    <Star className={profile.id === defaultProfileId ? 'h-4 w-4 fill-current' : 'h-4 w-4'} />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleEdit(profile)} title="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleDelete(profile)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {draft ? (
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Code reviewer"
+                maxLength={80}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-description">Description</Label>
+              <Input
+                id="profile-description"
+                value={draft.description || ''}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="What this assistant is for"
+                maxLength={300}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-prompt">System prompt</Label>
+              <Textarea
+                id="profile-prompt"
+                value={draft.systemPrompt}
+                onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+                placeholder="You are a meticulous reviewer for this project..."
+                className="min-h-[140px] font-mono text-xs"
+              />
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select
+                value={draft.providerId || REQUEST_PROVIDER}
+                onValueChange={(value) => updateDraft({
+                  providerId: value === REQUEST_PROVIDER ? undefined : value,
+                  model: undefined
+                })}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={REQUEST_PROVIDER}>Chosen in the chat</SelectItem>
+                  <SelectItem value={AUTO_ROUTER_ID}>Auto (best model)</SelectItem>
+                  {activeProviders.map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {getCredentialDisplayName(provider)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {availableModels.length > 0 && (
+                <Select value={draft.model} onValueChange={(value) => updateDraft({ model: value })}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Provider's default model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableModels.map(model => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Set temperature{draft.temperature !== undefined && `: ${draft.temperature}`}</Label>
+              <Switch
+                checked={draft.temperature !== undefined}
+                onCheckedChange={(checked) => updateDraft({ temperature: checked ? 0.7 : undefined })}
+              />
+            </div>
+            {draft.temperature !== undefined && (
+              <Slider
+                value={[draft.temperature]}
+                onValueChange={([value]) => updateDraft({ temperature: value })}
+                max={2}
+                min={0}
+                step={0.1}
+              />
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label>Set max tokens{draft.maxTokens !== undefined && `: ${draft.maxTokens}`}</Label>
+              <Switch
+                checked={draft.maxTokens !== undefined}
+                onCheckedChange={(checked) => updateDraft({ maxTokens: checked ? 4000 : undefined })}
+              />
+            </div>
+            {draft.maxTokens !== undefined && (
+              <Slider
+                value={[draft.maxTokens]}
+                onValueChange={([value]) => updateDraft({ maxTokens: value })}
+                max={8000}
+                min={100}
+                step={100}
+              />
+            )}
+
+            <Separator />
+
+            <ContextDefaultsEditor
+              value={draft.contextDefaults}
+              onChange={(contextDefaults) => updateDraft({ contextDefaults })}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim() || !draft.systemPrompt.trim()}
+              >
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                {editing.id ? 'Save Profile' : 'Create Profile'}
+              </Button>
+            </div>
+          </div>
+        ) : available ? (
+          <div className="flex items-center gap-2 rounded-md border p-3">
+            {available.length === 0 ? (
+              <p className="flex-1 text-sm text-muted-foreground">Your other projects have no profiles.</p>
+            ) : (
+              <Select value={importId} onValueChange={setImportId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a profile to copy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.projectName} · {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button size="sm" onClick={handleImport} disabled={isSaving || !importId}>
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAvailable(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditing({ id: '', draft: emptyDraft })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Profile
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleShowImport} disabled={isSaving}>
+              <Download className="h-4 w-4 mr-2" />
+              Copy from Another Project
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ContextDefaultsEditorProps {
+  value?: AssistantContextDefaults
+  onChange: (value?: AssistantContextDefaults) => void
+}
+
+function ContextDefaultsEditor({ value, onChange }: ContextDefaultsEditorProps) {
+  const toggles: { key: 'autoInjectKnowledge' | 'autoInjectCode' | 'autoInjectAssets'; label: string }[] = [
+    { key: 'autoInjectKnowledge', label: 'Auto-inject knowledge base' },
+    { key: 'autoInjectCode', label: 'Auto-inject code files' },
+    { key: 'autoInjectAssets', label: 'Auto-inject assets' }
+  ]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Own context injection</Label>
+          <p className="text-xs text-muted-foreground">
+            Otherwise the project&apos;s context settings apply
+          </p>
+        </div>
+        <Switch
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? defaultContext : undefined)}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center justify-between">
+            <Label>Inject context</Label>
+            <Switch checked={value.enabled} onCheckedChange={(enabled) => onChange({ ...value, enabled })} />
+          </div>
+
+          {value.enabled && (
+            <>
+              {toggles.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between">
+                  <Label>{label}</Label>
+                  <Switch checked={value[key]} onCheckedChange={(checked) => onChange({ ...value, [key]: checked })} />
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Max context items: {value.maxContextItems}</Label>
+                <Slider
+                  value={[value.maxContextItems]}
+                  onValueChange={([maxContextItems]) => onChange({ ...value, maxContextItems })}
+                  max={20}
+                  min={1}
+                  step={1}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Min relevance score: {value.minRelevanceScore}</Label>
+                <Slider
+                  value={[value.minRelevanceScore]}
+                  onValueChange={([minRelevanceScore]) => onChange({ ...value, minRelevanceScore })}
+                  max={1}
+                  min={0}
+                  step={0.1}
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
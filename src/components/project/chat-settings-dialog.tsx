@@ -11,7 +11,11 @@ import { Separator } from '@/components/ui/separator'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Loader2, Settings, Brain, Zap } from 'lucide-react'
 import { useAIProviders } from '@/hooks/use-ai-providers'
+import { getProviderModels } from '@/lib/ai/providers'
+import { getCredentialDisplayName, resolveCredential } from '@/lib/ai/credentials'
+import { DEFAULT_SEMANTIC_CACHE_SETTINGS, getSemanticCacheSettings } from '@/lib/ai/semantic-cache'
 import { Project } from '@/hooks/use-projects'
+import { AssistantProfilesManager } from './assistant-profiles-manager'
 
 interface ChatSettingsDialogProps {
   open: boolean
@@ -28,6 +32,10 @@ interface ChatSettings {
   systemPrompt?: string
   autoSave: boolean
   streamingEnabled: boolean
+  semanticCache: {
+    enabled: boolean
+    similarityThreshold: number
+  }
   contextInjection: {
     enabled: boolean
     autoInjectKnowledge: boolean
@@ -43,6 +51,7 @@ const defaultSettings: ChatSettings = {
   maxTokens: 4000,
   autoSave: true,
   streamingEnabled: true,
+  semanticCache: DEFAULT_SEMANTIC_CACHE_SETTINGS,
   contextInjection: {
     enabled: true,
     autoInjectKnowledge: true,
@@ -77,6 +86,7 @@ export function ChatSettingsDialog({
         systemPrompt: projectSettings.systemPrompt,
         autoSave: projectSettings.autoSave ?? defaultSettings.autoSave,
         streamingEnabled: projectSettings.streamingEnabled ?? defaultSettings.streamingEnabled,
+        semanticCache: getSemanticCacheSettings(projectSettings),
         contextInjection: {
           enabled: projectSettings.context_settings?.enabled ?? defaultSettings.contextInjection.enabled,
           autoInjectKnowledge: projectSettings.context_settings?.auto_inject_knowledge ?? defaultSettings.contextInjection.autoInjectKnowledge,
@@ -89,8 +99,13 @@ export function ChatSettingsDialog({
     }
   }, [project.settings])
 
-  const selectedProvider = activeProviders.find(p => p.id === settings.defaultProvider)
-  const availableModels = selectedProvider?.settings?.models || []
+  // Older projects store a provider type; resolve it to that provider's default key
+  const selectedProvider = settings.defaultProvider
+    ? resolveCredential(activeProviders, settings.defaultProvider)
+    : undefined
+  const availableModels = selectedProvider
+    ? getProviderModels(selectedProvider.provider, selectedProvider.endpoint?.models)
+    : []
 
   const handleSave = async () => {
     try {
@@ -112,6 +127,10 @@ export function ChatSettingsDialog({
             systemPrompt: settings.systemPrompt,
             autoSave: settings.autoSave,
             streamingEnabled: settings.streamingEnabled,
+            semantic_cache: {
+              enabled: settings.semanticCache.enabled,
+              similarity_threshold: settings.semanticCache.similarityThreshold
+            },
             context_settings: {
               enabled: settings.contextInjection.enabled,
               auto_inject_knowledge: settings.contextInjection.autoInjectKnowledge,
@@ -177,7 +196,7 @@ export function ChatSettingsDialog({
                   <div className="space-y-2">
                     <Label>Default Provider</Label>
                     <Select 
-                      value={settings.defaultProvider} 
+                      value={selectedProvider?.id} 
                       onValueChange={(value) => setSettings(prev => ({ 
                         ...prev, 
                         defaultProvider: value,
@@ -190,7 +209,7 @@ export function ChatSettingsDialog({
                       <SelectContent>
                         {activeProviders.map((provider) => (
                           <SelectItem key={provider.id} value={provider.id}>
-                            {provider.provider.charAt(0).toUpperCase() + provider.provider.slice(1)}
+                            {getCredentialDisplayName(provider)}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -286,6 +305,43 @@ export function ChatSettingsDialog({
                   onCheckedChange={(checked) => setSettings(prev => ({ ...prev, streamingEnabled: checked }))}
                 />
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Semantic response cache</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Reuse answers to similar questions you asked earlier in this project.
+                    Needs an embedding model configured on the server.
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.semanticCache.enabled}
+                  onCheckedChange={(checked) => setSettings(prev => ({ 
+                    ...prev, 
+                    semanticCache: { ...prev.semanticCache, enabled: checked }
+                  }))}
+                />
+              </div>
+
+              {settings.semanticCache.enabled && (
+                <div className="space-y-2">
+                  <Label>Similarity threshold: {settings.semanticCache.similarityThreshold.toFixed(2)}</Label>
+                  <Slider
+                    value={[settings.semanticCache.similarityThreshold]}
+                    onValueChange={([value]) => setSettings(prev => ({ 
+                      ...prev, 
+                      semanticCache: { ...prev.semanticCache, similarityThreshold: value }
+                    }))}
+                    max={1}
+                    min={0.5}
+                    step={0.05}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Higher values only reuse answers to near-identical questions
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -405,6 +461,8 @@ export function ChatSettingsDialog({
               )}
             </CardContent>
           </Card>
+
+          <AssistantProfilesManager projectId={project.id} />
         </div>
 
         <DialogFooter>
@@ -0,0 +1,524 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Code,
+  FileArchive,
+  FileCode,
+  Folder,
+  FolderOpen,
+  Github,
+  Loader2,
+  Search
+} from 'lucide-react'
+import { CodeImportOptions, IndexedFileContent, useCodeIndex } from '@/hooks/use-code-index'
+import type { CodeIndexFile, CodeIndexStatus } from '@/types'
+
+interface CodeIntegrationProps {
+  projectId: string
+  githubRepo: string | null
+  localPath: string | null
+}
+
+const ARCHIVE_ACCEPT = '.zip,.tar,.tar.gz,.tgz'
+
+const SOURCE_LABELS: Record<CodeIndexStatus['source'], string> = {
+  github: 'GitHub',
+  archive: 'Uploaded archive',
+  local: 'Local path'
+}
+
+const SKIP_REASONS: Record<string, string> = {
+  ignored: 'ignored by .gitignore or a generated directory',
+  excluded: 'matched an exclude pattern',
+  binary: 'binary',
+  too_large: 'over the file size limit',
+  limit: 'over the file count limit',
+  unreadable: 'could not be read'
+}
+
+interface TreeNode {
+  name: string
+  path: string
+  children: TreeNode[]
+  file?: CodeIndexFile
+}
+
+// Directories first, then files, each alphabetically
+function buildFileTree(files: CodeIndexFile[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [] }
+
+  for (const file of files) {
+    const parts = file.path.split('/')
+    let node = root
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/')
+      const isFile = index === parts.length - 1
+      let child = node.children.find(c => c.name === part && !!c.file === isFile)
+      if (!child) {
+        child = { name: part, path, children: [], file: isFile ? file : undefined }
+        node.children.push(child)
+      }
+      node = child
+    })
+  }
+
+  const sort = (nodes: TreeNode[]): TreeNode[] => nodes
+    .sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name))
+    .map(node => ({ ...node, children: sort(node.children) }))
+
+  return sort(root.children)
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`
+}
+
+function IndexStatusBadge({ status }: { status: CodeIndexStatus['status'] }) {
+  switch (status) {
+    case 'indexing':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Indexing
+        </Badge>
+      )
+    case 'ready':
+      return <Badge variant="outline">Ready</Badge>
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>
+  }
+}
+
+function FileTree({
+  nodes,
+  depth,
+  expanded,
+  selectedPath,
+  onToggle,
+  onSelect
+}: {
+  nodes: TreeNode[]
+  depth: number
+  expanded: Set<string>
+  selectedPath?: string
+  onToggle: (path: string) => void
+  onSelect: (path: string) => void
+}) {
+  return (
+    <>
+      {nodes.map(node => {
+        const isOpen = expanded.has(node.path)
+        const indent = { paddingLeft: `${depth * 16 + 8}px` }
+
+        if (node.file) {
+          return (
+            <button
+              key={node.path}
+              type="button"
+              style={indent}
+              onClick={() => onSelect(node.path)}
+              className={`flex w-full items-center gap-2 rounded py-1 pr-2 text-left text-sm hover:bg-muted ${
+                selectedPath === node.path ? 'bg-muted font-medium' : ''
+              }`}
+            >
+              <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate">{node.name}</span>
+            </button>
+          )
+        }
+
+        return (
+          <div key={node.path}>
+            <button
+              type="button"
+              style={indent}
+              onClick={() => onToggle(node.path)}
+              className="flex w-full items-center gap-1 rounded py-1 pr-2 text-left text-sm hover:bg-muted"
+            >
+              {isOpen ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+              {isOpen
+                ? <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+                : <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />}
+              <span className="truncate">{node.name}</span>
+            </button>
+            {isOpen && (
+              <FileTree
+                nodes={node.children}
+                depth={depth + 1}
+                expanded={expanded}
+                selectedPath={selectedPath}
+                onToggle={onToggle}
+                onSelect={onSelect}
+              />
+            )}
+          </div>
+        )
+      })}
+    </>
+  )
+}
+
+/**
+ * Importing the project's code, from GitHub, an uploaded archive or a path on
+ * the server, and browsing what was indexed for chat context
+ */
+export function CodeIntegration({ projectId, githubRepo, localPath }: CodeIntegrationProps) {
+  const { index, loading, error, importGitHub, importArchive, importLocalPath, getFile } = useCodeIndex(projectId)
+
+  const [source, setSource] = useState<CodeIndexStatus['source']>(githubRepo ? 'github' : 'archive')
+  const [branch, setBranch] = useState('')
+  const [archive, setArchive] = useState<File | null>(null)
+  const [excludeInput, setExcludeInput] = useState('')
+  const [maxFileSizeKb, setMaxFileSizeKb] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const [filter, setFilter] = useState('')
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [selectedFile, setSelectedFile] = useState<IndexedFileContent | null>(null)
+  const [fileLoading, setFileLoading] = useState(false)
+
+  // Start from the settings the current index was built with
+  useEffect(() => {
+    if (!index) return
+    setExcludeInput(index.excludePatterns.join('\n'))
+    setMaxFileSizeKb(index.maxFileSize ? String(Math.round(index.maxFileSize / 1024)) : '')
+  }, [index])
+
+  const tree = useMemo(() => buildFileTree(index?.files || []), [index])
+  const filteredFiles = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    return query ? (index?.files || []).filter(file => file.path.toLowerCase().includes(query)) : []
+  }, [index, filter])
+
+  const handleImport = async () => {
+    const options: CodeImportOptions = {
+      excludePatterns: excludeInput.split('\n').map(p => p.trim()).filter(Boolean),
+      maxFileSize: maxFileSizeKb ? Number(maxFileSizeKb) * 1024 : undefined
+    }
+
+    try {
+      setImporting(true)
+      setActionError(null)
+      setSelectedFile(null)
+
+      let result
+      if (source === 'github') {
+        result = await importGitHub(branch.trim() || undefined, options)
+      } else if (source === 'archive') {
+        if (!archive) return
+        result = await importArchive(archive, options)
+        setArchive(null)
+      } else {
+        result = await importLocalPath(options)
+      }
+
+      if (result.status === 'failed') {
+        setActionError(result.error || 'Indexing failed')
+      }
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleSelect = async (path: string) => {
+    try {
+      setFileLoading(true)
+      setActionError(null)
+      setSelectedFile(await getFile(path))
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to load file')
+    } finally {
+      setFileLoading(false)
+    }
+  }
+
+  const toggleDirectory = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const skippedByReason = (index?.skipped || []).reduce((acc, file) => {
+    acc[file.reason] = (acc[file.reason] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+
+  const selectedFileInfo = index?.files.find(file => file.path === selectedFile?.path)
+
+  const canImport = !importing && (source !== 'archive' || !!archive) && (source !== 'github' || !!githubRepo) && (source !== 'local' || !!localPath)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Code Integration</h2>
+        <p className="text-muted-foreground">
+          Code the assistant can draw on when answering questions about this project
+        </p>
+      </div>
+
+      {(actionError || error) && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{actionError || error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Code</CardTitle>
+            <CardDescription>Importing replaces the code indexed so far</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={source} onValueChange={value => setSource(value as CodeIndexStatus['source'])}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="github"><Github className="h-4 w-4 mr-2" />GitHub</TabsTrigger>
+                <TabsTrigger value="archive"><FileArchive className="h-4 w-4 mr-2" />Archive</TabsTrigger>
+                <TabsTrigger value="local"><Folder className="h-4 w-4 mr-2" />Local Path</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="github" className="space-y-2 pt-2">
+                {githubRepo ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">Repository: <span className="font-mono">{githubRepo}</span></p>
+                    <Label htmlFor="code-branch">Branch</Label>
+                    <Input
+                      id="code-branch"
+                      value={branch}
+                      onChange={(e) => setBranch(e.target.value)}
+                      placeholder="Default branch"
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Link a GitHub repository in the project settings to index it.
+                  </p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="archive" className="space-y-2 pt-2">
+                <Label htmlFor="code-archive">Zip or tarball</Label>
+                <Input
+                  id="code-archive"
+                  type="file"
+                  accept={ARCHIVE_ACCEPT}
+                  onChange={(e) => setArchive(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-muted-foreground">Up to 50MB; .zip, .tar, .tar.gz or .tgz</p>
+              </TabsContent>
+
+              <TabsContent value="local" className="space-y-2 pt-2">
+                <Label htmlFor="code-path">Path on the server</Label>
+                <Input
+                  id="code-path"
+                  value={localPath || ''}
+                  placeholder="Not configured"
+                  className="font-mono"
+                  readOnly
+                />
+                <p className="text-xs text-muted-foreground">
+                  The project&apos;s local path, set by its owner in the project settings. Only
+                  available on self-hosted servers with a code import directory configured.
+                </p>
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-2">
+              <Label htmlFor="code-exclude">Exclude patterns</Label>
+              <Textarea
+                id="code-exclude"
+                value={excludeInput}
+                onChange={(e) => setExcludeInput(e.target.value)}
+                placeholder={'*.test.ts\nfixtures/\ndocs/**/*.md'}
+                rows={4}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                One per line, in .gitignore syntax. The code&apos;s own .gitignore files are applied as well.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="code-max-size">Maximum file size (KB)</Label>
+              <Input
+                id="code-max-size"
+                type="number"
+                min={1}
+                max={1024}
+                value={maxFileSizeKb}
+                onChange={(e) => setMaxFileSizeKb(e.target.value)}
+                placeholder="256"
+              />
+            </div>
+
+            <Button onClick={handleImport} disabled={!canImport} className="w-full">
+              {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Code className="h-4 w-4 mr-2" />}
+              {importing ? 'Indexing...' : 'Import and Index'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Current Index</CardTitle>
+            <CardDescription>What chat context is drawn from</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !index ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No code has been imported yet.</p>
+            ) : (
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{SOURCE_LABELS[index.source]}</span>
+                  <IndexStatusBadge status={index.status} />
+                </div>
+                {index.repository && <p className="font-mono text-muted-foreground break-all">{index.repository}</p>}
+                {index.ref && (
+                  <p className="text-muted-foreground">
+                    {index.ref}{index.commitSha && <span className="font-mono"> @ {index.commitSha.slice(0, 7)}</span>}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{index.fileCount} files</Badge>
+                  <Badge variant="secondary">{index.chunkCount} chunks</Badge>
+                  {index.skippedCount > 0 && <Badge variant="outline">{index.skippedCount} skipped</Badge>}
+                </div>
+                {Object.keys(skippedByReason).length > 0 && (
+                  <ul className="text-xs text-muted-foreground space-y-1">
+                    {Object.entries(skippedByReason).map(([reason, count]) => (
+                      <li key={reason}>{count} {SKIP_REASONS[reason] || reason}</li>
+                    ))}
+                    {index.skipped.length < index.skippedCount && <li>(of the first {index.skipped.length} skipped)</li>}
+                  </ul>
+                )}
+                {index.status === 'failed' && index.error && (
+                  <p className="text-destructive">{index.error}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {index.completedAt
+                    ? `Finished ${formatDistanceToNow(new Date(index.completedAt), { addSuffix: true })}`
+                    : `Started ${formatDistanceToNow(new Date(index.startedAt), { addSuffix: true })}`}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {index && index.files.length > 0 && (
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Files</CardTitle>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter files..."
+                  className="pl-8"
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[480px]">
+                {filter.trim() ? (
+                  filteredFiles.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">No matching files</p>
+                  ) : (
+                    filteredFiles.map(file => (
+                      <button
+                        key={file.path}
+                        type="button"
+                        onClick={() => handleSelect(file.path)}
+                        className={`flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+                          selectedFile?.path === file.path ? 'bg-muted font-medium' : ''
+                        }`}
+                      >
+                        <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{file.path}</span>
+                      </button>
+                    ))
+                  )
+                ) : (
+                  <FileTree
+                    nodes={tree}
+                    depth={0}
+                    expanded={expanded}
+                    selectedPath={selectedFile?.path}
+                    onToggle={toggleDirectory}
+                    onSelect={handleSelect}
+                  />
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          <Card className="min-w-0">
+            {fileLoading ? (
+              <CardContent className="flex justify-center py-16">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </CardContent>
+            ) : selectedFile ? (
+              <>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="font-mono text-sm break-all">{selectedFile.path}</CardTitle>
+                    <div className="flex shrink-0 gap-2">
+                      <Badge variant="secondary">{selectedFile.language}</Badge>
+                      {selectedFileInfo && <Badge variant="outline">{formatSize(selectedFileInfo.size)}</Badge>}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-[480px] rounded border bg-muted/30">
+                    <pre className="p-3 text-xs leading-5">
+                      {selectedFile.content.split('\n').map((line, i) => (
+                        <div key={i} className="flex">
+                          <span className="w-12 shrink-0 select-none pr-3 text-right text-muted-foreground">{i + 1}</span>
+                          <code className="whitespace-pre">{line}</code>
+                        </div>
+                      ))}
+                    </pre>
+                  </ScrollArea>
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="py-16 text-center text-sm text-muted-foreground">
+                Select a file to view its indexed content
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
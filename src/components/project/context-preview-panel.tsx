@@ -39,6 +39,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import type { ContextItem, ContextInjectionOptions } from '@/lib/context/context-injection-service'
+import { MarkdownContent } from '@/components/ai/markdown-content'
 import { cn } from '@/lib/utils'
 
 interface ContextPreviewPanelProps {
@@ -405,9 +406,11 @@ export function ContextPreviewPanel({
           </div>
         ) : previewMode === 'formatted' ? (
           <ScrollArea className="h-full p-4">
-            <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-4 rounded-lg">
-              {formattedPreview || 'Generating preview...'}
-            </pre>
+            {formattedPreview ? (
+              <MarkdownContent content={formattedPreview} className="bg-muted p-4 rounded-lg" />
+            ) : (
+              <p className="text-sm text-muted-foreground">Generating preview...</p>
+            )}
           </ScrollArea>
         ) : (
           <ScrollArea className="h-full p-4">
@@ -23,7 +23,8 @@ import {
   GitBranch,
   Filter,
   SortAsc,
-  SortDesc
+  SortDesc,
+  ScrollText
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -39,6 +40,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { ConversationSummaryDialog } from './conversation-summary-dialog'
 import { useConversations } from '@/hooks/use-conversations'
 import { Project } from '@/hooks/use-projects'
 import type { ConversationSummary } from '@/types'
@@ -365,141 +367,158 @@ function ConversationItem({
   onAction
 }: ConversationItemProps) {
   const [showActions, setShowActions] = useState(false)
+  const [showSummary, setShowSummary] = useState(false)
 
   return (
-    <div
-      className={cn(
-        'group relative p-3 rounded-lg cursor-pointer transition-colors',
-        isActive ? 'bg-primary/10 border border-primary/20' : 'hover:bg-muted/50',
-        conversation.isArchived && 'opacity-60'
-      )}
-      onClick={onSelect}
-      onMouseEnter={() => setShowActions(true)}
-      onMouseLeave={() => setShowActions(false)}
-    >
-      {/* Header */}
-      <div className="flex items-start justify-between mb-2">
-        <div className="flex items-center gap-2 min-w-0 flex-1">
-          {conversation.isPinned && (
-            <Pin className="h-3 w-3 text-primary flex-shrink-0" />
+    <>
+      <div
+        className={cn(
+          'group relative p-3 rounded-lg cursor-pointer transition-colors',
+          isActive ? 'bg-primary/10 border border-primary/20' : 'hover:bg-muted/50',
+          conversation.isArchived && 'opacity-60'
+        )}
+        onClick={onSelect}
+        onMouseEnter={() => setShowActions(true)}
+        onMouseLeave={() => setShowActions(false)}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2 min-w-0 flex-1">
+            {conversation.isPinned && (
+              <Pin className="h-3 w-3 text-primary flex-shrink-0" />
+            )}
+            <h4 className="font-medium text-sm truncate">
+              {conversation.title}
+            </h4>
+          </div>
+          
+          {showActions && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation()
+                  onAction('pin', conversation)
+                }}>
+                  <Pin className="h-4 w-4 mr-2" />
+                  {conversation.isPinned ? 'Unpin' : 'Pin'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation()
+                  onAction('archive', conversation)
+                }}>
+                  <Archive className="h-4 w-4 mr-2" />
+                  {conversation.isArchived ? 'Unarchive' : 'Archive'}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation()
+                  onAction('export', conversation)
+                }}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation()
+                  setShowSummary(true)
+                }}>
+                  <ScrollText className="h-4 w-4 mr-2" />
+                  Memory
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation()
+                  // Would need to implement branch point selection
+                  // onAction('branch', conversation, branchPointMessageId)
+                }}>
+                  <GitBranch className="h-4 w-4 mr-2" />
+                  Branch
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem 
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onAction('delete', conversation)
+                  }}
+                  className="text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
-          <h4 className="font-medium text-sm truncate">
-            {conversation.title}
-          </h4>
         </div>
-        
-        {showActions && (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
-                onClick={(e) => e.stopPropagation()}
-              >
-                <MoreHorizontal className="h-3 w-3" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={(e) => {
-                e.stopPropagation()
-                onAction('pin', conversation)
-              }}>
-                <Pin className="h-4 w-4 mr-2" />
-                {conversation.isPinned ? 'Unpin' : 'Pin'}
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={(e) => {
-                e.stopPropagation()
-                onAction('archive', conversation)
-              }}>
-                <Archive className="h-4 w-4 mr-2" />
-                {conversation.isArchived ? 'Unarchive' : 'Archive'}
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={(e) => {
-                e.stopPropagation()
-                onAction('export', conversation)
-              }}>
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={(e) => {
-                e.stopPropagation()
-                // Would need to implement branch point selection
-                // onAction('branch', conversation, branchPointMessageId)
-              }}>
-                <GitBranch className="h-4 w-4 mr-2" />
-                Branch
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem 
-                onClick={(e) => {
-                  e.stopPropagation()
-                  onAction('delete', conversation)
-                }}
-                className="text-destructive"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+
+        {/* Description */}
+        {conversation.description && (
+          <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+            {conversation.description}
+          </p>
         )}
-      </div>
 
-      {/* Description */}
-      {conversation.description && (
-        <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-          {conversation.description}
-        </p>
-      )}
+        {/* Latest Message Preview */}
+        {conversation.latestMessage && (
+          <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+            {conversation.latestMessageRole === 'user' ? 'You: ' : 'AI: '}
+            {conversation.latestMessage}
+          </p>
+        )}
 
-      {/* Latest Message Preview */}
-      {conversation.latestMessage && (
-        <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-          {conversation.latestMessageRole === 'user' ? 'You: ' : 'AI: '}
-          {conversation.latestMessage}
-        </p>
-      )}
+        {/* Tags */}
+        {conversation.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {conversation.tags.slice(0, 3).map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs px-1 py-0">
+                {tag}
+              </Badge>
+            ))}
+            {conversation.tags.length > 3 && (
+              <Badge variant="outline" className="text-xs px-1 py-0">
+                +{conversation.tags.length - 3}
+              </Badge>
+            )}
+          </div>
+        )}
 
-      {/* Tags */}
-      {conversation.tags.length > 0 && (
-        <div className="flex flex-wrap gap-1 mb-2">
-          {conversation.tags.slice(0, 3).map(tag => (
-            <Badge key={tag} variant="outline" className="text-xs px-1 py-0">
-              {tag}
-            </Badge>
-          ))}
-          {conversation.tags.length > 3 && (
-            <Badge variant="outline" className="text-xs px-1 py-0">
-              +{conversation.tags.length - 3}
-            </Badge>
-          )}
+        {/* Footer */}
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <Calendar className="h-3 w-3" />
+            <span>
+              {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span>{conversation.messageCount} msgs</span>
+            {conversation.totalTokens > 0 && (
+              <span>{conversation.totalTokens.toLocaleString()} tokens</span>
+            )}
+          </div>
         </div>
-      )}
 
-      {/* Footer */}
-      <div className="flex items-center justify-between text-xs text-muted-foreground">
-        <div className="flex items-center gap-2">
-          <Calendar className="h-3 w-3" />
-          <span>
-            {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
-          </span>
-        </div>
-        <div className="flex items-center gap-2">
-          <span>{conversation.messageCount} msgs</span>
-          {conversation.totalTokens > 0 && (
-            <span>{conversation.totalTokens.toLocaleString()} tokens</span>
-          )}
-        </div>
+        {/* Branch indicator */}
+        {conversation.parentConversationId && (
+          <div className="absolute -left-2 top-1/2 transform -translate-y-1/2">
+            <div className="w-1 h-8 bg-primary/30 rounded-full" />
+          </div>
+        )}
       </div>
 
-      {/* Branch indicator */}
-      {conversation.parentConversationId && (
-        <div className="absolute -left-2 top-1/2 transform -translate-y-1/2">
-          <div className="w-1 h-8 bg-primary/30 rounded-full" />
-        </div>
-      )}
-    </div>
+      <ConversationSummaryDialog
+        conversationId={conversation.id}
+        conversationTitle={conversation.title}
+        open={showSummary}
+        onOpenChange={setShowSummary}
+      />
+    </>
   )
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, ScrollText } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import type { RollingSummary } from '@/types'
+
+interface ConversationSummaryDialogProps {
+  conversationId: string
+  conversationTitle: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * View and correct the running summary that stands in for a conversation's
+ * older turns when it is sent to the model
+ */
+export function ConversationSummaryDialog({
+  conversationId,
+  conversationTitle,
+  open,
+  onOpenChange
+}: ConversationSummaryDialogProps) {
+  const [summary, setSummary] = useState<RollingSummary | null>(null)
+  const [draft, setDraft] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    const loadSummary = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const response = await fetch(`/api/conversations/${conversationId}/summary`)
+        const data = await response.json()
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load summary')
+        }
+
+        setSummary(data.data.summary)
+        setDraft(data.data.summary?.content || '')
+      } catch (err) {
+        console.error('Error loading conversation summary:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load summary')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSummary()
+  }, [open, conversationId])
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/conversations/${conversationId}/summary`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: draft }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to save summary')
+      }
+
+      setSummary(data.data.summary)
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Error saving conversation summary:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save summary')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Conversation Memory
+          </DialogTitle>
+          <DialogDescription>
+            Long chats send this summary in place of their older messages. Edit it to correct
+            or add what the assistant should remember about &ldquo;{conversationTitle}&rdquo;.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="No summary yet. One is written automatically once the conversation gets long, or you can add notes here."
+              className="min-h-[240px] font-mono text-xs"
+            />
+            {summary && (
+              <p className="text-xs text-muted-foreground">
+                Covers {summary.coveredMessages} earlier {summary.coveredMessages === 1 ? 'message' : 'messages'}
+                {' · '}updated {formatDistanceToNow(new Date(summary.updatedAt), { addSuffix: true })}
+                {summary.model && ` by ${summary.model}`}
+                {summary.editedAt && ' · edited by you'}
+              </p>
+            )}
+            {error && (
+              <p className="text-xs text-destructive">{error}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Saving...
+              </>
+            ) : (
+              'Save Summary'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
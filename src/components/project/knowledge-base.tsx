@@ -0,0 +1,545 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, BookOpen, FileText, Loader2, MessageSquare, Pencil, Plus, RefreshCw, Search, Trash2, Upload, X } from 'lucide-react'
+import { KnowledgeDraft, useKnowledge } from '@/hooks/use-knowledge'
+import type { KnowledgeDocument, KnowledgeUpload } from '@/types'
+
+interface KnowledgeBaseProps {
+  projectId: string
+}
+
+const CATEGORIES: { value: KnowledgeDocument['category']; label: string }[] = [
+  { value: 'documentation', label: 'Documentation' },
+  { value: 'research', label: 'Research' },
+  { value: 'assets', label: 'Assets' },
+  { value: 'code', label: 'Code' }
+]
+
+const ALL_CATEGORIES = '__all'
+
+const emptyDraft: KnowledgeDraft = {
+  title: '',
+  content: '',
+  category: 'documentation',
+  tags: []
+}
+
+const UPLOAD_ACCEPT = '.pdf,.md,.markdown,.html,.htm,.txt,.docx'
+
+function UploadStatus({ upload }: { upload: KnowledgeUpload }) {
+  switch (upload.status) {
+    case 'processing':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Processing
+        </Badge>
+      )
+    case 'completed':
+      return <Badge variant="outline">{upload.chunkCount} {upload.chunkCount === 1 ? 'section' : 'sections'}</Badge>
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>
+  }
+}
+
+function categoryLabel(category: string): string {
+  return CATEGORIES.find(c => c.value === category)?.label || category
+}
+
+/**
+ * The project's knowledge documents, which are offered to the model as chat
+ * context, and the ones it was recently given
+ */
+export function KnowledgeBase({ projectId }: KnowledgeBaseProps) {
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState(ALL_CATEGORIES)
+  const [tag, setTag] = useState<string>()
+  // null while no editor is open; an id of '' is a new document
+  const [editing, setEditing] = useState<{ id: string; draft: KnowledgeDraft; tagsInput: string } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [uploading, setUploading] = useState<{ files: File[]; category: KnowledgeDocument['category']; tagsInput: string } | null>(null)
+  const [rejectedFiles, setRejectedFiles] = useState<{ name: string; error: string }[]>([])
+  const [reindexResult, setReindexResult] = useState<string | null>(null)
+
+  const {
+    documents,
+    recentlyInjected,
+    uploads,
+    loading,
+    error,
+    createDocument,
+    updateDocument,
+    deleteDocument,
+    uploadFiles,
+    deleteUpload,
+    reindex
+  } = useKnowledge(projectId, {
+    category: category === ALL_CATEGORIES ? undefined : category as KnowledgeDocument['category'],
+    tag,
+    search
+  })
+
+  // Debounce the search so each keystroke doesn't refetch
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const updateDraft = (updates: Partial<KnowledgeDraft>) => {
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...updates } })
+  }
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true)
+      setActionError(null)
+      await action()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = (document: KnowledgeDocument) => {
+    const { title, content, category, metadata } = document
+    setEditing({
+      id: document.id,
+      draft: { title, content, category, tags: metadata.tags },
+      tagsInput: metadata.tags.join(', ')
+    })
+  }
+
+  const handleSave = () => runAction(async () => {
+    if (!editing) return
+
+    const draft = {
+      ...editing.draft,
+      title: editing.draft.title.trim(),
+      tags: Array.from(new Set(editing.tagsInput.split(',').map(t => t.trim()).filter(Boolean)))
+    }
+    if (editing.id) {
+      await updateDocument(editing.id, draft)
+    } else {
+      await createDocument(draft)
+    }
+    setEditing(null)
+  })
+
+  const handleDelete = (document: KnowledgeDocument) => {
+    if (!confirm(`Delete "${document.title}" from the knowledge base?`)) return
+    runAction(() => deleteDocument(document.id))
+  }
+
+  const handleUpload = () => runAction(async () => {
+    if (!uploading) return
+
+    const tags = uploading.tagsInput.split(',').map(t => t.trim()).filter(Boolean)
+    const { errors } = await uploadFiles(uploading.files, uploading.category, tags)
+    setRejectedFiles(errors)
+    setUploading(null)
+  })
+
+  const handleDeleteUpload = (upload: KnowledgeUpload) => {
+    if (!confirm(`Delete "${upload.name}" and the documents extracted from it?`)) return
+    runAction(() => deleteUpload(upload.assetId))
+  }
+
+  const handleReindex = () => runAction(async () => {
+    setReindexResult(null)
+    const { indexed, failed } = await reindex()
+    setReindexResult(failed > 0
+      ? `Indexed ${indexed} documents; ${failed} could not be indexed`
+      : `Indexed ${indexed} documents`)
+  })
+
+  const uploadNames = new Map(uploads.map(upload => [upload.assetId, upload.name]))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Knowledge Base</h2>
+          <p className="text-muted-foreground">
+            Documents the assistant can draw on when answering questions about this project
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            onClick={handleReindex}
+            disabled={isSaving}
+            title="Rebuild the embeddings used to find documents relevant to a chat message"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Rebuild Index
+          </Button>
+          <Button variant="outline" onClick={() => setUploading({ files: [], category: 'documentation', tagsInput: '' })}>
+            <Upload className="h-4 w-4 mr-2" />
+            Upload Files
+          </Button>
+          <Button onClick={() => setEditing({ id: '', draft: emptyDraft, tagsInput: '' })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Document
+          </Button>
+        </div>
+      </div>
+
+      {(error || actionError) && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{actionError || error}</AlertDescription>
+        </Alert>
+      )}
+
+      {reindexResult && (
+        <Alert>
+          <RefreshCw className="h-4 w-4" />
+          <AlertDescription>{reindexResult}</AlertDescription>
+        </Alert>
+      )}
+
+      {rejectedFiles.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="flex items-start justify-between gap-2">
+              <ul className="space-y-1">
+                {rejectedFiles.map(file => (
+                  <li key={file.name}><span className="font-medium">{file.name}</span>: {file.error}</li>
+                ))}
+              </ul>
+              <button type="button" onClick={() => setRejectedFiles([])} aria-label="Dismiss">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search documents..."
+                className="pl-8"
+              />
+            </div>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {CATEGORIES.map(c => (
+                  <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tag && (
+              <Badge variant="secondary" className="gap-1 pr-1">
+                Tag: {tag}
+                <button
+                  type="button"
+                  onClick={() => setTag(undefined)}
+                  className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                  aria-label="Clear tag filter"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : documents.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <BookOpen className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+                <p className="text-muted-foreground">
+                  {search || tag || category !== ALL_CATEGORIES
+                    ? 'No documents match these filters.'
+                    : 'No documents yet. Add notes, specs or research for the assistant to use.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {documents.map(document => (
+                <Card key={document.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{document.title}</span>
+                          <Badge variant="outline">{categoryLabel(document.category)}</Badge>
+                        </div>
+                        {document.content && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{document.content}</p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-1">
+                          {document.metadata.tags.map(t => (
+                            <Badge
+                              key={t}
+                              variant="secondary"
+                              className="cursor-pointer text-xs"
+                              onClick={() => setTag(t)}
+                            >
+                              {t}
+                            </Badge>
+                          ))}
+                          {document.metadata.sourceAssetId && uploadNames.has(document.metadata.sourceAssetId) && (
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                              <FileText className="h-3 w-3" />
+                              {uploadNames.get(document.metadata.sourceAssetId)}
+                            </span>
+                          )}
+                          <span className="text-xs text-muted-foreground">
+                            Updated {formatDistanceToNow(document.updatedAt, { addSuffix: true })}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleEdit(document)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleDelete(document)} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {uploads.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Uploaded Files
+                </CardTitle>
+                <CardDescription>Text extracted from these files is split into documents by section</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3">
+                  {uploads.map(upload => (
+                    <li key={upload.assetId} className="text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <a
+                          href={`/api/projects/${projectId}/assets/${upload.assetId}?download=1`}
+                          className="font-medium truncate hover:underline"
+                        >
+                          {upload.name}
+                        </a>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <UploadStatus upload={upload} />
+                          <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleDeleteUpload(upload)} title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {upload.error && (
+                        <p className="text-xs text-destructive">{upload.error}</p>
+                      )}
+                      <div className="text-xs text-muted-foreground">
+                        {categoryLabel(upload.category)} · {formatDistanceToNow(new Date(upload.uploadedAt), { addSuffix: true })}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                Recently Used in Chat
+              </CardTitle>
+              <CardDescription>Documents sent to the assistant as context in your recent messages</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recentlyInjected.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {recentlyInjected.map(entry => (
+                    <li key={entry.documentId} className="text-sm">
+                      <div className="font-medium truncate">{entry.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(entry.lastInjectedAt), { addSuffix: true })}
+                        {entry.injectionCount > 1 && ` · ${entry.injectionCount} times recently`}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!uploading} onOpenChange={(open) => !open && setUploading(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload Files</DialogTitle>
+            <DialogDescription>
+              PDF, Markdown, HTML, text and Word (.docx) files, up to 20MB each. Each file is split into
+              documents at its headings.
+            </DialogDescription>
+          </DialogHeader>
+
+          {uploading && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="knowledge-files">Files</Label>
+                <Input
+                  id="knowledge-files"
+                  type="file"
+                  multiple
+                  accept={UPLOAD_ACCEPT}
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || [])
+                    setUploading(prev => prev && { ...prev, files })
+                  }}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={uploading.category}
+                    onValueChange={(value) => setUploading(prev => prev && { ...prev, category: value as KnowledgeDocument['category'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORIES.map(c => (
+                        <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knowledge-upload-tags">Tags</Label>
+                  <Input
+                    id="knowledge-upload-tags"
+                    value={uploading.tagsInput}
+                    onChange={(e) => setUploading(prev => prev && { ...prev, tagsInput: e.target.value })}
+                    placeholder="api, onboarding"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUploading(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleUpload} disabled={isSaving || !uploading?.files.length}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Upload
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Document' : 'New Document'}</DialogTitle>
+            <DialogDescription>Documents are shared with everyone on the project.</DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="knowledge-title">Title</Label>
+                  <Input
+                    id="knowledge-title"
+                    value={editing.draft.title}
+                    onChange={(e) => updateDraft({ title: e.target.value })}
+                    maxLength={200}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={editing.draft.category}
+                    onValueChange={(value) => updateDraft({ category: value as KnowledgeDocument['category'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORIES.map(c => (
+                        <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="knowledge-tags">Tags</Label>
+                <Input
+                  id="knowledge-tags"
+                  value={editing.tagsInput}
+                  onChange={(e) => setEditing(prev => prev && { ...prev, tagsInput: e.target.value })}
+                  placeholder="api, onboarding"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="knowledge-content">Content</Label>
+                <Textarea
+                  id="knowledge-content"
+                  value={editing.draft.content}
+                  onChange={(e) => updateDraft({ content: e.target.value })}
+                  rows={12}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !editing?.draft.title.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  AlertCircle,
+  Clock,
+  Coins,
+  Hash,
+  Loader2,
+  Plus,
+  Send,
+  Square,
+  Trophy,
+  X
+} from 'lucide-react'
+import { AIProvider, ChatMessage } from '@/types'
+import type { ContextSelection } from '@/lib/context/context-injection-service'
+import { getProviderModels } from '@/lib/ai/providers'
+import { getCredentialDisplayName } from '@/lib/ai/credentials'
+import {
+  ComparisonCandidate,
+  ComparisonTarget,
+  useModelComparison
+} from '@/hooks/use-model-comparison'
+import { MarkdownContent } from '@/components/ai/markdown-content'
+import { cn } from '@/lib/utils'
+
+// Mirrors MAX_COMPARISON_TARGETS in the chat service
+const MAX_TARGETS = 4
+
+interface ModelComparisonPanelProps {
+  projectId: string
+  conversationId?: string
+  assistantProfileId?: string
+  providers: AIProvider[]
+  // Builds the system prompt for a prompt, e.g. with project context injected
+  getContext: (content: string) => Promise<ContextSelection | undefined>
+  onWinnerChosen: (message: ChatMessage) => void
+  className?: string
+}
+
+function defaultTarget(provider?: AIProvider): ComparisonTarget {
+  if (!provider) return { providerId: '' }
+  const models = getProviderModels(provider.provider, provider.endpoint?.models)
+  return { providerId: provider.id, model: models[0]?.id }
+}
+
+export function ModelComparisonPanel({
+  projectId,
+  conversationId,
+  assistantProfileId,
+  providers,
+  getContext,
+  onWinnerChosen,
+  className
+}: ModelComparisonPanelProps) {
+  const [content, setContent] = useState('')
+  const [targets, setTargets] = useState<ComparisonTarget[]>(() => {
+    // Start with two different models where possible
+    const first = defaultTarget(providers[0])
+    const provider = providers[0]
+    const models = provider ? getProviderModels(provider.provider, provider.endpoint?.models) : []
+    const second = models.length > 1
+      ? { providerId: provider.id, model: models[1].id }
+      : defaultTarget(providers[1] || providers[0])
+    return [first, second]
+  })
+  const [choosing, setChoosing] = useState<number | null>(null)
+
+  const {
+    prompt,
+    candidates,
+    isComparing,
+    error,
+    compare,
+    chooseWinner,
+    abort,
+    reset,
+  } = useModelComparison({ projectId, conversationId, assistantProfileId })
+
+  const validTargets = targets.filter(target => target.providerId)
+  const canCompare = !isComparing && content.trim().length > 0 && validTargets.length >= 2
+
+  const updateTarget = (index: number, update: Partial<ComparisonTarget>) => {
+    setTargets(prev => prev.map((target, i) => i === index ? { ...target, ...update } : target))
+  }
+
+  const handleProviderChange = (index: number, providerId: string) => {
+    updateTarget(index, defaultTarget(providers.find(p => p.id === providerId)))
+  }
+
+  const handleCompare = async () => {
+    if (!canCompare) return
+    const text = content.trim()
+    setContent('')
+    await compare(text, validTargets, { context: await getContext(text) })
+  }
+
+  const handleChooseWinner = async (index: number) => {
+    setChoosing(index)
+    const message = await chooseWinner(index)
+    setChoosing(null)
+    if (message) {
+      reset()
+      onWinnerChosen(message)
+    }
+  }
+
+  const isFinished = candidates.length > 0 && !isComparing
+
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Models to compare */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {targets.map((target, index) => {
+          const provider = providers.find(p => p.id === target.providerId)
+          const models = provider ? getProviderModels(provider.provider, provider.endpoint?.models) : []
+
+          return (
+            <div key={index} className="flex items-center gap-1 rounded-md border p-1">
+              <Select
+                value={target.providerId}
+                onValueChange={(providerId) => handleProviderChange(index, providerId)}
+                disabled={isComparing}
+              >
+                <SelectTrigger className="w-[140px] h-8">
+                  <SelectValue placeholder="Provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {getCredentialDisplayName(provider)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {models.length > 0 && (
+                <Select
+                  value={target.model}
+                  onValueChange={(model) => updateTarget(index, { model })}
+                  disabled={isComparing}
+                >
+                  <SelectTrigger className="w-[160px] h-8">
+                    <SelectValue placeholder="Model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {models.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {targets.length > 2 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                  disabled={isComparing}
+                  title="Remove model"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )
+        })}
+
+        {targets.length < MAX_TARGETS && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setTargets(prev => [...prev, defaultTarget(providers[0])])}
+            disabled={isComparing}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add model
+          </Button>
+        )}
+      </div>
+
+      {/* Prompt */}
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              handleCompare()
+            }
+          }}
+          placeholder="Send one prompt to every model..."
+          className="min-h-[60px] resize-none"
+          disabled={isComparing}
+        />
+        {isComparing ? (
+          <Button variant="destructive" onClick={abort} title="Stop comparison">
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button onClick={handleCompare} disabled={!canCompare} title="Compare">
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {prompt && (
+        <div className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap">
+          {prompt.content}
+        </div>
+      )}
+
+      {/* Responses side by side */}
+      {candidates.length > 0 && (
+        <div
+          className="grid gap-3"
+          style={{ gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))` }}
+        >
+          {candidates.map((candidate, index) => {
+            const provider = providers.find(p => p.id === candidate.target.providerId)
+            return (
+              <ComparisonColumn
+                key={index}
+                candidate={candidate}
+                providerName={provider ? getCredentialDisplayName(provider) : 'Unknown provider'}
+                canChoose={isFinished && candidate.status === 'complete' && choosing === null}
+                isChoosing={choosing === index}
+                onChoose={() => handleChooseWinner(index)}
+              />
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ComparisonColumnProps {
+  candidate: ComparisonCandidate
+  providerName: string
+  canChoose: boolean
+  isChoosing: boolean
+  onChoose: () => void
+}
+
+function ComparisonColumn({
+  candidate,
+  providerName,
+  canChoose,
+  isChoosing,
+  onChoose
+}: ComparisonColumnProps) {
+  return (
+    <Card className="flex flex-col min-h-[240px]">
+      <CardHeader className="p-3 pb-2">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="truncate">{providerName}</span>
+          {candidate.status === 'streaming' && <Loader2 className="h-3 w-3 animate-spin" />}
+        </CardTitle>
+        {candidate.target.model && (
+          <Badge variant="outline" className="w-fit text-xs">
+            {candidate.target.model}
+          </Badge>
+        )}
+      </CardHeader>
+
+      <CardContent className="flex-1 flex flex-col gap-2 p-3 pt-0">
+        <ScrollArea className="flex-1 max-h-[400px]">
+          {candidate.status === 'error' ? (
+            <p className="text-sm text-destructive">{candidate.error}</p>
+          ) : (
+            <MarkdownContent content={candidate.content} />
+          )}
+        </ScrollArea>
+
+        {candidate.status === 'complete' && (
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {candidate.usage && (
+              <span className="flex items-center gap-1" title="Tokens">
+                <Hash className="h-3 w-3" />
+                {candidate.usage.totalTokens.toLocaleString()}
+              </span>
+            )}
+            {candidate.cost !== undefined && (
+              <span className="flex items-center gap-1" title="Cost">
+                <Coins className="h-3 w-3" />
+                ${candidate.cost.toFixed(4)}
+              </span>
+            )}
+            {candidate.responseTime !== undefined && (
+              <span className="flex items-center gap-1" title="Latency">
+                <Clock className="h-3 w-3" />
+                {(candidate.responseTime / 1000).toFixed(1)}s
+              </span>
+            )}
+          </div>
+        )}
+
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onChoose}
+          disabled={!canChoose}
+        >
+          {isChoosing ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Trophy className="h-4 w-4 mr-1" />
+          )}
+          Pick winner
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
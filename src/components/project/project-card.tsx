@@ -2,6 +2,8 @@
 
 import { useState } from 'react'
 import { Project } from '@/hooks/use-projects'
+import { AIProvider } from '@/types'
+import { getProviderSettingDisplayName } from '@/lib/ai/credentials'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -24,13 +26,16 @@ import Link from 'next/link'
 
 interface ProjectCardProps {
   project: Project
+  // The user's credentials, to name the project's default provider
+  providers?: AIProvider[]
   onEdit?: (project: Project) => void
   onDelete?: (project: Project) => void
   onSettings?: (project: Project) => void
 }
 
-export function ProjectCard({ project, onEdit, onDelete, onSettings }: ProjectCardProps) {
+export function ProjectCard({ project, providers = [], onEdit, onDelete, onSettings }: ProjectCardProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const providerName = getProviderSettingDisplayName(providers, project.settings?.defaultAIProvider)
 
   const userRole = project.project_members?.find(member => member.user_id === project.user_id)?.role || 'owner'
   const canEdit = ['owner', 'admin', 'editor'].includes(userRole)
@@ -157,10 +162,10 @@ export function ProjectCard({ project, onEdit, onDelete, onSettings }: ProjectCa
               Local
             </Badge>
           )}
-          {project.settings?.defaultAIProvider && (
+          {providerName && (
             <Badge variant="secondary" className="text-xs">
               <Activity className="w-3 h-3 mr-1" />
-              {project.settings.defaultAIProvider}
+              {providerName}
             </Badge>
           )}
         </div>
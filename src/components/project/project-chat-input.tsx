@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useRef, KeyboardEvent } from 'react'
+import Image from 'next/image'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -16,13 +17,30 @@ import {
   Smile,
   Zap,
   Brain,
-  Code,
-  FileText
+  FileText,
+  LayoutTemplate,
+  X,
+  Loader2,
+  Sparkles
 } from 'lucide-react'
-import { AIProvider } from '@/types'
+import { AIProvider, MessageAttachment, PromptTemplate } from '@/types'
 import { Project } from '@/hooks/use-projects'
-import { getProviderConfig } from '@/lib/ai/providers'
+import { useTemplates } from '@/hooks/use-templates'
+import { getProviderModels } from '@/lib/ai/providers'
+import {
+  AUTO_ROUTER_ID,
+  getCredentialDisplayName,
+  isAutoRouted,
+  resolveCredential
+} from '@/lib/ai/credentials'
+import {
+  DOCUMENT_ATTACHMENT_TYPES,
+  IMAGE_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  validateAttachmentFile
+} from '@/lib/ai/attachment-utils'
 import { cn } from '@/lib/utils'
+import { TemplatePickerDialog } from './template-picker-dialog'
 
 interface ProjectChatInputProps {
   project: Project
@@ -31,12 +49,16 @@ interface ProjectChatInputProps {
     model?: string
     temperature?: number
     maxTokens?: number
+    attachmentIds?: string[]
+    templateId?: string
   }) => Promise<void>
   onSendMessageStream: (content: string, options?: {
     providerId?: string
     model?: string
     temperature?: number
     maxTokens?: number
+    attachmentIds?: string[]
+    templateId?: string
   }) => Promise<void>
   onAbortStream: () => void
   providers: AIProvider[]
@@ -48,32 +70,8 @@ interface ProjectChatInputProps {
   defaultModel?: string
 }
 
-const QUICK_PROMPTS = [
-  {
-    id: 'explain-code',
-    label: 'Explain Code',
-    icon: Code,
-    prompt: 'Can you explain how this code works and suggest any improvements?'
-  },
-  {
-    id: 'debug-help',
-    label: 'Debug Help',
-    icon: Brain,
-    prompt: 'I\'m having an issue with my code. Can you help me debug it?'
-  },
-  {
-    id: 'documentation',
-    label: 'Documentation',
-    icon: FileText,
-    prompt: 'Can you help me write documentation for this feature?'
-  },
-  {
-    id: 'optimization',
-    label: 'Optimize',
-    icon: Zap,
-    prompt: 'How can I optimize this code for better performance?'
-  }
-]
+// Most used templates offered as one-click chips
+const QUICK_TEMPLATE_COUNT = 4
 
 export function ProjectChatInput({
   project,
@@ -91,30 +89,45 @@ export function ProjectChatInput({
   const [message, setMessage] = useState('')
   const [selectedProviderId, setSelectedProviderId] = useState(
     defaultProviderId || 
-    project.settings?.defaultAIProvider || 
-    providers.find(p => p.isActive)?.id || 
+    resolveCredential(providers, project.settings?.defaultAIProvider)?.id || 
     ''
   )
   const [selectedModel, setSelectedModel] = useState(defaultModel || '')
   const [showSettings, setShowSettings] = useState(false)
   const [showQuickPrompts, setShowQuickPrompts] = useState(false)
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false)
+  const [pickedTemplate, setPickedTemplate] = useState<PromptTemplate>()
+  // The template the current message was filled in from
+  const [usedTemplate, setUsedTemplate] = useState<{ id: string; name: string }>()
   const [temperature, setTemperature] = useState(0.7)
   const [maxTokens, setMaxTokens] = useState(4000)
   const [useStreaming, setUseStreaming] = useState(true)
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([])
+  const [uploadingCount, setUploadingCount] = useState(0)
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
+
+  const { templates, refreshTemplates } = useTemplates({ sortBy: 'usage' })
+  const quickTemplates = templates.slice(0, QUICK_TEMPLATE_COUNT)
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   const selectedProvider = providers.find(p => p.id === selectedProviderId)
-  const providerConfig = selectedProvider ? getProviderConfig(selectedProvider.provider) : null
-  const availableModels = providerConfig?.models || []
+  const availableModels = selectedProvider
+    ? getProviderModels(selectedProvider.provider, selectedProvider.endpoint?.models)
+    : []
 
   // Auto-select first model when provider changes
   const handleProviderChange = (providerId: string) => {
     setSelectedProviderId(providerId)
+    if (isAutoRouted(providerId)) {
+      setSelectedModel('')
+      return
+    }
     const provider = providers.find(p => p.id === providerId)
     if (provider) {
-      const config = getProviderConfig(provider.provider)
-      setSelectedModel(config.models[0]?.id || '')
+      const models = getProviderModels(provider.provider, provider.endpoint?.models)
+      setSelectedModel(models[0]?.id || '')
     }
   }
 
@@ -128,16 +141,68 @@ export function ProjectChatInput({
     textarea.style.height = Math.min(textarea.scrollHeight, 120) + 'px'
   }
 
+  const uploadAttachment = async (file: File) => {
+    const validationError = validateAttachmentFile(file)
+    if (validationError) {
+      setAttachmentError(validationError)
+      return
+    }
+
+    setUploadingCount(count => count + 1)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`/api/projects/${project.id}/assets`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload attachment')
+      }
+
+      setAttachments(prev => [...prev, data.attachment])
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : 'Failed to upload attachment')
+    } finally {
+      setUploadingCount(count => count - 1)
+    }
+  }
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    setAttachmentError(null)
+
+    const remaining = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length - uploadingCount
+    if (files.length > remaining) {
+      setAttachmentError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`)
+    }
+
+    await Promise.all(files.slice(0, Math.max(remaining, 0)).map(uploadAttachment))
+  }
+
+  const removeAttachment = (assetId: string) => {
+    setAttachments(prev => prev.filter(a => a.assetId !== assetId))
+  }
+
+  const hasContent = message.trim().length > 0 || attachments.length > 0
+
   const handleSend = async () => {
-    if (!message.trim() || !selectedProviderId || isLoading || isStreaming) {
+    if (!hasContent || uploadingCount > 0 || !selectedProviderId || isLoading || isStreaming) {
       return
     }
 
     const options = {
       providerId: selectedProviderId,
-      model: selectedModel,
+      // The router picks the model in auto mode
+      model: isAutoRouted(selectedProviderId) ? undefined : selectedModel,
       temperature,
       maxTokens,
+      attachmentIds: attachments.length > 0 ? attachments.map(a => a.assetId) : undefined,
+      templateId: usedTemplate?.id,
     }
 
     try {
@@ -147,6 +212,9 @@ export function ProjectChatInput({
         await onSendMessage(message.trim(), options)
       }
       setMessage('')
+      setAttachments([])
+      setUsedTemplate(undefined)
+      setAttachmentError(null)
       
       // Reset textarea height
       if (textareaRef.current) {
@@ -164,12 +232,32 @@ export function ProjectChatInput({
     }
   }
 
-  const handleQuickPrompt = (prompt: string) => {
-    setMessage(prompt)
+  // Templates without variables go straight into the composer
+  const handleQuickTemplate = (template: PromptTemplate) => {
     setShowQuickPrompts(false)
+    if (template.variables.length > 0 || /\{\{/.test(template.content)) {
+      setPickedTemplate(template)
+      setShowTemplatePicker(true)
+      return
+    }
+    handleTemplateInsert(template.content, template)
+  }
+
+  const handleTemplateInsert = (content: string, template: PromptTemplate) => {
+    setMessage(content)
+    setUsedTemplate({ id: template.id, name: template.name })
     textareaRef.current?.focus()
   }
 
+  const handleTemplatePickerChange = (open: boolean) => {
+    setShowTemplatePicker(open)
+    if (!open) {
+      setPickedTemplate(undefined)
+      // Pick up templates created or edited in the dialog
+      refreshTemplates()
+    }
+  }
+
   const handleAbort = () => {
     onAbortStream()
   }
@@ -178,24 +266,33 @@ export function ProjectChatInput({
     <Card>
       <CardContent className="p-4">
         <div className="space-y-4">
-          {/* Quick Prompts */}
+          {/* Quick Templates */}
           {showQuickPrompts && (
             <div className="flex flex-wrap gap-2">
-              {QUICK_PROMPTS.map((prompt) => {
-                const Icon = prompt.icon
-                return (
-                  <Button
-                    key={prompt.id}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickPrompt(prompt.prompt)}
-                    className="text-xs"
-                  >
-                    <Icon className="h-3 w-3 mr-1" />
-                    {prompt.label}
-                  </Button>
-                )
-              })}
+              {quickTemplates.map((template) => (
+                <Button
+                  key={template.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleQuickTemplate(template)}
+                  className="text-xs"
+                >
+                  <Zap className="h-3 w-3 mr-1" />
+                  {template.name}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setShowQuickPrompts(false)
+                  setShowTemplatePicker(true)
+                }}
+                className="text-xs"
+              >
+                <LayoutTemplate className="h-3 w-3 mr-1" />
+                Browse templates
+              </Button>
             </div>
           )}
 
@@ -206,9 +303,17 @@ export function ProjectChatInput({
                 <SelectValue placeholder="Select provider" />
               </SelectTrigger>
               <SelectContent>
+                {providers.some(p => p.isActive) && (
+                  <SelectItem value={AUTO_ROUTER_ID}>
+                    <span className="flex items-center gap-1">
+                      <Sparkles className="h-3 w-3" />
+                      Auto (best model)
+                    </span>
+                  </SelectItem>
+                )}
                 {providers.filter(p => p.isActive).map((provider) => (
                   <SelectItem key={provider.id} value={provider.id}>
-                    {getProviderConfig(provider.provider).displayName}
+                    {getCredentialDisplayName(provider)}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -236,6 +341,7 @@ export function ProjectChatInput({
               size="sm"
               onClick={() => setShowQuickPrompts(!showQuickPrompts)}
               className={cn(showQuickPrompts && 'bg-muted')}
+              title="Prompt templates"
             >
               <Zap className="h-4 w-4" />
             </Button>
@@ -307,6 +413,66 @@ export function ProjectChatInput({
             </div>
           )}
 
+          {/* Template the message came from */}
+          {usedTemplate && (
+            <div className="flex">
+              <Badge variant="secondary" className="gap-1 pr-1">
+                <LayoutTemplate className="h-3 w-3" />
+                <span className="max-w-[200px] truncate">From template: {usedTemplate.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setUsedTemplate(undefined)}
+                  className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                  aria-label="Don't count this message as a template use"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            </div>
+          )}
+
+          {/* Attachments */}
+          {(attachments.length > 0 || uploadingCount > 0 || attachmentError) && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {attachments.map((attachment) => (
+                  <Badge key={attachment.assetId} variant="secondary" className="gap-1 pr-1">
+                    {attachment.kind === 'image' ? (
+                      <Image
+                        src={`/api/projects/${project.id}/assets/${attachment.assetId}`}
+                        alt=""
+                        width={20}
+                        height={20}
+                        unoptimized
+                        className="h-5 w-5 rounded object-cover"
+                      />
+                    ) : (
+                      <FileText className="h-3 w-3" />
+                    )}
+                    <span className="max-w-[140px] truncate">{attachment.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(attachment.assetId)}
+                      className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                      aria-label={`Remove ${attachment.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+                {uploadingCount > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Uploading...
+                  </Badge>
+                )}
+              </div>
+              {attachmentError && (
+                <p className="text-xs text-destructive">{attachmentError}</p>
+              )}
+            </div>
+          )}
+
           {/* Message Input */}
           <div className="flex gap-2">
             <div className="flex-1 relative">
@@ -323,11 +489,21 @@ export function ProjectChatInput({
               
               {/* Input Actions */}
               <div className="absolute right-2 bottom-2 flex items-center gap-1">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={[...IMAGE_ATTACHMENT_TYPES, ...DOCUMENT_ATTACHMENT_TYPES, '.md'].join(',')}
+                  onChange={handleFilesSelected}
+                  className="hidden"
+                />
                 <Button
                   variant="ghost"
                   size="sm"
                   className="h-6 w-6 p-0"
-                  disabled={disabled || isLoading || isStreaming}
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={disabled || isLoading || isStreaming || attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  title="Attach images or documents"
                 >
                   <Paperclip className="h-3 w-3" />
                 </Button>
@@ -354,7 +530,7 @@ export function ProjectChatInput({
             ) : (
               <Button
                 onClick={handleSend}
-                disabled={!message.trim() || !selectedProviderId || isLoading || disabled}
+                disabled={!hasContent || uploadingCount > 0 || !selectedProviderId || isLoading || disabled}
                 size="sm"
                 className="self-end"
               >
@@ -381,6 +557,15 @@ export function ProjectChatInput({
           )}
         </div>
       </CardContent>
+
+      {showTemplatePicker && (
+        <TemplatePickerDialog
+          open={showTemplatePicker}
+          onOpenChange={handleTemplatePickerChange}
+          initialTemplate={pickedTemplate}
+          onInsert={handleTemplateInsert}
+        />
+      )}
     </Card>
   )
 }
\ No newline at end of file
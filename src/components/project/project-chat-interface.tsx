@@ -19,16 +19,21 @@ import {
   Zap,
   Brain,
   Eye,
-  EyeOff
+  EyeOff,
+  Columns2
 } from 'lucide-react'
 import { ProjectChatMessage } from './project-chat-message'
 import { ProjectChatInput } from './project-chat-input'
 import { TypingIndicator } from './typing-indicator'
 import { ContextPreviewPanel } from './context-preview-panel'
+import { ModelComparisonPanel } from './model-comparison-panel'
 import { ProviderConfigDialog } from './provider-config-dialog'
+import { AssistantProfileSelector } from './assistant-profile-selector'
 import { useChat } from '@/hooks/use-chat'
+import { useAssistantProfiles } from '@/hooks/use-assistant-profiles'
 import { useAIProviders } from '@/hooks/use-ai-providers'
 import { useContextInjection } from '@/hooks/use-context-injection'
+import type { ContextSelection } from '@/lib/context/context-injection-service'
 import { Project } from '@/hooks/use-projects'
 import { cn } from '@/lib/utils'
 
@@ -52,9 +57,15 @@ export function ProjectChatInterface({
   const [typingUsers, setTypingUsers] = useState<string[]>([])
   const [showContextPanel, setShowContextPanel] = useState(false)
   const [pendingMessage, setPendingMessage] = useState<string>('')
+  const [pendingAttachmentIds, setPendingAttachmentIds] = useState<string[]>([])
+  const [pendingTemplateId, setPendingTemplateId] = useState<string>()
   const [showProviderConfig, setShowProviderConfig] = useState(false)
+  const [compareMode, setCompareMode] = useState(false)
+  const [assistantProfileId, setAssistantProfileId] = useState<string>()
   
   const { providers, loading: providersLoading } = useAIProviders()
+  const { profiles, defaultProfileId } = useAssistantProfiles(projectId)
+  const activeProfile = profiles.find(profile => profile.id === (assistantProfileId ?? defaultProfileId))
   const {
     messages,
     isLoading,
@@ -63,6 +74,9 @@ export function ProjectChatInterface({
     stats,
     sendMessage,
     sendMessageStream,
+    regenerateMessage,
+    editAndResend,
+    selectVersion,
     deleteMessage,
     rateMessage,
     clearMessages,
@@ -71,7 +85,7 @@ export function ProjectChatInterface({
   } = useChat({
     projectId,
     conversationId: conversationId || undefined,
-    systemPrompt: generateProjectSystemPrompt(project),
+    assistantProfileId,
   })
 
   const {
@@ -84,7 +98,6 @@ export function ProjectChatInterface({
     removeContextItem,
     updateContextItem,
     clearContext,
-    getFormattedContext,
     previewContext,
     provideFeedback,
     updateContextSettings,
@@ -94,6 +107,43 @@ export function ProjectChatInterface({
     autoAnalyze: false
   })
 
+  // Each conversation remembers its profile
+  useEffect(() => {
+    setAssistantProfileId(undefined)
+    if (!conversationId) return
+
+    const loadConversationProfile = async () => {
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`)
+        const data = await response.json()
+        if (response.ok && data.success) {
+          setAssistantProfileId(data.data.conversation.metadata?.assistantProfileId || undefined)
+        }
+      } catch (error) {
+        console.error('Failed to load conversation profile:', error)
+      }
+    }
+
+    loadConversationProfile()
+  }, [conversationId])
+
+  const handleAssistantProfileChange = async (profileId?: string) => {
+    setAssistantProfileId(profileId)
+    if (!conversationId) return
+
+    try {
+      await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ assistantProfileId: profileId ?? null }),
+      })
+    } catch (error) {
+      console.error('Failed to save conversation profile:', error)
+    }
+  }
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -111,21 +161,25 @@ export function ProjectChatInterface({
       model?: string
       temperature?: number
       maxTokens?: number
+      attachmentIds?: string[]
+      templateId?: string
     }
   ) => {
     // Analyze message for context if context panel is shown
-    if (showContextPanel) {
+    if (showContextPanel && content) {
       setPendingMessage(content)
+      setPendingAttachmentIds(options?.attachmentIds || [])
+      setPendingTemplateId(options?.templateId)
       await analyzeMessage(content)
       return
     }
 
-    // Generate enhanced system prompt with context
-    const enhancedSystemPrompt = await generateEnhancedSystemPrompt(project, content)
+    // Pick context for the message if auto-injection is on
+    const context = await getAutoContext(project, content)
     
     await sendMessage(content, { 
       ...options, 
-      systemPrompt: enhancedSystemPrompt
+      context
     })
   }
 
@@ -136,24 +190,43 @@ export function ProjectChatInterface({
       model?: string
       temperature?: number
       maxTokens?: number
+      attachmentIds?: string[]
+      templateId?: string
     }
   ) => {
     // Analyze message for context if context panel is shown
-    if (showContextPanel) {
+    if (showContextPanel && content) {
       setPendingMessage(content)
+      setPendingAttachmentIds(options?.attachmentIds || [])
+      setPendingTemplateId(options?.templateId)
       await analyzeMessage(content)
       return
     }
 
-    // Generate enhanced system prompt with context
-    const enhancedSystemPrompt = await generateEnhancedSystemPrompt(project, content)
+    // Pick context for the message if auto-injection is on
+    const context = await getAutoContext(project, content)
     
     await sendMessageStream(content, { 
       ...options, 
-      systemPrompt: enhancedSystemPrompt
+      context
     })
   }
 
+  const handleRegenerate = async (messageId: string) => {
+    // Context is looked up again for the prompt the reply answers
+    const index = messages.findIndex(msg => msg.id === messageId)
+    const prompt = messages.slice(0, index).reverse().find(msg => msg.role === 'user')
+    const context = await getAutoContext(project, prompt?.content || '')
+
+    await regenerateMessage(messageId, { context })
+  }
+
+  const handleResend = async (messageId: string, content: string) => {
+    const context = await getAutoContext(project, content)
+
+    await editAndResend(messageId, content, { context })
+  }
+
   const handleSendWithContext = async (
     useStreaming: boolean = true,
     options?: {
@@ -161,30 +234,39 @@ export function ProjectChatInterface({
       model?: string
       temperature?: number
       maxTokens?: number
+      attachmentIds?: string[]
+      templateId?: string
     }
   ) => {
     if (!pendingMessage) return
 
     try {
-      // Generate enhanced system prompt with selected context
-      const contextText = await getFormattedContext('markdown')
-      const enhancedSystemPrompt = generateProjectSystemPrompt(project) + 
-        (contextText ? `\n\n## Relevant Context\n${contextText}` : '')
+      // The server looks the selected items up again for the prompt
+      const context: ContextSelection = {
+        query: pendingMessage,
+        itemIds: contextItems.map(item => item.id)
+      }
 
       if (useStreaming) {
         await sendMessageStream(pendingMessage, { 
           ...options, 
-          systemPrompt: enhancedSystemPrompt
+          attachmentIds: pendingAttachmentIds,
+          templateId: pendingTemplateId,
+          context
         })
       } else {
         await sendMessage(pendingMessage, { 
           ...options, 
-          systemPrompt: enhancedSystemPrompt
+          attachmentIds: pendingAttachmentIds,
+          templateId: pendingTemplateId,
+          context
         })
       }
 
       // Clear pending message and context
       setPendingMessage('')
+      setPendingAttachmentIds([])
+      setPendingTemplateId(undefined)
       clearContext()
       setShowContextPanel(false)
     } catch (error) {
@@ -192,10 +274,20 @@ export function ProjectChatInterface({
     }
   }
 
-  const generateEnhancedSystemPrompt = async (project: Project, userMessage: string): Promise<string> => {
-    // Auto-analyze for context if enabled in project settings
+  const getAutoContext = async (project: Project, userMessage: string): Promise<ContextSelection | undefined> => {
+    // Auto-analyze for context if enabled in the profile or project settings
     const projectSettings = project.settings as any
-    const contextSettings = projectSettings?.context_settings
+    const profileContext = activeProfile?.contextDefaults
+    const contextSettings = profileContext
+      ? {
+          auto_inject_knowledge: profileContext.enabled && profileContext.autoInjectKnowledge,
+          auto_inject_code: profileContext.enabled && profileContext.autoInjectCode,
+          auto_inject_assets: profileContext.enabled && profileContext.autoInjectAssets,
+          auto_inject_conversations: projectSettings?.context_settings?.auto_inject_conversations,
+          max_context_items: profileContext.maxContextItems,
+          min_relevance_score: profileContext.minRelevanceScore
+        }
+      : projectSettings?.context_settings
 
     if (contextSettings?.auto_inject_knowledge || contextSettings?.auto_inject_code) {
       try {
@@ -209,16 +301,23 @@ export function ProjectChatInterface({
         })
 
         if (result.suggestedContext.length > 0) {
-          const contextText = await getFormattedContext('markdown')
-          return generateProjectSystemPrompt(project) + 
-            (contextText ? `\n\n## Relevant Context\n${contextText}` : '')
+          return {
+            query: userMessage,
+            itemIds: result.suggestedContext.map(item => item.id)
+          }
         }
       } catch (error) {
         console.error('Failed to auto-inject context:', error)
       }
     }
 
-    return generateProjectSystemPrompt(project)
+    return undefined
+  }
+
+  const handleWinnerChosen = async () => {
+    // The winner and the prompt it answers are now on the selected path
+    setCompareMode(false)
+    await refreshHistory()
   }
 
   const handleClearMessages = () => {
@@ -273,6 +372,7 @@ export function ProjectChatInterface({
   }
 
   const activeProviders = providers.filter(p => p.isActive)
+  const isBusy = isLoading || isStreaming
 
   if (activeProviders.length === 0) {
     return (
@@ -333,6 +433,15 @@ export function ProjectChatInterface({
           </div>
           
           <div className="flex items-center gap-2">
+            {profiles.length > 0 && (
+              <AssistantProfileSelector
+                profiles={profiles}
+                defaultProfileId={defaultProfileId}
+                value={assistantProfileId}
+                onChange={handleAssistantProfileChange}
+                disabled={isBusy}
+              />
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -341,6 +450,16 @@ export function ProjectChatInterface({
             >
               <Zap className="h-4 w-4" />
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompareMode(!compareMode)}
+              disabled={isBusy}
+              className={cn(compareMode && 'bg-primary/10 border-primary/20')}
+              title="Compare Models"
+            >
+              <Columns2 className="h-4 w-4" />
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -415,6 +534,8 @@ export function ProjectChatInterface({
                       variant="outline"
                       onClick={() => {
                         setPendingMessage('')
+                        setPendingAttachmentIds([])
+                        setPendingTemplateId(undefined)
                         clearContext()
                       }}
                     >
@@ -426,6 +547,19 @@ export function ProjectChatInterface({
             </div>
           )}
 
+          {compareMode ? (
+            <ScrollArea className="flex-1 p-4">
+              <ModelComparisonPanel
+                projectId={projectId}
+                conversationId={conversationId || undefined}
+                assistantProfileId={assistantProfileId}
+                providers={activeProviders}
+                getContext={(content) => getAutoContext(project, content)}
+                onWinnerChosen={handleWinnerChosen}
+              />
+            </ScrollArea>
+          ) : (
+          <>
           {/* Messages */}
           <ScrollArea className="flex-1 px-4">
             {messages.length === 0 ? (
@@ -461,6 +595,9 @@ export function ProjectChatInterface({
                     project={project}
                     onDelete={deleteMessage}
                     onRate={rateMessage}
+                    onRegenerate={isBusy ? undefined : handleRegenerate}
+                    onResend={isBusy ? undefined : handleResend}
+                    onSelectVersion={isBusy ? undefined : selectVersion}
                     isStreaming={isStreaming && index === messages.length - 1 && message.role === 'assistant'}
                     showAvatar={true}
                     showActions={true}
@@ -493,6 +630,8 @@ export function ProjectChatInterface({
               placeholder={`Ask me anything about "${project.name}"...`}
             />
           </div>
+          </>
+          )}
 
           {/* Stats Footer */}
           {stats && stats.averageResponseTime > 0 && (
@@ -540,19 +679,3 @@ export function ProjectChatInterface({
     </Card>
   )
 }
-
-function generateProjectSystemPrompt(project: Project): string {
-  return `You are an AI assistant helping with the project "${project.name}".
-
-Project Details:
-- Name: ${project.name}
-- Description: ${project.description || 'No description provided'}
-- GitHub Repository: ${project.github_repo || 'Not connected'}
-- Local Path: ${project.local_path || 'Not configured'}
-- AI Provider: ${project.settings?.defaultAIProvider || 'Default'}
-- Team Members: ${project.project_members?.length || 0}
-
-You have access to this project's context and should provide helpful, relevant assistance for web development tasks. Be concise but thorough in your responses. When discussing code or technical concepts, consider the project's specific context and requirements.
-
-If the user asks about project-specific information that you don't have access to, let them know what additional context would be helpful.`
-}
\ No newline at end of file
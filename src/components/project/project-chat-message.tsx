@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import Image from 'next/image'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -18,10 +19,16 @@ import {
   X,
   Sparkles,
   Clock,
-  Zap
+  Zap,
+  FileText,
+  RotateCcw,
+  Send,
+  ChevronLeft,
+  ChevronRight
 } from 'lucide-react'
-import { ChatMessage as ChatMessageType } from '@/types'
+import { ChatMessage as ChatMessageType, MessageAttachment } from '@/types'
 import { Project } from '@/hooks/use-projects'
+import { MarkdownContent } from '@/components/ai/markdown-content'
 import { cn } from '@/lib/utils'
 import { format } from 'date-fns'
 
@@ -31,18 +38,66 @@ interface ProjectChatMessageProps {
   onDelete?: (messageId: string) => void
   onRate?: (messageId: string, rating: number, feedback?: string) => void
   onEdit?: (messageId: string, content: string) => void
+  // Versions: regenerate a reply, or edit a prompt and run it again
+  onRegenerate?: (messageId: string) => void
+  onResend?: (messageId: string, content: string) => void
+  onSelectVersion?: (messageId: string) => void
   isStreaming?: boolean
   showAvatar?: boolean
   showActions?: boolean
   className?: string
 }
 
+function AttachmentThumbnails({
+  attachments,
+  projectId,
+  alignEnd
+}: {
+  attachments: MessageAttachment[]
+  projectId: string
+  alignEnd: boolean
+}) {
+  return (
+    <div className={cn('flex flex-wrap gap-2 mb-2', alignEnd && 'justify-end')}>
+      {attachments.map((attachment) => {
+        const url = `/api/projects/${projectId}/assets/${attachment.assetId}`
+        return attachment.kind === 'image' ? (
+          <a key={attachment.assetId} href={url} target="_blank" rel="noopener noreferrer">
+            <Image
+              src={url}
+              alt={attachment.name}
+              title={attachment.name}
+              width={80}
+              height={80}
+              unoptimized
+              className="h-20 w-20 rounded border object-cover bg-background"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.assetId}
+            href={`${url}?download=1`}
+            className="flex items-center gap-1 rounded border bg-background px-2 py-1 text-xs text-foreground hover:bg-muted"
+            title={attachment.name}
+          >
+            <FileText className="h-3 w-3 flex-shrink-0" />
+            <span className="max-w-[160px] truncate">{attachment.name}</span>
+          </a>
+        )
+      })}
+    </div>
+  )
+}
+
 export function ProjectChatMessage({ 
   message, 
   project,
   onDelete, 
   onRate, 
   onEdit, 
+  onRegenerate,
+  onResend,
+  onSelectVersion,
   isStreaming = false,
   showAvatar = true,
   showActions = true,
@@ -59,6 +114,8 @@ export function ProjectChatMessage({
   const responseTime = message.metadata?.responseTime as number | undefined
   const tokenCount = message.metadata?.tokens as number | undefined
   const cost = message.metadata?.cost as number | undefined
+  const attachments = message.metadata?.attachments || []
+  const versions = message.versions
 
   const handleCopy = async () => {
     try {
@@ -83,6 +140,20 @@ export function ProjectChatMessage({
     setIsEditing(!isEditing)
   }
 
+  const handleResend = () => {
+    if (onResend && editContent.trim()) {
+      onResend(message.id, editContent)
+    }
+    setIsEditing(false)
+  }
+
+  const handleSelectVersion = (offset: number) => {
+    const id = versions?.ids[versions.index - 1 + offset]
+    if (id && onSelectVersion) {
+      onSelectVersion(id)
+    }
+  }
+
   const handleDelete = () => {
     if (onDelete && confirm('Are you sure you want to delete this message?')) {
       onDelete(message.id)
@@ -161,15 +232,34 @@ export function ProjectChatMessage({
                     <X className="h-3 w-3 mr-1" />
                     Cancel
                   </Button>
-                  <Button size="sm" onClick={handleEdit}>
-                    <Check className="h-3 w-3 mr-1" />
-                    Save
-                  </Button>
+                  {onEdit && (
+                    <Button size="sm" variant={onResend ? 'outline' : 'default'} onClick={handleEdit}>
+                      <Check className="h-3 w-3 mr-1" />
+                      Save
+                    </Button>
+                  )}
+                  {onResend && (
+                    <Button size="sm" onClick={handleResend} disabled={!editContent.trim()}>
+                      <Send className="h-3 w-3 mr-1" />
+                      Send
+                    </Button>
+                  )}
                 </div>
               </div>
             ) : (
-              <div className="whitespace-pre-wrap break-words">
-                {message.content}
+              <div className={cn('break-words', !isAssistant && 'whitespace-pre-wrap')}>
+                {attachments.length > 0 && (
+                  <AttachmentThumbnails
+                    attachments={attachments}
+                    projectId={project.id}
+                    alignEnd={isUser}
+                  />
+                )}
+                {isAssistant ? (
+                  <MarkdownContent content={message.content} />
+                ) : (
+                  message.content
+                )}
                 {isStreaming && (
                   <span className="inline-flex items-center ml-2">
                     <span className="w-2 h-4 bg-current animate-pulse rounded-sm" />
@@ -186,6 +276,32 @@ export function ProjectChatMessage({
           isUser ? 'justify-end flex-row-reverse' : 'justify-start'
         )}>
           <span>{format(message.createdAt, 'HH:mm')}</span>
+
+          {versions && (
+            <div className="flex items-center">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleSelectVersion(-1)}
+                disabled={!onSelectVersion || versions.index <= 1}
+                className="h-5 w-5 p-0"
+                title="Previous version"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <span className="tabular-nums">{versions.index}/{versions.count}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleSelectVersion(1)}
+                disabled={!onSelectVersion || versions.index >= versions.count}
+                className="h-5 w-5 p-0"
+                title="Next version"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
           
           {isAssistant && (
             <>
@@ -247,7 +363,7 @@ export function ProjectChatMessage({
               )}
             </Button>
 
-            {isUser && onEdit && (
+            {isUser && (onEdit || onResend) && (
               <Button
                 size="sm"
                 variant="ghost"
@@ -259,6 +375,18 @@ export function ProjectChatMessage({
               </Button>
             )}
 
+            {isAssistant && onRegenerate && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRegenerate(message.id)}
+                className="h-7 px-2"
+                title="Regenerate response"
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            )}
+
             {isAssistant && onRate && (
               <>
                 <Button
@@ -308,10 +436,23 @@ export function ProjectChatMessage({
             'flex items-center gap-2 mt-1',
             isUser ? 'justify-end' : 'justify-start'
           )}>
+            {message.metadata.routing && (
+              <Badge
+                variant="outline"
+                className="text-xs px-1 py-0 cursor-help"
+                title={message.metadata.routing.rationale}
+              >
+                <Zap className="h-3 w-3 mr-1" />
+                Auto · {message.metadata.routing.complexity}
+              </Badge>
+            )}
             {message.metadata.cached && (
               <Badge variant="outline" className="text-xs px-1 py-0">
                 <Sparkles className="h-3 w-3 mr-1" />
                 Cached
+                {message.metadata.similarity !== undefined && (
+                  <span className="ml-1">· {Math.round(message.metadata.similarity * 100)}% match</span>
+                )}
               </Badge>
             )}
             {message.metadata.fallbackUsed && (
@@ -319,6 +460,11 @@ export function ProjectChatMessage({
                 Fallback
               </Badge>
             )}
+            {message.metadata.interrupted && (
+              <Badge variant="outline" className="text-xs px-1 py-0 text-muted-foreground">
+                {message.metadata.interruptReason === 'cancelled' ? 'Stopped' : 'Interrupted'}
+              </Badge>
+            )}
           </div>
         )}
       </div>
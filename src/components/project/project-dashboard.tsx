@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from 'react'
 import { useProjects, Project } from '@/hooks/use-projects'
+import { useAIProviders } from '@/hooks/use-ai-providers'
 import { ProjectCard } from './project-card'
 import { ProjectCreationWizard } from './project-creation-wizard'
 import { ProjectSettings } from './project-settings'
@@ -30,6 +31,7 @@ interface ProjectDashboardProps {
 
 export function ProjectDashboard({ className }: ProjectDashboardProps) {
   const { projects, loading, error, deleteProject } = useProjects()
+  const { providers } = useAIProviders()
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<'updated' | 'created' | 'name'>('updated')
   const [filterBy, setFilterBy] = useState<'all' | 'active' | 'recent' | 'inactive'>('all')
@@ -297,6 +299,7 @@ export function ProjectDashboard({ className }: ProjectDashboardProps) {
             <ProjectCard
               key={project.id}
               project={project}
+              providers={providers}
               onEdit={handleEditProject}
               onDelete={handleDeleteProject}
               onSettings={handleEditProject}
@@ -323,6 +326,7 @@ export function ProjectDashboard({ className }: ProjectDashboardProps) {
           {selectedProject && (
             <ProjectSettings
               project={selectedProject}
+              providers={providers}
               onProjectUpdated={handleProjectUpdated}
               onProjectDeleted={handleProjectDeleted}
             />
@@ -2,6 +2,8 @@
 
 import { useState } from 'react'
 import { useProjects, Project } from '@/hooks/use-projects'
+import { AIProvider } from '@/types'
+import { getProviderSettingDisplayName } from '@/lib/ai/credentials'
 import { ProjectForm } from './project-form'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -13,11 +15,13 @@ import { formatDistanceToNow } from 'date-fns'
 
 interface ProjectSettingsProps {
   project: Project
+  // The user's credentials, to name the project's default provider
+  providers?: AIProvider[]
   onProjectUpdated?: (project: Project) => void
   onProjectDeleted?: () => void
 }
 
-export function ProjectSettings({ project, onProjectUpdated, onProjectDeleted }: ProjectSettingsProps) {
+export function ProjectSettings({ project, providers = [], onProjectUpdated, onProjectDeleted }: ProjectSettingsProps) {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
@@ -159,7 +163,7 @@ export function ProjectSettings({ project, onProjectUpdated, onProjectDeleted }:
                 <div>
                   <span className="text-muted-foreground">Default Provider:</span>
                   <Badge variant="secondary" className="ml-2">
-                    {project.settings?.defaultAIProvider || 'Not set'}
+                    {getProviderSettingDisplayName(providers, project.settings?.defaultAIProvider) || 'Not set'}
                   </Badge>
                 </div>
                 <div>
@@ -46,6 +46,8 @@ export function ProjectWorkspaceLayout({
       setCurrentSection('knowledge')
     } else if (path.includes('/code')) {
       setCurrentSection('code')
+    } else if (path.includes('/analytics')) {
+      setCurrentSection('analytics')
     } else if (path.includes('/settings')) {
       setCurrentSection('settings')
     } else {
@@ -70,6 +72,9 @@ export function ProjectWorkspaceLayout({
       case 'code':
         router.push(`${basePath}/code`)
         break
+      case 'analytics':
+        router.push(`${basePath}/analytics`)
+        break
       case 'settings':
         router.push(`${basePath}/settings`)
         break
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, Lightbulb, Loader2, ThumbsUp, Trophy } from 'lucide-react'
+import type { EffectivenessGroup, PromptEffectivenessReport as Report } from '@/types'
+import { formatCurrency } from '@/lib/utils'
+
+interface PromptEffectivenessReportProps {
+  projectId: string
+}
+
+const PERIODS = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' }
+]
+
+function formatRate(rate?: number): string {
+  return rate === undefined ? '—' : `${Math.round(rate * 100)}%`
+}
+
+function GroupTable({
+  groups,
+  minSampleSize,
+  showComparisons = false
+}: {
+  groups: EffectivenessGroup[]
+  minSampleSize: number
+  showComparisons?: boolean
+}) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No rated replies yet.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium"></th>
+            <th className="py-2 pr-4 font-medium">Rated</th>
+            <th className="py-2 pr-4 font-medium">Helpful</th>
+            {showComparisons && <th className="py-2 pr-4 font-medium">Comparison wins</th>}
+            <th className="py-2 font-medium">Avg. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.key} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <span className="font-medium">{group.label}</span>
+                {group.ratedCount < minSampleSize && (
+                  <Badge variant="outline" className="ml-2 text-xs">Few ratings</Badge>
+                )}
+              </td>
+              <td className="py-2 pr-4">{group.ratedCount}</td>
+              <td className="py-2 pr-4">{formatRate(group.helpfulRate)}</td>
+              {showComparisons && (
+                <td className="py-2 pr-4">
+                  {group.comparisonCount > 0
+                    ? `${formatRate(group.winRate)} (${group.comparisonWins} of ${group.comparisonCount})`
+                    : '—'}
+                </td>
+              )}
+              <td className="py-2">
+                {group.averageCost === undefined ? '—' : formatCurrency(group.averageCost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * Which models, templates and context settings get the best-rated replies
+ * in a project
+ */
+export function PromptEffectivenessReport({ projectId }: PromptEffectivenessReportProps) {
+  const [days, setDays] = useState(90)
+  const [report, setReport] = useState<Report | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const response = await fetch(`/api/projects/${projectId}/analytics/effectiveness?days=${days}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load report')
+        }
+
+        setReport(data.report)
+      } catch (err) {
+        console.error('Error loading effectiveness report:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load report')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReport()
+  }, [projectId, days])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">What Works Best Here</h2>
+          <p className="text-muted-foreground">
+            How replies were rated, by model, template, project context and cost
+          </p>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => (
+              <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : report && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2">
+                  <ThumbsUp className="h-4 w-4" />
+                  Rated replies
+                </CardDescription>
+                <CardTitle className="text-3xl">{report.overall.ratedCount}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4" />
+                  Rated helpful
+                </CardDescription>
+                <CardTitle className="text-3xl">{formatRate(report.overall.helpfulRate)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Lightbulb className="h-4 w-4" />
+                Recommendations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.recommendations.length > 0 ? (
+                <ul className="list-disc pl-5 space-y-1 text-sm">
+                  {report.recommendations.map(recommendation => (
+                    <li key={recommendation}>{recommendation}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No clear winner yet. Rate replies in the chat and compare models to build this up; groups need
+                  {' '}{report.minSampleSize} ratings before they are compared.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <Tabs defaultValue="model">
+                <TabsList>
+                  <TabsTrigger value="model">Models</TabsTrigger>
+                  <TabsTrigger value="template">Templates</TabsTrigger>
+                  <TabsTrigger value="context">Project context</TabsTrigger>
+                  <TabsTrigger value="cost">Cost</TabsTrigger>
+                </TabsList>
+                <TabsContent value="model">
+                  <GroupTable groups={report.byModel} minSampleSize={report.minSampleSize} showComparisons />
+                </TabsContent>
+                <TabsContent value="template">
+                  <GroupTable groups={report.byTemplate} minSampleSize={report.minSampleSize} />
+                </TabsContent>
+                <TabsContent value="context">
+                  <GroupTable groups={report.byContext} minSampleSize={report.minSampleSize} />
+                </TabsContent>
+                <TabsContent value="cost">
+                  <GroupTable groups={report.byCost} minSampleSize={report.minSampleSize} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
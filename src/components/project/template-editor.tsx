@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { TemplateDraft } from '@/hooks/use-templates'
+import { resolveVariables } from '@/lib/templates/template-variables'
+import type { PromptTemplate, TemplateVariable } from '@/types'
+
+interface TemplateEditorProps {
+  template?: PromptTemplate
+  isSaving?: boolean
+  onSave: (draft: TemplateDraft) => void
+  onCancel: () => void
+}
+
+const VARIABLE_TYPES: { value: TemplateVariable['type']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'textarea', label: 'Long text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Choice' },
+  { value: 'boolean', label: 'Yes / no' }
+]
+
+/**
+ * Form for a new or owned template. Inputs are listed for every `{{name}}`
+ * in the content as it is typed.
+ */
+export function TemplateEditor({ template, isSaving = false, onSave, onCancel }: TemplateEditorProps) {
+  const [name, setName] = useState(template?.name || '')
+  const [category, setCategory] = useState(template?.category || 'general')
+  const [description, setDescription] = useState(template?.description || '')
+  const [content, setContent] = useState(template?.content || '')
+  const [isPublic, setIsPublic] = useState(template?.isPublic || false)
+  // Kept for placeholders that are removed and typed back in
+  const [definitions, setDefinitions] = useState<TemplateVariable[]>(template?.variables || [])
+
+  const variables = resolveVariables(content, definitions)
+  const canSave = name.trim().length > 0 && category.trim().length > 0 && content.trim().length > 0
+
+  const updateVariable = (variable: TemplateVariable, updates: Partial<TemplateVariable>) => {
+    setDefinitions(prev => [
+      ...prev.filter(existing => existing.name !== variable.name),
+      { ...variable, ...updates }
+    ])
+  }
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      category: category.trim(),
+      description: description.trim() || undefined,
+      content,
+      isPublic,
+      tags: template?.tags,
+      variables
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Name</Label>
+          <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-category">Category</Label>
+          <Input id="template-category" value={category} onChange={(e) => setCategory(e.target.value)} maxLength={50} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-description">Description</Label>
+        <Input
+          id="template-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={500}
+          placeholder="What the template is for"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-content">Prompt</Label>
+        <Textarea
+          id="template-content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={6}
+          placeholder="Review {{language}} code for {{focus}}..."
+        />
+        <p className="text-xs text-muted-foreground">
+          Use {'{{name}}'} for the parts to fill in when the template is used.
+        </p>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-3">
+          <Label>Variables</Label>
+          {variables.map(variable => (
+            <div key={variable.name} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <code className="text-sm">{variable.name}</code>
+                <label className="flex items-center gap-2 text-xs">
+                  <Switch
+                    checked={variable.required ?? false}
+                    onCheckedChange={(required) => updateVariable(variable, { required })}
+                  />
+                  Required
+                </label>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Select
+                  value={variable.type}
+                  onValueChange={(type) => updateVariable(variable, { type: type as TemplateVariable['type'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VARIABLE_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={variable.label || ''}
+                  onChange={(e) => updateVariable(variable, { label: e.target.value || undefined })}
+                  placeholder="Label"
+                />
+                <Input
+                  value={variable.defaultValue || ''}
+                  onChange={(e) => updateVariable(variable, { defaultValue: e.target.value || undefined })}
+                  placeholder="Default value"
+                />
+              </div>
+              {variable.type === 'select' && (
+                // Parsed on blur so commas can be typed
+                <Input
+                  defaultValue={variable.options?.join(', ') || ''}
+                  onBlur={(e) => updateVariable(variable, {
+                    options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+                  })}
+                  placeholder="Choices, separated by commas"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2">
+        <Switch checked={isPublic} onCheckedChange={setIsPublic} />
+        <span className="text-sm">Share with everyone</span>
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!canSave || isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Template
+        </Button>
+      </div>
+    </div>
+  )
+}
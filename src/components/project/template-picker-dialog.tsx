@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertCircle, ArrowLeft, Globe, Loader2, Pencil, Plus, Search, ThumbsUp, Trash2 } from 'lucide-react'
+import { TemplateDraft, UseTemplatesOptions, useTemplates } from '@/hooks/use-templates'
+import {
+  initialVariableValues,
+  renderTemplate,
+  resolveVariables,
+  validateVariableValues
+} from '@/lib/templates/template-variables'
+import { useAuthContext } from '@/components/auth/auth-provider'
+import type { PromptTemplate } from '@/types'
+import { TemplateEditor } from './template-editor'
+
+interface TemplatePickerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Opens straight to the variables of this template
+  initialTemplate?: PromptTemplate
+  onInsert: (content: string, template: PromptTemplate) => void
+}
+
+const ALL_CATEGORIES = '__all'
+
+type View =
+  | { kind: 'browse' }
+  | { kind: 'fill'; template: PromptTemplate }
+  | { kind: 'edit'; template?: PromptTemplate }
+
+/**
+ * Browse, fill in and manage prompt templates. Filling in a template inserts
+ * the rendered prompt into the composer; it is sent like any typed message.
+ */
+export function TemplatePickerDialog({
+  open,
+  onOpenChange,
+  initialTemplate,
+  onInsert
+}: TemplatePickerDialogProps) {
+  const [view, setView] = useState<View>({ kind: 'browse' })
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState(ALL_CATEGORIES)
+  const [scope, setScope] = useState<NonNullable<UseTemplatesOptions['scope']>>('all')
+  const [sortBy, setSortBy] = useState<NonNullable<UseTemplatesOptions['sortBy']>>('usage')
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const { user } = useAuthContext()
+  const { templates, loading, error, createTemplate, updateTemplate, deleteTemplate } = useTemplates({
+    scope,
+    search,
+    sortBy
+  })
+
+  // Debounce the search so each keystroke doesn't refetch
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  useEffect(() => {
+    if (!open) return
+    setActionError(null)
+    if (initialTemplate) {
+      openTemplate(initialTemplate)
+    } else {
+      setView({ kind: 'browse' })
+    }
+  }, [open, initialTemplate])
+
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map(template => template.category))).sort(),
+    [templates]
+  )
+  const visibleTemplates = category === ALL_CATEGORIES
+    ? templates
+    : templates.filter(template => template.category === category)
+
+  const variables = view.kind === 'fill' ? resolveVariables(view.template.content, view.template.variables) : []
+  const preview = view.kind === 'fill' ? renderTemplate(view.template.content, values) : ''
+
+  function openTemplate(template: PromptTemplate) {
+    setValues(initialVariableValues(resolveVariables(template.content, template.variables)))
+    setErrors({})
+    setView({ kind: 'fill', template })
+  }
+
+  const handleInsert = () => {
+    if (view.kind !== 'fill') return
+
+    const problems = validateVariableValues(variables, values)
+    setErrors(problems)
+    if (Object.keys(problems).length > 0) return
+
+    onInsert(preview, view.template)
+    onOpenChange(false)
+  }
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true)
+      setActionError(null)
+      await action()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = (draft: TemplateDraft) => runAction(async () => {
+    if (view.kind !== 'edit') return
+
+    if (view.template) {
+      await updateTemplate(view.template.id, draft)
+    } else {
+      await createTemplate(draft)
+    }
+    setView({ kind: 'browse' })
+  })
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return
+    runAction(() => deleteTemplate(template.id))
+  }
+
+  const renderVariableInput = (name: string) => {
+    const variable = variables.find(v => v.name === name)!
+    const value = values[name] ?? ''
+    const setValue = (next: string) => setValues(prev => ({ ...prev, [name]: next }))
+
+    switch (variable.type) {
+      case 'textarea':
+        return <Textarea id={`var-${name}`} value={value} onChange={(e) => setValue(e.target.value)} rows={3} />
+      case 'number':
+        return <Input id={`var-${name}`} type="number" value={value} onChange={(e) => setValue(e.target.value)} />
+      case 'boolean':
+        return (
+          <Switch
+            id={`var-${name}`}
+            checked={value === 'true'}
+            onCheckedChange={(checked) => setValue(String(checked))}
+          />
+        )
+      case 'select':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger id={`var-${name}`}>
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(variable.options || []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      default:
+        return <Input id={`var-${name}`} value={value} onChange={(e) => setValue(e.target.value)} />
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {view.kind === 'fill' ? view.template.name
+              : view.kind === 'edit' ? (view.template ? 'Edit Template' : 'New Template')
+              : 'Prompt Templates'}
+          </DialogTitle>
+          <DialogDescription>
+            {view.kind === 'fill'
+              ? view.template.description || 'Fill in the template and insert it into your message.'
+              : view.kind === 'edit'
+                ? 'Templates can be kept to yourself or shared with everyone.'
+                : 'Reusable prompts, yours and shared ones.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(error || actionError) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError || error}</AlertDescription>
+          </Alert>
+        )}
+
+        {view.kind === 'browse' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-1 min-w-[180px]">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search templates..."
+                  className="pl-8"
+                />
+              </div>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {categories.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={scope} onValueChange={(next) => setScope(next as typeof scope)}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="mine">Mine</SelectItem>
+                  <SelectItem value="public">Shared</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={sortBy} onValueChange={(next) => setSortBy(next as typeof sortBy)}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="usage">Most used</SelectItem>
+                  <SelectItem value="rating">Top rated</SelectItem>
+                  <SelectItem value="updated">Recently updated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center p-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : visibleTemplates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No templates found.</p>
+            ) : (
+              <div className="space-y-2">
+                {visibleTemplates.map(template => (
+                  <div key={template.id} className="flex items-start justify-between gap-2 rounded-md border p-3">
+                    <button type="button" className="min-w-0 flex-1 space-y-1 text-left" onClick={() => openTemplate(template)}>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{template.name}</span>
+                        <Badge variant="outline">{template.category}</Badge>
+                        {template.isPublic && <Globe className="h-3 w-3 text-muted-foreground" />}
+                      </div>
+                      {template.description && (
+                        <p className="text-xs text-muted-foreground">{template.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Used {template.usageCount} {template.usageCount === 1 ? 'time' : 'times'}
+                        {template.averageRating !== undefined && (
+                          <span className="inline-flex items-center gap-0.5 ml-2">
+                            <ThumbsUp className="h-3 w-3" />
+                            {/* Replies are rated +1 or -1 */}
+                            {Math.round((template.averageRating + 1) * 50)}% helpful ({template.ratingCount})
+                          </span>
+                        )}
+                      </p>
+                    </button>
+                    {template.userId === user?.id && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSaving}
+                          onClick={() => setView({ kind: 'edit', template })}
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSaving}
+                          onClick={() => handleDelete(template)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setView({ kind: 'edit' })}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Template
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {view.kind === 'fill' && (
+          <div className="space-y-4">
+            {variables.map(variable => (
+              <div key={variable.name} className="space-y-1">
+                <Label htmlFor={`var-${variable.name}`}>
+                  {variable.label || variable.name}
+                  {variable.required && <span className="text-destructive"> *</span>}
+                </Label>
+                {renderVariableInput(variable.name)}
+                {variable.description && (
+                  <p className="text-xs text-muted-foreground">{variable.description}</p>
+                )}
+                {errors[variable.name] && (
+                  <p className="text-xs text-destructive">{errors[variable.name]}</p>
+                )}
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Label>Preview</Label>
+              <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm max-h-48 overflow-y-auto">
+                {preview}
+              </pre>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setView({ kind: 'browse' })}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleInsert}>Insert</Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {view.kind === 'edit' && (
+          <TemplateEditor
+            key={view.template?.id || 'new'}
+            template={view.template}
+            isSaving={isSaving}
+            onSave={handleSave}
+            onCancel={() => setView({ kind: 'browse' })}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
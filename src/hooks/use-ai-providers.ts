@@ -1,15 +1,38 @@
 import { useState, useEffect } from 'react';
 import { AIProvider } from '@/types';
-import { AIProviderType } from '@/lib/ai/providers';
+import { AIProviderType, CustomEndpointConfig } from '@/lib/ai/providers';
+
+export interface CreateProviderOptions {
+  label?: string;
+  endpoint?: Partial<CustomEndpointConfig>;
+}
 
 interface UseAIProvidersReturn {
   providers: AIProvider[];
   loading: boolean;
   error: string | null;
-  createProvider: (provider: AIProviderType, apiKey: string, settings?: any) => Promise<void>;
-  updateProvider: (id: string, updates: { isActive?: boolean; settings?: any }) => Promise<void>;
+  createProvider: (
+    provider: AIProviderType,
+    apiKey: string,
+    settings?: any,
+    options?: CreateProviderOptions
+  ) => Promise<void>;
+  updateProvider: (
+    id: string,
+    updates: {
+      isActive?: boolean;
+      isDefault?: boolean;
+      label?: string;
+      settings?: any;
+      endpoint?: Partial<CustomEndpointConfig>;
+    }
+  ) => Promise<void>;
   deleteProvider: (id: string) => Promise<void>;
-  testApiKey: (provider: AIProviderType, apiKey: string) => Promise<{ valid: boolean; error?: string }>;
+  testApiKey: (
+    provider: AIProviderType,
+    apiKey: string,
+    endpoint?: Partial<CustomEndpointConfig>
+  ) => Promise<{ valid: boolean; error?: string; models?: string[] }>;
   refreshProviders: () => Promise<void>;
 }
 
@@ -60,11 +83,12 @@ export function useAIProviders(): UseAIProvidersReturn {
   const createProvider = async (
     provider: AIProviderType, 
     apiKey: string, 
-    settings?: any
+    settings?: any,
+    options: CreateProviderOptions = {}
   ) => {
     try {
       setError(null);
-      const payload = { provider, apiKey, settings };
+      const payload = { provider, apiKey, settings, ...options };
       
       // Enhanced frontend logging for debugging
       console.log('[Frontend] Starting createProvider request');
@@ -167,7 +191,13 @@ export function useAIProviders(): UseAIProvidersReturn {
 
   const updateProvider = async (
     id: string, 
-    updates: { isActive?: boolean; settings?: any }
+    updates: {
+      isActive?: boolean;
+      isDefault?: boolean;
+      label?: string;
+      settings?: any;
+      endpoint?: Partial<CustomEndpointConfig>;
+    }
   ) => {
     try {
       setError(null);
@@ -212,19 +242,23 @@ export function useAIProviders(): UseAIProvidersReturn {
     }
   };
 
-  const testApiKey = async (provider: AIProviderType, apiKey: string): Promise<{ valid: boolean; error?: string }> => {
+  const testApiKey = async (
+    provider: AIProviderType,
+    apiKey: string,
+    endpoint?: Partial<CustomEndpointConfig>
+  ): Promise<{ valid: boolean; error?: string; models?: string[] }> => {
     try {
       const response = await fetch('/api/ai/providers/test', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ provider, apiKey }),
+        body: JSON.stringify({ provider, apiKey, endpoint }),
       });
 
       const data = await response.json();
       if (response.ok && (data.success || data.valid)) {
-        return { valid: true };
+        return { valid: true, models: data.models };
       }
       const msg = data.message || data.error || `API key test failed (status ${response.status})`;
       return { valid: false, error: msg };
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AssistantProfile, AvailableAssistantProfile } from '@/types';
+
+export type AssistantProfileDraft = Omit<
+  AssistantProfile,
+  'id' | 'projectId' | 'providerType' | 'copiedFrom' | 'createdAt' | 'updatedAt'
+>;
+
+export type AssistantProfileUpdate = {
+  [K in keyof AssistantProfileDraft]?: AssistantProfileDraft[K] | null;
+};
+
+interface UseAssistantProfilesReturn {
+  profiles: AssistantProfile[];
+  defaultProfileId: string | null;
+  loading: boolean;
+  error: string | null;
+  createProfile: (draft: AssistantProfileDraft, isDefault?: boolean) => Promise<AssistantProfile>;
+  // null clears an optional setting
+  updateProfile: (profileId: string, updates: AssistantProfileUpdate) => Promise<AssistantProfile>;
+  deleteProfile: (profileId: string) => Promise<void>;
+  setDefaultProfile: (profileId: string, isDefault: boolean) => Promise<void>;
+  copyProfile: (sourceProjectId: string, profileId: string) => Promise<AssistantProfile>;
+  // Profiles in the user's other projects, for copying into this one
+  fetchAvailableProfiles: () => Promise<AvailableAssistantProfile[]>;
+  refreshProfiles: () => Promise<void>;
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || fallback);
+  }
+  return data;
+}
+
+export function useAssistantProfiles(projectId: string): UseAssistantProfilesReturn {
+  const [profiles, setProfiles] = useState<AssistantProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/projects/${projectId}/assistant-profiles`;
+
+  const refreshProfiles = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await readJson(await fetch(baseUrl), 'Failed to load assistant profiles');
+      setProfiles(data.profiles || []);
+      setDefaultProfileId(data.defaultProfileId ?? null);
+    } catch (err) {
+      console.error('Error loading assistant profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load assistant profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  const createProfile = useCallback(async (draft: AssistantProfileDraft, isDefault = false) => {
+    const data = await readJson(await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...draft, isDefault }),
+    }), 'Failed to create assistant profile');
+
+    await refreshProfiles();
+    return data.profile as AssistantProfile;
+  }, [baseUrl, refreshProfiles]);
+
+  const updateProfile = useCallback(async (profileId: string, updates: AssistantProfileUpdate) => {
+    const data = await readJson(await fetch(`${baseUrl}/${profileId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    }), 'Failed to update assistant profile');
+
+    await refreshProfiles();
+    return data.profile as AssistantProfile;
+  }, [baseUrl, refreshProfiles]);
+
+  const deleteProfile = useCallback(async (profileId: string) => {
+    await readJson(await fetch(`${baseUrl}/${profileId}`, { method: 'DELETE' }), 'Failed to delete assistant profile');
+    await refreshProfiles();
+  }, [baseUrl, refreshProfiles]);
+
+  const setDefaultProfile = useCallback(async (profileId: string, isDefault: boolean) => {
+    await readJson(await fetch(`${baseUrl}/${profileId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isDefault }),
+    }), 'Failed to update the default profile');
+
+    await refreshProfiles();
+  }, [baseUrl, refreshProfiles]);
+
+  const copyProfile = useCallback(async (sourceProjectId: string, profileId: string) => {
+    const data = await readJson(await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sourceProjectId, profileId }),
+    }), 'Failed to copy assistant profile');
+
+    await refreshProfiles();
+    return data.profile as AssistantProfile;
+  }, [baseUrl, refreshProfiles]);
+
+  const fetchAvailableProfiles = useCallback(async () => {
+    const data = await readJson(await fetch('/api/assistant-profiles'), 'Failed to load assistant profiles');
+    return (data.profiles as AvailableAssistantProfile[])
+      .filter(profile => profile.projectId !== projectId);
+  }, [projectId]);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  return {
+    profiles,
+    defaultProfileId,
+    loading,
+    error,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    setDefaultProfile,
+    copyProfile,
+    fetchAvailableProfiles,
+    refreshProfiles,
+  };
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { ChatMessage } from '@/types';
+import { cancelGeneration, readGenerationStream } from '@/lib/ai/generation-stream';
+import type { ContextSelection } from '@/lib/context/context-injection-service';
 
 interface UseChatOptions {
   projectId: string;
@@ -8,7 +10,13 @@ interface UseChatOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
-  systemPrompt?: string;
+  // Context picked for the message; the server looks the items up again
+  context?: ContextSelection;
+  // Profile picked for the conversation; unset for the project default
+  assistantProfileId?: string;
+  attachmentIds?: string[];
+  // Prompt template the message was filled in from
+  templateId?: string;
 }
 
 interface ChatState {
@@ -29,6 +37,10 @@ interface ChatState {
 interface UseChatReturn extends ChatState {
   sendMessage: (content: string, options?: Partial<UseChatOptions>) => Promise<void>;
   sendMessageStream: (content: string, options?: Partial<UseChatOptions>) => Promise<void>;
+  // New versions default to the provider and model of the message they replace
+  regenerateMessage: (messageId: string, options?: Partial<UseChatOptions>) => Promise<void>;
+  editAndResend: (messageId: string, content: string, options?: Partial<UseChatOptions>) => Promise<void>;
+  selectVersion: (messageId: string) => Promise<void>;
   deleteMessage: (messageId: string) => Promise<void>;
   rateMessage: (messageId: string, rating: number, feedback?: string) => Promise<void>;
   clearMessages: () => void;
@@ -47,6 +59,7 @@ export function useChat(options: UseChatOptions): UseChatReturn {
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const streamingMessageRef = useRef<ChatMessage | null>(null);
+  const generationIdRef = useRef<string | null>(null);
 
   // Load chat history on mount and when conversation changes
   useEffect(() => {
@@ -98,7 +111,10 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         model: messageOptions?.model || options.model,
         temperature: messageOptions?.temperature || options.temperature,
         maxTokens: messageOptions?.maxTokens || options.maxTokens,
-        systemPrompt: messageOptions?.systemPrompt || options.systemPrompt,
+        context: messageOptions?.context,
+        assistantProfileId: options.assistantProfileId,
+        attachmentIds: messageOptions?.attachmentIds,
+        templateId: messageOptions?.templateId,
       };
 
       const response = await fetch('/api/ai/chat', {
@@ -130,8 +146,11 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     }
   }, [options]);
 
-  const sendMessageStream = useCallback(async (
-    content: string,
+  /**
+   * Stream a reply for a request to /api/ai/chat/stream into the message list
+   */
+  const streamReply = useCallback(async (
+    requestBody: Record<string, unknown>,
     messageOptions?: Partial<UseChatOptions>
   ) => {
     try {
@@ -140,17 +159,6 @@ export function useChat(options: UseChatOptions): UseChatReturn {
       // Create abort controller for this request
       abortControllerRef.current = new AbortController();
 
-      const requestBody = {
-        content,
-        projectId: options.projectId,
-        conversationId: options.conversationId,
-        providerId: messageOptions?.providerId || options.providerId,
-        model: messageOptions?.model || options.model,
-        temperature: messageOptions?.temperature || options.temperature,
-        maxTokens: messageOptions?.maxTokens || options.maxTokens,
-        systemPrompt: messageOptions?.systemPrompt || options.systemPrompt,
-      };
-
       const response = await fetch('/api/ai/chat/stream', {
         method: 'POST',
         headers: {
@@ -164,90 +172,97 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         throw new Error('Failed to start streaming');
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') {
-                setState(prev => ({ ...prev, isStreaming: false }));
-                return;
-              }
-
-              try {
-                const parsed = JSON.parse(data);
+        await readGenerationStream(response, {
+          signal: abortControllerRef.current.signal,
+          onGenerationId: (generationId) => {
+            generationIdRef.current = generationId;
+          },
+          onEvent: (event) => {
+            if (event.type === 'user_message') {
+              setState(prev => ({
+                ...prev,
+                messages: [...prev.messages, event.data],
+              }));
+            } else if (event.type === 'assistant_delta') {
+              if (!streamingMessageRef.current) {
+                // Create new streaming message
+                streamingMessageRef.current = {
+                  id: event.data.id,
+                  projectId: options.projectId,
+                  role: 'assistant',
+                  content: event.data.content,
+                  provider: messageOptions?.providerId || options.providerId || 'unknown',
+                  model: messageOptions?.model || options.model || 'unknown',
+                  metadata: { streaming: true },
+                  createdAt: new Date(),
+                };
+                
+                setState(prev => ({
+                  ...prev,
+                  messages: [...prev.messages, streamingMessageRef.current!],
+                }));
+              } else {
+                // Update existing streaming message
+                streamingMessageRef.current.content = event.data.content;
                 
-                if (parsed.type === 'user_message') {
-                  setState(prev => ({
-                    ...prev,
-                    messages: [...prev.messages, parsed.data],
-                  }));
-                } else if (parsed.type === 'assistant_delta') {
-                  if (!streamingMessageRef.current) {
-                    // Create new streaming message
-                    streamingMessageRef.current = {
-                      id: parsed.data.id,
-                      projectId: options.projectId,
-                      role: 'assistant',
-                      content: parsed.data.content,
-                      provider: messageOptions?.providerId || options.providerId || 'unknown',
-                      model: messageOptions?.model || options.model || 'unknown',
-                      metadata: { streaming: true },
-                      createdAt: new Date(),
-                    };
-                    
-                    setState(prev => ({
-                      ...prev,
-                      messages: [...prev.messages, streamingMessageRef.current!],
-                    }));
-                  } else {
-                    // Update existing streaming message
-                    streamingMessageRef.current.content = parsed.data.content;
-                    
-                    setState(prev => ({
-                      ...prev,
-                      messages: prev.messages.map(msg =>
-                        msg.id === streamingMessageRef.current?.id
-                          ? { ...streamingMessageRef.current! }
-                          : msg
-                      ),
-                    }));
-                  }
-                } else if (parsed.type === 'assistant_complete') {
-                  streamingMessageRef.current = null;
-                  setState(prev => ({
-                    ...prev,
-                    messages: prev.messages.map(msg =>
-                      msg.id === parsed.data.id ? parsed.data : msg
-                    ),
-                    isStreaming: false,
-                  }));
-                } else if (parsed.type === 'error') {
-                  throw new Error(parsed.data.message);
-                }
-              } catch (e) {
-                // Skip invalid JSON
+                setState(prev => ({
+                  ...prev,
+                  messages: prev.messages.map(msg =>
+                    msg.id === streamingMessageRef.current?.id
+                      ? { ...streamingMessageRef.current! }
+                      : msg
+                  ),
+                }));
               }
+            } else if (event.type === 'generation_snapshot') {
+              // A resume answered from the stored generation record: it is the
+              // last event of the stream, and carries the saved message's id
+              // once the reply has been stored
+              const record = event.data;
+              const placeholderId = streamingMessageRef.current?.id;
+              const message: ChatMessage = {
+                ...(streamingMessageRef.current ?? {
+                  projectId: options.projectId,
+                  conversationId: record.conversationId,
+                  role: 'assistant',
+                  provider: messageOptions?.providerId || options.providerId || 'unknown',
+                  model: messageOptions?.model || options.model || 'unknown',
+                  threadDepth: 0,
+                  isBranchPoint: false,
+                  createdAt: new Date(),
+                }),
+                id: record.assistantMessageId || record.id,
+                content: record.content,
+                metadata: {},
+              };
+              streamingMessageRef.current = null;
+              setState(prev => ({
+                ...prev,
+                messages: prev.messages.some(msg => msg.id === message.id || msg.id === placeholderId)
+                  ? prev.messages.map(msg =>
+                      msg.id === message.id || msg.id === placeholderId ? message : msg
+                    )
+                  : [...prev.messages, message],
+                isStreaming: false,
+              }));
+            } else if (event.type === 'assistant_complete' || event.type === 'assistant_interrupted') {
+              // Replace the streaming placeholder with the saved message
+              const placeholderId = streamingMessageRef.current?.id;
+              streamingMessageRef.current = null;
+              setState(prev => ({
+                ...prev,
+                messages: prev.messages.map(msg =>
+                  msg.id === event.data.id || msg.id === placeholderId ? event.data : msg
+                ),
+                isStreaming: false,
+              }));
             }
-          }
-        }
+          },
+        });
+        setState(prev => ({ ...prev, isStreaming: false }));
       } finally {
-        reader.releaseLock();
+        generationIdRef.current = null;
         streamingMessageRef.current = null;
       }
     } catch (error) {
@@ -265,6 +280,92 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     }
   }, [options]);
 
+  const sendMessageStream = useCallback(async (
+    content: string,
+    messageOptions?: Partial<UseChatOptions>
+  ) => {
+    await streamReply({
+      content,
+      projectId: options.projectId,
+      conversationId: options.conversationId,
+      providerId: messageOptions?.providerId || options.providerId,
+      model: messageOptions?.model || options.model,
+      temperature: messageOptions?.temperature || options.temperature,
+      maxTokens: messageOptions?.maxTokens || options.maxTokens,
+      context: messageOptions?.context,
+      assistantProfileId: options.assistantProfileId,
+      attachmentIds: messageOptions?.attachmentIds,
+      templateId: messageOptions?.templateId,
+    }, messageOptions);
+  }, [options, streamReply]);
+
+  /**
+   * Stream a new version of a message in place of it and everything after it,
+   * then reload to pick up the version counts
+   */
+  const streamVersion = useCallback(async (
+    messageId: string,
+    request: { regenerateMessageId?: string; editMessageId?: string; content?: string },
+    messageOptions?: Partial<UseChatOptions>
+  ) => {
+    setState(prev => {
+      const index = prev.messages.findIndex(msg => msg.id === messageId);
+      return index === -1 ? prev : { ...prev, messages: prev.messages.slice(0, index) };
+    });
+
+    await streamReply({
+      ...request,
+      projectId: options.projectId,
+      conversationId: options.conversationId,
+      providerId: messageOptions?.providerId,
+      model: messageOptions?.model,
+      temperature: messageOptions?.temperature || options.temperature,
+      maxTokens: messageOptions?.maxTokens || options.maxTokens,
+      context: messageOptions?.context,
+      assistantProfileId: options.assistantProfileId,
+    }, messageOptions);
+    await refreshHistory();
+  }, [options, streamReply, refreshHistory]);
+
+  const regenerateMessage = useCallback(async (
+    messageId: string,
+    messageOptions?: Partial<UseChatOptions>
+  ) => {
+    await streamVersion(messageId, { regenerateMessageId: messageId }, messageOptions);
+  }, [streamVersion]);
+
+  const editAndResend = useCallback(async (
+    messageId: string,
+    content: string,
+    messageOptions?: Partial<UseChatOptions>
+  ) => {
+    await streamVersion(messageId, { editMessageId: messageId, content }, messageOptions);
+  }, [streamVersion]);
+
+  const selectVersion = useCallback(async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/ai/chat/messages/${messageId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ selected: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to switch version');
+      }
+
+      // Everything after the switched message may change with it
+      await refreshHistory();
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to switch version',
+      }));
+    }
+  }, [refreshHistory]);
+
   const deleteMessage = useCallback(async (messageId: string) => {
     try {
       const response = await fetch(`/api/ai/chat/messages/${messageId}`, {
@@ -338,7 +439,14 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     }));
   }, []);
 
-  const abortStream = useCallback(() => {
+  const abortStream = useCallback(async () => {
+    // Cancelling on the server stops the provider request; the open stream
+    // then delivers the interrupted reply and ends
+    const generationId = generationIdRef.current;
+    if (generationId && await cancelGeneration(generationId)) {
+      return;
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
@@ -351,6 +459,9 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     ...state,
     sendMessage,
     sendMessageStream,
+    regenerateMessage,
+    editAndResend,
+    selectVersion,
     deleteMessage,
     rateMessage,
     clearMessages,
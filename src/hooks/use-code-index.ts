@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CodeIndexStatus } from '@/types';
+
+export interface CodeImportOptions {
+  excludePatterns: string[];
+  // Bytes; the server default applies when unset
+  maxFileSize?: number;
+}
+
+export interface IndexedFileContent {
+  path: string;
+  language: string;
+  content: string;
+}
+
+interface UseCodeIndexReturn {
+  index: CodeIndexStatus | null;
+  loading: boolean;
+  error: string | null;
+  importGitHub: (branch: string | undefined, options: CodeImportOptions) => Promise<CodeIndexStatus>;
+  importArchive: (file: File, options: CodeImportOptions) => Promise<CodeIndexStatus>;
+  // Imports the project's local path; the server never takes another
+  importLocalPath: (options: CodeImportOptions) => Promise<CodeIndexStatus>;
+  getFile: (path: string) => Promise<IndexedFileContent>;
+  refreshIndex: () => Promise<void>;
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || fallback);
+  }
+  return data;
+}
+
+export function useCodeIndex(projectId: string): UseCodeIndexReturn {
+  const [index, setIndex] = useState<CodeIndexStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshIndex = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await readJson(
+        await fetch(`/api/projects/${projectId}/code-index`),
+        'Failed to load code index'
+      );
+      setIndex(data.index);
+    } catch (err) {
+      console.error('Error loading code index:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load code index');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  // Imports run to completion in the request, so the response is the final status
+  const runImport = useCallback(async (request: Promise<Response>, fallback: string) => {
+    const data = await readJson(await request, fallback);
+    setIndex(data.index);
+    return data.index as CodeIndexStatus;
+  }, []);
+
+  const importGitHub = useCallback((branch: string | undefined, options: CodeImportOptions) => {
+    return runImport(fetch(`/api/projects/${projectId}/code-index`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: 'github', branch, ...options }),
+    }), 'Failed to index repository');
+  }, [projectId, runImport]);
+
+  const importLocalPath = useCallback((options: CodeImportOptions) => {
+    return runImport(fetch(`/api/projects/${projectId}/code-index`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: 'local', ...options }),
+    }), 'Failed to import local path');
+  }, [projectId, runImport]);
+
+  const importArchive = useCallback((file: File, options: CodeImportOptions) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('excludePatterns', options.excludePatterns.join('\n'));
+    if (options.maxFileSize) formData.append('maxFileSize', String(options.maxFileSize));
+
+    return runImport(fetch(`/api/projects/${projectId}/code-index/archive`, {
+      method: 'POST',
+      body: formData,
+    }), 'Failed to import archive');
+  }, [projectId, runImport]);
+
+  const getFile = useCallback(async (path: string) => {
+    const data = await readJson(
+      await fetch(`/api/projects/${projectId}/code-index/files?${new URLSearchParams({ path })}`),
+      'Failed to load file'
+    );
+    return data.file as IndexedFileContent;
+  }, [projectId]);
+
+  useEffect(() => {
+    refreshIndex();
+  }, [refreshIndex]);
+
+  return {
+    index,
+    loading,
+    error,
+    importGitHub,
+    importArchive,
+    importLocalPath,
+    getFile,
+    refreshIndex,
+  };
+}
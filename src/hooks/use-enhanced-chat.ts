@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { ChatMessage } from '@/types';
+import { cancelGeneration, readGenerationStream } from '@/lib/ai/generation-stream';
+import type { ContextSelection } from '@/lib/context/context-injection-service';
 
 interface UseEnhancedChatOptions {
   projectId: string;
-  systemPrompt?: string;
 }
 
 interface FallbackConfig {
@@ -30,12 +31,19 @@ interface EnhancedChatState {
   health: {
     [provider: string]: {
       available: boolean;
+      state: 'closed' | 'open' | 'half_open';
+      errorRate: number;
+      p50Latency: number | null;
+      p95Latency: number | null;
       responseTime?: number;
       lastChecked: Date;
     };
   } | null;
   cacheStats: {
+    backend: 'memory' | 'postgres';
     size: number;
+    hits: number;
+    misses: number;
     hitRate: number;
     totalEntries: number;
     averageAge: number;
@@ -48,7 +56,7 @@ interface UseEnhancedChatReturn extends EnhancedChatState {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    systemPrompt?: string;
+    context?: ContextSelection;
     fallbackConfig?: Partial<FallbackConfig>;
     enableCaching?: boolean;
   }) => Promise<void>;
@@ -57,7 +65,7 @@ interface UseEnhancedChatReturn extends EnhancedChatState {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    systemPrompt?: string;
+    context?: ContextSelection;
     fallbackConfig?: Partial<FallbackConfig>;
   }) => Promise<void>;
   deleteMessage: (messageId: string) => Promise<void>;
@@ -82,6 +90,7 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const streamingMessageRef = useRef<ChatMessage | null>(null);
+  const generationIdRef = useRef<string | null>(null);
 
   // Load chat history and health on mount
   useEffect(() => {
@@ -132,14 +141,14 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
 
   const clearCache = useCallback(async () => {
     try {
-      const response = await fetch('/api/ai/cache', { method: 'DELETE' });
+      const response = await fetch(`/api/ai/cache?projectId=${options.projectId}`, { method: 'DELETE' });
       if (response.ok) {
         await refreshHealth(); // Refresh cache stats
       }
     } catch (error) {
       console.error('Failed to clear cache:', error);
     }
-  }, [refreshHealth]);
+  }, [options.projectId, refreshHealth]);
 
   const sendMessage = useCallback(async (
     content: string,
@@ -148,7 +157,7 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
       model?: string;
       temperature?: number;
       maxTokens?: number;
-      systemPrompt?: string;
+      context?: ContextSelection;
       fallbackConfig?: Partial<FallbackConfig>;
       enableCaching?: boolean;
     }
@@ -163,7 +172,7 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
         model: messageOptions?.model,
         temperature: messageOptions?.temperature,
         maxTokens: messageOptions?.maxTokens,
-        systemPrompt: messageOptions?.systemPrompt || options.systemPrompt,
+        context: messageOptions?.context,
         fallbackConfig: messageOptions?.fallbackConfig,
         enableCaching: messageOptions?.enableCaching,
       };
@@ -207,7 +216,7 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
       model?: string;
       temperature?: number;
       maxTokens?: number;
-      systemPrompt?: string;
+      context?: ContextSelection;
       fallbackConfig?: Partial<FallbackConfig>;
     }
   ) => {
@@ -224,7 +233,7 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
         model: messageOptions?.model,
         temperature: messageOptions?.temperature,
         maxTokens: messageOptions?.maxTokens,
-        systemPrompt: messageOptions?.systemPrompt || options.systemPrompt,
+        context: messageOptions?.context,
         fallbackConfig: messageOptions?.fallbackConfig,
       };
 
@@ -241,94 +250,101 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
         throw new Error('Failed to start streaming');
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') {
-                setState(prev => ({ ...prev, isStreaming: false }));
-                refreshHealth(); // Refresh after completion
-                return;
-              }
-
-              try {
-                const parsed = JSON.parse(data);
+        await readGenerationStream(response, {
+          signal: abortControllerRef.current.signal,
+          onGenerationId: (generationId) => {
+            generationIdRef.current = generationId;
+          },
+          onEvent: (event) => {
+            if (event.type === 'user_message') {
+              setState(prev => ({
+                ...prev,
+                messages: [...prev.messages, event.data],
+              }));
+            } else if (event.type === 'fallback_notice') {
+              // Show fallback notification
+              console.log('Fallback activated:', event.data.message);
+            } else if (event.type === 'assistant_delta') {
+              if (!streamingMessageRef.current) {
+                // Create new streaming message
+                streamingMessageRef.current = {
+                  id: event.data.id,
+                  projectId: options.projectId,
+                  role: 'assistant',
+                  content: event.data.content,
+                  provider: messageOptions?.providerId || 'unknown',
+                  model: messageOptions?.model || 'unknown',
+                  metadata: { streaming: true },
+                  createdAt: new Date(),
+                };
                 
-                if (parsed.type === 'user_message') {
-                  setState(prev => ({
-                    ...prev,
-                    messages: [...prev.messages, parsed.data],
-                  }));
-                } else if (parsed.type === 'fallback_notice') {
-                  // Show fallback notification
-                  console.log('Fallback activated:', parsed.data.message);
-                } else if (parsed.type === 'assistant_delta') {
-                  if (!streamingMessageRef.current) {
-                    // Create new streaming message
-                    streamingMessageRef.current = {
-                      id: parsed.data.id,
-                      projectId: options.projectId,
-                      role: 'assistant',
-                      content: parsed.data.content,
-                      provider: messageOptions?.providerId || 'unknown',
-                      model: messageOptions?.model || 'unknown',
-                      metadata: { streaming: true },
-                      createdAt: new Date(),
-                    };
-                    
-                    setState(prev => ({
-                      ...prev,
-                      messages: [...prev.messages, streamingMessageRef.current!],
-                    }));
-                  } else {
-                    // Update existing streaming message
-                    streamingMessageRef.current.content = parsed.data.content;
-                    
-                    setState(prev => ({
-                      ...prev,
-                      messages: prev.messages.map(msg =>
-                        msg.id === streamingMessageRef.current?.id
-                          ? { ...streamingMessageRef.current! }
-                          : msg
-                      ),
-                    }));
-                  }
-                } else if (parsed.type === 'assistant_complete') {
-                  streamingMessageRef.current = null;
-                  setState(prev => ({
-                    ...prev,
-                    messages: prev.messages.map(msg =>
-                      msg.id === parsed.data.id ? parsed.data : msg
-                    ),
-                    isStreaming: false,
-                  }));
-                } else if (parsed.type === 'error') {
-                  throw new Error(parsed.data.message);
-                }
-              } catch (e) {
-                // Skip invalid JSON
+                setState(prev => ({
+                  ...prev,
+                  messages: [...prev.messages, streamingMessageRef.current!],
+                }));
+              } else {
+                // Update existing streaming message
+                streamingMessageRef.current.content = event.data.content;
+                
+                setState(prev => ({
+                  ...prev,
+                  messages: prev.messages.map(msg =>
+                    msg.id === streamingMessageRef.current?.id
+                      ? { ...streamingMessageRef.current! }
+                      : msg
+                  ),
+                }));
               }
+            } else if (event.type === 'generation_snapshot') {
+              // A resume answered from the stored generation record: it is the
+              // last event of the stream, and carries the saved message's id
+              // once the reply has been stored
+              const record = event.data;
+              const placeholderId = streamingMessageRef.current?.id;
+              const message: ChatMessage = {
+                ...(streamingMessageRef.current ?? {
+                  projectId: options.projectId,
+                  conversationId: record.conversationId,
+                  role: 'assistant',
+                  provider: messageOptions?.providerId || 'unknown',
+                  model: messageOptions?.model || 'unknown',
+                  threadDepth: 0,
+                  isBranchPoint: false,
+                  createdAt: new Date(),
+                }),
+                id: record.assistantMessageId || record.id,
+                content: record.content,
+                metadata: {},
+              };
+              streamingMessageRef.current = null;
+              setState(prev => ({
+                ...prev,
+                messages: prev.messages.some(msg => msg.id === message.id || msg.id === placeholderId)
+                  ? prev.messages.map(msg =>
+                      msg.id === message.id || msg.id === placeholderId ? message : msg
+                    )
+                  : [...prev.messages, message],
+                isStreaming: false,
+              }));
+            } else if (event.type === 'assistant_complete' || event.type === 'assistant_interrupted') {
+              // Replace the streaming placeholder with the saved message
+              const placeholderId = streamingMessageRef.current?.id;
+              streamingMessageRef.current = null;
+              setState(prev => ({
+                ...prev,
+                messages: prev.messages.map(msg =>
+                  msg.id === event.data.id || msg.id === placeholderId ? event.data : msg
+                ),
+                isStreaming: false,
+              }));
             }
-          }
-        }
+          },
+        });
+        setState(prev => ({ ...prev, isStreaming: false }));
+        refreshHealth(); // Refresh after completion
       } finally {
-        reader.releaseLock();
+        generationIdRef.current = null;
         streamingMessageRef.current = null;
       }
     } catch (error) {
@@ -419,7 +435,13 @@ export function useEnhancedChat(options: UseEnhancedChatOptions): UseEnhancedCha
     }));
   }, []);
 
-  const abortStream = useCallback(() => {
+  const abortStream = useCallback(async () => {
+    // A server-side cancel ends the stream with the partial reply saved
+    const generationId = generationIdRef.current;
+    if (generationId && await cancelGeneration(generationId)) {
+      return;
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
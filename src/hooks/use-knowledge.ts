@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { KnowledgeDocument, KnowledgeUpload, RecentlyInjectedDocument } from '@/types';
+
+export interface KnowledgeDraft {
+  title: string;
+  content: string;
+  category: KnowledgeDocument['category'];
+  tags: string[];
+}
+
+export interface UseKnowledgeOptions {
+  category?: KnowledgeDocument['category'];
+  tag?: string;
+  search?: string;
+}
+
+export interface UploadResult {
+  uploads: KnowledgeUpload[];
+  // Files rejected before they could be stored
+  errors: { name: string; error: string }[];
+}
+
+interface UseKnowledgeReturn {
+  documents: KnowledgeDocument[];
+  recentlyInjected: RecentlyInjectedDocument[];
+  uploads: KnowledgeUpload[];
+  loading: boolean;
+  error: string | null;
+  createDocument: (draft: KnowledgeDraft) => Promise<KnowledgeDocument>;
+  updateDocument: (id: string, draft: KnowledgeDraft) => Promise<KnowledgeDocument>;
+  deleteDocument: (id: string) => Promise<void>;
+  uploadFiles: (files: File[], category: KnowledgeDocument['category'], tags: string[]) => Promise<UploadResult>;
+  deleteUpload: (assetId: string) => Promise<void>;
+  reindex: () => Promise<{ indexed: number; failed: number }>;
+  refreshDocuments: () => Promise<void>;
+}
+
+function toRequestBody(draft: KnowledgeDraft, existing?: KnowledgeDocument) {
+  return {
+    title: draft.title,
+    content: draft.content,
+    category: draft.category,
+    // Keep metadata set on upload, such as the file type
+    metadata: { ...existing?.metadata, tags: draft.tags },
+  };
+}
+
+function mapDocument(document: KnowledgeDocument): KnowledgeDocument {
+  return {
+    ...document,
+    createdAt: new Date(document.createdAt),
+    updatedAt: new Date(document.updatedAt),
+  };
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || fallback);
+  }
+  return data;
+}
+
+export function useKnowledge(projectId: string, options: UseKnowledgeOptions = {}): UseKnowledgeReturn {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [recentlyInjected, setRecentlyInjected] = useState<RecentlyInjectedDocument[]>([]);
+  const [uploads, setUploads] = useState<KnowledgeUpload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { category, tag, search } = options;
+
+  const refreshDocuments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (category) params.set('category', category);
+      if (tag) params.set('tag', tag);
+      if (search) params.set('search', search);
+
+      const [data, uploadData] = await Promise.all([
+        fetch(`/api/projects/${projectId}/knowledge?${params}`)
+          .then(response => readJson(response, 'Failed to load knowledge')),
+        fetch(`/api/projects/${projectId}/knowledge/uploads`)
+          .then(response => readJson(response, 'Failed to load uploads')),
+      ]);
+      setDocuments((data.documents || []).map(mapDocument));
+      setRecentlyInjected(data.recentlyInjected || []);
+      setUploads(uploadData.uploads || []);
+    } catch (err) {
+      console.error('Error loading knowledge:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load knowledge');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, category, tag, search]);
+
+  const createDocument = useCallback(async (draft: KnowledgeDraft) => {
+    const data = await readJson(await fetch(`/api/projects/${projectId}/knowledge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(draft)),
+    }), 'Failed to create document');
+
+    await refreshDocuments();
+    return mapDocument(data.document);
+  }, [projectId, refreshDocuments]);
+
+  const updateDocument = useCallback(async (id: string, draft: KnowledgeDraft) => {
+    const existing = documents.find(document => document.id === id);
+    const data = await readJson(await fetch(`/api/projects/${projectId}/knowledge/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(draft, existing)),
+    }), 'Failed to update document');
+
+    await refreshDocuments();
+    return mapDocument(data.document);
+  }, [projectId, documents, refreshDocuments]);
+
+  const deleteDocument = useCallback(async (id: string) => {
+    await readJson(
+      await fetch(`/api/projects/${projectId}/knowledge/${id}`, { method: 'DELETE' }),
+      'Failed to delete document'
+    );
+    await refreshDocuments();
+  }, [projectId, refreshDocuments]);
+
+  const uploadFiles = useCallback(async (
+    files: File[],
+    category: KnowledgeDocument['category'],
+    tags: string[]
+  ): Promise<UploadResult> => {
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+    formData.append('category', category);
+    formData.append('tags', tags.join(','));
+
+    const response = await fetch(`/api/projects/${projectId}/knowledge/uploads`, {
+      method: 'POST',
+      body: formData,
+    });
+    const data = await response.json().catch(() => ({}));
+
+    // A 400 listing per-file errors is still a result to show
+    if (!response.ok && !data.errors) {
+      throw new Error(data.error || 'Failed to upload documents');
+    }
+
+    await refreshDocuments();
+    return { uploads: data.uploads || [], errors: data.errors || [] };
+  }, [projectId, refreshDocuments]);
+
+  const deleteUpload = useCallback(async (assetId: string) => {
+    await readJson(
+      await fetch(`/api/projects/${projectId}/knowledge/uploads/${assetId}`, { method: 'DELETE' }),
+      'Failed to delete upload'
+    );
+    await refreshDocuments();
+  }, [projectId, refreshDocuments]);
+
+  const reindex = useCallback(async () => {
+    return readJson(
+      await fetch(`/api/projects/${projectId}/knowledge/reindex`, { method: 'POST' }),
+      'Failed to rebuild the search index'
+    );
+  }, [projectId]);
+
+  useEffect(() => {
+    refreshDocuments();
+  }, [refreshDocuments]);
+
+  return {
+    documents,
+    recentlyInjected,
+    uploads,
+    loading,
+    error,
+    createDocument,
+    updateDocument,
+    deleteDocument,
+    uploadFiles,
+    deleteUpload,
+    reindex,
+    refreshDocuments,
+  };
+}
@@ -0,0 +1,215 @@
+import { useState, useCallback, useRef } from 'react';
+import { ChatMessage } from '@/types';
+import { cancelGeneration, readGenerationStream } from '@/lib/ai/generation-stream';
+import type { ContextSelection } from '@/lib/context/context-injection-service';
+
+export interface ComparisonTarget {
+  providerId: string;
+  model?: string;
+}
+
+export interface ComparisonCandidate {
+  target: ComparisonTarget;
+  content: string;
+  status: 'streaming' | 'complete' | 'error';
+  message?: ChatMessage;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  cost?: number;
+  responseTime?: number;
+  error?: string;
+}
+
+interface UseModelComparisonOptions {
+  projectId: string;
+  conversationId?: string;
+  temperature?: number;
+  maxTokens?: number;
+  assistantProfileId?: string;
+}
+
+interface CompareOptions {
+  context?: ContextSelection;
+  attachmentIds?: string[];
+}
+
+interface ComparisonState {
+  prompt: ChatMessage | null;
+  candidates: ComparisonCandidate[];
+  isComparing: boolean;
+  error: string | null;
+}
+
+interface UseModelComparisonReturn extends ComparisonState {
+  compare: (content: string, targets: ComparisonTarget[], options?: CompareOptions) => Promise<void>;
+  // Resolves with the kept reply, or null when it couldn't be saved
+  chooseWinner: (index: number) => Promise<ChatMessage | null>;
+  abort: () => void;
+  reset: () => void;
+}
+
+const initialState: ComparisonState = {
+  prompt: null,
+  candidates: [],
+  isComparing: false,
+  error: null,
+};
+
+export function useModelComparison(options: UseModelComparisonOptions): UseModelComparisonReturn {
+  const [state, setState] = useState<ComparisonState>(initialState);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const generationIdRef = useRef<string | null>(null);
+
+  const updateCandidate = useCallback((index: number, update: Partial<ComparisonCandidate>) => {
+    setState(prev => ({
+      ...prev,
+      candidates: prev.candidates.map((candidate, i) =>
+        i === index ? { ...candidate, ...update } : candidate
+      ),
+    }));
+  }, []);
+
+  const compare = useCallback(async (
+    content: string,
+    targets: ComparisonTarget[],
+    compareOptions?: CompareOptions
+  ) => {
+    setState({
+      prompt: null,
+      candidates: targets.map(target => ({ target, content: '', status: 'streaming' })),
+      isComparing: true,
+      error: null,
+    });
+
+    try {
+      abortControllerRef.current = new AbortController();
+
+      const response = await fetch('/api/ai/chat/compare/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          content,
+          targets,
+          projectId: options.projectId,
+          conversationId: options.conversationId,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          context: compareOptions?.context,
+          assistantProfileId: options.assistantProfileId,
+          attachmentIds: compareOptions?.attachmentIds,
+        }),
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Failed to start comparison');
+      }
+
+      try {
+        await readGenerationStream(response, {
+          signal: abortControllerRef.current.signal,
+          onGenerationId: (generationId) => {
+            generationIdRef.current = generationId;
+          },
+          onEvent: (event) => {
+            if (event.type === 'user_message') {
+              setState(prev => ({ ...prev, prompt: event.data }));
+            } else if (event.type === 'compare_delta') {
+              updateCandidate(event.data.index, { content: event.data.content });
+            } else if (event.type === 'compare_complete') {
+              updateCandidate(event.data.index, {
+                status: 'complete',
+                message: event.data.message,
+                content: event.data.message.content,
+                usage: event.data.usage,
+                cost: event.data.cost,
+                responseTime: event.data.responseTime,
+              });
+            } else if (event.type === 'compare_error') {
+              updateCandidate(event.data.index, { status: 'error', error: event.data.message });
+            }
+          },
+        });
+      } finally {
+        generationIdRef.current = null;
+      }
+
+      // Columns still streaming when the run ended were cancelled and not saved
+      setState(prev => ({
+        ...prev,
+        isComparing: false,
+        candidates: prev.candidates.map(candidate =>
+          candidate.status === 'streaming'
+            ? { ...candidate, status: 'error', error: 'Stopped' }
+            : candidate
+        ),
+      }));
+    } catch (error) {
+      const aborted = error instanceof Error && error.name === 'AbortError';
+      setState(prev => ({
+        ...prev,
+        isComparing: false,
+        error: aborted ? prev.error : error instanceof Error ? error.message : 'Failed to compare models',
+      }));
+    }
+  }, [options, updateCandidate]);
+
+  const chooseWinner = useCallback(async (index: number) => {
+    const message = state.candidates[index]?.message;
+    if (!message) return null;
+
+    try {
+      const response = await fetch(`/api/ai/chat/messages/${message.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ winner: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to keep the chosen reply');
+      }
+
+      const data = await response.json();
+      return data.message as ChatMessage;
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to keep the chosen reply',
+      }));
+      return null;
+    }
+  }, [state.candidates]);
+
+  const abort = useCallback(async () => {
+    const generationId = generationIdRef.current;
+    if (generationId && await cancelGeneration(generationId)) {
+      return;
+    }
+
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    setState(prev => ({ ...prev, isComparing: false }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  return {
+    ...state,
+    compare,
+    chooseWinner,
+    abort,
+    reset,
+  };
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PromptTemplate, TemplateVariable } from '@/types';
+
+export interface TemplateDraft {
+  name: string;
+  content: string;
+  category: string;
+  isPublic: boolean;
+  description?: string;
+  tags?: string[];
+  variables?: TemplateVariable[];
+}
+
+export interface UseTemplatesOptions {
+  scope?: 'all' | 'mine' | 'public';
+  category?: string;
+  search?: string;
+  sortBy?: 'updated' | 'usage' | 'rating';
+}
+
+interface UseTemplatesReturn {
+  templates: PromptTemplate[];
+  loading: boolean;
+  error: string | null;
+  createTemplate: (draft: TemplateDraft) => Promise<PromptTemplate>;
+  updateTemplate: (id: string, draft: TemplateDraft) => Promise<PromptTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  refreshTemplates: () => Promise<void>;
+}
+
+function toRequestBody(draft: TemplateDraft) {
+  return {
+    name: draft.name,
+    content: draft.content,
+    category: draft.category,
+    is_public: draft.isPublic,
+    metadata: {
+      description: draft.description || undefined,
+      tags: draft.tags,
+      variables: draft.variables,
+    },
+  };
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || fallback);
+  }
+  return data;
+}
+
+export function useTemplates(options: UseTemplatesOptions = {}): UseTemplatesReturn {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { scope, category, search, sortBy } = options;
+
+  const refreshTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (scope) params.set('scope', scope);
+      if (category) params.set('category', category);
+      if (search) params.set('search', search);
+      if (sortBy) params.set('sortBy', sortBy);
+
+      const data = await readJson(await fetch(`/api/templates?${params}`), 'Failed to load templates');
+      setTemplates(data.templates || []);
+    } catch (err) {
+      console.error('Error loading templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, category, search, sortBy]);
+
+  const createTemplate = useCallback(async (draft: TemplateDraft) => {
+    const data = await readJson(await fetch('/api/templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(draft)),
+    }), 'Failed to create template');
+
+    await refreshTemplates();
+    return data.template as PromptTemplate;
+  }, [refreshTemplates]);
+
+  const updateTemplate = useCallback(async (id: string, draft: TemplateDraft) => {
+    const data = await readJson(await fetch(`/api/templates/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(draft)),
+    }), 'Failed to update template');
+
+    await refreshTemplates();
+    return data.template as PromptTemplate;
+  }, [refreshTemplates]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    await readJson(await fetch(`/api/templates/${id}`, { method: 'DELETE' }), 'Failed to delete template');
+    await refreshTemplates();
+  }, [refreshTemplates]);
+
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  return {
+    templates,
+    loading,
+    error,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    refreshTemplates,
+  };
+}
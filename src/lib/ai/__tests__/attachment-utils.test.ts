@@ -0,0 +1,50 @@
+import type { ChatAttachment } from '../client';
+import {
+  resolveAttachmentType,
+  toAnthropicContent,
+  toOpenAIContent,
+  toTextContent,
+  validateAttachmentFile,
+} from '../attachment-utils';
+import { toPromptToolMessages } from '../tool-utils';
+
+const image: ChatAttachment = { name: 'diagram.png', mimeType: 'image/png', kind: 'image', data: 'iVBORw0' };
+const pdf: ChatAttachment = { name: 'spec.pdf', mimeType: 'application/pdf', kind: 'file', data: 'JVBERi0' };
+const notes: ChatAttachment = { name: 'notes.md', mimeType: 'text/markdown', kind: 'file', text: '# Notes' };
+
+describe('Chat attachments', () => {
+  test('should validate uploads and infer types from extensions', () => {
+    expect(resolveAttachmentType({ name: 'README.md', type: '' })).toBe('text/markdown');
+    expect(validateAttachmentFile({ name: 'a.png', type: 'image/png', size: 1024 })).toBeNull();
+    expect(validateAttachmentFile({ name: 'a.exe', type: 'application/x-msdownload', size: 1024 }))
+      .toContain('not supported');
+    expect(validateAttachmentFile({ name: 'a.png', type: 'image/png', size: 20 * 1024 * 1024 }))
+      .toContain('exceeds maximum');
+  });
+
+  test('should build OpenAI content parts', () => {
+    expect(toOpenAIContent({ content: 'Hi' })).toBe('Hi');
+
+    const parts = toOpenAIContent({ content: 'Review these', attachments: [image, pdf, notes] }) as any[];
+    expect(parts[0]).toEqual({ type: 'text', text: 'Review these\n\n[File: notes.md]\n# Notes' });
+    expect(parts[1].image_url.url).toBe('data:image/png;base64,iVBORw0');
+    expect(parts[2].file).toEqual({ filename: 'spec.pdf', file_data: 'data:application/pdf;base64,JVBERi0' });
+  });
+
+  test('should build Anthropic content blocks', () => {
+    const blocks = toAnthropicContent({ content: 'Review these', attachments: [image, pdf] }) as any[];
+    expect(blocks.map(b => b.type)).toEqual(['image', 'document', 'text']);
+    expect(blocks[0].source).toEqual({ type: 'base64', media_type: 'image/png', data: 'iVBORw0' });
+  });
+
+  test('should reference unloaded attachments by name and Straico uploads by file id', () => {
+    const earlier = { name: 'old.png', mimeType: 'image/png', kind: 'image' as const };
+    expect(toTextContent({ content: 'See above', attachments: [earlier] })).toBe('See above\n\n[Attached: old.png]');
+
+    const [message] = toPromptToolMessages([
+      { role: 'user', content: 'Summarize', attachments: [{ ...pdf, straicoFileId: 'file_1' }, notes] },
+    ]);
+    expect(message.file_ids).toEqual(['file_1']);
+    expect(message.content).toBe('Summarize\n\n[File: notes.md]\n# Notes');
+  });
+});
@@ -0,0 +1,72 @@
+import { CircuitBreakerRegistry, isProviderFault, percentile } from '../circuit-breaker';
+
+const config = {
+  windowMs: 60000,
+  maxObservations: 50,
+  minimumRequests: 4,
+  errorRateThreshold: 0.5,
+  openDurationMs: 10000,
+};
+
+describe('Circuit breaker', () => {
+  let now: number;
+  let breakers: CircuitBreakerRegistry;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breakers = new CircuitBreakerRegistry(config, () => now);
+  });
+
+  test('should open once the error rate crosses the threshold', () => {
+    breakers.recordSuccess('provider:openai', 100);
+    breakers.recordFailure('provider:openai', 50, new Error('503'));
+    breakers.recordFailure('provider:openai', 50, new Error('503'));
+    expect(breakers.tryAcquire('provider:openai')).toBe(true);
+
+    breakers.recordFailure('provider:openai', 50, new Error('503'));
+    expect(breakers.tryAcquire('provider:openai')).toBe(false);
+    expect(breakers.getStats('provider:openai')).toMatchObject({
+      state: 'open',
+      requests: 4,
+      failures: 3,
+      errorRate: 0.75,
+      lastFailure: '503',
+    });
+  });
+
+  test('should allow a single half-open probe and close or re-open on its outcome', () => {
+    for (let i = 0; i < 4; i++) breakers.recordFailure('credential:key-1', 10);
+    now += config.openDurationMs;
+
+    expect(breakers.tryAcquire('credential:key-1')).toBe(true);
+    expect(breakers.tryAcquire('credential:key-1')).toBe(false);
+    breakers.recordFailure('credential:key-1', 10);
+    expect(breakers.getStats('credential:key-1').state).toBe('open');
+
+    now += config.openDurationMs;
+    expect(breakers.tryAcquire('credential:key-1')).toBe(true);
+    breakers.recordSuccess('credential:key-1', 80);
+    expect(breakers.getStats('credential:key-1')).toMatchObject({ state: 'closed', requests: 1, errorRate: 0 });
+  });
+
+  test('should report latency percentiles from successful requests in the window', () => {
+    [100, 200, 300, 400, 1000].forEach(latency => breakers.recordSuccess('provider:anthropic', latency));
+    expect(breakers.getStats('provider:anthropic')).toMatchObject({ p50Latency: 300, p95Latency: 1000 });
+
+    now += config.windowMs + 1;
+    expect(breakers.getStats('provider:anthropic')).toMatchObject({ requests: 0, p50Latency: null });
+    expect(percentile([5, 1, 3], 50)).toBe(3);
+  });
+
+  test('should only treat server errors, timeouts and network failures as provider faults', () => {
+    expect(isProviderFault(new Error('OpenAI API error: 503 Service Unavailable'))).toBe(true);
+    expect(isProviderFault(new Error('Straico API error: 500 upstream failed'))).toBe(true);
+    expect(isProviderFault(new TypeError('fetch failed'))).toBe(true);
+    expect(isProviderFault(Object.assign(new Error('aborted'), { name: 'TimeoutError' }))).toBe(true);
+
+    expect(isProviderFault(new Error('Anthropic API error: 400 invalid_request_error'))).toBe(false);
+    expect(isProviderFault(new Error('OpenAI API error: 401 Incorrect API key'))).toBe(false);
+    expect(isProviderFault(new Error('Rate limit exceeded. Please try again later'))).toBe(false);
+    expect(isProviderFault('503')).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createCohereChatRequest,
+  sendCohereChat,
+  streamCohereChat,
+  normalizeCohereUsage,
+  mapCohereFinishReason,
+  CohereStreamEvent,
+} from '../cohere-utils';
+
+describe('Cohere Integration', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: { stream?: boolean } };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : {};
+        lastRequest = { url: req.url, headers: req.headers, body };
+
+        if (req.headers.authorization !== 'Bearer co_test_key') {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ message: 'invalid api token' }));
+          return;
+        }
+
+        if (body.stream) {
+          res.writeHead(200, { 'Content-Type': 'application/stream+json' });
+          const events = [
+            { is_finished: false, event_type: 'stream-start', generation_id: 'gen-1' },
+            { is_finished: false, event_type: 'text-generation', text: 'Hello' },
+            { is_finished: false, event_type: 'text-generation', text: ' there' },
+            {
+              is_finished: true,
+              event_type: 'stream-end',
+              finish_reason: 'COMPLETE',
+              response: {
+                text: 'Hello there',
+                meta: { tokens: { input_tokens: 12, output_tokens: 2 } },
+              },
+            },
+          ];
+          // Split the payload mid-line to exercise buffering
+          const payload = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+          res.write(payload.slice(0, 40));
+          res.end(payload.slice(40));
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          response_id: 'resp-1',
+          generation_id: 'gen-1',
+          text: 'Hi from Cohere',
+          finish_reason: 'MAX_TOKENS',
+          meta: { billed_units: { input_tokens: 8, output_tokens: 4 } },
+        }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should map roles and system prompt into a Cohere chat request', () => {
+    const request = createCohereChatRequest(
+      [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'First question' },
+        { role: 'assistant', content: 'First answer' },
+        { role: 'user', content: 'Follow-up' },
+      ],
+      { model: 'command', maxTokens: 100, temperature: 0.3 }
+    );
+
+    expect(request.message).toBe('Follow-up');
+    expect(request.preamble).toBe('You are helpful.');
+    expect(request.chat_history).toEqual([
+      { role: 'USER', message: 'First question' },
+      { role: 'CHATBOT', message: 'First answer' },
+    ]);
+    expect(request.model).toBe('command');
+    expect(request.max_tokens).toBe(100);
+  });
+
+  test('should reject requests without any turns', () => {
+    expect(() => createCohereChatRequest([{ role: 'system', content: 'Only system' }]))
+      .toThrow('requires at least one message');
+  });
+
+  test('should normalize usage and finish reasons', () => {
+    expect(normalizeCohereUsage({ billed_units: { input_tokens: 3, output_tokens: 5 } }))
+      .toEqual({ promptTokens: 3, completionTokens: 5, totalTokens: 8 });
+    expect(normalizeCohereUsage(undefined))
+      .toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    expect(mapCohereFinishReason('COMPLETE')).toBe('stop');
+    expect(mapCohereFinishReason('MAX_TOKENS')).toBe('length');
+    expect(mapCohereFinishReason('ERROR_TOXIC')).toBe('content_filter');
+  });
+
+  test('should send a non-streaming chat request', async () => {
+    const request = createCohereChatRequest([{ role: 'user', content: 'Hi' }], { model: 'command' });
+    const response = await sendCohereChat('co_test_key', request, baseUrl);
+
+    expect(lastRequest.url).toBe('/v1/chat');
+    expect(lastRequest.body.stream).toBe(false);
+    expect(response.text).toBe('Hi from Cohere');
+    expect(normalizeCohereUsage(response.meta).totalTokens).toBe(12);
+    expect(mapCohereFinishReason(response.finish_reason)).toBe('length');
+  });
+
+  test('should stream newline-delimited chat events', async () => {
+    const request = createCohereChatRequest([{ role: 'user', content: 'Hi' }], { model: 'command' });
+    const events: CohereStreamEvent[] = [];
+
+    for await (const event of streamCohereChat('co_test_key', request, baseUrl)) {
+      events.push(event);
+    }
+
+    expect(lastRequest.body.stream).toBe(true);
+    expect(events.map(e => e.event_type)).toEqual([
+      'stream-start',
+      'text-generation',
+      'text-generation',
+      'stream-end',
+    ]);
+    expect(events.filter(e => e.text).map(e => e.text).join('')).toBe('Hello there');
+    expect(normalizeCohereUsage(events[3].response?.meta).promptTokens).toBe(12);
+  });
+
+  test('should surface invalid API keys', async () => {
+    const request = createCohereChatRequest([{ role: 'user', content: 'Hi' }]);
+    await expect(sendCohereChat('co_wrong_key', request, baseUrl))
+      .rejects.toThrow('Invalid or expired Cohere API key');
+  });
+});
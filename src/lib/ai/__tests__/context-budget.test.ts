@@ -0,0 +1,67 @@
+import { estimateMessageTokens, fitToContextWindow, splitInjectedContext } from '../context-budget';
+import { DEFAULT_MODEL_CAPABILITIES, getModelCapabilities } from '../providers';
+
+const capabilities = { ...DEFAULT_MODEL_CAPABILITIES, contextWindow: 1000, maxOutputTokens: 200 };
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+describe('Context budget', () => {
+  test('should look up model capabilities with a conservative fallback', () => {
+    expect(getModelCapabilities('anthropic', 'claude-3-haiku-20240307')).toMatchObject({ contextWindow: 200000, vision: true });
+    expect(getModelCapabilities('openai', 'gpt-9-preview').contextWindow).toBe(8192);
+    expect(getModelCapabilities('custom', 'llama3')).toEqual(DEFAULT_MODEL_CAPABILITIES);
+  });
+
+  test('should keep everything when the request fits', () => {
+    const { messages, report } = fitToContextWindow(
+      {
+        systemPrompt: 'Be brief.',
+        history: [{ id: 'm1', role: 'user', content: 'Hi' }, { id: 'm2', role: 'assistant', content: 'Hello' }],
+        current: { role: 'user', content: 'How are you?' },
+      },
+      { capabilities }
+    );
+
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[1]).not.toHaveProperty('id');
+    expect(report).toMatchObject({ dropped: [], summarized: false, contextTruncated: false, budget: 750 });
+  });
+
+  test('should drop the oldest history with a summary and truncate injected context', () => {
+    const history = Array.from({ length: 10 }, (_, i) => ({
+      id: `m${i}`,
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: i % 2 === 0 ? `Question ${i}` : words(40),
+    }));
+    const split = splitInjectedContext(`Be brief.\n\n## Relevant Context\n${words(400)}`);
+    expect(split.systemPrompt).toBe('Be brief.');
+
+    const { messages, report } = fitToContextWindow(
+      { ...split, history, current: { role: 'user', content: 'And now?' } },
+      { capabilities, maxOutputTokens: 4000 }
+    );
+
+    expect(report.reservedOutputTokens).toBe(200);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(report.budget);
+    expect(report.contextTruncated).toBe(true);
+    expect(report.summarized).toBe(true);
+
+    const droppedIds = report.dropped.filter(item => item.type === 'message').map(item => item.id);
+    expect(droppedIds[0]).toBe('m0');
+    expect(messages[messages.length - 2].content).toBe(history[9].content);
+    expect(messages[0].content).toContain('Question 0');
+    expect(report.dropped.some(item => item.type === 'context')).toBe(true);
+  });
+
+  test('should not start history with an orphaned tool result', () => {
+    const history = [
+      { id: 'm1', role: 'user' as const, content: words(300) },
+      { id: 'm2', role: 'assistant' as const, content: '', toolCalls: [{ id: 'c1', name: 'search', arguments: { q: words(500) } }] },
+      { id: 'm3', role: 'tool' as const, content: '[]', toolCallId: 'c1' },
+      { id: 'm4', role: 'assistant' as const, content: 'Nothing found.' },
+    ];
+    expect(estimateMessageTokens(history[1])).toBeGreaterThan(500);
+
+    const { messages } = fitToContextWindow({ history, current: { role: 'user', content: 'Ok' } }, { capabilities });
+    expect(messages.map(m => m.role)).toEqual(['system', 'assistant', 'user']);
+  });
+});
@@ -0,0 +1,64 @@
+import type { AIProvider } from '@/types';
+import {
+  getCredentialDisplayName,
+  getDefaultCredential,
+  getProviderSettingDisplayName,
+  groupCredentialsByProvider,
+  resolveCredential,
+} from '../credentials';
+
+function credential(overrides: Partial<AIProvider>): AIProvider {
+  return {
+    id: 'id',
+    userId: 'user-1',
+    provider: 'openai',
+    apiKeyEncrypted: '***',
+    isActive: true,
+    label: 'Default',
+    isDefault: false,
+    settings: { defaultModel: 'gpt-4', maxTokens: 2000, temperature: 0.7 },
+    ...overrides,
+  };
+}
+
+describe('AI provider credentials', () => {
+  const personal = credential({ id: 'personal', label: 'Personal' });
+  const work = credential({ id: 'work', label: 'Work', isDefault: true });
+  const straicoA = credential({ id: 'straico-a', provider: 'straico', label: 'A' });
+  const straicoB = credential({ id: 'straico-b', provider: 'straico', label: 'B', isActive: false });
+  const providers = [personal, work, straicoA, straicoB];
+
+  test('should prefer the default credential for a provider', () => {
+    expect(getDefaultCredential(providers, 'openai')?.id).toBe('work');
+    expect(getDefaultCredential(providers, 'straico')?.id).toBe('straico-a');
+    expect(getDefaultCredential(providers, 'cohere')).toBeUndefined();
+  });
+
+  test('should resolve credential ids and legacy provider types', () => {
+    expect(resolveCredential(providers, 'personal')?.id).toBe('personal');
+    expect(resolveCredential(providers, 'openai')?.id).toBe('work');
+    expect(resolveCredential(providers, 'straico')?.id).toBe('straico-a');
+    // Inactive or unknown references fall back to an active default
+    expect(resolveCredential(providers, 'straico-b')?.id).toBe('work');
+    expect(resolveCredential([], 'openai')).toBeUndefined();
+  });
+
+  test('should group credentials by vendor with the default first', () => {
+    const groups = groupCredentialsByProvider(providers);
+    expect(groups.map(g => g.provider)).toEqual(['openai', 'straico']);
+    expect(groups[0].credentials.map(c => c.id)).toEqual(['work', 'personal']);
+  });
+
+  test('should include the label in display names', () => {
+    expect(getCredentialDisplayName(work)).toBe('OpenAI · Work');
+    expect(getCredentialDisplayName(credential({}))).toBe('OpenAI');
+  });
+
+  test('should name a project provider setting without exposing ids', () => {
+    expect(getProviderSettingDisplayName(providers, 'work')).toBe('OpenAI · Work');
+    expect(getProviderSettingDisplayName(providers, 'anthropic')).toBe('Anthropic');
+    expect(getProviderSettingDisplayName(providers, 'vibecraft-auto')).toBe('Auto');
+    expect(getProviderSettingDisplayName(providers, '6f1c2e4a-0000-4000-8000-000000000000')).toBe('Unknown key');
+    expect(getProviderSettingDisplayName(providers, undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+jest.mock('@/lib/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+
+import {
+  GenerationManager,
+  GenerationRecord,
+  GenerationSource,
+  GenerationStore,
+  getInterruptReason,
+} from '../generation-manager';
+
+class MemoryGenerationStore implements GenerationStore {
+  records = new Map<string, GenerationRecord>();
+
+  async create(record: GenerationRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async update(id: string, patch: Partial<GenerationRecord>): Promise<void> {
+    const record = this.records.get(id);
+    if (record) this.records.set(id, { ...record, ...patch });
+  }
+
+  async get(id: string): Promise<GenerationRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+}
+
+const config = { abandonAfterMs: 20, persistIntervalMs: 0, retainMs: 1000, staleAfterMs: 1000 };
+
+function deltas(count: number): GenerationSource {
+  return async function* () {
+    let content = '';
+    for (let i = 0; i < count; i++) {
+      content += `${i} `;
+      yield { type: 'assistant_delta', data: { id: 'chunk', content } };
+    }
+    yield { type: 'assistant_complete', data: { id: 'message-1', content } };
+  };
+}
+
+/**
+ * Emits one delta, then waits until aborted and reports the partial reply
+ * the way the chat services do
+ */
+const untilAborted: GenerationSource = async function* (signal) {
+  yield { type: 'assistant_delta', data: { id: 'chunk', content: 'partial' } };
+  if (!signal.aborted) {
+    await new Promise(resolve => signal.addEventListener('abort', resolve));
+  }
+  yield {
+    type: 'assistant_interrupted',
+    data: { id: 'message-1', content: 'partial', metadata: { interruptReason: getInterruptReason(signal) } },
+  };
+};
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+function eventIds(text: string): number[] {
+  return [...text.matchAll(/^id: (\d+)$/gm)].map(match => Number(match[1]));
+}
+
+describe('Generation manager', () => {
+  const owner = { userId: 'user-1', projectId: 'project-1' };
+
+  test('should resume a stream after the last event received', async () => {
+    const store = new MemoryGenerationStore();
+    const manager = new GenerationManager(store, config);
+
+    const generation = await manager.start(owner, deltas(3));
+    const full = await readAll((await manager.openStream(generation.id, 'user-1'))!);
+    expect(eventIds(full)).toEqual([1, 2, 3, 4, 5]);
+    expect(full.trim().endsWith('data: [DONE]')).toBe(true);
+
+    const resumed = await readAll((await manager.openStream(generation.id, 'user-1', 3))!);
+    expect(eventIds(resumed)).toEqual([4, 5]);
+
+    expect(await manager.openStream(generation.id, 'user-2')).toBeNull();
+
+    const record = store.records.get(generation.id)!;
+    expect(record.status).toBe('completed');
+    expect(record.content).toBe('0 1 2 ');
+    expect(record.assistantMessageId).toBe('message-1');
+  });
+
+  test('should cancel a running generation and keep the partial reply', async () => {
+    const store = new MemoryGenerationStore();
+    const manager = new GenerationManager(store, config);
+
+    const generation = await manager.start(owner, untilAborted);
+    const stream = readAll((await manager.openStream(generation.id, 'user-1'))!);
+
+    expect(await manager.cancel(generation.id, 'user-2')).toBeNull();
+
+    const cancelled = await manager.cancel(generation.id, 'user-1');
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.content).toBe('partial');
+    expect(await stream).toContain('"interruptReason":"cancelled"');
+    expect(store.records.get(generation.id)?.status).toBe('cancelled');
+  });
+
+  test('should interrupt a generation nobody is listening to', async () => {
+    const store = new MemoryGenerationStore();
+    const manager = new GenerationManager(store, config);
+
+    const generation = await manager.start(owner, untilAborted);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const record = await manager.get(generation.id, 'user-1');
+    expect(record?.status).toBe('interrupted');
+    expect(record?.content).toBe('partial');
+  });
+});
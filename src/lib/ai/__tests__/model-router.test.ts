@@ -0,0 +1,86 @@
+import type { AIProvider } from '@/types';
+
+const getProviders = jest.fn();
+const getQuota = jest.fn();
+const checkQuotaAvailability = jest.fn();
+
+jest.mock('../service', () => ({ aiProviderService: { getProviders: (...args: unknown[]) => getProviders(...args) } }));
+jest.mock('@/lib/usage/usage-service', () => ({
+  usageService: {
+    getQuota: (...args: unknown[]) => getQuota(...args),
+    checkQuotaAvailability: (...args: unknown[]) => checkQuotaAvailability(...args),
+  },
+}));
+
+import { ModelRouter, classifyRequest, rankCandidates } from '../model-router';
+
+function credential(overrides: Partial<AIProvider>): AIProvider {
+  return {
+    id: 'id',
+    userId: 'user-1',
+    provider: 'openai',
+    apiKeyEncrypted: '***',
+    isActive: true,
+    label: 'Default',
+    isDefault: false,
+    settings: { defaultModel: 'gpt-4', maxTokens: 2000, temperature: 0.7 },
+    ...overrides,
+  };
+}
+
+const openai = credential({ id: 'openai' });
+const anthropic = credential({ id: 'anthropic', provider: 'anthropic' });
+const cohere = credential({ id: 'cohere', provider: 'cohere' });
+
+describe('Model router', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should classify requests by complexity, length and capabilities', () => {
+    expect(classifyRequest({ content: 'Hi there' })).toMatchObject({ complexity: 'simple', needsVision: false });
+    expect(classifyRequest({ content: 'Explain what this hook does' }).complexity).toBe('moderate');
+    expect(classifyRequest({ content: 'Refactor the auth module' }).complexity).toBe('complex');
+    expect(classifyRequest({ content: 'Fix:\n```ts\nconst a = 1\n```' }).complexity).toBe('complex');
+
+    const withImage = classifyRequest({
+      content: 'What is this?',
+      attachments: [{ name: 'a.png', mimeType: 'image/png', kind: 'image', data: 'aGk=' }],
+      maxOutputTokens: 100,
+    });
+    expect(withImage).toMatchObject({ complexity: 'moderate', needsVision: true, estimatedOutputTokens: 100 });
+  });
+
+  test('should rank the cheapest capable model at the required tier first', () => {
+    const simple = rankCandidates(classifyRequest({ content: 'Hi' }), [openai, anthropic]);
+    expect(simple[0]).toMatchObject({ credential: anthropic, model: 'claude-3-haiku-20240307' });
+
+    const complex = rankCandidates(classifyRequest({ content: 'Design a caching architecture' }), [openai, anthropic]);
+    expect(complex.every(candidate => candidate.tier === 3)).toBe(true);
+    expect(complex[0].model).toBe('gpt-4');
+
+    // Cohere has no tool support; inactive keys are never candidates
+    expect(rankCandidates(classifyRequest({ content: 'Hi', needsTools: true }), [cohere])).toEqual([]);
+    expect(rankCandidates(classifyRequest({ content: 'Hi' }), [{ ...openai, isActive: false }])).toEqual([]);
+
+    // Latency breaks ties between keys for the same model
+    const fast = credential({ id: 'fast', label: 'Fast' });
+    const ranked = rankCandidates(classifyRequest({ content: 'Hi' }), [openai, fast], id => (id === 'fast' ? 200 : 900));
+    expect(ranked[0].credential.id).toBe('fast');
+  });
+
+  test('should skip providers without quota headroom and explain the decision', async () => {
+    getProviders.mockResolvedValue([openai, anthropic]);
+    getQuota.mockImplementation(async (_userId: string, provider: string) =>
+      provider === 'anthropic' ? { monthlyLimit: 1000 } : null
+    );
+    checkQuotaAvailability.mockResolvedValue({ allowed: false, remaining: 0, resetDate: new Date() });
+
+    const decision = await new ModelRouter().route('user-1', { content: 'Hi' });
+
+    expect(decision).toMatchObject({ providerId: 'openai', provider: 'openai', model: 'gpt-3.5-turbo', complexity: 'simple' });
+    expect(decision.rationale).toContain('GPT-3.5 Turbo');
+    expect(decision.rationale).toContain('Skipped Anthropic (quota exhausted)');
+    expect(checkQuotaAvailability).toHaveBeenCalledTimes(1);
+  });
+});
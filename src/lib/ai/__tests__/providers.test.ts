@@ -2,9 +2,16 @@ import {
   getProviderConfig, 
   getAvailableProviders, 
   getModelConfig, 
+  getProviderModels,
   validateApiKeyFormat, 
   calculateCost 
 } from '../providers';
+import {
+  buildCustomEndpointHeaders,
+  isPrivateAddress,
+  normalizeCustomBaseUrl,
+  resolveCustomBaseUrl,
+} from '../custom-endpoint-utils';
 
 describe('AI Providers', () => {
   test('should return all available providers', () => {
@@ -13,6 +20,7 @@ describe('AI Providers', () => {
     expect(providers).toContain('anthropic');
     expect(providers).toContain('straico');
     expect(providers).toContain('cohere');
+    expect(providers).toContain('custom');
   });
 
   test('should get provider configuration', () => {
@@ -38,6 +46,36 @@ describe('AI Providers', () => {
     expect(validateApiKeyFormat('straico', 'valid-straico-api-key-12345')).toBe(true);
     expect(validateApiKeyFormat('straico', 'short')).toBe(false);
     expect(validateApiKeyFormat('cohere', 'co_1234567890abcdef1234567890abcdef')).toBe(true);
+    expect(validateApiKeyFormat('custom', '')).toBe(true);
+  });
+
+  test('should build models for custom endpoints', () => {
+    expect(getProviderModels('custom')).toEqual([]);
+
+    const models = getProviderModels('custom', ['llama3.1', 'mistral']);
+    expect(models.map(m => m.id)).toEqual(['llama3.1', 'mistral']);
+    expect(calculateCost('custom', 'llama3.1', 1000, 500)).toBe(0);
+    expect(getProviderModels('openai')).toBe(getProviderConfig('openai').models);
+  });
+
+  test('should normalize custom endpoint URLs and headers', () => {
+    expect(normalizeCustomBaseUrl('http://localhost:11434/')).toBe('http://localhost:11434/v1');
+    expect(normalizeCustomBaseUrl('https://llm.example.com/v1')).toBe('https://llm.example.com/v1');
+    expect(() => normalizeCustomBaseUrl('ftp://example.com')).toThrow('Invalid custom endpoint URL');
+
+    expect(buildCustomEndpointHeaders('')).not.toHaveProperty('Authorization');
+    expect(buildCustomEndpointHeaders('secret').Authorization).toBe('Bearer secret');
+    expect(buildCustomEndpointHeaders('secret', 'X-API-Key')['X-API-Key']).toBe('secret');
+  });
+
+  test('should refuse custom endpoints on private networks', async () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+    ['8.8.8.8', '172.32.0.1', '2606:4700::1111'].forEach(address => expect(isPrivateAddress(address)).toBe(false));
+
+    await expect(resolveCustomBaseUrl('http://127.0.0.1:11434')).rejects.toThrow('private network');
+    await expect(resolveCustomBaseUrl('http://[::1]:8000/v1')).rejects.toThrow('private network');
+    await expect(resolveCustomBaseUrl('http://8.8.8.8')).resolves.toBe('http://8.8.8.8/v1');
   });
 
   test('should calculate costs correctly', () => {
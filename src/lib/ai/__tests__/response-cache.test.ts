@@ -0,0 +1,67 @@
+import type { NormalizedResponse } from '../abstraction-layer';
+import { MemoryCacheBackend, ResponseCache, loadResponseCacheConfig } from '../response-cache';
+
+jest.mock('@/lib/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+
+const response = (model: string): NormalizedResponse => ({
+  id: 'resp_1',
+  content: 'Hello',
+  model,
+  provider: 'openai',
+  usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+  finishReason: 'stop',
+  metadata: { requestId: 'req_1', responseTime: 120, cached: false, fallbackUsed: false },
+});
+
+describe('Response cache', () => {
+  test('should scope entries by user and project and track hits and misses', async () => {
+    const cache = new ResponseCache(new MemoryCacheBackend());
+    const alice = { userId: 'alice', projectId: 'p1' };
+    const bob = { userId: 'bob', projectId: 'p1' };
+
+    const aliceKey = cache.buildKey('abc', alice);
+    expect(cache.buildKey('abc', bob)).not.toBe(aliceKey);
+
+    await cache.set(aliceKey, alice, response('gpt-4o'));
+    const hit = await cache.get(aliceKey);
+    expect(hit?.metadata.cached).toBe(true);
+    expect(await cache.get(cache.buildKey('abc', bob))).toBeNull();
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ backend: 'memory', size: 1, hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  test('should clear by scope and globally', async () => {
+    const cache = new ResponseCache(new MemoryCacheBackend());
+    const scopes = [
+      { userId: 'alice', projectId: 'p1' },
+      { userId: 'alice', projectId: 'p2' },
+      { userId: 'bob', projectId: 'p1' },
+    ];
+    for (const scope of scopes) {
+      await cache.set(cache.buildKey('abc', scope), scope, response('gpt-4o'));
+    }
+
+    expect(await cache.clear({ userId: 'alice', projectId: 'p1' })).toBe(1);
+    expect(await cache.clear({ userId: 'alice' })).toBe(1);
+    expect(await cache.clear()).toBe(1);
+    expect((await cache.getStats()).size).toBe(0);
+  });
+
+  test('should resolve TTL per model and skip models with caching disabled', async () => {
+    const { config } = loadResponseCacheConfig({
+      AI_CACHE_DEFAULT_TTL: '60000',
+      AI_CACHE_MODEL_TTLS: '{"gpt-4o": 600000, "gpt-4o-mini": 0, "claude-": 120000}',
+    });
+    const cache = new ResponseCache(new MemoryCacheBackend(), config);
+
+    expect(cache.getTTL('gpt-4o')).toBe(600000);
+    expect(cache.getTTL('gpt-4o-mini')).toBe(0);
+    expect(cache.getTTL('claude-3-5-sonnet')).toBe(120000);
+    expect(cache.getTTL('command-r')).toBe(60000);
+
+    const scope = { userId: 'alice' };
+    await cache.set(cache.buildKey('abc', scope), scope, response('gpt-4o-mini'));
+    expect((await cache.getStats()).size).toBe(0);
+  });
+});
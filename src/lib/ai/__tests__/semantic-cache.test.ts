@@ -0,0 +1,65 @@
+import type { NormalizedResponse } from '../abstraction-layer';
+import { LocalEmbeddingProvider, cosineSimilarity } from '../embeddings';
+import { SemanticCache, getSemanticCacheSettings, getSemanticQuery } from '../semantic-cache';
+
+const response: NormalizedResponse = {
+  id: 'resp_1',
+  content: 'Use Supabase Auth.',
+  model: 'gpt-4o',
+  provider: 'openai',
+  usage: { promptTokens: 5, completionTokens: 4, totalTokens: 9 },
+  finishReason: 'stop',
+  metadata: { requestId: 'req_1', responseTime: 120, cached: false, fallbackUsed: false },
+};
+
+const scope = { userId: 'alice', projectId: 'p1' };
+
+describe('Semantic cache', () => {
+  test('should embed deterministically and rank paraphrases above unrelated text', async () => {
+    const embeddings = new LocalEmbeddingProvider();
+    const question = await embeddings.embed('How do I add auth?');
+
+    expect(await embeddings.embed('How do I add auth?')).toEqual(question);
+    const paraphrase = cosineSimilarity(question, await embeddings.embed('How can I add authentication?'));
+    const unrelated = cosineSimilarity(question, await embeddings.embed('What does the pro plan cost?'));
+    expect(paraphrase).toBeGreaterThan(0.7);
+    expect(unrelated).toBeLessThan(0.2);
+  });
+
+  test('should return similar answers above the threshold for the same user, project and context', async () => {
+    const cache = new SemanticCache(new LocalEmbeddingProvider());
+    await cache.store(scope, 'ctx', 'How do I add auth?', response, 60000);
+
+    const hit = await cache.lookup(scope, 'ctx', 'How can I add authentication?', 0.7);
+    expect(hit?.response.content).toBe('Use Supabase Auth.');
+    expect(hit?.response.metadata.cached).toBe(true);
+    expect(hit?.response.metadata.similarity).toBeGreaterThan(0.7);
+
+    expect(await cache.lookup(scope, 'ctx', 'How can I add authentication?', 0.95)).toBeNull();
+    expect(await cache.lookup({ userId: 'alice', projectId: 'p2' }, 'ctx', 'How do I add auth?', 0.7)).toBeNull();
+    expect(await cache.lookup(scope, 'other', 'How do I add auth?', 0.7)).toBeNull();
+    expect(await cache.lookup({ userId: 'bob', projectId: 'p1' }, 'ctx', 'How do I add auth?', 0.7)).toBeNull();
+
+    expect(cache.clear({ projectId: 'p1' })).toBe(1);
+    expect(await cache.lookup(scope, 'ctx', 'How do I add auth?', 0.7)).toBeNull();
+  });
+
+  test('should never hit without an embedding provider', async () => {
+    const cache = new SemanticCache(null);
+    await cache.store(scope, 'ctx', 'How do I add auth?', response, 60000);
+
+    expect(await cache.lookup(scope, 'ctx', 'How do I add auth?', 0.7)).toBeNull();
+  });
+
+  test('should only serve plain user questions and read project settings', () => {
+    expect(getSemanticQuery([{ role: 'user', content: ' Hi ' }], false)).toBe('Hi');
+    expect(getSemanticQuery([{ role: 'user', content: 'Hi' }], true)).toBeNull();
+    expect(getSemanticQuery([
+      { role: 'user', content: 'Describe this', attachments: [{ name: 'a.png', mimeType: 'image/png', kind: 'image' }] },
+    ], false)).toBeNull();
+
+    expect(getSemanticCacheSettings({ semantic_cache: { enabled: true, similarity_threshold: 0.85 } }))
+      .toEqual({ enabled: true, similarityThreshold: 0.85 });
+    expect(getSemanticCacheSettings(undefined)).toEqual({ enabled: false, similarityThreshold: 0.9 });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  extractJson,
+  jsonSchemaToZod,
+  validateStructuredOutput,
+  withResponseFormatInstructions,
+} from '../structured-output';
+
+const taskListSchema = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          priority: { enum: ['low', 'medium', 'high'] },
+          estimateHours: { type: ['number', 'null'] },
+        },
+        required: ['title', 'priority'],
+      },
+    },
+  },
+  required: ['tasks'],
+  additionalProperties: false,
+};
+
+describe('Structured output', () => {
+  test('should validate a reply against a JSON Schema', () => {
+    const schema = jsonSchemaToZod(taskListSchema);
+    const reply = '{"tasks":[{"title":"Add login","priority":"high","estimateHours":null}]}';
+
+    expect(validateStructuredOutput(reply, schema)).toEqual({
+      success: true,
+      data: { tasks: [{ title: 'Add login', priority: 'high', estimateHours: null }] },
+    });
+  });
+
+  test('should report where a reply breaks the schema', () => {
+    const schema = jsonSchemaToZod(taskListSchema);
+    const result = validateStructuredOutput('{"tasks":[{"title":"Add login","priority":"urgent"}],"notes":""}', schema);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map(issue => issue.path)).toEqual(expect.arrayContaining(['tasks.0.priority', '']));
+    }
+  });
+
+  test('should refuse patterns that are invalid, too long or prone to backtracking', () => {
+    const string = (pattern: string) => jsonSchemaToZod({ type: 'string', pattern });
+
+    expect(string('^[a-z]+-\\d+$').safeParse('task-12').success).toBe(true);
+    expect(() => string('(unclosed')).toThrow('not a valid regular expression');
+    expect(() => string('a'.repeat(201))).toThrow('longer than 200 characters');
+    expect(() => string('^(a+)+$')).toThrow('repeats a group');
+    expect(() => string('^(\\w*)*@')).toThrow('repeats a group');
+    expect(() => string('^(\\w+\\s?)*$')).toThrow('repeats a group');
+    expect(() => string('(a|aa)+$')).toThrow('repeats a group');
+    expect(() => string('(.*,){12}x')).toThrow('repeats a group');
+    expect(() => string('^((ab)+c)*$')).toThrow('repeats a group');
+
+    expect(string('^(ab)+[*+|]?(?:x|y)$').safeParse('ababx').success).toBe(true);
+    expect(string('^[a-z]+$').safeParse('a'.repeat(1001)).success).toBe(false);
+  });
+
+  test('should read JSON wrapped in code fences or prose', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: [1, 2] as requested')).toEqual([1, 2]);
+    expect(() => extractJson('no json here')).toThrow();
+  });
+
+  test('should add the schema to an existing system prompt', () => {
+    const messages = withResponseFormatInstructions(
+      [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Plan the sprint' }],
+      { type: 'json_schema', schema: taskListSchema }
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toMatch(/^Be brief\.\n\nRespond with a single JSON value/);
+    expect(messages[0].content).toContain('"tasks"');
+  });
+});
@@ -0,0 +1,108 @@
+import type { ChatMessage, ToolDefinition } from '../client';
+import {
+  parseAnthropicContent,
+  parseOpenAIToolCalls,
+  parsePromptToolCalls,
+  toAnthropicMessages,
+  toOpenAIMessages,
+  toOpenAIToolChoice,
+} from '../tool-utils';
+import { ToolRegistry } from '../tool-registry';
+
+const searchTool: ToolDefinition = {
+  name: 'search_knowledge_base',
+  description: 'Search documents',
+  parameters: {
+    type: 'object',
+    properties: { query: { type: 'string' } },
+    required: ['query'],
+  },
+};
+
+const conversation: ChatMessage[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'What do the docs say about auth?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [
+      { id: 'call_1', name: 'search_knowledge_base', arguments: { query: 'auth' } },
+      { id: 'call_2', name: 'search_knowledge_base', arguments: { query: 'login' } },
+    ],
+  },
+  { role: 'tool', content: '[]', toolCallId: 'call_1', name: 'search_knowledge_base' },
+  { role: 'tool', content: '[]', toolCallId: 'call_2', name: 'search_knowledge_base' },
+];
+
+describe('Tool calling', () => {
+  test('should translate tool messages to OpenAI format', () => {
+    const messages = toOpenAIMessages(conversation);
+    expect(messages[2]).toHaveProperty(['tool_calls', 0], {
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'search_knowledge_base', arguments: '{"query":"auth"}' },
+    });
+    expect(messages[3]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '[]' });
+    expect(toOpenAIToolChoice({ name: 'search_knowledge_base' })).toEqual({
+      type: 'function',
+      function: { name: 'search_knowledge_base' },
+    });
+
+    const calls = parseOpenAIToolCalls({
+      tool_calls: [{ id: 'call_9', function: { name: 'search_knowledge_base', arguments: '{bad' } }],
+    });
+    expect(calls).toEqual([{ id: 'call_9', name: 'search_knowledge_base', arguments: {} }]);
+  });
+
+  test('should translate tool messages to Anthropic format', () => {
+    const { system, messages } = toAnthropicMessages(conversation);
+    expect(system).toBe('Be brief.');
+    expect(messages).toHaveLength(3);
+    expect(messages[1].content[0]).toMatchObject({ type: 'tool_use', id: 'call_1', input: { query: 'auth' } });
+    // Consecutive results share one user turn
+    expect((messages[2].content as { tool_use_id?: string }[]).map(b => b.tool_use_id)).toEqual(['call_1', 'call_2']);
+
+    const parsed = parseAnthropicContent([
+      { type: 'text', text: 'Searching.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'search_knowledge_base', input: { query: 'auth' } },
+    ]);
+    expect(parsed.text).toBe('Searching.');
+    expect(parsed.toolCalls?.[0]).toEqual({ id: 'toolu_1', name: 'search_knowledge_base', arguments: { query: 'auth' } });
+  });
+
+  test('should parse prompt-based tool calls', () => {
+    const reply = '```json\n{"tool_calls": [{"name": "search_knowledge_base", "arguments": {"query": "auth"}}, {"name": "rm_rf"}]}\n```';
+    const calls = parsePromptToolCalls(reply, [searchTool]);
+    expect(calls).toHaveLength(1);
+    expect(calls?.[0]).toMatchObject({ name: 'search_knowledge_base', arguments: { query: 'auth' } });
+    expect(parsePromptToolCalls('Auth uses JWTs.', [searchTool])).toBeUndefined();
+  });
+
+  test('should execute registered tools and report failures as results', async () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...searchTool, execute: async args => ({ hits: [args.query] }) });
+    registry.register({
+      ...searchTool,
+      name: 'project_only',
+      isAvailable: context => !!context.projectId,
+      execute: async () => { throw new Error('boom'); },
+    });
+    const context = { userId: 'user-1' };
+
+    expect(() => registry.register({ ...searchTool, execute: async () => null })).toThrow('already registered');
+    expect(registry.getDefinitions(context).map(t => t.name)).toEqual(['search_knowledge_base']);
+
+    const ok = await registry.execute({ id: 'c1', name: 'search_knowledge_base', arguments: { query: 'auth' } }, context);
+    expect(ok).toEqual({ toolCallId: 'c1', name: 'search_knowledge_base', content: '{"hits":["auth"]}', isError: false });
+
+    const missing = await registry.execute({ id: 'c2', name: 'search_knowledge_base', arguments: {} }, context);
+    expect(missing.isError).toBe(true);
+    expect(missing.content).toContain('query');
+
+    const failed = await registry.execute(
+      { id: 'c3', name: 'project_only', arguments: { query: 'x' } },
+      { ...context, projectId: 'p1' }
+    );
+    expect(failed).toMatchObject({ isError: true, content: '{"error":"boom"}' });
+  });
+});
@@ -1,7 +1,61 @@
-import { AIProviderType, getProviderConfig } from './providers';
+import { z } from 'zod';
+import { AIProviderType, CustomEndpointConfig, getModelCapabilities, getProviderConfig } from './providers';
 import { aiProviderService } from './service';
 import { aiUsageTracker } from './usage-tracker';
-import { ChatMessage, ChatCompletionRequest, ChatCompletionResponse, StreamingResponse } from './client';
+import {
+  ChatMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ResponseFormat,
+  StreamingResponse,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from './client';
+import {
+  createCohereChatRequest,
+  sendCohereChat,
+  streamCohereChat,
+  normalizeCohereUsage,
+  mapCohereFinishReason,
+} from './cohere-utils';
+import { buildCustomEndpointHeaders, resolveCustomBaseUrl } from './custom-endpoint-utils';
+import {
+  createStraicoChatRequest,
+  uploadStraicoAttachments,
+  sendStraicoCompletion,
+  parseStraicoCompletion,
+} from './straico-utils';
+import {
+  toOpenAIMessages,
+  toOpenAITools,
+  toOpenAIToolChoice,
+  parseOpenAIToolCalls,
+  parseToolArguments,
+  toAnthropicMessages,
+  toAnthropicTools,
+  toAnthropicToolChoice,
+  parseAnthropicContent,
+  parsePromptToolCalls,
+} from './tool-utils';
+import { ResponseCache, CacheStats, CacheScope, createCacheBackend, loadResponseCacheConfig } from './response-cache';
+import { SemanticCache, SemanticCacheSettings, getSemanticQuery } from './semantic-cache';
+import { EmbeddingProvider, LocalEmbeddingProvider, getEmbeddingProvider } from './embeddings';
+import {
+  circuitBreakers,
+  credentialCircuitKey,
+  isProviderCircuitKey,
+  isProviderFault,
+  providerCircuitKey,
+} from './circuit-breaker';
+import {
+  jsonSchemaToZod,
+  withResponseFormatInstructions,
+  validateStructuredOutput,
+  getValidationFeedback,
+  StructuredOutputError,
+  StructuredOutputIssue,
+} from './structured-output';
 
 export interface NormalizedRequest {
   messages: ChatMessage[];
@@ -11,6 +65,9 @@ export interface NormalizedRequest {
   stream: boolean;
   userId: string;
   projectId?: string;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: ResponseFormat;
 }
 
 export interface NormalizedResponse {
@@ -23,11 +80,14 @@ export interface NormalizedResponse {
     completionTokens: number;
     totalTokens: number;
   };
-  finishReason: 'stop' | 'length' | 'content_filter' | 'error';
+  finishReason: 'stop' | 'length' | 'content_filter' | 'error' | 'tool_calls';
+  toolCalls?: ToolCall[];
   metadata: {
     requestId: string;
     responseTime: number;
     cached: boolean;
+    // Set on semantic cache hits: similarity of the cached question to this one
+    similarity?: number;
     fallbackUsed: boolean;
     originalProvider?: AIProviderType;
   };
@@ -38,17 +98,31 @@ export interface ProviderAdapter {
   isAvailable(): Promise<boolean>;
   normalizeRequest(request: NormalizedRequest): any;
   normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse;
-  makeRequest(normalizedRequest: any, apiKey: string): Promise<any>;
-  makeStreamRequest(normalizedRequest: any, apiKey: string): AsyncGenerator<any, void, unknown>;
+  makeRequest(normalizedRequest: any, apiKey: string, endpoint?: CustomEndpointConfig): Promise<any>;
+  makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown>;
 }
 
-export interface CacheEntry {
-  key: string;
+export interface ChatCacheOptions {
+  enabled?: boolean;
+  semantic?: SemanticCacheSettings;
+}
+
+export interface StructuredOutputOptions<T> {
+  // Validates the parsed reply; built from the request's JSON Schema when omitted
+  schema?: z.ZodType<T>;
+  maxAttempts?: number;
+  fallbackConfig?: Partial<FallbackConfig>;
+}
+
+export interface StructuredOutputResponse<T> {
+  data: T;
   response: NormalizedResponse;
-  timestamp: number;
-  ttl: number;
-  accessCount: number;
-  lastAccessed: number;
+  attempts: number;
 }
 
 export interface FallbackConfig {
@@ -59,8 +133,19 @@ export interface FallbackConfig {
   skipProviders: AIProviderType[];
 }
 
+/**
+ * The configured embedding model for the semantic cache, or null when only
+ * the local hashing embedder is available, which is too coarse to decide
+ * that two questions have the same answer
+ */
+function getSemanticEmbeddingProvider(): EmbeddingProvider | null {
+  const provider = getEmbeddingProvider();
+  return provider instanceof LocalEmbeddingProvider ? null : provider;
+}
+
 export class AIProviderAbstractionLayer {
-  private cache = new Map<string, CacheEntry>();
+  private cache: ResponseCache;
+  private semanticCache = new SemanticCache(getSemanticEmbeddingProvider());
   private adapters = new Map<AIProviderType, ProviderAdapter>();
   private defaultFallbackConfig: FallbackConfig = {
     enabled: true,
@@ -70,7 +155,9 @@ export class AIProviderAbstractionLayer {
     skipProviders: [],
   };
 
-  constructor() {
+  constructor(cache?: ResponseCache) {
+    const { backend, config } = loadResponseCacheConfig();
+    this.cache = cache || new ResponseCache(createCacheBackend(backend), config);
     this.initializeAdapters();
     this.startCacheCleanup();
   }
@@ -83,6 +170,7 @@ export class AIProviderAbstractionLayer {
     this.adapters.set('anthropic', new AnthropicAdapter());
     this.adapters.set('straico', new StraicoAdapter());
     this.adapters.set('cohere', new CohereAdapter());
+    this.adapters.set('custom', new CustomEndpointAdapter());
   }
 
   /**
@@ -93,23 +181,52 @@ export class AIProviderAbstractionLayer {
     request: ChatCompletionRequest,
     userId: string,
     projectId?: string,
-    fallbackConfig?: Partial<FallbackConfig>
+    fallbackConfig?: Partial<FallbackConfig>,
+    cacheOptions: ChatCacheOptions = {}
   ): Promise<NormalizedResponse> {
     const config = { ...this.defaultFallbackConfig, ...fallbackConfig };
     const normalizedRequest: NormalizedRequest = {
       ...request,
+      messages: request.responseFormat
+        ? withResponseFormatInstructions(request.messages, request.responseFormat)
+        : request.messages,
       userId,
       projectId,
       stream: false,
     };
 
     // Generate cache key
-    const cacheKey = this.generateCacheKey(normalizedRequest, providerId);
+    const cachingEnabled = cacheOptions.enabled ?? true;
+    const cacheScope: CacheScope = { userId, projectId };
+    const cacheKey = this.cache.buildKey(this.generateCacheKey(normalizedRequest, providerId), cacheScope);
     
     // Check cache first
-    const cachedResponse = this.getFromCache(cacheKey);
-    if (cachedResponse) {
-      return cachedResponse;
+    if (cachingEnabled) {
+      const cachedResponse = await this.cache.get(cacheKey);
+      if (cachedResponse) {
+        return cachedResponse;
+      }
+    }
+
+    // Then look for a similar question in the same project and context
+    const semantic = cacheOptions.semantic;
+    const semanticQuery = cachingEnabled && semantic?.enabled && projectId
+      ? getSemanticQuery(normalizedRequest.messages, !!normalizedRequest.tools?.length)
+      : null;
+    const semanticContextKey = semanticQuery
+      ? this.generateCacheKey({ ...normalizedRequest, messages: normalizedRequest.messages.slice(0, -1) }, providerId)
+      : '';
+
+    if (semanticQuery && semantic && projectId) {
+      const hit = await this.semanticCache.lookup(
+        { userId, projectId },
+        semanticContextKey,
+        semanticQuery,
+        semantic.similarityThreshold
+      );
+      if (hit) {
+        return hit.response;
+      }
     }
 
     // Get primary provider
@@ -135,6 +252,18 @@ export class AIProviderAbstractionLayer {
         continue;
       }
 
+      // Skip providers whose circuit is open rather than waiting on another failure
+      const circuitKeys = this.providerCircuitKeys(providerType);
+      if (circuitKeys.length > 0 && !circuitBreakers.tryAcquire(circuitKeys[0])) {
+        lastError = new Error(`Provider ${providerType} is temporarily unavailable (circuit open)`);
+        if (i === 0) {
+          fallbackUsed = true;
+        }
+        continue;
+      }
+
+      let startTime: number | null = null;
+
       try {
         // Check if provider is available
         const isAvailable = await adapter.isAvailable();
@@ -151,21 +280,29 @@ export class AIProviderAbstractionLayer {
           throw new Error(`No configuration found for provider: ${providerType}`);
         }
 
+        const credentialKey = credentialCircuitKey(provider.id);
+        if (!circuitBreakers.tryAcquire(credentialKey)) {
+          throw new Error(`API key ${provider.label || provider.id} is temporarily unavailable (circuit open)`);
+        }
+        circuitKeys.push(credentialKey);
+
         const apiKey = await aiProviderService.getDecryptedApiKey(provider.id);
-        const startTime = Date.now();
+        startTime = Date.now();
 
-        // Normalize request for this provider
+        // Normalize request for this provider; a requested model only applies
+        // to the credential it was chosen for, fallbacks use their own default
         const normalizedReq = adapter.normalizeRequest({
           ...normalizedRequest,
-          model: provider.settings.defaultModel,
+          model: (i === 0 && request.model) || provider.settings.defaultModel,
           maxTokens: provider.settings.maxTokens,
           temperature: provider.settings.temperature,
         });
 
         // Make request
-        const response = await adapter.makeRequest(normalizedReq, apiKey);
+        const response = await adapter.makeRequest(normalizedReq, apiKey, provider.endpoint);
         const endTime = Date.now();
         const responseTime = endTime - startTime;
+        this.recordOutcome(circuitKeys, startTime);
 
         // Normalize response
         const normalizedResponse = adapter.normalizeResponse(
@@ -190,19 +327,31 @@ export class AIProviderAbstractionLayer {
         );
 
         // Cache the response
-        this.addToCache(cacheKey, normalizedResponse);
+        if (cachingEnabled) {
+          await this.cache.set(cacheKey, cacheScope, normalizedResponse);
+        }
+        if (semanticQuery && projectId) {
+          await this.semanticCache.store(
+            { userId, projectId },
+            semanticContextKey,
+            semanticQuery,
+            normalizedResponse,
+            this.cache.getTTL(normalizedResponse.model)
+          );
+        }
 
         return normalizedResponse;
       } catch (error) {
         lastError = error as Error;
         console.error(`Provider ${providerType} failed:`, error);
+        this.recordOutcome(circuitKeys, startTime, error);
         
         if (i === 0) {
           fallbackUsed = true;
         }
 
         // Wait before trying next provider
-        if (i < providers.length - 1) {
+        if (startTime !== null && i < providers.length - 1) {
           await this.delay(config.retryDelay * (i + 1));
         }
       }
@@ -224,6 +373,9 @@ export class AIProviderAbstractionLayer {
     const config = { ...this.defaultFallbackConfig, ...fallbackConfig };
     const normalizedRequest: NormalizedRequest = {
       ...request,
+      messages: request.responseFormat
+        ? withResponseFormatInstructions(request.messages, request.responseFormat)
+        : request.messages,
       userId,
       projectId,
       stream: true,
@@ -250,6 +402,21 @@ export class AIProviderAbstractionLayer {
         continue;
       }
 
+      // Skip providers whose circuit is open rather than waiting on another failure
+      const circuitKeys = this.providerCircuitKeys(providerType);
+      if (circuitKeys.length > 0 && !circuitBreakers.tryAcquire(circuitKeys[0])) {
+        lastError = new Error(`Provider ${providerType} is temporarily unavailable (circuit open)`);
+        continue;
+      }
+
+      let startTime: number | null = null;
+      // Whether the circuits have had this attempt's outcome
+      let settled = false;
+      const settle = (start: number | null, error?: unknown) => {
+        settled = true;
+        this.recordOutcome(circuitKeys, start, error);
+      };
+
       try {
         // Check if provider is available
         const isAvailable = await adapter.isAvailable();
@@ -266,13 +433,20 @@ export class AIProviderAbstractionLayer {
           throw new Error(`No configuration found for provider: ${providerType}`);
         }
 
+        const credentialKey = credentialCircuitKey(provider.id);
+        if (!circuitBreakers.tryAcquire(credentialKey)) {
+          throw new Error(`API key ${provider.label || provider.id} is temporarily unavailable (circuit open)`);
+        }
+        circuitKeys.push(credentialKey);
+
         const apiKey = await aiProviderService.getDecryptedApiKey(provider.id);
-        const startTime = Date.now();
+        startTime = Date.now();
 
-        // Normalize request for this provider
+        // Normalize request for this provider; a requested model only applies
+        // to the credential it was chosen for, fallbacks use their own default
         const normalizedReq = adapter.normalizeRequest({
           ...normalizedRequest,
-          model: provider.settings.defaultModel,
+          model: (i === 0 && request.model) || provider.settings.defaultModel,
           maxTokens: provider.settings.maxTokens,
           temperature: provider.settings.temperature,
         });
@@ -282,13 +456,14 @@ export class AIProviderAbstractionLayer {
         let promptTokens = 0;
         let completionTokens = 0;
 
-        for await (const chunk of adapter.makeStreamRequest(normalizedReq, apiKey)) {
+        for await (const chunk of adapter.makeStreamRequest(normalizedReq, apiKey, provider.endpoint, request.signal)) {
           const streamResponse: StreamingResponse = {
             id: chunk.id || `stream_${Date.now()}`,
             content: chunk.content || totalContent,
             delta: chunk.delta || '',
             done: chunk.done || false,
             usage: chunk.usage,
+            toolCalls: chunk.toolCalls,
           };
 
           totalContent += streamResponse.delta;
@@ -303,12 +478,13 @@ export class AIProviderAbstractionLayer {
         // Track usage after completion
         const endTime = Date.now();
         const responseTime = endTime - startTime;
+        settle(startTime);
 
         await aiUsageTracker.trackUsage(
           userId,
           projectId,
           providerType,
-          provider.settings.defaultModel,
+          normalizedReq.model || provider.settings.defaultModel,
           promptTokens,
           completionTokens,
           responseTime
@@ -316,19 +492,77 @@ export class AIProviderAbstractionLayer {
 
         return; // Success, exit the loop
       } catch (error) {
+        // A cancelled generation is not a provider failure and must not fall back
+        if (request.signal?.aborted) {
+          settle(null);
+          throw error;
+        }
+
         lastError = error as Error;
         console.error(`Streaming provider ${providerType} failed:`, error);
+        settle(startTime, error);
         
         // Wait before trying next provider
-        if (i < providers.length - 1) {
+        if (startTime !== null && i < providers.length - 1) {
           await this.delay(config.retryDelay * (i + 1));
         }
+      } finally {
+        // The consumer stopped reading mid-stream, which says nothing about
+        // the provider; just free the probes this attempt reserved
+        if (!settled) {
+          this.recordOutcome(circuitKeys, null);
+        }
       }
     }
 
     throw new Error(`All streaming providers failed. Last error: ${lastError?.message}`);
   }
 
+  /**
+   * Get a reply as a JSON value validated against the request's schema. An
+   * invalid reply is sent back to the model with the problems found, up to
+   * maxAttempts times, before giving up with a StructuredOutputError.
+   */
+  async chatCompletionStructured<T = unknown>(
+    providerId: string,
+    request: ChatCompletionRequest & { responseFormat: ResponseFormat },
+    userId: string,
+    projectId?: string,
+    options: StructuredOutputOptions<T> = {}
+  ): Promise<StructuredOutputResponse<T>> {
+    const { maxAttempts = 3, fallbackConfig } = options;
+    const schema = options.schema || (jsonSchemaToZod(request.responseFormat.schema) as z.ZodType<T>);
+    let messages = request.messages;
+    let response: NormalizedResponse | null = null;
+    let issues: StructuredOutputIssue[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Only a first answer is worth caching; retries depend on what went wrong
+      response = await this.chatCompletion(
+        providerId,
+        { ...request, messages },
+        userId,
+        projectId,
+        fallbackConfig,
+        { enabled: attempt === 1 }
+      );
+
+      const result = validateStructuredOutput(response.content, schema);
+      if (result.success) {
+        return { data: result.data, response, attempts: attempt };
+      }
+
+      issues = result.issues;
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: getValidationFeedback(issues) },
+      ];
+    }
+
+    throw new StructuredOutputError(issues, response?.content || '', maxAttempts);
+  }
+
   /**
    * Build fallback chain based on configuration
    */
@@ -347,6 +581,32 @@ export class AIProviderAbstractionLayer {
     return chain.slice(0, config.maxRetries + 1);
   }
 
+  /**
+   * The shared circuit a provider type's attempts start with. Custom endpoints
+   * are different servers per user, so they only get per-credential circuits.
+   */
+  private providerCircuitKeys(providerType: AIProviderType): string[] {
+    return providerType === 'custom' ? [] : [providerCircuitKey(providerType)];
+  }
+
+  /**
+   * Feed a call's outcome to its provider and credential circuits. Failures
+   * before the call was made (no config, open credential circuit) only
+   * release any probe that was reserved, as do errors that are one caller's
+   * own (bad key, rate limit, invalid request) for the shared provider circuit.
+   */
+  private recordOutcome(circuitKeys: string[], startTime: number | null, error?: unknown): void {
+    for (const key of circuitKeys) {
+      if (startTime === null || (error && isProviderCircuitKey(key) && !isProviderFault(error))) {
+        circuitBreakers.release(key);
+      } else if (error) {
+        circuitBreakers.recordFailure(key, Date.now() - startTime, error);
+      } else {
+        circuitBreakers.recordSuccess(key, Date.now() - startTime);
+      }
+    }
+  }
+
   /**
    * Get alternative provider configuration
    */
@@ -354,8 +614,7 @@ export class AIProviderAbstractionLayer {
     providerType: AIProviderType,
     userId: string
   ) {
-    const providers = await aiProviderService.getProviders(userId);
-    return providers.find(p => p.provider === providerType && p.isActive);
+    return aiProviderService.getActiveProvider(userId, providerType);
   }
 
   /**
@@ -363,14 +622,23 @@ export class AIProviderAbstractionLayer {
    */
   private generateCacheKey(request: NormalizedRequest, providerId: string): string {
     const keyData = {
-      messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+      messages: request.messages.map(m => ({
+        role: m.role,
+        content: m.content,
+        toolCalls: m.toolCalls,
+        toolCallId: m.toolCallId,
+        attachments: m.attachments?.map(a => `${a.name}:${(a.data || a.text || '').length}`),
+      })),
+      tools: request.tools?.map(tool => tool.name),
+      toolChoice: request.toolChoice,
+      responseFormat: request.responseFormat && JSON.stringify(request.responseFormat),
       model: request.model,
       temperature: request.temperature,
       maxTokens: request.maxTokens,
       providerId,
     };
     
-    return `chat_${this.hashObject(keyData)}`;
+    return this.hashObject(keyData);
   }
 
   /**
@@ -387,112 +655,28 @@ export class AIProviderAbstractionLayer {
     return Math.abs(hash).toString(36);
   }
 
-  /**
-   * Get response from cache
-   */
-  private getFromCache(key: string): NormalizedResponse | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const now = Date.now();
-    if (now - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    // Update access statistics
-    entry.accessCount++;
-    entry.lastAccessed = now;
-
-    // Mark as cached
-    const response = { ...entry.response };
-    response.metadata.cached = true;
-
-    return response;
-  }
-
-  /**
-   * Add response to cache
-   */
-  private addToCache(key: string, response: NormalizedResponse, ttl: number = 300000): void {
-    // Don't cache error responses
-    if (response.finishReason === 'error') return;
-
-    const entry: CacheEntry = {
-      key,
-      response: { ...response },
-      timestamp: Date.now(),
-      ttl,
-      accessCount: 0,
-      lastAccessed: Date.now(),
-    };
-
-    this.cache.set(key, entry);
-
-    // Limit cache size
-    if (this.cache.size > 1000) {
-      this.evictOldestEntries(100);
-    }
-  }
-
-  /**
-   * Evict oldest cache entries
-   */
-  private evictOldestEntries(count: number): void {
-    const entries = Array.from(this.cache.entries())
-      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed)
-      .slice(0, count);
-
-    for (const [key] of entries) {
-      this.cache.delete(key);
-    }
-  }
-
   /**
    * Start cache cleanup interval
    */
   private startCacheCleanup(): void {
     setInterval(() => {
-      const now = Date.now();
-      for (const [key, entry] of this.cache.entries()) {
-        if (now - entry.timestamp > entry.ttl) {
-          this.cache.delete(key);
-        }
-      }
+      this.cache.cleanup().catch(error => console.error('Cache cleanup failed:', error));
     }, 60000); // Clean every minute
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, including hit/miss counts for this process
    */
-  getCacheStats(): {
-    size: number;
-    hitRate: number;
-    totalEntries: number;
-    averageAge: number;
-  } {
-    const entries = Array.from(this.cache.values());
-    const now = Date.now();
-    
-    const totalAccess = entries.reduce((sum, entry) => sum + entry.accessCount, 0);
-    const totalHits = entries.reduce((sum, entry) => sum + Math.max(0, entry.accessCount - 1), 0);
-    const averageAge = entries.length > 0 
-      ? entries.reduce((sum, entry) => sum + (now - entry.timestamp), 0) / entries.length
-      : 0;
-
-    return {
-      size: this.cache.size,
-      hitRate: totalAccess > 0 ? totalHits / totalAccess : 0,
-      totalEntries: entries.length,
-      averageAge: averageAge / 1000, // Convert to seconds
-    };
+  async getCacheStats(): Promise<CacheStats> {
+    return this.cache.getStats();
   }
 
   /**
-   * Clear cache
+   * Clear cached responses for a user or project. Without a scope every
+   * user's entries are removed, which only admins may request.
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(scope?: Partial<CacheScope>): Promise<number> {
+    return this.semanticCache.clear(scope) + await this.cache.clear(scope);
   }
 
   /**
@@ -519,25 +703,34 @@ class OpenAIAdapter implements ProviderAdapter {
   normalizeRequest(request: NormalizedRequest): any {
     return {
       model: request.model,
-      messages: request.messages,
+      messages: toOpenAIMessages(request.messages),
       max_tokens: request.maxTokens,
       temperature: request.temperature,
       stream: request.stream,
+      ...(request.tools?.length && {
+        tools: toOpenAITools(request.tools),
+        tool_choice: toOpenAIToolChoice(request.toolChoice),
+      }),
+      // JSON mode guarantees parseable output; the schema itself is in the prompt
+      ...(request.responseFormat && getModelCapabilities(this.provider, request.model).jsonMode && {
+        response_format: { type: 'json_object' },
+      }),
     };
   }
 
   normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse {
     return {
       id: response.id,
-      content: response.choices[0].message.content,
+      content: response.choices[0].message.content || '',
       model: response.model,
-      provider: 'openai',
+      provider: this.provider,
       usage: {
         promptTokens: response.usage.prompt_tokens,
         completionTokens: response.usage.completion_tokens,
         totalTokens: response.usage.total_tokens,
       },
       finishReason: response.choices[0].finish_reason,
+      toolCalls: parseOpenAIToolCalls(response.choices[0].message),
       metadata: {
         requestId,
         responseTime,
@@ -547,37 +740,75 @@ class OpenAIAdapter implements ProviderAdapter {
     };
   }
 
-  async makeRequest(normalizedRequest: any, apiKey: string): Promise<any> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  /**
+   * Post a chat completion, targeting the custom endpoint when one is configured
+   */
+  protected async postChatCompletion(
+    body: any,
+    apiKey: string,
+    endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const baseUrl = endpoint
+      ? await resolveCustomBaseUrl(endpoint.baseUrl)
+      : 'https://api.openai.com/v1';
+    const headers = endpoint
+      ? buildCustomEndpointHeaders(apiKey, endpoint.authHeader)
+      : {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        };
+
+    return fetch(`${baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(normalizedRequest),
+      headers,
+      body: JSON.stringify(body),
+      signal,
+      // A custom endpoint's redirect could lead past its address check
+      redirect: endpoint ? 'error' : 'follow',
     });
+  }
+
+  /**
+   * Build the error for a failed completion. A custom endpoint's reply body
+   * is only logged, since it comes from a server the user chose and shouldn't
+   * be echoed back to them.
+   */
+  protected async responseError(response: Response, endpoint?: CustomEndpointConfig): Promise<Error> {
+    const body = await response.text();
+    if (!endpoint) {
+      return new Error(`OpenAI API error: ${response.status} ${body}`);
+    }
+
+    console.error(`Custom endpoint error ${response.status}:`, body);
+    return new Error(`Custom endpoint error: ${response.status}`);
+  }
+
+  async makeRequest(normalizedRequest: any, apiKey: string, endpoint?: CustomEndpointConfig): Promise<any> {
+    const response = await this.postChatCompletion(normalizedRequest, apiKey, endpoint);
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw await this.responseError(response, endpoint);
     }
 
     return response.json();
   }
 
-  async *makeStreamRequest(normalizedRequest: any, apiKey: string): AsyncGenerator<any, void, unknown> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ ...normalizedRequest, stream: true }),
-    });
+  async *makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
+    const response = await this.postChatCompletion(
+      { ...normalizedRequest, stream: true },
+      apiKey,
+      endpoint,
+      signal
+    );
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw await this.responseError(response, endpoint);
     }
 
     const reader = response.body?.getReader();
@@ -586,6 +817,9 @@ class OpenAIAdapter implements ProviderAdapter {
     const decoder = new TextDecoder();
     let buffer = '';
     let content = '';
+    let id = '';
+    // Tool call fragments arrive spread over many chunks, keyed by index
+    const toolCallParts: { id: string; name: string; arguments: string }[] = [];
 
     try {
       while (true) {
@@ -599,10 +833,33 @@ class OpenAIAdapter implements ProviderAdapter {
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             const data = line.slice(6);
-            if (data === '[DONE]') return;
+            if (data === '[DONE]') {
+              if (toolCallParts.length > 0) {
+                yield {
+                  id,
+                  content,
+                  delta: '',
+                  done: true,
+                  toolCalls: toolCallParts.map(part => ({
+                    id: part.id,
+                    name: part.name,
+                    arguments: parseToolArguments(part.arguments),
+                  })),
+                };
+              }
+              return;
+            }
 
             try {
               const parsed = JSON.parse(data);
+              id = parsed.id || id;
+              for (const fragment of parsed.choices[0]?.delta?.tool_calls || []) {
+                const part = toolCallParts[fragment.index] ||= { id: '', name: '', arguments: '' };
+                part.id = fragment.id || part.id;
+                part.name += fragment.function?.name || '';
+                part.arguments += fragment.function?.arguments || '';
+              }
+
               const delta = parsed.choices[0]?.delta?.content || '';
               content += delta;
 
@@ -625,6 +882,44 @@ class OpenAIAdapter implements ProviderAdapter {
   }
 }
 
+/**
+ * Adapter for user-supplied OpenAI-compatible servers (Ollama, vLLM, LM Studio)
+ */
+class CustomEndpointAdapter extends OpenAIAdapter {
+  provider: AIProviderType = 'custom';
+
+  normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse {
+    // Local servers frequently omit usage; default it rather than failing
+    return super.normalizeResponse(
+      {
+        ...response,
+        usage: response.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      },
+      requestId,
+      responseTime
+    );
+  }
+
+  async makeRequest(normalizedRequest: any, apiKey: string, endpoint?: CustomEndpointConfig): Promise<any> {
+    if (!endpoint) {
+      throw new Error('Custom endpoint is not configured');
+    }
+    return super.makeRequest(normalizedRequest, apiKey, endpoint);
+  }
+
+  async *makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
+    if (!endpoint) {
+      throw new Error('Custom endpoint is not configured');
+    }
+    yield* super.makeStreamRequest(normalizedRequest, apiKey, endpoint, signal);
+  }
+}
+
 class AnthropicAdapter implements ProviderAdapter {
   provider: AIProviderType = 'anthropic';
 
@@ -633,25 +928,27 @@ class AnthropicAdapter implements ProviderAdapter {
   }
 
   normalizeRequest(request: NormalizedRequest): any {
-    const systemMessage = request.messages.find(m => m.role === 'system');
-    const messages = request.messages.filter(m => m.role !== 'system');
+    const { system, messages } = toAnthropicMessages(request.messages);
 
     return {
       model: request.model,
       max_tokens: request.maxTokens,
       temperature: request.temperature,
-      system: systemMessage?.content,
-      messages: messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      })),
+      system,
+      messages,
+      ...(request.tools?.length && request.toolChoice !== 'none' && {
+        tools: toAnthropicTools(request.tools),
+        tool_choice: toAnthropicToolChoice(request.toolChoice),
+      }),
     };
   }
 
   normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse {
+    const { text, toolCalls } = parseAnthropicContent(response.content);
+
     return {
       id: response.id,
-      content: response.content[0].text,
+      content: text,
       model: response.model,
       provider: 'anthropic',
       usage: {
@@ -659,7 +956,11 @@ class AnthropicAdapter implements ProviderAdapter {
         completionTokens: response.usage.output_tokens,
         totalTokens: response.usage.input_tokens + response.usage.output_tokens,
       },
-      finishReason: response.stop_reason === 'end_turn' ? 'stop' : response.stop_reason,
+      finishReason: response.stop_reason === 'end_turn' ? 'stop'
+        : response.stop_reason === 'tool_use' ? 'tool_calls'
+        : response.stop_reason === 'max_tokens' ? 'length'
+        : response.stop_reason,
+      toolCalls,
       metadata: {
         requestId,
         responseTime,
@@ -669,7 +970,12 @@ class AnthropicAdapter implements ProviderAdapter {
     };
   }
 
-  async makeRequest(normalizedRequest: any, apiKey: string): Promise<any> {
+  async makeRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    _endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): Promise<any> {
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
@@ -678,6 +984,7 @@ class AnthropicAdapter implements ProviderAdapter {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(normalizedRequest),
+      signal,
     });
 
     if (!response.ok) {
@@ -688,16 +995,27 @@ class AnthropicAdapter implements ProviderAdapter {
     return response.json();
   }
 
-  async *makeStreamRequest(normalizedRequest: any, apiKey: string): AsyncGenerator<any, void, unknown> {
+  async *makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    _endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
     // Simplified implementation - would need full SSE parsing for Anthropic
-    const response = await this.makeRequest(normalizedRequest, apiKey);
+    const response = await this.makeRequest(normalizedRequest, apiKey, undefined, signal);
+    const { text, toolCalls } = parseAnthropicContent(response.content);
     
     yield {
       id: response.id,
-      content: response.content[0].text,
-      delta: response.content[0].text,
+      content: text,
+      delta: text,
       done: true,
-      usage: response.usage,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      toolCalls,
     };
   }
 }
@@ -706,23 +1024,80 @@ class StraicoAdapter implements ProviderAdapter {
   provider: AIProviderType = 'straico';
 
   async isAvailable(): Promise<boolean> {
-    return false; // Not implemented yet
+    return true;
   }
 
   normalizeRequest(request: NormalizedRequest): any {
-    throw new Error('Straico adapter not implemented');
+    // The body is built in makeRequest, once attachments are uploaded with the key
+    return {
+      messages: request.messages,
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      tools: request.tools?.length && request.toolChoice !== 'none' ? request.tools : undefined,
+      toolChoice: request.toolChoice,
+    };
   }
 
   normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse {
-    throw new Error('Straico adapter not implemented');
+    const result = parseStraicoCompletion(response, response.model);
+    const toolCalls = response.tools ? parsePromptToolCalls(result.content, response.tools) : undefined;
+
+    return {
+      id: result.id,
+      content: toolCalls ? '' : result.content,
+      model: result.model,
+      provider: 'straico',
+      usage: result.usage,
+      finishReason: toolCalls ? 'tool_calls' : result.finishReason as NormalizedResponse['finishReason'],
+      toolCalls,
+      metadata: {
+        requestId,
+        responseTime,
+        cached: false,
+        fallbackUsed: false,
+      },
+    };
   }
 
-  async makeRequest(normalizedRequest: any, apiKey: string): Promise<any> {
-    throw new Error('Straico adapter not implemented');
+  async makeRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    _endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const { messages, tools, ...options } = normalizedRequest;
+    const requestBody = createStraicoChatRequest(
+      await uploadStraicoAttachments(apiKey, messages),
+      { ...options, tools }
+    );
+    const response = await sendStraicoCompletion(apiKey, requestBody, signal);
+
+    // Carry the tool definitions through so the reply can be parsed for calls
+    return { ...response, tools };
   }
 
-  async *makeStreamRequest(normalizedRequest: any, apiKey: string): AsyncGenerator<any, void, unknown> {
-    throw new Error('Straico adapter not implemented');
+  async *makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    _endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
+    // Tool-call replies must be parsed whole, so yield the complete response
+    const response = this.normalizeResponse(
+      await this.makeRequest(normalizedRequest, apiKey, undefined, signal),
+      `straico_${Date.now()}`,
+      0
+    );
+
+    yield {
+      id: response.id,
+      content: response.content,
+      delta: response.content,
+      done: true,
+      usage: response.usage,
+      toolCalls: response.toolCalls,
+    };
   }
 }
 
@@ -730,23 +1105,74 @@ class CohereAdapter implements ProviderAdapter {
   provider: AIProviderType = 'cohere';
 
   async isAvailable(): Promise<boolean> {
-    return false; // Not implemented yet
+    return true;
   }
 
   normalizeRequest(request: NormalizedRequest): any {
-    throw new Error('Cohere adapter not implemented');
+    return createCohereChatRequest(request.messages, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: request.stream,
+    });
   }
 
   normalizeResponse(response: any, requestId: string, responseTime: number): NormalizedResponse {
-    throw new Error('Cohere adapter not implemented');
+    return {
+      id: response.response_id || response.generation_id || requestId,
+      content: response.text || '',
+      model: response.model || 'unknown',
+      provider: 'cohere',
+      usage: normalizeCohereUsage(response.meta),
+      finishReason: mapCohereFinishReason(response.finish_reason),
+      metadata: {
+        requestId,
+        responseTime,
+        cached: false,
+        fallbackUsed: false,
+      },
+    };
   }
 
   async makeRequest(normalizedRequest: any, apiKey: string): Promise<any> {
-    throw new Error('Cohere adapter not implemented');
+    const response = await sendCohereChat(apiKey, normalizedRequest);
+
+    // Cohere does not echo the model back, so carry it through for normalization
+    return { ...response, model: normalizedRequest.model };
   }
 
-  async *makeStreamRequest(normalizedRequest: any, apiKey: string): AsyncGenerator<any, void, unknown> {
-    throw new Error('Cohere adapter not implemented');
+  async *makeStreamRequest(
+    normalizedRequest: any,
+    apiKey: string,
+    _endpoint?: CustomEndpointConfig,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
+    let id = `cohere_${Date.now()}`;
+    let content = '';
+
+    for await (const event of streamCohereChat(apiKey, normalizedRequest, undefined, signal)) {
+      if (event.event_type === 'stream-start' && event.generation_id) {
+        id = event.generation_id;
+      } else if (event.event_type === 'text-generation') {
+        const delta = event.text || '';
+        content += delta;
+
+        yield {
+          id,
+          content,
+          delta,
+          done: false,
+        };
+      } else if (event.event_type === 'stream-end') {
+        yield {
+          id,
+          content,
+          delta: '',
+          done: true,
+          usage: normalizeCohereUsage(event.response?.meta),
+        };
+      }
+    }
   }
 }
 
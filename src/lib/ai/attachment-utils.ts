@@ -0,0 +1,132 @@
+/**
+ * Chat attachment limits and translation of attachments into provider content parts
+ */
+
+import type { ChatAttachment, ChatMessage } from './client';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+export const IMAGE_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const TEXT_ATTACHMENT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+export const DOCUMENT_ATTACHMENT_TYPES = ['application/pdf', ...TEXT_ATTACHMENT_TYPES];
+
+export function getAttachmentKind(mimeType: string): ChatAttachment['kind'] | null {
+  if (IMAGE_ATTACHMENT_TYPES.includes(mimeType)) return 'image';
+  if (DOCUMENT_ATTACHMENT_TYPES.includes(mimeType)) return 'file';
+  return null;
+}
+
+export function isTextAttachment(mimeType: string): boolean {
+  return TEXT_ATTACHMENT_TYPES.includes(mimeType);
+}
+
+// Browsers often report an empty type for these
+const EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+/**
+ * MIME type for an uploaded file, falling back to its extension
+ */
+export function resolveAttachmentType(file: { name: string; type: string }): string {
+  if (file.type && getAttachmentKind(file.type)) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] || file.type;
+}
+
+/**
+ * Validate an uploaded file, returning an error message or null
+ */
+export function validateAttachmentFile(file: { name: string; type: string; size: number }): string | null {
+  const type = resolveAttachmentType(file);
+  if (!getAttachmentKind(type)) {
+    return `File type ${type || 'unknown'} is not supported. Allowed types: ${[
+      ...IMAGE_ATTACHMENT_TYPES,
+      ...DOCUMENT_ATTACHMENT_TYPES,
+    ].join(', ')}`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `File size exceeds maximum limit of ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`;
+  }
+  return null;
+}
+
+function textBlock(attachment: ChatAttachment): string {
+  return `[File: ${attachment.name}]\n${attachment.text}`;
+}
+
+/**
+ * Flatten a message to plain text for providers without multimodal input.
+ * Text files are inlined; anything that cannot be sent is listed by name.
+ */
+export function toTextContent(message: Pick<ChatMessage, 'content' | 'attachments'>): string {
+  const attachments = message.attachments || [];
+  if (attachments.length === 0) return message.content;
+
+  const inlined = attachments.filter(a => a.text !== undefined).map(textBlock);
+  const omitted = attachments.filter(a => a.text === undefined).map(a => a.name);
+
+  return [
+    message.content,
+    ...inlined,
+    ...(omitted.length > 0 ? [`[Attached: ${omitted.join(', ')}]`] : []),
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * OpenAI content: a plain string, or parts when images/PDFs are loaded
+ */
+export function toOpenAIContent(message: Pick<ChatMessage, 'content' | 'attachments'>) {
+  const binary = (message.attachments || []).filter(a => a.data && a.text === undefined);
+  if (binary.length === 0) return toTextContent(message);
+
+  const rest = { ...message, attachments: (message.attachments || []).filter(a => !binary.includes(a)) };
+  const text = toTextContent(rest);
+
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...binary.map(attachment =>
+      attachment.kind === 'image'
+        ? {
+            type: 'image_url' as const,
+            image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` },
+          }
+        : {
+            type: 'file' as const,
+            file: {
+              filename: attachment.name,
+              file_data: `data:${attachment.mimeType};base64,${attachment.data}`,
+            },
+          }
+    ),
+  ];
+}
+
+/**
+ * Anthropic content: a plain string, or image/document blocks when loaded
+ */
+export function toAnthropicContent(message: Pick<ChatMessage, 'content' | 'attachments'>) {
+  const binary = (message.attachments || []).filter(a => a.data && a.text === undefined);
+  if (binary.length === 0) return toTextContent(message);
+
+  const rest = { ...message, attachments: (message.attachments || []).filter(a => !binary.includes(a)) };
+  const text = toTextContent(rest);
+
+  return [
+    // Anthropic recommends placing images and documents before the text
+    ...binary.map(attachment => ({
+      type: attachment.kind === 'image' ? 'image' as const : 'document' as const,
+      source: {
+        type: 'base64' as const,
+        media_type: attachment.mimeType,
+        data: attachment.data!,
+      },
+    })),
+    ...(text ? [{ type: 'text' as const, text }] : []),
+  ];
+}
@@ -1,6 +1,19 @@
 import { db } from '@/lib/supabase/database';
-import { aiClient, ChatMessage, ChatCompletionRequest } from './client';
-import type { ChatMessage as DBChatMessage } from '@/types';
+import { aiClient, ChatMessage, ChatCompletionRequest, ChatAttachment, StreamingResponse } from './client';
+import type { ChatMessage as DBChatMessage, MessageMetadata, RollingSummary } from '@/types';
+import { assetService } from '@/lib/assets/asset-service';
+import { modelRouter } from './model-router';
+import { AUTO_ROUTER_ID, isAutoRouted } from './credentials';
+import { getInterruptReason, InterruptReason } from './generation-manager';
+import { aiAbstractionLayer } from './abstraction-layer';
+import { aiProviderService } from './service';
+import { calculateCost } from './providers';
+import { getAncestorPath, getSelectedPath, getSelectedPaths } from '@/lib/conversations/message-tree';
+import { conversationMemory, formatSummaryMessage } from '@/lib/conversations/conversation-memory';
+import { conversationTitler } from '@/lib/conversations/conversation-titler';
+import { templateService } from '@/lib/templates/template-service';
+import { contextInjectionService } from '@/lib/context/context-injection-service';
+import { splitInjectedContext } from './context-budget';
 
 export interface ChatSession {
   id: string;
@@ -14,11 +27,22 @@ export interface ChatSession {
 export interface SendMessageRequest {
   content: string;
   projectId: string;
-  providerId: string;
+  // Defaults to the provider of the message being regenerated or edited
+  providerId?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  // Project assets uploaded through /api/projects/[id]/assets
+  attachmentIds?: string[];
+  // Prompt template the content was filled in from
+  templateId?: string;
+  // Aborts a streaming reply; what was generated is kept as an interrupted message
+  signal?: AbortSignal;
+  // Adds a new version of this reply, answering the same prompt again
+  regenerateMessageId?: string;
+  // Adds a new version of this prompt with `content` and replies to it
+  editMessageId?: string;
 }
 
 export interface SendMessageResponse {
@@ -26,6 +50,77 @@ export interface SendMessageResponse {
   assistantMessage: DBChatMessage;
 }
 
+/**
+ * A provider and model to put in a comparison
+ */
+export interface ComparisonTarget {
+  providerId: string;
+  model?: string;
+}
+
+export interface CompareRequest extends Omit<SendMessageRequest, 'providerId' | 'model' | 'regenerateMessageId' | 'editMessageId'> {
+  conversationId?: string;
+  targets: ComparisonTarget[];
+}
+
+export const MAX_COMPARISON_TARGETS = 4;
+
+/**
+ * Everything settled before the model is called
+ */
+interface PreparedTurn {
+  conversationId: string;
+  // Earlier messages on the selected path, oldest first, after the summary
+  history: DBChatMessage[];
+  // Stands in for the turns before `history`
+  summary?: RollingSummary;
+  userMessage: DBChatMessage;
+  // False when regenerating, which answers an existing prompt
+  created: boolean;
+  contents: ChatAttachment[];
+  providerId: string;
+  model?: string;
+  routing?: MessageMetadata['routing'];
+}
+
+// Unsummarized messages sent before older ones are folded into the summary
+const HISTORY_LIMIT = 20;
+
+/**
+ * Yield items from several async iterables as each produces them
+ */
+async function* interleave<T>(sources: AsyncIterable<T>[]): AsyncGenerator<T, void, unknown> {
+  const queue: T[] = [];
+  let pending = sources.length;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  for (const source of sources) {
+    (async () => {
+      try {
+        for await (const item of source) {
+          queue.push(item);
+          notify();
+        }
+      } finally {
+        pending--;
+        notify();
+      }
+    })();
+  }
+
+  while (pending > 0 || queue.length > 0) {
+    if (queue.length === 0) {
+      await new Promise<void>(resolve => { wake = resolve; });
+      continue;
+    }
+    yield queue.shift()!;
+  }
+}
+
 export class ChatService {
   /**
    * Send a message and get AI response
@@ -35,71 +130,19 @@ export class ChatService {
     request: SendMessageRequest & { conversationId?: string }
   ): Promise<SendMessageResponse> {
     try {
-      // Get or create conversation
-      let conversationId = request.conversationId;
-      if (!conversationId) {
-        // Create a new conversation for this message
-        const { conversationService } = await import('@/lib/conversations/conversation-service');
-        const conversation = await conversationService.createConversation(userId, {
-          projectId: request.projectId,
-          title: 'New Conversation'
-        });
-        conversationId = conversation.id;
-      }
-
-      // Get recent conversation history for context
-      const recentMessages = await this.getRecentMessages(request.projectId, 20, conversationId);
-      
-      // Create user message
-      const userMessage = await db.createPrompt({
-        project_id: request.projectId,
-        conversation_id: conversationId,
-        role: 'user',
-        content: request.content,
-        ai_provider: request.providerId,
-        model: request.model,
-        metadata: {
-          timestamp: new Date().toISOString(),
-          temperature: request.temperature,
-          maxTokens: request.maxTokens,
-        },
-      });
-
-      // Prepare messages for AI request
-      const messages: ChatMessage[] = [];
-      
-      // Add system prompt if provided
-      if (request.systemPrompt) {
-        messages.push({
-          role: 'system',
-          content: request.systemPrompt,
-        });
-      }
-
-      // Add conversation history
-      recentMessages.forEach(msg => {
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      });
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: request.content,
-      });
+      const turn = await this.prepareTurn(userId, request);
+      const { providerId, model, routing, userMessage } = turn;
 
       // Make AI request
       const aiRequest: ChatCompletionRequest = {
-        messages,
-        model: request.model,
+        messages: this.buildAIMessages(request.systemPrompt, turn),
+        model,
         temperature: request.temperature,
         maxTokens: request.maxTokens,
       };
 
       const aiResponse = await aiClient.chatCompletion(
-        request.providerId,
+        providerId,
         aiRequest,
         userId,
         request.projectId
@@ -108,21 +151,25 @@ export class ChatService {
       // Create assistant message
       const assistantMessage = await db.createPrompt({
         project_id: request.projectId,
-        conversation_id: conversationId,
+        conversation_id: turn.conversationId,
+        parent_message_id: userMessage.id,
+        thread_depth: userMessage.threadDepth + 1,
         role: 'assistant',
         content: aiResponse.content,
-        ai_provider: request.providerId,
+        ai_provider: providerId,
         model: aiResponse.model,
         metadata: {
           timestamp: new Date().toISOString(),
           usage: aiResponse.usage,
           finishReason: aiResponse.finishReason,
           responseId: aiResponse.id,
+          ...(routing && { routing }),
         },
       });
+      this.titleAfterFirstExchange(userId, turn);
 
       return {
-        userMessage: this.mapDatabaseToType(userMessage),
+        userMessage,
         assistantMessage: this.mapDatabaseToType(assistantMessage),
       };
     } catch (error) {
@@ -138,84 +185,37 @@ export class ChatService {
     userId: string,
     request: SendMessageRequest & { conversationId?: string }
   ): AsyncGenerator<{
-    type: 'user_message' | 'assistant_delta' | 'assistant_complete';
+    type: 'user_message' | 'assistant_delta' | 'assistant_complete' | 'assistant_interrupted';
     data: any;
   }, void, unknown> {
-    try {
-      // Get or create conversation
-      let conversationId = request.conversationId;
-      if (!conversationId) {
-        // Create a new conversation for this message
-        const { conversationService } = await import('@/lib/conversations/conversation-service');
-        const conversation = await conversationService.createConversation(userId, {
-          projectId: request.projectId,
-          title: 'New Conversation'
-        });
-        conversationId = conversation.id;
-      }
+    let fullContent = '';
+    let assistantMessageId: string | null = null;
+    let finalUsage: any = null;
+    let routing: MessageMetadata['routing'];
 
-      // Get recent conversation history for context
-      const recentMessages = await this.getRecentMessages(request.projectId, 20, conversationId);
-      
-      // Create user message
-      const userMessage = await db.createPrompt({
-        project_id: request.projectId,
-        conversation_id: conversationId,
-        role: 'user',
-        content: request.content,
-        ai_provider: request.providerId,
-        model: request.model,
-        metadata: {
-          timestamp: new Date().toISOString(),
-          temperature: request.temperature,
-          maxTokens: request.maxTokens,
-        },
-      });
-
-      yield {
-        type: 'user_message',
-        data: this.mapDatabaseToType(userMessage),
-      };
+    try {
+      const turn = await this.prepareTurn(userId, request);
+      const { providerId, model, userMessage } = turn;
+      routing = turn.routing;
 
-      // Prepare messages for AI request
-      const messages: ChatMessage[] = [];
-      
-      // Add system prompt if provided
-      if (request.systemPrompt) {
-        messages.push({
-          role: 'system',
-          content: request.systemPrompt,
-        });
+      if (turn.created) {
+        yield {
+          type: 'user_message',
+          data: userMessage,
+        };
       }
 
-      // Add conversation history
-      recentMessages.forEach(msg => {
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      });
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: request.content,
-      });
-
       // Make streaming AI request
       const aiRequest: ChatCompletionRequest = {
-        messages,
-        model: request.model,
+        messages: this.buildAIMessages(request.systemPrompt, turn),
+        model,
         temperature: request.temperature,
         maxTokens: request.maxTokens,
+        signal: request.signal,
       };
 
-      let fullContent = '';
-      let assistantMessageId: string | null = null;
-      let finalUsage: any = null;
-
       for await (const chunk of aiClient.chatCompletionStream(
-        request.providerId,
+        providerId,
         aiRequest,
         userId,
         request.projectId
@@ -240,15 +240,18 @@ export class ChatService {
         if (!assistantMessageId && chunk.content) {
           const assistantMessage = await db.createPrompt({
             project_id: request.projectId,
-            conversation_id: conversationId,
+            conversation_id: turn.conversationId,
+            parent_message_id: userMessage.id,
+            thread_depth: userMessage.threadDepth + 1,
             role: 'assistant',
             content: chunk.content,
-            ai_provider: request.providerId,
-            model: request.model || 'unknown',
+            ai_provider: providerId,
+            model: model || 'unknown',
             metadata: {
               timestamp: new Date().toISOString(),
               responseId: chunk.id,
               streaming: true,
+              ...(routing && { routing }),
             },
           });
           assistantMessageId = assistantMessage.id;
@@ -261,6 +264,7 @@ export class ChatService {
               responseId: chunk.id,
               streaming: true,
               usage: finalUsage,
+              ...(routing && { routing }),
             },
           });
         }
@@ -275,8 +279,10 @@ export class ChatService {
             usage: finalUsage,
             streaming: false,
             complete: true,
+            ...(routing && { routing }),
           },
         });
+        this.titleAfterFirstExchange(userId, turn);
 
         yield {
           type: 'assistant_complete',
@@ -284,25 +290,441 @@ export class ChatService {
         };
       }
     } catch (error) {
+      if (assistantMessageId) {
+        const interrupted = await this.saveInterruptedReply(
+          assistantMessageId,
+          fullContent,
+          getInterruptReason(request.signal),
+          { usage: finalUsage, ...(routing && { routing }) }
+        );
+        if (interrupted) {
+          yield { type: 'assistant_interrupted', data: interrupted };
+        }
+      }
+
+      // A cancelled reply ends normally, with whatever was generated saved
+      if (request.signal?.aborted) return;
+
       console.error('Error in streaming message:', error);
       throw new Error(`Failed to send streaming message: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Send one prompt to several models at once. Their replies stream side by
+   * side, tagged with the target's index, and each is saved as a version of
+   * the reply so the one picked as winner can be selected.
+   */
+  async *compareStream(
+    userId: string,
+    request: CompareRequest
+  ): AsyncGenerator<{
+    type: 'user_message' | 'compare_delta' | 'compare_complete' | 'compare_error';
+    data: any;
+  }, void, unknown> {
+    const turn = await this.prepareTurn(userId, {
+      ...request,
+      providerId: request.targets[0]?.providerId,
+      model: request.targets[0]?.model,
+    });
+
+    yield {
+      type: 'user_message',
+      data: turn.userMessage,
+    };
+
+    const messages = this.buildAIMessages(request.systemPrompt, turn);
+    const comparisonId = crypto.randomUUID();
+
+    yield* interleave(request.targets.map((target, index) =>
+      this.streamComparisonCandidate(userId, request, turn, messages, { id: comparisonId, index }, target)
+    ));
+  }
+
+  /**
+   * Mark a compared reply as the winner and show it in the conversation; the
+   * other candidates stay available as alternate versions
+   */
+  async chooseComparisonWinner(messageId: string): Promise<DBChatMessage> {
+    const message = await db.getPrompt(messageId);
+    const metadata = (message.metadata || {}) as Record<string, any>;
+    if (!metadata.comparison) {
+      throw new Error('Message is not part of a comparison');
+    }
+
+    const updated = await db.updatePrompt(messageId, {
+      selected_at: new Date().toISOString(),
+      metadata: {
+        ...metadata,
+        comparison: { ...metadata.comparison, winner: true },
+      },
+    });
+    return this.mapDatabaseToType(updated);
+  }
+
+  /**
+   * One column of a comparison. Failures are reported as events so the other
+   * candidates keep streaming; nothing is saved for a failed or cancelled one.
+   */
+  private async *streamComparisonCandidate(
+    userId: string,
+    request: CompareRequest,
+    turn: PreparedTurn,
+    messages: ChatMessage[],
+    comparison: { id: string; index: number },
+    target: ComparisonTarget
+  ): AsyncGenerator<{ type: 'compare_delta' | 'compare_complete' | 'compare_error'; data: any }, void, unknown> {
+    const { index } = comparison;
+    const startTime = Date.now();
+    let content = '';
+    let usage: StreamingResponse['usage'];
+
+    try {
+      // Fallback would answer with a different model than the one being compared
+      for await (const chunk of aiAbstractionLayer.chatCompletionStream(
+        target.providerId,
+        {
+          messages,
+          model: target.model,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          signal: request.signal,
+        },
+        userId,
+        request.projectId,
+        { enabled: false }
+      )) {
+        content = chunk.content;
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        yield {
+          type: 'compare_delta',
+          data: { index, content, delta: chunk.delta },
+        };
+      }
+
+      const responseTime = Date.now() - startTime;
+      const credential = await aiProviderService.getProvider(target.providerId);
+      const model = target.model || credential?.settings.defaultModel || 'unknown';
+      const cost = credential && usage
+        ? calculateCost(credential.provider, model, usage.promptTokens, usage.completionTokens)
+        : 0;
+
+      const message = await db.createPrompt({
+        project_id: request.projectId,
+        conversation_id: turn.conversationId,
+        parent_message_id: turn.userMessage.id,
+        thread_depth: turn.userMessage.threadDepth + 1,
+        role: 'assistant',
+        content,
+        ai_provider: target.providerId,
+        model,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          usage,
+          tokens: usage?.totalTokens,
+          cost,
+          responseTime,
+          complete: true,
+          comparison,
+        },
+      });
+
+      yield {
+        type: 'compare_complete',
+        data: { index, message: this.mapDatabaseToType(message), usage, cost, responseTime },
+      };
+    } catch (error) {
+      if (request.signal?.aborted) return;
+
+      console.error('Error in comparison candidate:', error);
+      yield {
+        type: 'compare_error',
+        data: { index, message: error instanceof Error ? error.message : 'Unknown error' },
+      };
+    }
+  }
+
+  /**
+   * Resolve the conversation, the prompt being answered and the history before
+   * it. A new prompt follows the selected path; an edited one becomes a
+   * sibling of the original; a regenerate answers the original prompt again.
+   */
+  private async prepareTurn(
+    userId: string,
+    request: SendMessageRequest & { conversationId?: string }
+  ): Promise<PreparedTurn> {
+    const targetId = request.regenerateMessageId || request.editMessageId;
+    const target = targetId ? this.mapDatabaseToType(await db.getPrompt(targetId)) : null;
+    if (target && target.projectId !== request.projectId) {
+      throw new Error('Message not found in project');
+    }
+
+    // Get or create conversation
+    let conversationId = target?.conversationId || request.conversationId;
+    if (!conversationId) {
+      // Create a new conversation for this message
+      const { conversationService } = await import('@/lib/conversations/conversation-service');
+      const conversation = await conversationService.createConversation(userId, {
+        projectId: request.projectId,
+        title: 'New Conversation'
+      });
+      conversationId = conversation.id;
+    }
+
+    const thread = await this.getThread(conversationId);
+    let prompt: DBChatMessage | undefined;
+    let parentId: string | undefined;
+
+    if (request.regenerateMessageId) {
+      // A reply (or a tool step of it) answers the closest prompt above it
+      prompt = getAncestorPath(thread, target!.id).reverse().find(msg => msg.role === 'user');
+      if (!prompt) {
+        throw new Error('No prompt found to regenerate a reply for');
+      }
+      parentId = prompt.parentMessageId;
+    } else if (request.editMessageId) {
+      if (target!.role !== 'user') {
+        throw new Error('Only user messages can be edited and resent');
+      }
+      parentId = target!.parentMessageId;
+    } else {
+      parentId = getSelectedPath(thread).pop()?.id;
+    }
+
+    // Conversation history for context, along the selected versions
+    const path = parentId ? getAncestorPath(thread, parentId) : [];
+    const parent = path[path.length - 1];
+    const content = prompt ? prompt.content : request.content;
+
+    // A new version keeps the original's attachments unless given others
+    const original = prompt || (request.editMessageId ? target : null);
+    const { attachments, contents } = await assetService.loadChatAttachments(
+      userId,
+      request.projectId,
+      request.attachmentIds ?? original?.metadata.attachments?.map(a => a.assetId) ?? []
+    );
+
+    const inherit = !request.providerId && target;
+    const { providerId, model, routing } = await this.resolveModel(userId, {
+      ...request,
+      content,
+      providerId: inherit
+        ? (target.metadata.routing ? AUTO_ROUTER_ID : target.provider)
+        : request.providerId,
+      model: inherit && !target.metadata.routing ? target.model : request.model,
+    }, path.slice(-HISTORY_LIMIT), contents);
+
+    // Older turns are replaced by the conversation's running summary
+    const memory = await conversationMemory.prepareHistory(userId, {
+      conversationId,
+      projectId: request.projectId,
+      path,
+      providerId,
+      model,
+      maxMessages: HISTORY_LIMIT,
+    });
+    const history = memory.history.slice(-HISTORY_LIMIT);
+    const summary = memory.summary;
+
+    if (prompt) {
+      return { conversationId, history, summary, userMessage: prompt, created: false, contents, providerId, model, routing };
+    }
+
+    const template = request.templateId
+      ? await templateService.getTemplate(userId, request.templateId)
+      : null;
+
+    // Create user message
+    const userMessage = await db.createPrompt({
+      project_id: request.projectId,
+      conversation_id: conversationId,
+      parent_message_id: parent?.id ?? null,
+      thread_depth: parent ? parent.threadDepth + 1 : 0,
+      role: 'user',
+      content,
+      ai_provider: providerId,
+      model,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        ...(attachments.length > 0 && { attachments: attachments.map(a => ({ ...a })) }),
+        ...(template && { template: { id: template.id, name: template.name } }),
+      },
+    });
+
+    if (template) {
+      templateService.recordUsage(userId, template.id).catch(error =>
+        console.error('Error recording template usage:', error)
+      );
+    }
+
+    const { injectedContext } = splitInjectedContext(request.systemPrompt);
+    if (injectedContext) {
+      contextInjectionService.logInjection(userId, {
+        projectId: request.projectId,
+        conversationId,
+        messageId: userMessage.id,
+        userMessage: content,
+        injectedContext,
+      }).catch(error => console.error('Error logging context injection:', error));
+    }
+
+    return {
+      conversationId,
+      history,
+      summary,
+      userMessage: this.mapDatabaseToType(userMessage),
+      created: true,
+      contents,
+      providerId,
+      model,
+      routing,
+    };
+  }
+
+  /**
+   * Messages for the AI request: system prompt, conversation summary, history,
+   * then the prompt with its attachment contents
+   */
+  private buildAIMessages(systemPrompt: string | undefined, turn: PreparedTurn): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    
+    // Add system prompt if provided
+    if (systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: systemPrompt,
+      });
+    }
+
+    if (turn.summary) {
+      messages.push({
+        role: 'system',
+        content: formatSummaryMessage(turn.summary),
+      });
+    }
+
+    // Add conversation history; earlier attachments are referenced by name only
+    turn.history.forEach(msg => {
+      messages.push({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content,
+        attachments: msg.metadata.attachments?.map(a => ({
+          name: a.name,
+          mimeType: a.mimeType,
+          kind: a.kind,
+        })),
+      });
+    });
+
+    // Add current user message
+    messages.push({
+      role: 'user',
+      content: turn.userMessage.content,
+      attachments: turn.contents.length > 0 ? turn.contents : undefined,
+    });
+
+    return messages;
+  }
+
+  /**
+   * Name a conversation once its first prompt has a reply. The title is
+   * generated in the background; the reply doesn't wait for it.
+   */
+  private titleAfterFirstExchange(userId: string, turn: PreparedTurn): void {
+    if (!turn.created || turn.summary || turn.history.length > 0) return;
+
+    conversationTitler.titleConversation(userId, turn.conversationId)
+      .catch(error => console.error('Error titling conversation:', error));
+  }
+
+  /**
+   * Every message in a conversation, including unselected versions
+   */
+  private async getThread(conversationId: string): Promise<DBChatMessage[]> {
+    const messages = await db.getConversationPrompts(conversationId);
+    return messages.map(msg => this.mapDatabaseToType(msg));
+  }
+
+  /**
+   * Mark a partially streamed reply as interrupted, keeping its content
+   */
+  private async saveInterruptedReply(
+    messageId: string,
+    content: string,
+    reason: InterruptReason,
+    metadata: Record<string, any>
+  ): Promise<DBChatMessage | null> {
+    try {
+      const message = await db.updatePrompt(messageId, {
+        content,
+        metadata: {
+          ...metadata,
+          timestamp: new Date().toISOString(),
+          streaming: false,
+          complete: false,
+          interrupted: true,
+          interruptReason: reason,
+        },
+      });
+      return this.mapDatabaseToType(message);
+    } catch (error) {
+      console.error('Error saving interrupted reply:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The provider and model to send a request to. With the "auto" pseudo-model
+   * the router picks them, and its decision is kept for the assistant message.
+   */
+  private async resolveModel(
+    userId: string,
+    request: SendMessageRequest,
+    history: DBChatMessage[],
+    attachments: ChatAttachment[]
+  ): Promise<{ providerId: string; model?: string; routing?: MessageMetadata['routing'] }> {
+    if (!request.providerId) {
+      throw new Error('A provider is required');
+    }
+    if (!isAutoRouted(request.providerId)) {
+      return { providerId: request.providerId, model: request.model };
+    }
+
+    const { providerId, ...routing } = await modelRouter.route(userId, {
+      content: request.content,
+      systemPrompt: request.systemPrompt,
+      history,
+      attachments,
+      maxOutputTokens: request.maxTokens,
+    });
+
+    return { providerId, model: routing.model, routing };
+  }
+
   /**
    * Get conversation history for a project
    */
   async getConversationHistory(
     projectId: string,
     limit: number = 50,
-    offset: number = 0
+    offset: number = 0,
+    conversationId?: string
   ): Promise<DBChatMessage[]> {
     try {
-      const messages = await db.getProjectPrompts(projectId);
+      const messages = conversationId
+        ? await db.getConversationPrompts(conversationId)
+        : await db.getProjectPrompts(projectId);
       
-      return messages
-        .slice(offset, offset + limit)
-        .map(this.mapDatabaseToType);
+      // Only the selected version of each message is shown
+      return getSelectedPaths(messages
+        .filter(msg => msg.project_id === projectId)
+        .map(msg => this.mapDatabaseToType(msg)))
+        .slice(offset, offset + limit);
     } catch (error) {
       console.error('Error getting conversation history:', error);
       throw new Error('Failed to get conversation history');
@@ -320,16 +742,13 @@ export class ChatService {
     try {
       if (conversationId) {
         // Get messages from specific conversation
-        const messages = await db.getConversationPrompts(conversationId);
-        return messages
-          .slice(-limit)
-          .map(this.mapDatabaseToType);
+        const thread = await this.getThread(conversationId);
+        return getSelectedPath(thread).slice(-limit);
       } else {
         // Fallback to project-wide messages
         const messages = await db.getProjectPrompts(projectId);
-        return messages
-          .slice(-limit)
-          .map(this.mapDatabaseToType);
+        return getSelectedPaths(messages.map(msg => this.mapDatabaseToType(msg)))
+          .slice(-limit);
       }
     } catch (error) {
       console.error('Error getting recent messages:', error);
@@ -342,6 +761,8 @@ export class ChatService {
    */
   async deleteMessage(messageId: string): Promise<void> {
     try {
+      const message = await db.getPrompt(messageId);
+      await db.reparentPrompts(messageId, message.parent_message_id);
       await db.deletePrompt(messageId);
     } catch (error) {
       console.error('Error deleting message:', error);
@@ -373,30 +794,54 @@ export class ChatService {
     }
   }
 
+  /**
+   * Show this version of a message in place of its siblings
+   */
+  async selectVersion(messageId: string): Promise<DBChatMessage> {
+    try {
+      const message = await db.updatePrompt(messageId, {
+        selected_at: new Date().toISOString(),
+      });
+      return this.mapDatabaseToType(message);
+    } catch (error) {
+      console.error('Error selecting message version:', error);
+      throw new Error('Failed to select message version');
+    }
+  }
+
   /**
    * Rate a message
    */
   async rateMessage(
+    userId: string,
     messageId: string,
     rating: number,
     feedback?: string
   ): Promise<void> {
     try {
-      const messages = await db.getProjectPrompts(''); // This needs to be fixed to get by ID
-      const message = messages.find(m => m.id === messageId);
-      
-      if (!message) {
-        throw new Error('Message not found');
-      }
+      const message = await db.getPrompt(messageId);
+      const metadata = (message.metadata || {}) as Record<string, any>;
 
       await db.updatePrompt(messageId, {
         metadata: {
-          ...message.metadata,
+          ...metadata,
           rating,
           feedback,
           ratedAt: new Date().toISOString(),
         },
       });
+
+      // Replies to a message sent from a template rate the template too
+      if (message.role === 'assistant' && message.parent_message_id) {
+        const prompt = await db.getPrompt(message.parent_message_id);
+        const template = (prompt.metadata as MessageMetadata | null)?.template;
+        if (template?.id) {
+          // Only a thumbs up or down can be taken back out of the stats
+          const previousRating = metadata.rating === 1 || metadata.rating === -1 ? metadata.rating : undefined;
+          await templateService.recordRating(userId, template.id, rating, previousRating)
+            .catch(error => console.error('Error recording template rating:', error));
+        }
+      }
     } catch (error) {
       console.error('Error rating message:', error);
       throw new Error('Failed to rate message');
@@ -489,6 +934,11 @@ export class ChatService {
       provider: dbMessage.ai_provider || 'unknown',
       model: dbMessage.model || 'unknown',
       metadata: dbMessage.metadata || {},
+      conversationId: dbMessage.conversation_id,
+      parentMessageId: dbMessage.parent_message_id || undefined,
+      threadDepth: dbMessage.thread_depth || 0,
+      isBranchPoint: dbMessage.is_branch_point || false,
+      selectedAt: dbMessage.selected_at ? new Date(dbMessage.selected_at) : undefined,
       createdAt: new Date(dbMessage.created_at),
     };
   }
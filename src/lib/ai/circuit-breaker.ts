@@ -0,0 +1,244 @@
+/**
+ * Circuit breakers for AI providers, driven by the outcomes of real requests.
+ *
+ * Each provider type and each credential gets its own breaker. Provider
+ * breakers are shared by every user, so they only count provider faults (see
+ * isProviderFault); credential breakers count every failure. A breaker opens
+ * when the error rate over its recent window crosses the threshold, rejects
+ * requests while open, then lets a single probe through (half-open) once the
+ * cooldown has passed; the probe's outcome closes or re-opens it.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  /** Observations older than this are ignored */
+  windowMs: number;
+  /** Most observations kept per breaker */
+  maxObservations: number;
+  /** Observations needed in the window before the error rate can open the circuit */
+  minimumRequests: number;
+  /** Error rate (0-1) at or above which the circuit opens */
+  errorRateThreshold: number;
+  /** How long an open circuit rejects requests before allowing a probe */
+  openDurationMs: number;
+}
+
+export interface CircuitStats {
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  p50Latency: number | null;
+  p95Latency: number | null;
+  lastFailure?: string;
+  lastFailureAt?: Date;
+  openedAt?: Date;
+}
+
+interface Observation {
+  timestamp: number;
+  success: boolean;
+  latency: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  observations: Observation[];
+  openedAt?: number;
+  probeInFlight: boolean;
+  lastFailure?: string;
+  lastFailureAt?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  windowMs: 5 * 60 * 1000,
+  maxObservations: 100,
+  minimumRequests: 5,
+  errorRateThreshold: 0.5,
+  openDurationMs: 30 * 1000,
+};
+
+export function providerCircuitKey(provider: string): string {
+  return `provider:${provider}`;
+}
+
+export function credentialCircuitKey(credentialId: string): string {
+  return `credential:${credentialId}`;
+}
+
+export function isProviderCircuitKey(key: string): boolean {
+  return key.startsWith('provider:');
+}
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EPIPE'];
+
+/**
+ * Whether an error says the provider itself is failing (a 5xx, a timeout or a
+ * network failure) rather than that it rejected one caller's request (a bad
+ * key, a rate limit, an invalid body). Provider errors carry their HTTP status
+ * in the message, e.g. "OpenAI API error: 503 ...".
+ */
+export function isProviderFault(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') return true;
+
+  const cause = (error as { cause?: { code?: string } }).cause;
+  if (cause?.code && NETWORK_ERROR_CODES.includes(cause.code)) return true;
+  if (error instanceof TypeError && error.message === 'fetch failed') return true;
+  if (NETWORK_ERROR_CODES.some(code => error.message.includes(code))) return true;
+
+  const status = error.message.match(/error: (\d{3})\b/);
+  return status !== null && Number(status[1]) >= 500;
+}
+
+/**
+ * Nearest-rank percentile of a list of values
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export class CircuitBreakerRegistry {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a request may go through. Moves an open circuit whose cooldown
+   * has passed to half-open and reserves its single probe.
+   */
+  tryAcquire(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') return true;
+
+    if (circuit.state === 'open') {
+      if (this.now() - (circuit.openedAt || 0) < this.config.openDurationMs) {
+        return false;
+      }
+      circuit.state = 'half_open';
+      circuit.probeInFlight = false;
+    }
+
+    if (circuit.probeInFlight) return false;
+    circuit.probeInFlight = true;
+    return true;
+  }
+
+  /**
+   * Whether a request would currently be rejected, without reserving a probe
+   */
+  isOpen(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') return false;
+    if (circuit.state === 'half_open') return circuit.probeInFlight;
+    return this.now() - (circuit.openedAt || 0) < this.config.openDurationMs;
+  }
+
+  recordSuccess(key: string, latency: number): void {
+    const circuit = this.record(key, { timestamp: this.now(), success: true, latency });
+
+    if (circuit.state === 'half_open') {
+      // The probe succeeded; start over with a clean window
+      circuit.state = 'closed';
+      circuit.observations = circuit.observations.slice(-1);
+      circuit.openedAt = undefined;
+    }
+    circuit.probeInFlight = false;
+  }
+
+  recordFailure(key: string, latency: number, error?: unknown): void {
+    const now = this.now();
+    const circuit = this.record(key, { timestamp: now, success: false, latency });
+    circuit.lastFailure = error instanceof Error ? error.message : error ? String(error) : undefined;
+    circuit.lastFailureAt = now;
+
+    if (circuit.state === 'half_open') {
+      this.open(circuit);
+      return;
+    }
+
+    const { requests, failures } = this.countWindow(circuit);
+    if (
+      circuit.state === 'closed' &&
+      requests >= this.config.minimumRequests &&
+      failures / requests >= this.config.errorRateThreshold
+    ) {
+      this.open(circuit);
+    }
+  }
+
+  /**
+   * Release a probe reserved by tryAcquire when no request was made
+   */
+  release(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) circuit.probeInFlight = false;
+  }
+
+  getStats(key: string): CircuitStats {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return { state: 'closed', requests: 0, failures: 0, errorRate: 0, p50Latency: null, p95Latency: null };
+    }
+
+    const { observations, requests, failures } = this.countWindow(circuit);
+    const latencies = observations.filter(o => o.success).map(o => o.latency);
+    const state = circuit.state === 'open' && !this.isOpen(key) ? 'half_open' : circuit.state;
+
+    return {
+      state,
+      requests,
+      failures,
+      errorRate: requests > 0 ? failures / requests : 0,
+      p50Latency: percentile(latencies, 50),
+      p95Latency: percentile(latencies, 95),
+      lastFailure: circuit.lastFailure,
+      lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt) : undefined,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt) : undefined,
+    };
+  }
+
+  reset(key?: string): void {
+    if (key) {
+      this.circuits.delete(key);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private record(key: string, observation: Observation): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', observations: [], probeInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+
+    circuit.observations.push(observation);
+    if (circuit.observations.length > this.config.maxObservations) {
+      circuit.observations.splice(0, circuit.observations.length - this.config.maxObservations);
+    }
+    return circuit;
+  }
+
+  private open(circuit: Circuit): void {
+    circuit.state = 'open';
+    circuit.openedAt = this.now();
+    circuit.probeInFlight = false;
+  }
+
+  private countWindow(circuit: Circuit) {
+    const since = this.now() - this.config.windowMs;
+    const observations = circuit.observations.filter(o => o.timestamp >= since);
+    const failures = observations.filter(o => !o.success).length;
+    return { observations, requests: observations.length, failures };
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -1,11 +1,95 @@
-import { AIProviderType, getProviderConfig, getModelConfig } from './providers';
+import { AIProviderType, CustomEndpointConfig, getProviderConfig, getModelConfig } from './providers';
 import { aiProviderService } from './service';
 import { aiUsageTracker } from './usage-tracker';
+import {
+  createCohereChatRequest,
+  sendCohereChat,
+  streamCohereChat,
+  normalizeCohereUsage,
+  mapCohereFinishReason,
+} from './cohere-utils';
+import { buildCustomEndpointHeaders, resolveCustomBaseUrl } from './custom-endpoint-utils';
+import {
+  createStraicoChatRequest,
+  uploadStraicoAttachments,
+  sendStraicoCompletion,
+  parseStraicoCompletion,
+} from './straico-utils';
+import {
+  toOpenAIMessages,
+  toOpenAITools,
+  toOpenAIToolChoice,
+  parseOpenAIToolCalls,
+  toAnthropicMessages,
+  toAnthropicTools,
+  toAnthropicToolChoice,
+  parseAnthropicContent,
+  parsePromptToolCalls,
+} from './tool-utils';
+
+/**
+ * Provider-neutral tool (function) definition; `parameters` is a JSON Schema object
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/**
+ * A tool invocation requested by the model
+ */
+// Arguments come from the model, so tools check their types before use
+export type ToolArguments = Record<string, unknown>;
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: ToolArguments;
+}
+
+export type ToolChoice = 'auto' | 'none' | { name: string };
+
+/**
+ * A file attached to a chat message. Contents are only loaded for the message
+ * being sent; earlier attachments are referenced by name.
+ */
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  kind: 'image' | 'file';
+  // Base64 contents of images and PDFs
+  data?: string;
+  // Decoded contents of text files
+  text?: string;
+  // Set once the file has been uploaded to Straico
+  straicoFileId?: string;
+}
 
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp?: Date;
+  // Set on assistant messages that requested tool calls
+  toolCalls?: ToolCall[];
+  // Set on tool messages: the call this message answers
+  toolCallId?: string;
+  name?: string;
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * Ask for a reply that is a JSON value matching `schema` (a JSON Schema).
+ * Providers with a native JSON mode use it; the reply is validated either way.
+ */
+export interface ResponseFormat {
+  type: 'json_schema';
+  name?: string;
+  schema: Record<string, any>;
 }
 
 export interface ChatCompletionRequest {
@@ -14,6 +98,11 @@ export interface ChatCompletionRequest {
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: ResponseFormat;
+  // Aborts the request to the provider, e.g. when a generation is cancelled
+  signal?: AbortSignal;
 }
 
 export interface ChatCompletionResponse {
@@ -25,7 +114,8 @@ export interface ChatCompletionResponse {
     completionTokens: number;
     totalTokens: number;
   };
-  finishReason: 'stop' | 'length' | 'content_filter' | 'error';
+  finishReason: 'stop' | 'length' | 'content_filter' | 'error' | 'tool_calls';
+  toolCalls?: ToolCall[];
 }
 
 export interface StreamingResponse {
@@ -38,6 +128,7 @@ export interface StreamingResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  toolCalls?: ToolCall[];
 }
 
 export class UnifiedAIClient {
@@ -88,7 +179,8 @@ export class UnifiedAIClient {
             maxTokens,
             temperature,
             stream: false // Non-streaming for now
-          }
+          },
+          provider.endpoint
         );
 
         const endTime = Date.now();
@@ -163,7 +255,8 @@ export class UnifiedAIClient {
           maxTokens,
           temperature,
           stream: true
-        }
+        },
+        provider.endpoint
       );
 
       for await (const chunk of stream) {
@@ -200,11 +293,14 @@ export class UnifiedAIClient {
   private async makeProviderRequest(
     provider: AIProviderType,
     apiKey: string,
-    request: ChatCompletionRequest
+    request: ChatCompletionRequest,
+    endpoint?: CustomEndpointConfig
   ): Promise<ChatCompletionResponse> {
     switch (provider) {
       case 'openai':
         return this.makeOpenAIRequest(apiKey, request);
+      case 'custom':
+        return this.makeOpenAIRequest(apiKey, request, this.requireEndpoint(endpoint));
       case 'anthropic':
         return this.makeAnthropicRequest(apiKey, request);
       case 'straico':
@@ -222,12 +318,16 @@ export class UnifiedAIClient {
   private async *makeProviderStreamRequest(
     provider: AIProviderType,
     apiKey: string,
-    request: ChatCompletionRequest
+    request: ChatCompletionRequest,
+    endpoint?: CustomEndpointConfig
   ): AsyncGenerator<StreamingResponse, void, unknown> {
     switch (provider) {
       case 'openai':
         yield* this.makeOpenAIStreamRequest(apiKey, request);
         break;
+      case 'custom':
+        yield* this.makeOpenAIStreamRequest(apiKey, request, this.requireEndpoint(endpoint));
+        break;
       case 'anthropic':
         yield* this.makeAnthropicStreamRequest(apiKey, request);
         break;
@@ -243,44 +343,96 @@ export class UnifiedAIClient {
   }
 
   /**
-   * OpenAI API implementation
+   * Ensure a custom provider carries its endpoint configuration
+   */
+  private requireEndpoint(endpoint?: CustomEndpointConfig): CustomEndpointConfig {
+    if (!endpoint) {
+      throw new Error('Custom endpoint is not configured');
+    }
+    return endpoint;
+  }
+
+  /**
+   * Resolve URL and headers for OpenAI or an OpenAI-compatible custom endpoint
+   */
+  private async getOpenAICompatibleTarget(apiKey: string, endpoint?: CustomEndpointConfig) {
+    if (!endpoint) {
+      return {
+        url: 'https://api.openai.com/v1/chat/completions',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        } as Record<string, string>,
+        redirect: 'follow' as const,
+      };
+    }
+
+    return {
+      url: `${await resolveCustomBaseUrl(endpoint.baseUrl)}/chat/completions`,
+      headers: buildCustomEndpointHeaders(apiKey, endpoint.authHeader),
+      // A redirect could lead past the address check
+      redirect: 'error' as const,
+    };
+  }
+
+  /**
+   * Build the error for a failed OpenAI-compatible response. A custom
+   * endpoint's reply body is only logged, not passed back to the caller.
+   */
+  private async openAICompatibleError(response: Response, endpoint?: CustomEndpointConfig): Promise<Error> {
+    const body = await response.text();
+    if (!endpoint) {
+      return new Error(`OpenAI API error: ${response.status} ${body}`);
+    }
+
+    console.error(`Custom endpoint error ${response.status}:`, body);
+    return new Error(`Custom endpoint error: ${response.status}`);
+  }
+
+  /**
+   * OpenAI API implementation (also used for OpenAI-compatible custom endpoints)
    */
   private async makeOpenAIRequest(
     apiKey: string,
-    request: ChatCompletionRequest
+    request: ChatCompletionRequest,
+    endpoint?: CustomEndpointConfig
   ): Promise<ChatCompletionResponse> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const target = await this.getOpenAICompatibleTarget(apiKey, endpoint);
+    const response = await fetch(target.url, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
+      headers: target.headers,
+      redirect: target.redirect,
       body: JSON.stringify({
         model: request.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens,
         temperature: request.temperature,
         stream: false,
+        ...(request.tools?.length && {
+          tools: toOpenAITools(request.tools),
+          tool_choice: toOpenAIToolChoice(request.toolChoice),
+        }),
       }),
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw await this.openAICompatibleError(response, endpoint);
     }
 
     const data = await response.json();
     
     return {
       id: data.id,
-      content: data.choices[0].message.content,
-      model: data.model,
+      content: data.choices[0].message.content || '',
+      model: data.model || request.model,
       usage: {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens,
+        // Local OpenAI-compatible servers may omit usage
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+        totalTokens: data.usage?.total_tokens || 0,
       },
       finishReason: data.choices[0].finish_reason,
+      toolCalls: parseOpenAIToolCalls(data.choices[0].message),
     };
   }
 
@@ -289,26 +441,26 @@ export class UnifiedAIClient {
    */
   private async *makeOpenAIStreamRequest(
     apiKey: string,
-    request: ChatCompletionRequest
+    request: ChatCompletionRequest,
+    endpoint?: CustomEndpointConfig
   ): AsyncGenerator<StreamingResponse, void, unknown> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const target = await this.getOpenAICompatibleTarget(apiKey, endpoint);
+    const response = await fetch(target.url, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
+      headers: target.headers,
+      redirect: target.redirect,
       body: JSON.stringify({
         model: request.model,
-        messages: request.messages,
+        messages: toOpenAIMessages(request.messages),
         max_tokens: request.maxTokens,
         temperature: request.temperature,
         stream: true,
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw await this.openAICompatibleError(response, endpoint);
     }
 
     const reader = response.body?.getReader();
@@ -371,8 +523,7 @@ export class UnifiedAIClient {
     request: ChatCompletionRequest
   ): Promise<ChatCompletionResponse> {
     // Convert messages to Anthropic format
-    const systemMessage = request.messages.find(m => m.role === 'system');
-    const messages = request.messages.filter(m => m.role !== 'system');
+    const { system, messages } = toAnthropicMessages(request.messages);
 
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
@@ -385,12 +536,14 @@ export class UnifiedAIClient {
         model: request.model,
         max_tokens: request.maxTokens,
         temperature: request.temperature,
-        system: systemMessage?.content,
-        messages: messages.map(m => ({
-          role: m.role,
-          content: m.content,
-        })),
+        system,
+        messages,
+        ...(request.tools?.length && request.toolChoice !== 'none' && {
+          tools: toAnthropicTools(request.tools),
+          tool_choice: toAnthropicToolChoice(request.toolChoice),
+        }),
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
@@ -399,17 +552,22 @@ export class UnifiedAIClient {
     }
 
     const data = await response.json();
+    const { text, toolCalls } = parseAnthropicContent(data.content);
     
     return {
       id: data.id,
-      content: data.content[0].text,
+      content: text,
       model: data.model,
       usage: {
         promptTokens: data.usage.input_tokens,
         completionTokens: data.usage.output_tokens,
         totalTokens: data.usage.input_tokens + data.usage.output_tokens,
       },
-      finishReason: data.stop_reason === 'end_turn' ? 'stop' : data.stop_reason,
+      finishReason: data.stop_reason === 'end_turn' ? 'stop'
+        : data.stop_reason === 'tool_use' ? 'tool_calls'
+        : data.stop_reason === 'max_tokens' ? 'length'
+        : data.stop_reason,
+      toolCalls,
     };
   }
 
@@ -430,6 +588,7 @@ export class UnifiedAIClient {
       delta: response.content,
       done: true,
       usage: response.usage,
+      toolCalls: response.toolCalls,
     };
   }
 
@@ -440,81 +599,27 @@ export class UnifiedAIClient {
     apiKey: string,
     request: ChatCompletionRequest
   ): Promise<ChatCompletionResponse> {
+    const useTools = !!request.tools?.length && request.toolChoice !== 'none';
+    const messages = await uploadStraicoAttachments(apiKey, request.messages);
+
     // Prepare request body according to Straico v0 API spec
-    const requestBody: any = {
-      messages: request.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      max_tokens: request.maxTokens,
+    const requestBody = createStraicoChatRequest(messages, {
+      model: request.model,
+      maxTokens: request.maxTokens,
       temperature: request.temperature,
-      stream: false,
-    };
-
-    // Include either model OR smart_llm_selector, not both
-    if (request.model && request.model !== 'auto') {
-      requestBody.model = request.model;
-    } else {
-      requestBody.smart_llm_selector = true;
-    }
-
-    const response = await fetch('https://api.straico.com/v0/prompt/completion', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+      tools: request.tools,
+      toolChoice: request.toolChoice,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Straico API error: ${response.status}`;
-      
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.error?.message || errorData.message || errorMessage;
-      } catch {
-        errorMessage += ` ${errorText}`;
-      }
-      
-      // Handle specific error cases
-      if (response.status === 401) {
-        throw new Error('Invalid or expired Straico API key');
-      } else if (response.status === 403) {
-        throw new Error('API key does not have permission to access this resource');
-      } else if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later');
-      }
-      
-      throw new Error(errorMessage);
-    }
+    const data = await sendStraicoCompletion(apiKey, requestBody);
+    const result = parseStraicoCompletion(data, request.model);
+    const toolCalls = useTools ? parsePromptToolCalls(result.content, request.tools!) : undefined;
 
-    const data = await response.json();
-    
-    // Handle Straico response format
-    const content = data.completion?.choices?.[0]?.message?.content || 
-                   data.choices?.[0]?.message?.content || 
-                   data.completion || 
-                   data.response || 
-                   '';
-    
-    const usage = data.usage || data.completion?.usage || {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0
-    };
-    
     return {
-      id: data.id || `straico-${Date.now()}`,
-      content,
-      model: data.model || request.model || 'unknown',
-      usage: {
-        promptTokens: usage.prompt_tokens || 0,
-        completionTokens: usage.completion_tokens || 0,
-        totalTokens: usage.total_tokens || usage.prompt_tokens + usage.completion_tokens || 0,
-      },
-      finishReason: data.finish_reason || data.completion?.choices?.[0]?.finish_reason || 'stop',
+      ...result,
+      content: toolCalls ? '' : result.content,
+      finishReason: toolCalls ? 'tool_calls' : result.finishReason as ChatCompletionResponse['finishReason'],
+      toolCalls,
     };
   }
 
@@ -522,23 +627,15 @@ export class UnifiedAIClient {
     apiKey: string,
     request: ChatCompletionRequest
   ): AsyncGenerator<StreamingResponse, void, unknown> {
+    const messages = await uploadStraicoAttachments(apiKey, request.messages);
+
     // Prepare request body according to Straico v0 API spec
-    const requestBody: any = {
-      messages: request.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      max_tokens: request.maxTokens,
+    const requestBody = createStraicoChatRequest(messages, {
+      model: request.model,
+      maxTokens: request.maxTokens,
       temperature: request.temperature,
       stream: true,
-    };
-
-    // Include either model OR smart_llm_selector, not both
-    if (request.model && request.model !== 'auto') {
-      requestBody.model = request.model;
-    } else {
-      requestBody.smart_llm_selector = true;
-    }
+    });
 
     const response = await fetch('https://api.straico.com/v0/prompt/completion', {
       method: 'POST',
@@ -547,6 +644,7 @@ export class UnifiedAIClient {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
+      signal: request.signal,
     });
 
     if (!response.ok) {
@@ -627,18 +725,70 @@ export class UnifiedAIClient {
 
 
 
+  /**
+   * Cohere API implementation
+   */
   private async makeCohereRequest(
     apiKey: string,
     request: ChatCompletionRequest
   ): Promise<ChatCompletionResponse> {
-    throw new Error('Cohere implementation not yet available');
+    const requestBody = createCohereChatRequest(request.messages, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+
+    const data = await sendCohereChat(apiKey, requestBody);
+
+    return {
+      id: data.response_id || data.generation_id || `cohere-${Date.now()}`,
+      content: data.text || '',
+      model: request.model || 'unknown',
+      usage: normalizeCohereUsage(data.meta),
+      finishReason: mapCohereFinishReason(data.finish_reason),
+    };
   }
 
+  /**
+   * Cohere streaming implementation
+   */
   private async *makeCohereStreamRequest(
     apiKey: string,
     request: ChatCompletionRequest
   ): AsyncGenerator<StreamingResponse, void, unknown> {
-    throw new Error('Cohere streaming implementation not yet available');
+    const requestBody = createCohereChatRequest(request.messages, {
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+    });
+
+    let id = `cohere-${Date.now()}`;
+    let content = '';
+
+    for await (const event of streamCohereChat(apiKey, requestBody, undefined, request.signal)) {
+      if (event.event_type === 'stream-start' && event.generation_id) {
+        id = event.generation_id;
+      } else if (event.event_type === 'text-generation') {
+        const delta = event.text || '';
+        content += delta;
+
+        yield {
+          id,
+          content,
+          delta,
+          done: false,
+        };
+      } else if (event.event_type === 'stream-end') {
+        yield {
+          id,
+          content,
+          delta: '',
+          done: true,
+          usage: normalizeCohereUsage(event.response?.meta),
+        };
+      }
+    }
   }
 
   /**
@@ -0,0 +1,289 @@
+/**
+ * Cohere API utilities for chat completions (v1 chat endpoint)
+ */
+
+import { getProviderConfig } from './providers';
+import { toTextContent } from './attachment-utils';
+import type { ChatAttachment } from './client';
+
+export type CohereRole = 'USER' | 'CHATBOT' | 'SYSTEM';
+
+export type CohereFinishReason =
+  | 'COMPLETE'
+  | 'STOP_SEQUENCE'
+  | 'MAX_TOKENS'
+  | 'ERROR'
+  | 'ERROR_TOXIC'
+  | 'ERROR_LIMIT'
+  | 'USER_CANCEL';
+
+export interface CohereChatHistoryEntry {
+  role: CohereRole;
+  message: string;
+}
+
+export interface CohereChatRequest {
+  message: string;
+  model?: string;
+  preamble?: string;
+  chat_history?: CohereChatHistoryEntry[];
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+export interface CohereTokenCounts {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+export interface CohereChatResponse {
+  response_id?: string;
+  generation_id?: string;
+  text: string;
+  finish_reason?: CohereFinishReason;
+  meta?: {
+    billed_units?: CohereTokenCounts;
+    tokens?: CohereTokenCounts;
+  };
+}
+
+export interface CohereStreamEvent {
+  event_type: 'stream-start' | 'text-generation' | 'stream-end' | string;
+  is_finished?: boolean;
+  generation_id?: string;
+  text?: string;
+  finish_reason?: CohereFinishReason;
+  response?: CohereChatResponse;
+}
+
+export interface CohereUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export const COHERE_DEFAULT_BASE_URL =
+  getProviderConfig('cohere').baseUrl || 'https://api.cohere.ai/v1';
+
+/**
+ * Convert provider-neutral chat messages into a Cohere chat request.
+ *
+ * Cohere takes the latest turn as `message`, earlier turns as `chat_history`
+ * and system prompts as a single `preamble`.
+ */
+export function createCohereChatRequest(
+  messages: {
+    role: 'user' | 'assistant' | 'system' | 'tool';
+    content: string;
+    name?: string;
+    attachments?: ChatAttachment[];
+  }[],
+  options: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    stream?: boolean;
+  } = {}
+): CohereChatRequest {
+  const systemPrompts = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content);
+  const turns = messages.filter(m => m.role !== 'system');
+
+  const latest = turns[turns.length - 1];
+  if (!latest) {
+    throw new Error('Cohere chat request requires at least one message');
+  }
+
+  const requestBody: CohereChatRequest = {
+    // Cohere chat is text-only: text files are inlined, other attachments named
+    message: toTextContent(latest),
+    model: options.model,
+    chat_history: turns.slice(0, -1).map(m => ({
+      role: m.role === 'assistant' ? 'CHATBOT' : 'USER',
+      // Tool calling is not wired up for Cohere; replay tool results as plain text
+      message: m.role === 'tool' ? `Tool result${m.name ? ` (${m.name})` : ''}: ${m.content}` : toTextContent(m),
+    })),
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    stream: options.stream || false,
+  };
+
+  if (systemPrompts.length > 0) {
+    requestBody.preamble = systemPrompts.join('\n\n');
+  }
+
+  return requestBody;
+}
+
+/**
+ * Normalize Cohere token metadata, preferring actual token counts over billed units
+ */
+export function normalizeCohereUsage(
+  meta?: CohereChatResponse['meta']
+): CohereUsage {
+  const counts = meta?.tokens || meta?.billed_units || {};
+  const promptTokens = counts.input_tokens || 0;
+  const completionTokens = counts.output_tokens || 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Map Cohere finish reasons onto the normalized finish reasons
+ */
+export function mapCohereFinishReason(
+  reason?: CohereFinishReason
+): 'stop' | 'length' | 'content_filter' | 'error' {
+  switch (reason) {
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'ERROR_TOXIC':
+      return 'content_filter';
+    case 'ERROR':
+    case 'ERROR_LIMIT':
+      return 'error';
+    default:
+      return 'stop';
+  }
+}
+
+/**
+ * Build an error for a failed Cohere response
+ */
+async function buildCohereError(response: Response): Promise<Error> {
+  const errorText = await response.text();
+  let errorMessage = `Cohere API error: ${response.status}`;
+
+  try {
+    const errorData = JSON.parse(errorText);
+    if (errorData.message) {
+      errorMessage += ` ${errorData.message}`;
+    }
+  } catch {
+    errorMessage += ` ${errorText}`;
+  }
+
+  if (response.status === 401) {
+    return new Error('Invalid or expired Cohere API key');
+  } else if (response.status === 429) {
+    return new Error('Rate limit exceeded. Please try again later');
+  }
+
+  return new Error(errorMessage);
+}
+
+function postCohereChat(
+  apiKey: string,
+  requestBody: CohereChatRequest,
+  baseUrl: string,
+  signal?: AbortSignal
+): Promise<Response> {
+  return fetch(`${baseUrl}/chat`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Accept': requestBody.stream ? 'application/stream+json' : 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+    signal,
+  });
+}
+
+/**
+ * Send a non-streaming chat request to Cohere
+ */
+export async function sendCohereChat(
+  apiKey: string,
+  requestBody: CohereChatRequest,
+  baseUrl: string = COHERE_DEFAULT_BASE_URL
+): Promise<CohereChatResponse> {
+  const response = await postCohereChat(
+    apiKey,
+    { ...requestBody, stream: false },
+    baseUrl
+  );
+
+  if (!response.ok) {
+    throw await buildCohereError(response);
+  }
+
+  return response.json();
+}
+
+/**
+ * Send a streaming chat request to Cohere.
+ *
+ * Cohere streams newline-delimited JSON events rather than SSE `data:` lines.
+ */
+export async function* streamCohereChat(
+  apiKey: string,
+  requestBody: CohereChatRequest,
+  baseUrl: string = COHERE_DEFAULT_BASE_URL,
+  signal?: AbortSignal
+): AsyncGenerator<CohereStreamEvent, void, unknown> {
+  const response = await postCohereChat(
+    apiKey,
+    { ...requestBody, stream: true },
+    baseUrl,
+    signal
+  );
+
+  if (!response.ok) {
+    throw await buildCohereError(response);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string): CohereStreamEvent | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Skip invalid JSON
+      return null;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const event = parseLine(line);
+        if (!event) continue;
+
+        yield event;
+        if (event.is_finished || event.event_type === 'stream-end') {
+          return;
+        }
+      }
+    }
+
+    const trailing = parseLine(buffer);
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
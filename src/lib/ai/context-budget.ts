@@ -0,0 +1,219 @@
+/**
+ * Fit a chat request into a model's context window before it is sent.
+ *
+ * Token counts are estimates (about four characters per token) with a safety
+ * margin, not exact tokenizer output. When a request doesn't fit, the oldest
+ * history is dropped and replaced by a short note of what was asked, and
+ * injected project context is truncated; everything removed is reported.
+ */
+
+import type { ChatMessage, ToolDefinition } from './client';
+import type { ModelCapabilities } from './providers';
+
+// ProjectChatInterface appends retrieved context to the system prompt under this heading
+export const INJECTED_CONTEXT_HEADING = '\n\n## Relevant Context\n';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1000;
+const SAFETY_MARGIN = 0.05;
+const SUMMARY_SNIPPET_LENGTH = 120;
+const MAX_SUMMARY_SNIPPETS = 10;
+
+export interface BudgetMessage extends ChatMessage {
+  id?: string;
+}
+
+export interface DroppedContextItem {
+  type: 'message' | 'context';
+  id?: string;
+  role?: ChatMessage['role'];
+  tokens: number;
+}
+
+export interface ContextBudgetReport {
+  contextWindow: number;
+  reservedOutputTokens: number;
+  budget: number;
+  estimatedTokens: number;
+  dropped: DroppedContextItem[];
+  summarized: boolean;
+  contextTruncated: boolean;
+}
+
+export interface ContextBudgetInput {
+  systemPrompt?: string;
+  // Retrieved project context, trimmed before recent history is given up
+  injectedContext?: string;
+  // Summary of turns before `history`, sent as its own system message
+  memory?: string;
+  history: BudgetMessage[];
+  current: ChatMessage;
+}
+
+export interface ContextBudgetOptions {
+  capabilities: ModelCapabilities;
+  maxOutputTokens?: number;
+  tools?: ToolDefinition[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+
+  if (message.toolCalls?.length) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls));
+  }
+
+  for (const attachment of message.attachments || []) {
+    if (attachment.text !== undefined) {
+      tokens += estimateTokens(attachment.text);
+    } else if (attachment.kind === 'image') {
+      tokens += attachment.data ? IMAGE_TOKENS : estimateTokens(attachment.name);
+    } else if (attachment.data) {
+      // Base64 is 4/3 the size of the document it encodes
+      tokens += estimateTokens(attachment.data) * 3 / 4;
+    } else {
+      tokens += estimateTokens(attachment.name);
+    }
+  }
+
+  return Math.ceil(tokens);
+}
+
+/**
+ * Split a system prompt into the base prompt and any injected context
+ */
+export function splitInjectedContext(systemPrompt?: string): { systemPrompt?: string; injectedContext?: string } {
+  if (!systemPrompt) return {};
+
+  const index = systemPrompt.indexOf(INJECTED_CONTEXT_HEADING);
+  if (index === -1) return { systemPrompt };
+
+  return {
+    systemPrompt: systemPrompt.slice(0, index),
+    injectedContext: systemPrompt.slice(index + INJECTED_CONTEXT_HEADING.length),
+  };
+}
+
+function summarizeDropped(dropped: BudgetMessage[]): string {
+  const questions = dropped
+    .filter(message => message.role === 'user' && message.content.trim())
+    .slice(-MAX_SUMMARY_SNIPPETS)
+    .map(message => {
+      const text = message.content.trim().replace(/\s+/g, ' ');
+      return `- ${text.length > SUMMARY_SNIPPET_LENGTH ? `${text.slice(0, SUMMARY_SNIPPET_LENGTH)}…` : text}`;
+    });
+
+  return `\n\n## Earlier Conversation\n${dropped.length} earlier messages were omitted to fit the context window.` +
+    (questions.length > 0 ? ` The user had asked:\n${questions.join('\n')}` : '');
+}
+
+/**
+ * Build the message list for a request, trimming history and injected context
+ * until the estimate fits the model's window
+ */
+export function fitToContextWindow(
+  input: ContextBudgetInput,
+  options: ContextBudgetOptions
+): { messages: ChatMessage[]; report: ContextBudgetReport } {
+  const { contextWindow, maxOutputTokens } = options.capabilities;
+  const reservedOutputTokens = Math.min(options.maxOutputTokens ?? maxOutputTokens, maxOutputTokens);
+  const budget = Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - reservedOutputTokens;
+
+  const systemPrompt = input.systemPrompt || '';
+  const memory = input.memory ? { role: 'system' as const, content: input.memory } : null;
+  const fixedTokens =
+    (systemPrompt || input.injectedContext ? MESSAGE_OVERHEAD_TOKENS + estimateTokens(systemPrompt) : 0) +
+    (memory ? estimateMessageTokens(memory) : 0) +
+    estimateMessageTokens(input.current) +
+    (options.tools?.length ? estimateTokens(JSON.stringify(options.tools)) : 0);
+  const available = Math.max(0, budget - fixedTokens);
+
+  const contextTokens = input.injectedContext
+    ? estimateTokens(INJECTED_CONTEXT_HEADING + input.injectedContext)
+    : 0;
+  const historyTokens = input.history.map(estimateMessageTokens);
+  const totalHistoryTokens = historyTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  let keptHistory = input.history;
+  let droppedHistory: BudgetMessage[] = [];
+  let summary = '';
+  let contextAllowance = contextTokens;
+
+  if (contextTokens + totalHistoryTokens > available) {
+    // Context gets up to half the room; history fills the rest newest first
+    const historyAllowance = available - Math.min(contextTokens, Math.floor(available / 2));
+    let used = 0;
+    let firstKept = input.history.length;
+    for (let i = input.history.length - 1; i >= 0; i--) {
+      if (used + historyTokens[i] > historyAllowance) break;
+      used += historyTokens[i];
+      firstKept = i;
+    }
+    // A tool result can't lead the history without the call that produced it
+    while (firstKept < input.history.length && input.history[firstKept].role === 'tool') {
+      used -= historyTokens[firstKept];
+      firstKept++;
+    }
+
+    keptHistory = input.history.slice(firstKept);
+    droppedHistory = input.history.slice(0, firstKept);
+
+    if (droppedHistory.length > 0) {
+      const candidate = summarizeDropped(droppedHistory);
+      if (used + estimateTokens(candidate) <= historyAllowance) {
+        summary = candidate;
+        used += estimateTokens(candidate);
+      }
+    }
+
+    contextAllowance = Math.min(contextTokens, Math.max(0, available - used));
+  }
+
+  let injectedContext = input.injectedContext || '';
+  const contextTruncated = contextAllowance < contextTokens;
+  if (contextTruncated) {
+    const note = '\n[Context truncated to fit the model\'s context window]';
+    const chars = Math.max(0, (contextAllowance - estimateTokens(INJECTED_CONTEXT_HEADING + note)) * CHARS_PER_TOKEN);
+    injectedContext = chars > 0 ? injectedContext.slice(0, chars) + note : '';
+  }
+
+  const fullSystemPrompt = systemPrompt +
+    (injectedContext ? INJECTED_CONTEXT_HEADING + injectedContext : '') +
+    summary;
+
+  const messages: ChatMessage[] = [
+    ...(fullSystemPrompt ? [{ role: 'system' as const, content: fullSystemPrompt }] : []),
+    ...(memory ? [memory] : []),
+    ...keptHistory.map(({ id: _id, ...message }) => message),
+    input.current,
+  ];
+
+  const dropped: DroppedContextItem[] = droppedHistory.map(message => ({
+    type: 'message',
+    ...(message.id && { id: message.id }),
+    role: message.role,
+    tokens: estimateMessageTokens(message),
+  }));
+  if (contextTruncated) {
+    dropped.push({ type: 'context', tokens: contextTokens - contextAllowance });
+  }
+
+  return {
+    messages,
+    report: {
+      contextWindow,
+      reservedOutputTokens,
+      budget,
+      estimatedTokens: messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0) +
+        (options.tools?.length ? estimateTokens(JSON.stringify(options.tools)) : 0),
+      dropped,
+      summarized: summary !== '',
+      contextTruncated,
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Helpers for working with multiple labeled credentials per provider
+ */
+
+import type { AIProvider } from '@/types';
+import { AIProviderType, getAvailableProviders, getProviderConfig } from './providers';
+
+export const DEFAULT_CREDENTIAL_LABEL = 'Default';
+
+// Pseudo-credential id for the "Auto" choice; the model router picks a real one
+export const AUTO_ROUTER_ID = 'vibecraft-auto';
+
+export function isAutoRouted(providerId?: string | null): boolean {
+  return providerId === AUTO_ROUTER_ID;
+}
+
+/**
+ * Display name for a credential, e.g. "OpenAI · Work"
+ */
+export function getCredentialDisplayName(provider: Pick<AIProvider, 'provider' | 'label'>): string {
+  const displayName = getProviderConfig(provider.provider).displayName;
+  return provider.label && provider.label !== DEFAULT_CREDENTIAL_LABEL
+    ? `${displayName} · ${provider.label}`
+    : displayName;
+}
+
+/**
+ * Name to show for a project's default provider setting, which holds a
+ * credential id, a provider type saved before credentials had ids, or the
+ * Auto router. Null when nothing is set; ids outside the given credentials,
+ * like another member's key, are not shown.
+ */
+export function getProviderSettingDisplayName(
+  providers: AIProvider[],
+  reference?: string | null
+): string | null {
+  if (!reference) return null;
+  if (isAutoRouted(reference)) return 'Auto';
+
+  const credential = providers.find(p => p.id === reference);
+  if (credential) return getCredentialDisplayName(credential);
+
+  if ((getAvailableProviders() as string[]).includes(reference)) {
+    return getProviderConfig(reference as AIProviderType).displayName;
+  }
+  return 'Unknown key';
+}
+
+/**
+ * Pick the credential to use for a provider type: the active default, else the
+ * oldest active credential
+ */
+export function getDefaultCredential(
+  providers: AIProvider[],
+  providerType: AIProviderType
+): AIProvider | undefined {
+  const candidates = providers.filter(p => p.provider === providerType && p.isActive);
+  return candidates.find(p => p.isDefault) || candidates[0];
+}
+
+/**
+ * Resolve a project's provider reference to a credential.
+ *
+ * The reference may be a credential id or, for older projects, a provider type,
+ * in which case that provider's default credential is used.
+ */
+export function resolveCredential(
+  providers: AIProvider[],
+  reference?: string | null
+): AIProvider | undefined {
+  if (reference) {
+    const byId = providers.find(p => p.id === reference && p.isActive);
+    if (byId) return byId;
+
+    if ((getAvailableProviders() as string[]).includes(reference)) {
+      const byType = getDefaultCredential(providers, reference as AIProviderType);
+      if (byType) return byType;
+    }
+  }
+
+  return providers.find(p => p.isActive && p.isDefault) || providers.find(p => p.isActive);
+}
+
+/**
+ * Group credentials by vendor, in provider registry order
+ */
+export function groupCredentialsByProvider(
+  providers: AIProvider[]
+): { provider: AIProviderType; credentials: AIProvider[] }[] {
+  return getAvailableProviders()
+    .map(provider => ({
+      provider,
+      credentials: providers
+        .filter(p => p.provider === provider)
+        .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.label.localeCompare(b.label)),
+    }))
+    .filter(group => group.credentials.length > 0);
+}
@@ -0,0 +1,171 @@
+/**
+ * Utilities for user-supplied OpenAI-compatible endpoints (Ollama, vLLM, LM Studio)
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { config } from '@/lib/config';
+import type { CustomEndpointConfig } from './providers';
+
+export interface OpenAICompatibleModel {
+  id: string;
+  object?: string;
+  owned_by?: string;
+}
+
+/**
+ * Normalize a user-supplied base URL so it points at the `/v1` API root
+ */
+export function normalizeCustomBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error('Invalid custom endpoint URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Invalid custom endpoint URL: must use http or https');
+  }
+
+  return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+}
+
+// Loopback, private, link-local, shared, multicast and unspecified ranges
+const PRIVATE_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix, family] of PRIVATE_SUBNETS) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, family);
+}
+
+/**
+ * Whether an IP address is on a private, loopback or link-local network.
+ * IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Normalize a custom endpoint's base URL and check that its host resolves
+ * only to public addresses, so a user-supplied URL can't reach the server's
+ * own network. CUSTOM_ENDPOINT_ALLOW_PRIVATE_NETWORK lifts the check.
+ */
+export async function resolveCustomBaseUrl(baseUrl: string): Promise<string> {
+  const normalized = normalizeCustomBaseUrl(baseUrl);
+  if (config.ai.customEndpoints.allowPrivateNetwork) {
+    return normalized;
+  }
+
+  const hostname = new URL(normalized).hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch {
+    throw new Error(`Custom endpoint host could not be resolved: ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('Custom endpoint resolves to a private network address');
+  }
+
+  return normalized;
+}
+
+/**
+ * Build request headers for a custom endpoint.
+ *
+ * Without a custom header name the key is sent as a bearer token; with one it
+ * is sent verbatim under that header. Keyless servers get no auth header.
+ */
+export function buildCustomEndpointHeaders(
+  apiKey: string,
+  authHeader?: string
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (!apiKey) {
+    return headers;
+  }
+
+  if (authHeader && authHeader.toLowerCase() !== 'authorization') {
+    headers[authHeader] = apiKey;
+  } else {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Discover the models served by a custom endpoint via `GET /v1/models`
+ */
+export async function fetchCustomEndpointModels(
+  endpoint: Pick<CustomEndpointConfig, 'baseUrl' | 'authHeader'>,
+  apiKey: string
+): Promise<string[]> {
+  const baseUrl = await resolveCustomBaseUrl(endpoint.baseUrl);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 8000);
+
+  try {
+    // Redirects aren't followed; they could lead past the address check
+    const response = await fetch(`${baseUrl}/models`, {
+      method: 'GET',
+      headers: buildCustomEndpointHeaders(apiKey, endpoint.authHeader),
+      signal: controller.signal,
+      redirect: 'error',
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Custom endpoint rejected the API key');
+      }
+      console.error(`Custom endpoint models error ${response.status}:`, errorText);
+      throw new Error(`Custom endpoint models error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const models: OpenAICompatibleModel[] = data.data || data.models || [];
+
+    return models
+      .map(model => model.id)
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+      .sort();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Custom endpoint connection timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Text embedding providers and vector helpers
+ */
+
+import { config } from '@/lib/config';
+
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  // Providers with a batch API embed several texts in one request
+  embedBatch?(texts: string[]): Promise<number[][]>;
+}
+
+// Size of the vectors stored for knowledge retrieval, whatever the provider
+export const KNOWLEDGE_EMBEDDING_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'its',
+  'is', 'are', 'was', 'were', 'be', 'do', 'does', 'did', 'can', 'could', 'would',
+  'should', 'will', 'to', 'of', 'in', 'on', 'for', 'with', 'and', 'or', 'please',
+  'how', 'what', 'this', 'that', 'some', 'any',
+]);
+
+// FNV-1a, so the same text always maps to the same vector
+function hashString(value: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic hashing embedder that runs locally. Each word, its four-letter
+ * stem and its character trigrams are hashed into a fixed-size vector, so
+ * paraphrases sharing stems ("auth" / "authentication") land close together.
+ * Not a substitute for a real embedding model, but free, offline and stable
+ * for tests.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local-hashing';
+
+  constructor(readonly dimensions: number = 512) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !STOP_WORDS.has(word));
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+      // Crude stem so inflections and abbreviations share a feature
+      this.addFeature(vector, `s:${word.slice(0, 4)}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const index = hashString(feature) % this.dimensions;
+    const sign = hashString(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+}
+
+/**
+ * OpenAI embeddings. The text-embedding-3 models can shorten their vectors,
+ * so they fit the stored dimensions.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'text-embedding-3-small',
+    readonly dimensions: number = KNOWLEDGE_EMBEDDING_DIMENSIONS
+  ) {
+    this.id = `openai:${model}:${dimensions}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, input: texts, dimensions: this.dimensions }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`OpenAI embeddings error: ${response.status} ${error}`);
+    }
+
+    const { data } = await response.json() as { data: { index: number; embedding: number[] }[] };
+    return data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
+
+/**
+ * The provider knowledge is indexed and searched with. Falls back to the local
+ * embedder unless OpenAI is configured, so retrieval works without a key.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const { provider, model } = config.ai.embeddings;
+  if (provider === 'openai' && config.ai.openai.apiKey) {
+    return new OpenAIEmbeddingProvider(config.ai.openai.apiKey, model);
+  }
+  return new LocalEmbeddingProvider(KNOWLEDGE_EMBEDDING_DIMENSIONS);
+}
+
+/**
+ * Embed several texts, in one request where the provider allows it
+ */
+export async function embedTexts(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  if (provider.embedBatch) return provider.embedBatch(texts);
+  return Promise.all(texts.map(text => provider.embed(text)));
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
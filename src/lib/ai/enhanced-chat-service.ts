@@ -1,7 +1,32 @@
 import { db } from '@/lib/supabase/database';
-import { aiAbstractionLayer, NormalizedResponse, FallbackConfig } from './abstraction-layer';
-import { ChatMessage } from './client';
-import type { ChatMessage as DBChatMessage } from '@/types';
+import { aiAbstractionLayer, NormalizedResponse, FallbackConfig, ChatCacheOptions } from './abstraction-layer';
+import { ChatMessage, ToolDefinition } from './client';
+import type { CacheScope, CacheStats } from './response-cache';
+import { getSemanticCacheSettings } from './semantic-cache';
+import { CircuitStats, circuitBreakers, credentialCircuitKey, providerCircuitKey } from './circuit-breaker';
+import { getCredentialDisplayName } from './credentials';
+import { getInterruptReason, InterruptReason } from './generation-manager';
+import { aiProviderService } from './service';
+import { DEFAULT_MODEL_CAPABILITIES, getModelCapabilities } from './providers';
+import { BudgetMessage, ContextBudgetReport, fitToContextWindow, splitInjectedContext } from './context-budget';
+import { toolRegistry, ToolContext } from './tool-registry';
+import { registerProjectTools } from './project-tools';
+import { getSelectedPath, getSelectedPaths } from '@/lib/conversations/message-tree';
+import { conversationMemory, formatSummaryMessage } from '@/lib/conversations/conversation-memory';
+import { conversationTitler } from '@/lib/conversations/conversation-titler';
+import type { AIProvider, ChatMessage as DBChatMessage, RollingSummary } from '@/types';
+import type { Json } from '@/lib/supabase/types';
+
+// Upper bound on call/result round trips before answering without tools
+const MAX_TOOL_ROUNDS = 5;
+
+// Unsummarized messages allowed before older ones are folded into the
+// conversation summary; the context budgeter trims what's left to fit the model
+const HISTORY_LIMIT = 50;
+
+type ToolEvent =
+  | { type: 'tool_call'; data: DBChatMessage }
+  | { type: 'tool_result'; data: DBChatMessage };
 
 export interface EnhancedSendMessageRequest {
   content: string;
@@ -13,6 +38,11 @@ export interface EnhancedSendMessageRequest {
   systemPrompt?: string;
   fallbackConfig?: Partial<FallbackConfig>;
   enableCaching?: boolean;
+  // Let the model call registered tools; `tools` limits which ones by name
+  enableTools?: boolean;
+  tools?: string[];
+  // Aborts a streaming reply; what was generated is kept as an interrupted message
+  signal?: AbortSignal;
 }
 
 export interface EnhancedSendMessageResponse {
@@ -20,13 +50,33 @@ export interface EnhancedSendMessageResponse {
   assistantMessage: DBChatMessage;
   metadata: {
     cached: boolean;
+    similarity?: number;
     fallbackUsed: boolean;
     originalProvider?: string;
     responseTime: number;
     cost: number;
+    toolRounds?: number;
+    contextBudget: ContextBudgetReport;
   };
 }
 
+// Breaker state and counts only; the last failure's text can come from
+// another user's request, so it never leaves the server
+export type CircuitHealth = Pick<CircuitStats, 'state' | 'requests' | 'failures' | 'errorRate' | 'p50Latency' | 'p95Latency'>;
+
+export interface ProviderHealth extends CircuitHealth {
+  available: boolean;
+  // Median latency, kept for clients that predate the breaker stats
+  responseTime?: number;
+  lastChecked: Date;
+  credentials: Record<string, CircuitHealth & { label: string; available: boolean }>;
+}
+
+function toCircuitHealth(stats: CircuitStats): CircuitHealth {
+  const { state, requests, failures, errorRate, p50Latency, p95Latency } = stats;
+  return { state, requests, failures, errorRate, p50Latency, p95Latency };
+}
+
 export class EnhancedChatService {
   /**
    * Send a message using the abstraction layer with fallback and caching
@@ -48,13 +98,14 @@ export class EnhancedChatService {
         conversationId = conversation.id;
       }
 
-      // Get recent conversation history for context
-      const recentMessages = await this.getRecentMessages(request.projectId, 20, conversationId);
+      // The selected path so far; older turns may be replaced by the summary below
+      const path = await this.getSelectedHistory(request.projectId, conversationId);
       
       // Create user message
       const userMessage = await db.createPrompt({
         project_id: request.projectId,
         conversation_id: conversationId,
+        ...this.threadPosition(path[path.length - 1]),
         role: 'user',
         content: request.content,
         ai_provider: request.providerId,
@@ -68,30 +119,17 @@ export class EnhancedChatService {
         },
       });
 
-      // Prepare messages for AI request
-      const messages: ChatMessage[] = [];
-      
-      // Add system prompt if provided
-      if (request.systemPrompt) {
-        messages.push({
-          role: 'system',
-          content: request.systemPrompt,
-        });
-      }
-
-      // Add conversation history
-      recentMessages.forEach(msg => {
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      });
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: request.content,
+      // Prepare messages for AI request, trimmed to the model's context window
+      const { history, summary } = await conversationMemory.prepareHistory(userId, {
+        conversationId,
+        projectId: request.projectId,
+        path,
+        providerId: request.providerId,
+        model: request.model,
+        maxMessages: HISTORY_LIMIT,
       });
+      const tools = this.getToolDefinitions(request, { userId, projectId: request.projectId, conversationId });
+      const { messages, contextBudget } = await this.buildAIMessages(request, history, tools, summary);
 
       // Make AI request using abstraction layer
       const aiRequest = {
@@ -101,13 +139,12 @@ export class EnhancedChatService {
         maxTokens: request.maxTokens,
       };
 
-      const aiResponse = await aiAbstractionLayer.chatCompletion(
-        request.providerId,
-        aiRequest,
-        userId,
-        request.projectId,
-        request.fallbackConfig
-      );
+      const toolLoop = this.runToolLoop(userId, request, conversationId, aiRequest, tools, this.mapDatabaseToType(userMessage));
+      let step = await toolLoop.next();
+      while (!step.done) {
+        step = await toolLoop.next();
+      }
+      const { response: aiResponse, rounds: toolRounds, lastMessage } = step.value;
 
       // Calculate cost
       const cost = this.calculateResponseCost(aiResponse);
@@ -116,6 +153,7 @@ export class EnhancedChatService {
       const assistantMessage = await db.createPrompt({
         project_id: request.projectId,
         conversation_id: conversationId,
+        ...this.threadPosition(lastMessage),
         role: 'assistant',
         content: aiResponse.content,
         ai_provider: request.providerId,
@@ -126,22 +164,28 @@ export class EnhancedChatService {
           finishReason: aiResponse.finishReason,
           responseId: aiResponse.id,
           cached: aiResponse.metadata.cached,
+          similarity: aiResponse.metadata.similarity,
           fallbackUsed: aiResponse.metadata.fallbackUsed,
           originalProvider: aiResponse.metadata.originalProvider,
           responseTime: aiResponse.metadata.responseTime,
           cost,
+          contextBudget: this.toBudgetMetadata(contextBudget),
         },
       });
+      this.titleAfterFirstExchange(userId, conversationId, path);
 
       return {
         userMessage: this.mapDatabaseToType(userMessage),
         assistantMessage: this.mapDatabaseToType(assistantMessage),
         metadata: {
           cached: aiResponse.metadata.cached,
+          similarity: aiResponse.metadata.similarity,
           fallbackUsed: aiResponse.metadata.fallbackUsed,
           originalProvider: aiResponse.metadata.originalProvider,
           responseTime: aiResponse.metadata.responseTime,
           cost,
+          toolRounds,
+          contextBudget,
         },
       };
     } catch (error) {
@@ -157,9 +201,13 @@ export class EnhancedChatService {
     userId: string,
     request: EnhancedSendMessageRequest & { conversationId?: string }
   ): AsyncGenerator<{
-    type: 'user_message' | 'assistant_delta' | 'assistant_complete' | 'fallback_notice';
+    type: 'user_message' | 'assistant_delta' | 'assistant_complete' | 'assistant_interrupted' | 'fallback_notice' | 'tool_call' | 'tool_result';
     data: any;
   }, void, unknown> {
+    let fullContent = '';
+    let assistantMessageId: string | null = null;
+    let finalUsage: any = null;
+
     try {
       // Get or create conversation
       let conversationId = request.conversationId;
@@ -173,13 +221,14 @@ export class EnhancedChatService {
         conversationId = conversation.id;
       }
 
-      // Get recent conversation history for context
-      const recentMessages = await this.getRecentMessages(request.projectId, 20, conversationId);
+      // The selected path so far; older turns may be replaced by the summary below
+      const path = await this.getSelectedHistory(request.projectId, conversationId);
       
       // Create user message
       const userMessage = await db.createPrompt({
         project_id: request.projectId,
         conversation_id: conversationId,
+        ...this.threadPosition(path[path.length - 1]),
         role: 'user',
         content: request.content,
         ai_provider: request.providerId,
@@ -197,30 +246,17 @@ export class EnhancedChatService {
         data: this.mapDatabaseToType(userMessage),
       };
 
-      // Prepare messages for AI request
-      const messages: ChatMessage[] = [];
-      
-      // Add system prompt if provided
-      if (request.systemPrompt) {
-        messages.push({
-          role: 'system',
-          content: request.systemPrompt,
-        });
-      }
-
-      // Add conversation history
-      recentMessages.forEach(msg => {
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      });
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: request.content,
+      // Prepare messages for AI request, trimmed to the model's context window
+      const { history, summary } = await conversationMemory.prepareHistory(userId, {
+        conversationId,
+        projectId: request.projectId,
+        path,
+        providerId: request.providerId,
+        model: request.model,
+        maxMessages: HISTORY_LIMIT,
       });
+      const tools = this.getToolDefinitions(request, { userId, projectId: request.projectId, conversationId });
+      const { messages, contextBudget } = await this.buildAIMessages(request, history, tools, summary);
 
       // Make streaming AI request using abstraction layer
       const aiRequest = {
@@ -230,14 +266,60 @@ export class EnhancedChatService {
         maxTokens: request.maxTokens,
       };
 
-      let fullContent = '';
-      let assistantMessageId: string | null = null;
-      let finalUsage: any = null;
+      // Tool rounds need complete responses, so they run without streaming and
+      // the final answer is sent as a single delta
+      if (tools.length > 0) {
+        const toolLoop = this.runToolLoop(userId, request, conversationId, aiRequest, tools, this.mapDatabaseToType(userMessage));
+        let step = await toolLoop.next();
+        while (!step.done) {
+          yield step.value;
+          step = await toolLoop.next();
+        }
+        const { response: aiResponse, lastMessage } = step.value;
+
+        yield {
+          type: 'assistant_delta',
+          data: {
+            id: aiResponse.id,
+            content: aiResponse.content,
+            delta: aiResponse.content,
+            done: true,
+          },
+        };
+
+        const assistantMessage = await db.createPrompt({
+          project_id: request.projectId,
+          conversation_id: conversationId,
+          ...this.threadPosition(lastMessage),
+          role: 'assistant',
+          content: aiResponse.content,
+          ai_provider: request.providerId,
+          model: aiResponse.model,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            usage: aiResponse.usage,
+            finishReason: aiResponse.finishReason,
+            responseId: aiResponse.id,
+            streaming: false,
+            complete: true,
+            cost: this.calculateResponseCost(aiResponse),
+            contextBudget: this.toBudgetMetadata(contextBudget),
+          },
+        });
+        this.titleAfterFirstExchange(userId, conversationId, path);
+
+        yield {
+          type: 'assistant_complete',
+          data: this.mapDatabaseToType(assistantMessage),
+        };
+        return;
+      }
+
       let fallbackNotified = false;
 
       for await (const chunk of aiAbstractionLayer.chatCompletionStream(
         request.providerId,
-        aiRequest,
+        { ...aiRequest, signal: request.signal },
         userId,
         request.projectId,
         request.fallbackConfig
@@ -275,6 +357,7 @@ export class EnhancedChatService {
           const assistantMessage = await db.createPrompt({
             project_id: request.projectId,
             conversation_id: conversationId,
+            ...this.threadPosition(this.mapDatabaseToType(userMessage)),
             role: 'assistant',
             content: chunk.content,
             ai_provider: request.providerId,
@@ -312,8 +395,10 @@ export class EnhancedChatService {
             streaming: false,
             complete: true,
             cost,
+            contextBudget: this.toBudgetMetadata(contextBudget),
           },
         });
+        this.titleAfterFirstExchange(userId, conversationId, path);
 
         yield {
           type: 'assistant_complete',
@@ -321,85 +406,324 @@ export class EnhancedChatService {
         };
       }
     } catch (error) {
+      if (assistantMessageId) {
+        const interrupted = await this.saveInterruptedReply(
+          assistantMessageId,
+          fullContent,
+          getInterruptReason(request.signal),
+          finalUsage
+        );
+        if (interrupted) {
+          yield { type: 'assistant_interrupted', data: interrupted };
+        }
+      }
+
+      // A cancelled reply ends normally, with whatever was generated saved
+      if (request.signal?.aborted) return;
+
       console.error('Error in enhanced streaming message:', error);
       throw new Error(`Failed to send streaming message: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get provider health status
+   * Mark a partially streamed reply as interrupted, keeping its content
    */
-  async getProviderHealth(): Promise<{
-    [provider: string]: {
-      available: boolean;
-      responseTime?: number;
-      lastChecked: Date;
-    };
-  }> {
-    const providers = ['openai', 'anthropic', 'straico', 'cohere'];
-    const health: any = {};
+  private async saveInterruptedReply(
+    messageId: string,
+    content: string,
+    reason: InterruptReason,
+    usage: any
+  ): Promise<DBChatMessage | null> {
+    try {
+      const message = await db.updatePrompt(messageId, {
+        content,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          usage,
+          streaming: false,
+          complete: false,
+          interrupted: true,
+          interruptReason: reason,
+          ...(usage && { cost: this.calculateUsageCost(usage) }),
+        },
+      });
+      return this.mapDatabaseToType(message);
+    } catch (error) {
+      console.error('Error saving interrupted reply:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the tool definitions for a request, if tools are enabled
+   */
+  private getToolDefinitions(
+    request: EnhancedSendMessageRequest,
+    context: ToolContext
+  ): ToolDefinition[] {
+    if (!request.enableTools) return [];
+
+    registerProjectTools();
+    return toolRegistry.getDefinitions(context, request.tools);
+  }
+
+  /**
+   * Call the model, executing requested tools and feeding results back until it
+   * answers or the round limit is hit. Each call and result is persisted after
+   * `parent` and yielded as it happens; the final response is returned with
+   * the last message persisted, which the answer follows.
+   */
+  private async *runToolLoop(
+    userId: string,
+    request: EnhancedSendMessageRequest,
+    conversationId: string,
+    aiRequest: { messages: ChatMessage[]; model?: string; temperature?: number; maxTokens?: number },
+    tools: ToolDefinition[],
+    parent: DBChatMessage
+  ): AsyncGenerator<ToolEvent, { response: NormalizedResponse; rounds: number; lastMessage: DBChatMessage }, unknown> {
+    const messages = [...aiRequest.messages];
+    const context: ToolContext = { userId, projectId: request.projectId, conversationId };
+    const cacheOptions = await this.getCacheOptions(request);
+    let rounds = 0;
+
+    while (true) {
+      request.signal?.throwIfAborted();
+      const canCallTools = tools.length > 0 && rounds < MAX_TOOL_ROUNDS;
+      const response = await aiAbstractionLayer.chatCompletion(
+        request.providerId,
+        {
+          ...aiRequest,
+          messages,
+          // Keep the definitions on the last round so the history stays valid
+          tools: tools.length > 0 ? tools : undefined,
+          toolChoice: tools.length > 0 && !canCallTools ? 'none' : undefined,
+        },
+        userId,
+        request.projectId,
+        request.fallbackConfig,
+        cacheOptions
+      );
+
+      if (!canCallTools || !response.toolCalls?.length) {
+        return { response, rounds, lastMessage: parent };
+      }
+
+      rounds++;
+      const callMessage = await db.createPrompt({
+        project_id: request.projectId,
+        conversation_id: conversationId,
+        ...this.threadPosition(parent),
+        role: 'assistant',
+        content: response.content,
+        ai_provider: request.providerId,
+        model: response.model,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          usage: response.usage,
+          finishReason: response.finishReason,
+          responseId: response.id,
+          // Arguments were parsed from the model's JSON, so they store as is
+          toolCalls: response.toolCalls.map(call => ({ ...call, arguments: call.arguments as Json })),
+          cost: this.calculateResponseCost(response),
+        },
+      });
+      parent = this.mapDatabaseToType(callMessage);
+      yield { type: 'tool_call', data: parent };
+
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        const result = await toolRegistry.execute(call, context);
+        const resultMessage = await db.createPrompt({
+          project_id: request.projectId,
+          conversation_id: conversationId,
+          ...this.threadPosition(parent),
+          role: 'tool',
+          content: result.content,
+          ai_provider: request.providerId,
+          model: response.model,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            toolCallId: result.toolCallId,
+            toolName: result.name,
+            isError: result.isError,
+          },
+        });
+        parent = this.mapDatabaseToType(resultMessage);
+        yield { type: 'tool_result', data: parent };
+
+        messages.push({
+          role: 'tool',
+          content: result.content,
+          toolCallId: result.toolCallId,
+          name: result.name,
+        });
+      }
+    }
+  }
 
+  /**
+   * Name a conversation in the background once its first prompt has a reply
+   */
+  private titleAfterFirstExchange(userId: string, conversationId: string, path: DBChatMessage[]): void {
+    if (path.length > 0) return;
+
+    conversationTitler.titleConversation(userId, conversationId)
+      .catch(error => console.error('Error titling conversation:', error));
+  }
+
+  /**
+   * Convert stored messages to AI messages, restoring tool calls and results
+   */
+  private toAIMessages(history: DBChatMessage[]): BudgetMessage[] {
+    const messages: BudgetMessage[] = history.map(msg =>
+      msg.role === 'tool'
+        ? {
+            id: msg.id,
+            role: 'tool',
+            content: msg.content,
+            toolCallId: msg.metadata.toolCallId,
+            name: msg.metadata.toolName,
+          }
+        : {
+            id: msg.id,
+            role: msg.role,
+            content: msg.content,
+            toolCalls: msg.metadata.toolCalls,
+          }
+    );
+
+    // A truncated history may start with results whose calls were cut off
+    while (messages[0]?.role === 'tool') {
+      messages.shift();
+    }
+
+    return messages;
+  }
+
+  /**
+   * Assemble the request messages, trimmed to fit the model's context window
+   */
+  private async buildAIMessages(
+    request: EnhancedSendMessageRequest,
+    history: DBChatMessage[],
+    tools: ToolDefinition[],
+    summary?: RollingSummary
+  ): Promise<{ messages: ChatMessage[]; contextBudget: ContextBudgetReport }> {
+    // The abstraction layer sends the requested model (else the provider's
+    // configured one) with the provider's output limit
+    const provider = await aiProviderService.getProvider(request.providerId);
+    const capabilities = provider
+      ? getModelCapabilities(provider.provider, request.model || provider.settings.defaultModel)
+      : DEFAULT_MODEL_CAPABILITIES;
+
+    const { messages, report } = fitToContextWindow(
+      {
+        ...splitInjectedContext(request.systemPrompt),
+        memory: summary && formatSummaryMessage(summary),
+        history: this.toAIMessages(history),
+        current: { role: 'user', content: request.content },
+      },
+      { capabilities, maxOutputTokens: provider?.settings.maxTokens ?? request.maxTokens, tools }
+    );
+
+    return { messages, contextBudget: report };
+  }
+
+  private toBudgetMetadata(report: ContextBudgetReport) {
+    // Spread into plain objects so they type-check as JSON
+    return { ...report, dropped: report.dropped.map(item => ({ ...item })) };
+  }
+
+  /**
+   * Provider health from circuit breaker observations of real requests, with
+   * a breakdown for each of the given credentials
+   */
+  async getProviderHealth(credentials: AIProvider[] = []): Promise<Record<string, ProviderHealth>> {
+    const providers = new Set<string>(['openai', 'anthropic', 'straico', 'cohere']);
+    credentials.forEach(credential => providers.add(credential.provider));
+
+    const health: Record<string, ProviderHealth> = {};
     for (const provider of providers) {
-      const startTime = Date.now();
-      try {
-        const adapter = (aiAbstractionLayer as any).adapters.get(provider);
-        const available = adapter ? await adapter.isAvailable() : false;
-        const responseTime = Date.now() - startTime;
-        
-        health[provider] = {
-          available,
-          responseTime,
-          lastChecked: new Date(),
-        };
-      } catch (error) {
-        health[provider] = {
-          available: false,
-          lastChecked: new Date(),
+      const stats = circuitBreakers.getStats(providerCircuitKey(provider));
+      const providerCredentials: ProviderHealth['credentials'] = {};
+
+      for (const credential of credentials.filter(c => c.provider === provider)) {
+        const credentialStats = circuitBreakers.getStats(credentialCircuitKey(credential.id));
+        providerCredentials[credential.id] = {
+          ...toCircuitHealth(credentialStats),
+          label: getCredentialDisplayName(credential),
+          available: credentialStats.state !== 'open',
         };
       }
+
+      health[provider] = {
+        ...toCircuitHealth(stats),
+        available: stats.state !== 'open',
+        responseTime: stats.p50Latency ?? undefined,
+        lastChecked: new Date(),
+        credentials: providerCredentials,
+      };
     }
 
     return health;
   }
 
+  /**
+   * Cache settings for a request; semantic caching is configured per project
+   */
+  private async getCacheOptions(request: EnhancedSendMessageRequest): Promise<ChatCacheOptions> {
+    const enabled = request.enableCaching ?? true;
+    if (!enabled) {
+      return { enabled };
+    }
+
+    try {
+      const project = await db.getProject(request.projectId);
+      return { enabled, semantic: getSemanticCacheSettings(project?.settings) };
+    } catch (error) {
+      console.error('Error loading project cache settings:', error);
+      return { enabled };
+    }
+  }
+
   /**
    * Get cache statistics
    */
-  getCacheStats() {
+  async getCacheStats(): Promise<CacheStats> {
     return aiAbstractionLayer.getCacheStats();
   }
 
   /**
-   * Clear response cache
+   * Clear cached responses for a user or project, or all of them when no
+   * scope is given
    */
-  clearCache(): void {
-    aiAbstractionLayer.clearCache();
+  async clearCache(scope?: Partial<CacheScope>): Promise<number> {
+    return aiAbstractionLayer.clearCache(scope);
   }
 
   /**
-   * Get recent messages for context
+   * Get the messages leading up to a new prompt
    */
-  private async getRecentMessages(
+  private async getSelectedHistory(
     projectId: string,
-    limit: number = 10,
     conversationId?: string
   ): Promise<DBChatMessage[]> {
     try {
+      // Only the selected version of each message is sent as context
       if (conversationId) {
         // Get messages from specific conversation
         const messages = await db.getConversationPrompts(conversationId);
-        return messages
-          .slice(-limit)
-          .map(this.mapDatabaseToType);
+        return getSelectedPath(messages.map(msg => this.mapDatabaseToType(msg)));
       } else {
         // Fallback to project-wide messages
         const messages = await db.getProjectPrompts(projectId);
-        return messages
-          .slice(-limit)
-          .map(this.mapDatabaseToType);
+        return getSelectedPaths(messages.map(msg => this.mapDatabaseToType(msg)))
+          .slice(-HISTORY_LIMIT);
       }
     } catch (error) {
-      console.error('Error getting recent messages:', error);
+      console.error('Error getting conversation history:', error);
       return [];
     }
   }
@@ -426,6 +750,16 @@ export class EnhancedChatService {
     return inputCost + outputCost;
   }
 
+  /**
+   * Thread columns for a message that follows `parent`
+   */
+  private threadPosition(parent?: DBChatMessage) {
+    return {
+      parent_message_id: parent?.id ?? null,
+      thread_depth: parent ? parent.threadDepth + 1 : 0,
+    };
+  }
+
   /**
    * Map database row to TypeScript type
    */
@@ -433,11 +767,16 @@ export class EnhancedChatService {
     return {
       id: dbMessage.id,
       projectId: dbMessage.project_id,
-      role: dbMessage.role as 'user' | 'assistant',
+      role: dbMessage.role as DBChatMessage['role'],
       content: dbMessage.content,
       provider: dbMessage.ai_provider || 'unknown',
       model: dbMessage.model || 'unknown',
       metadata: dbMessage.metadata || {},
+      conversationId: dbMessage.conversation_id,
+      parentMessageId: dbMessage.parent_message_id || undefined,
+      threadDepth: dbMessage.thread_depth || 0,
+      isBranchPoint: dbMessage.is_branch_point || false,
+      selectedAt: dbMessage.selected_at ? new Date(dbMessage.selected_at) : undefined,
       createdAt: new Date(dbMessage.created_at),
     };
   }
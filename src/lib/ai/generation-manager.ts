@@ -0,0 +1,437 @@
+/**
+ * Server-side runner for streamed chat generations.
+ *
+ * A generation runs independently of the HTTP response that started it. Its
+ * events are numbered and buffered, so a client whose connection drops can
+ * reconnect with Last-Event-ID and continue where it left off, and its status
+ * and accumulated content are recorded in ai_generations as it streams.
+ *
+ * Cancelling a generation aborts the upstream provider request. So does
+ * abandoning it: once no client has been listening for a while the generation
+ * stops, and whatever was produced is kept as an interrupted reply.
+ *
+ * Event buffers live in this process. A resume that reaches another instance
+ * is answered from the stored record instead.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+
+export type GenerationStatus = 'streaming' | 'completed' | 'cancelled' | 'interrupted' | 'failed';
+
+// Why a reply stopped early; stored on the interrupted assistant message
+export type InterruptReason = 'cancelled' | 'disconnected' | 'error';
+
+export interface GenerationEvent {
+  id: number;
+  type: string;
+  data: any;
+}
+
+export interface GenerationRecord {
+  id: string;
+  userId: string;
+  projectId: string;
+  conversationId?: string;
+  assistantMessageId?: string;
+  status: GenerationStatus;
+  content: string;
+  lastEventId: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface GenerationStore {
+  create(record: GenerationRecord): Promise<void>;
+  update(id: string, patch: Partial<GenerationRecord>): Promise<void>;
+  get(id: string): Promise<GenerationRecord | null>;
+}
+
+export interface GenerationManagerConfig {
+  /** How long a generation keeps running with no client listening */
+  abandonAfterMs: number;
+  /** Least time between writes of streamed content to the store */
+  persistIntervalMs: number;
+  /** How long a finished generation's events stay available for resuming */
+  retainMs: number;
+  /** A stored generation still streaming but not written to for this long has stopped */
+  staleAfterMs: number;
+}
+
+/**
+ * Produces a generation's events; must stop when the signal aborts
+ */
+export type GenerationSource = (signal: AbortSignal) => AsyncIterable<{ type: string; data: any }>;
+
+interface LiveGeneration {
+  record: GenerationRecord;
+  events: GenerationEvent[];
+  controller: AbortController;
+  listeners: Set<() => void>;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+  lastPersistedAt: number;
+  done: boolean;
+  finished?: Promise<void>;
+}
+
+export const DEFAULT_GENERATION_CONFIG: GenerationManagerConfig = {
+  abandonAfterMs: 30 * 1000,
+  persistIntervalMs: 1000,
+  retainMs: 5 * 60 * 1000,
+  staleAfterMs: 5 * 60 * 1000,
+};
+
+export const GENERATION_STREAM_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Last-Event-ID',
+  'Access-Control-Expose-Headers': 'X-Generation-Id',
+};
+
+/**
+ * Why a source stopped, judged from its abort signal
+ */
+export function getInterruptReason(signal?: AbortSignal): InterruptReason {
+  if (!signal?.aborted) return 'error';
+  return signal.reason === 'disconnected' ? 'disconnected' : 'cancelled';
+}
+
+export function formatGenerationEvent(event: GenerationEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify({ type: event.type, data: event.data })}\n\n`;
+}
+
+/**
+ * Stores generation records in the ai_generations table with the service role
+ * client, since generations outlive the request that started them
+ */
+export class PostgresGenerationStore implements GenerationStore {
+  private client: ReturnType<typeof createAdminClient> | null = null;
+
+  private getClient() {
+    if (!this.client) {
+      this.client = createAdminClient();
+    }
+    return this.client;
+  }
+
+  async create(record: GenerationRecord): Promise<void> {
+    const { error } = await this.getClient()
+      .from('ai_generations')
+      .insert({
+        id: record.id,
+        user_id: record.userId,
+        project_id: record.projectId,
+        conversation_id: record.conversationId || null,
+        status: record.status,
+        content: record.content,
+        last_event_id: record.lastEventId,
+        created_at: record.createdAt.toISOString(),
+        updated_at: record.updatedAt.toISOString(),
+      });
+
+    if (error) {
+      throw new Error(`Failed to record generation: ${error.message}`);
+    }
+  }
+
+  async update(id: string, patch: Partial<GenerationRecord>): Promise<void> {
+    const { error } = await this.getClient()
+      .from('ai_generations')
+      .update({
+        ...(patch.status && { status: patch.status }),
+        ...(patch.content !== undefined && { content: patch.content }),
+        ...(patch.lastEventId !== undefined && { last_event_id: patch.lastEventId }),
+        ...(patch.assistantMessageId && { assistant_message_id: patch.assistantMessageId }),
+        ...(patch.error !== undefined && { error: patch.error }),
+        ...(patch.completedAt && { completed_at: patch.completedAt.toISOString() }),
+        updated_at: (patch.updatedAt || new Date()).toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating generation record:', error);
+    }
+  }
+
+  async get(id: string): Promise<GenerationRecord | null> {
+    const { data, error } = await this.getClient()
+      .from('ai_generations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading generation record:', error);
+      return null;
+    }
+    return data ? this.mapDatabaseToRecord(data) : null;
+  }
+
+  private mapDatabaseToRecord(row: any): GenerationRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      projectId: row.project_id,
+      conversationId: row.conversation_id || undefined,
+      assistantMessageId: row.assistant_message_id || undefined,
+      status: row.status,
+      content: row.content || '',
+      lastEventId: row.last_event_id || 0,
+      error: row.error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+}
+
+export class GenerationManager {
+  private live = new Map<string, LiveGeneration>();
+
+  constructor(
+    private store: GenerationStore = new PostgresGenerationStore(),
+    private config: GenerationManagerConfig = DEFAULT_GENERATION_CONFIG
+  ) {}
+
+  /**
+   * Record a generation and start running it in the background
+   */
+  async start(
+    owner: { userId: string; projectId: string; conversationId?: string },
+    source: GenerationSource
+  ): Promise<GenerationRecord> {
+    const now = new Date();
+    const record: GenerationRecord = {
+      id: crypto.randomUUID(),
+      ...owner,
+      status: 'streaming',
+      content: '',
+      lastEventId: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.create(record);
+
+    const generation: LiveGeneration = {
+      record,
+      events: [],
+      controller: new AbortController(),
+      listeners: new Set(),
+      lastPersistedAt: now.getTime(),
+      done: false,
+    };
+    this.live.set(record.id, generation);
+
+    // The first event tells the client which generation to resume or cancel
+    this.push(generation, 'generation', { id: record.id });
+    this.scheduleAbandon(generation);
+    generation.finished = this.run(generation, source);
+
+    return { ...record };
+  }
+
+  /**
+   * Server-sent events for a generation, starting after lastEventId, or null
+   * when it doesn't exist or belongs to someone else
+   */
+  async openStream(
+    generationId: string,
+    userId: string,
+    lastEventId: number = 0
+  ): Promise<ReadableStream<Uint8Array> | null> {
+    const encoder = new TextEncoder();
+    const generation = this.live.get(generationId);
+
+    if (!generation) {
+      const record = await this.getStoredRecord(generationId, userId);
+      if (!record) return null;
+
+      // Another instance (or one that has since restarted) ran this generation,
+      // so all that can be offered is what it stored
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (record.lastEventId > lastEventId) {
+            controller.enqueue(encoder.encode(formatGenerationEvent({
+              id: record.lastEventId,
+              type: 'generation_snapshot',
+              data: record,
+            })));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        },
+      });
+    }
+
+    if (generation.record.userId !== userId) return null;
+
+    let listener: (() => void) | null = null;
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        let cursor = lastEventId;
+        listener = () => {
+          // Event ids are consecutive from 1, so the cursor indexes the buffer
+          for (const event of generation.events.slice(cursor)) {
+            controller.enqueue(encoder.encode(formatGenerationEvent(event)));
+            cursor = event.id;
+          }
+          if (generation.done) {
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+            this.detach(generation, listener!);
+          }
+        };
+        this.attach(generation, listener);
+        listener();
+      },
+      cancel: () => {
+        if (listener) this.detach(generation, listener);
+      },
+    });
+  }
+
+  /**
+   * Cancel a running generation, aborting the upstream request. Resolves with
+   * the final record once the partial reply has been saved.
+   */
+  async cancel(generationId: string, userId: string): Promise<GenerationRecord | null> {
+    const generation = this.live.get(generationId);
+    if (!generation) {
+      return this.getStoredRecord(generationId, userId);
+    }
+    if (generation.record.userId !== userId) return null;
+
+    if (!generation.done) {
+      generation.controller.abort('cancelled');
+    }
+    await generation.finished;
+    return { ...generation.record };
+  }
+
+  async get(generationId: string, userId: string): Promise<GenerationRecord | null> {
+    const generation = this.live.get(generationId);
+    if (generation) {
+      return generation.record.userId === userId ? { ...generation.record } : null;
+    }
+    return this.getStoredRecord(generationId, userId);
+  }
+
+  private async run(generation: LiveGeneration, source: GenerationSource): Promise<void> {
+    const { signal } = generation.controller;
+    let error: string | undefined;
+
+    try {
+      for await (const event of source(signal)) {
+        this.track(generation, event);
+        this.push(generation, event.type, event.data);
+        await this.persist(generation);
+      }
+    } catch (err) {
+      if (!signal.aborted) {
+        error = err instanceof Error ? err.message : 'Unknown error';
+        console.error('Generation failed:', err);
+        this.push(generation, 'error', { message: error });
+      }
+    }
+
+    const status: GenerationStatus = error
+      ? 'failed'
+      : signal.aborted
+        ? (getInterruptReason(signal) === 'disconnected' ? 'interrupted' : 'cancelled')
+        : 'completed';
+    const now = new Date();
+    Object.assign(generation.record, { status, error, updatedAt: now, completedAt: now });
+
+    await this.store.update(generation.record.id, generation.record);
+
+    generation.done = true;
+    clearTimeout(generation.abandonTimer);
+    this.notify(generation);
+
+    const retain = setTimeout(() => this.live.delete(generation.record.id), this.config.retainMs);
+    retain.unref?.();
+  }
+
+  private track(generation: LiveGeneration, event: { type: string; data: any }): void {
+    const { record } = generation;
+
+    if (event.type === 'assistant_delta' && typeof event.data?.content === 'string') {
+      record.content = event.data.content;
+    } else if (event.type === 'assistant_complete' || event.type === 'assistant_interrupted') {
+      record.assistantMessageId = event.data?.id;
+      record.content = event.data?.content ?? record.content;
+    }
+  }
+
+  private push(generation: LiveGeneration, type: string, data: any): void {
+    generation.record.lastEventId++;
+    generation.events.push({ id: generation.record.lastEventId, type, data });
+    this.notify(generation);
+  }
+
+  private async persist(generation: LiveGeneration): Promise<void> {
+    const now = Date.now();
+    if (now - generation.lastPersistedAt < this.config.persistIntervalMs) return;
+
+    generation.lastPersistedAt = now;
+    const { record } = generation;
+    await this.store.update(record.id, {
+      content: record.content,
+      lastEventId: record.lastEventId,
+      assistantMessageId: record.assistantMessageId,
+      updatedAt: new Date(now),
+    });
+  }
+
+  private notify(generation: LiveGeneration): void {
+    for (const listener of [...generation.listeners]) {
+      listener();
+    }
+  }
+
+  private attach(generation: LiveGeneration, listener: () => void): void {
+    generation.listeners.add(listener);
+    clearTimeout(generation.abandonTimer);
+    generation.abandonTimer = undefined;
+  }
+
+  private detach(generation: LiveGeneration, listener: () => void): void {
+    generation.listeners.delete(listener);
+    if (generation.listeners.size === 0 && !generation.done) {
+      this.scheduleAbandon(generation);
+    }
+  }
+
+  private scheduleAbandon(generation: LiveGeneration): void {
+    clearTimeout(generation.abandonTimer);
+    generation.abandonTimer = setTimeout(() => {
+      if (!generation.done && generation.listeners.size === 0) {
+        generation.controller.abort('disconnected');
+      }
+    }, this.config.abandonAfterMs);
+    generation.abandonTimer.unref?.();
+  }
+
+  /**
+   * A stored record owned by the user. One still marked streaming that went
+   * stale belongs to an instance that stopped, so it is marked interrupted.
+   */
+  private async getStoredRecord(generationId: string, userId: string): Promise<GenerationRecord | null> {
+    const record = await this.store.get(generationId);
+    if (!record || record.userId !== userId) return null;
+
+    if (record.status === 'streaming' && Date.now() - record.updatedAt.getTime() > this.config.staleAfterMs) {
+      const now = new Date();
+      Object.assign(record, { status: 'interrupted', updatedAt: now, completedAt: now });
+      await this.store.update(record.id, { status: 'interrupted', updatedAt: now, completedAt: now });
+    }
+
+    return record;
+  }
+}
+
+export const generationManager = new GenerationManager();
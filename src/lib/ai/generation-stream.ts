@@ -0,0 +1,141 @@
+/**
+ * Client side of resumable chat generations. Reads a generation's server-sent
+ * events and, when the connection drops before the stream has finished,
+ * reconnects with Last-Event-ID to continue from the last event received.
+ */
+
+export interface GenerationStreamEvent {
+  type: string;
+  data: any;
+}
+
+class GenerationStreamError extends Error {}
+
+export interface ReadGenerationStreamOptions {
+  onEvent: (event: GenerationStreamEvent) => void;
+  onGenerationId?: (generationId: string) => void;
+  signal?: AbortSignal;
+  maxReconnects?: number;
+  reconnectDelayMs?: number;
+}
+
+/**
+ * Read a generation stream to the end, resuming it if the connection drops.
+ * Throws on error events and when the stream can't be resumed.
+ */
+export async function readGenerationStream(
+  response: Response,
+  options: ReadGenerationStreamOptions
+): Promise<void> {
+  const { maxReconnects = 3, reconnectDelayMs = 1000 } = options;
+  let generationId = response.headers.get('X-Generation-Id');
+  let lastEventId = 0;
+  let attempts = 0;
+
+  if (generationId) options.onGenerationId?.(generationId);
+
+  while (true) {
+    const resumedFrom = lastEventId;
+
+    try {
+      const finished = await readEvents(response, (id, event) => {
+        if (id !== null) lastEventId = id;
+
+        if (event.type === 'generation' && !generationId) {
+          generationId = event.data.id;
+          options.onGenerationId?.(event.data.id);
+        } else if (event.type === 'error') {
+          throw new GenerationStreamError(event.data?.message || 'Generation failed');
+        }
+        options.onEvent(event);
+      });
+      if (finished) return;
+    } catch (error) {
+      if (options.signal?.aborted || error instanceof GenerationStreamError) {
+        throw error;
+      }
+      // Connection dropped; fall through and resume
+    }
+
+    if (lastEventId > resumedFrom) attempts = 0;
+    if (!generationId || attempts >= maxReconnects) {
+      throw new Error('Lost connection to the response stream');
+    }
+
+    attempts++;
+    await new Promise(resolve => setTimeout(resolve, reconnectDelayMs * attempts));
+
+    response = await fetch(`/api/ai/chat/generations/${generationId}/stream`, {
+      headers: { 'Last-Event-ID': String(lastEventId) },
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      throw new Error('Failed to resume the response stream');
+    }
+  }
+}
+
+/**
+ * Ask the server to stop a generation. The open stream then delivers the
+ * interrupted reply and ends.
+ */
+export async function cancelGeneration(generationId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/ai/chat/generations/${generationId}/cancel`, {
+      method: 'POST',
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read SSE events until [DONE] (true) or the body ends early (false)
+ */
+async function readEvents(
+  response: Response,
+  onEvent: (id: number | null, event: GenerationStreamEvent) => void
+): Promise<boolean> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventId: number | null = null;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return false;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('id: ')) {
+          eventId = parseInt(line.slice(4), 10);
+        } else if (line.startsWith('data: ')) {
+          const data = line.slice(6);
+          if (data === '[DONE]') return true;
+
+          let event: GenerationStreamEvent;
+          try {
+            event = JSON.parse(data);
+          } catch {
+            // Skip invalid JSON
+            continue;
+          }
+          onEvent(Number.isNaN(eventId) ? null : eventId, event);
+        } else if (line === '') {
+          eventId = null;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
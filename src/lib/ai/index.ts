@@ -5,4 +5,14 @@ export * from './usage-tracker';
 export * from './client';
 export * from './chat-service';
 export * from './abstraction-layer';
-export * from './enhanced-chat-service';
\ No newline at end of file
+export * from './enhanced-chat-service';
+export * from './response-cache';
+export * from './semantic-cache';
+export * from './embeddings';
+export * from './circuit-breaker';
+export * from './context-budget';
+export * from './model-router';
+export * from './generation-manager';
+export * from './tool-registry';
+export * from './project-tools';
+export * from './structured-output';
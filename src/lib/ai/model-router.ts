@@ -0,0 +1,265 @@
+/**
+ * VibeCraft's automatic model router. Selecting the "auto" pseudo-model sends
+ * each request to the cheapest suitable model across the user's active
+ * providers: the request is classified by complexity, required capabilities
+ * and length, candidates that can't serve it are filtered out, and the rest
+ * are ranked by estimated cost and observed latency.
+ */
+
+import { AIProviderType, calculateCost, getModelCapabilities, getProviderModels } from './providers';
+import { aiProviderService } from './service';
+import { circuitBreakers, credentialCircuitKey } from './circuit-breaker';
+import { estimateTokens } from './context-budget';
+import { getCredentialDisplayName } from './credentials';
+import { usageService } from '@/lib/usage/usage-service';
+import type { ChatAttachment } from './client';
+import type { AIProvider } from '@/types';
+
+export type RequestComplexity = 'simple' | 'moderate' | 'complex';
+
+export interface RoutingRequest {
+  content: string;
+  systemPrompt?: string;
+  history?: { content: string }[];
+  attachments?: ChatAttachment[];
+  needsTools?: boolean;
+  needsJson?: boolean;
+  maxOutputTokens?: number;
+  // Skips classification; background jobs pass 'simple' to get the cheapest model
+  complexity?: RequestComplexity;
+}
+
+export interface RequestProfile {
+  complexity: RequestComplexity;
+  estimatedInputTokens: number;
+  estimatedOutputTokens: number;
+  needsVision: boolean;
+  needsTools: boolean;
+  needsJson: boolean;
+}
+
+export interface RoutingCandidate {
+  credential: AIProvider;
+  model: string;
+  modelName: string;
+  tier: number;
+  estimatedCost: number;
+  p50Latency: number | null;
+}
+
+export interface RoutingDecision {
+  providerId: string;
+  provider: AIProviderType;
+  model: string;
+  complexity: RequestComplexity;
+  estimatedCost: number;
+  rationale: string;
+}
+
+const COMPLEX_PATTERN = /\b(refactor|architect|architecture|design|implement|debug|optimi[sz]e|analy[sz]e|migrate|security|algorithm|prove|trade-?offs?|step[- ]by[- ]step)\b/i;
+const MODERATE_PATTERN = /\b(explain|compare|summari[sz]e|review|write|generate|translate|why)\b/i;
+
+const OUTPUT_TOKENS: Record<RequestComplexity, number> = { simple: 300, moderate: 800, complex: 2000 };
+const REQUIRED_TIER: Record<RequestComplexity, number> = { simple: 1, moderate: 2, complex: 3 };
+
+// Straico's own selector is opaque, so it is never a routing target
+const EXCLUDED_MODELS = new Set(['auto']);
+
+/**
+ * Classify a request by complexity, length and the capabilities it needs
+ */
+export function classifyRequest(request: RoutingRequest): RequestProfile {
+  const text = request.content;
+  const estimatedInputTokens =
+    estimateTokens(request.systemPrompt || '') +
+    estimateTokens(text) +
+    (request.history || []).reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+  let complexity: RequestComplexity = 'simple';
+  if (request.complexity) {
+    complexity = request.complexity;
+  } else if (text.length > 1500 || text.includes('```') || COMPLEX_PATTERN.test(text)) {
+    complexity = 'complex';
+  } else if (text.length > 300 || MODERATE_PATTERN.test(text) || (request.attachments?.length ?? 0) > 0) {
+    complexity = 'moderate';
+  }
+
+  return {
+    complexity,
+    estimatedInputTokens,
+    estimatedOutputTokens: Math.min(OUTPUT_TOKENS[complexity], request.maxOutputTokens ?? Infinity),
+    needsVision: (request.attachments || []).some(a => a.kind === 'image' && !!a.data),
+    needsTools: !!request.needsTools,
+    needsJson: !!request.needsJson,
+  };
+}
+
+/**
+ * Price is our proxy for capability: 1 = light, 2 = mid-range, 3 = frontier
+ */
+export function getModelTier(inputCostPer1k: number): number {
+  if (inputCostPer1k >= 0.012) return 3;
+  if (inputCostPer1k >= 0.002) return 2;
+  return 1;
+}
+
+/**
+ * Candidates able to serve the request, best first. Models at the required
+ * tier are preferred; without any, the most capable available tier is used.
+ * Within a tier, cheaper wins and latency breaks ties.
+ */
+export function rankCandidates(
+  profile: RequestProfile,
+  credentials: AIProvider[],
+  getLatency: (credentialId: string) => number | null = () => null
+): RoutingCandidate[] {
+  const candidates: RoutingCandidate[] = [];
+
+  for (const credential of credentials) {
+    if (!credential.isActive) continue;
+
+    for (const model of getProviderModels(credential.provider, credential.endpoint?.models)) {
+      if (EXCLUDED_MODELS.has(model.id)) continue;
+
+      const capabilities = getModelCapabilities(credential.provider, model.id);
+      if (profile.needsVision && !capabilities.vision) continue;
+      if (profile.needsTools && !capabilities.tools) continue;
+      if (profile.needsJson && !capabilities.jsonMode) continue;
+      if (profile.estimatedInputTokens + profile.estimatedOutputTokens > capabilities.contextWindow) continue;
+
+      candidates.push({
+        credential,
+        model: model.id,
+        modelName: model.name,
+        tier: getModelTier(model.costPer1kTokens.input),
+        estimatedCost: calculateCost(
+          credential.provider,
+          model.id,
+          profile.estimatedInputTokens,
+          profile.estimatedOutputTokens
+        ),
+        p50Latency: getLatency(credential.id),
+      });
+    }
+  }
+
+  const requiredTier = REQUIRED_TIER[profile.complexity];
+  const bestTier = Math.max(0, ...candidates.map(c => c.tier));
+  const targetTier = Math.min(requiredTier, bestTier);
+
+  return candidates
+    .filter(candidate => candidate.tier >= targetTier)
+    .sort((a, b) =>
+      a.estimatedCost - b.estimatedCost ||
+      (a.p50Latency ?? Infinity) - (b.p50Latency ?? Infinity) ||
+      b.tier - a.tier
+    );
+}
+
+function formatCost(cost: number): string {
+  return cost === 0 ? 'no charge' : `~$${cost.toFixed(4)}`;
+}
+
+export class ModelRouter {
+  /**
+   * Choose a provider and model for a request
+   */
+  async route(userId: string, request: RoutingRequest): Promise<RoutingDecision> {
+    const profile = classifyRequest(request);
+    const credentials = await aiProviderService.getProviders(userId);
+
+    // Keys whose circuit is open are failing right now
+    const available = credentials.filter(c => !circuitBreakers.isOpen(credentialCircuitKey(c.id)));
+    const ranked = rankCandidates(
+      profile,
+      available,
+      id => circuitBreakers.getStats(credentialCircuitKey(id)).p50Latency
+    );
+
+    if (ranked.length === 0) {
+      throw new Error('No configured model can handle this request. Add a provider or pick a model manually.');
+    }
+
+    const skipped: string[] = [];
+    const headroom = new Map<string, boolean>();
+
+    for (const candidate of ranked) {
+      const provider = candidate.credential.provider;
+      if (!headroom.has(provider)) {
+        headroom.set(provider, await this.hasQuotaHeadroom(userId, provider, profile));
+      }
+
+      if (!headroom.get(provider)) {
+        skipped.push(`${getCredentialDisplayName(candidate.credential)} (quota exhausted)`);
+        continue;
+      }
+
+      return {
+        providerId: candidate.credential.id,
+        provider,
+        model: candidate.model,
+        complexity: profile.complexity,
+        estimatedCost: candidate.estimatedCost,
+        rationale: this.explain(profile, candidate, ranked.length, skipped),
+      };
+    }
+
+    throw new Error(`Usage quota exhausted for every eligible provider: ${skipped.join(', ')}`);
+  }
+
+  /**
+   * Whether the provider's token quota can absorb the request. Providers
+   * without a quota are unlimited; a successful check reserves the estimate,
+   * as the usage-aware client's pre-flight check does.
+   */
+  private async hasQuotaHeadroom(
+    userId: string,
+    provider: AIProviderType,
+    profile: RequestProfile
+  ): Promise<boolean> {
+    try {
+      const quota = await usageService.getQuota(userId, provider, 'tokens');
+      if (!quota) return true;
+
+      const check = await usageService.checkQuotaAvailability(
+        userId,
+        provider,
+        'tokens',
+        profile.estimatedInputTokens + profile.estimatedOutputTokens
+      );
+      return check.allowed;
+    } catch (error) {
+      // Don't block chat on a failed quota lookup
+      console.error('Error checking quota for routing:', error);
+      return true;
+    }
+  }
+
+  private explain(
+    profile: RequestProfile,
+    chosen: RoutingCandidate,
+    eligible: number,
+    skipped: string[]
+  ): string {
+    const needs = [
+      profile.needsVision && 'vision',
+      profile.needsTools && 'tools',
+      profile.needsJson && 'JSON output',
+    ].filter(Boolean);
+
+    const parts = [
+      `${profile.complexity[0].toUpperCase()}${profile.complexity.slice(1)} request ` +
+        `(~${profile.estimatedInputTokens} input tokens${needs.length > 0 ? `, needs ${needs.join(', ')}` : ''}).`,
+      `Chose ${chosen.modelName} via ${getCredentialDisplayName(chosen.credential)}: ` +
+        `cheapest of ${eligible} suitable model${eligible === 1 ? '' : 's'} at ${formatCost(chosen.estimatedCost)}` +
+        (chosen.p50Latency !== null ? `, p50 ${chosen.p50Latency}ms.` : '.'),
+    ];
+    if (skipped.length > 0) {
+      parts.push(`Skipped ${skipped.join(', ')}.`);
+    }
+
+    return parts.join(' ');
+  }
+}
+
+export const modelRouter = new ModelRouter();
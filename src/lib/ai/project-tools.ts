@@ -0,0 +1,90 @@
+/**
+ * Tools exposing project features (knowledge base, conversations) to the model
+ */
+
+import { ToolRegistry, ToolContext, toolRegistry } from './tool-registry';
+
+const hasProject = (context: ToolContext) => !!context.projectId;
+
+function clampLimit(value: unknown, fallback: number, max: number): number {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), max) : fallback;
+}
+
+/**
+ * Register the built-in project tools. Safe to call more than once.
+ */
+export function registerProjectTools(registry: ToolRegistry = toolRegistry): void {
+  if (!registry.has('search_knowledge_base')) {
+    registry.register({
+      name: 'search_knowledge_base',
+      description: 'Search the project knowledge base for documents relevant to a query.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to search for' },
+          limit: { type: 'number', description: 'Maximum number of results (default 5)' },
+        },
+        required: ['query'],
+      },
+      isAvailable: hasProject,
+      async execute(args, context) {
+        const { contextInjectionService } = await import('@/lib/context/context-injection-service');
+        const result = await contextInjectionService.analyzeMessageForContext(
+          context.userId,
+          context.projectId!,
+          String(args.query),
+          {
+            contextTypes: ['knowledge'],
+            maxItems: clampLimit(args.limit, 5, 20),
+            minRelevanceScore: 0.1,
+          }
+        );
+
+        return result.suggestedContext.map(item => ({
+          title: item.title,
+          content: item.content,
+          relevance: Number(item.relevanceScore.toFixed(2)),
+        }));
+      },
+    });
+  }
+
+  if (!registry.has('list_conversations')) {
+    registry.register({
+      name: 'list_conversations',
+      description: 'List recent conversations in the project, optionally filtered by a search term.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Filter by title or description' },
+          limit: { type: 'number', description: 'Maximum number of conversations (default 10)' },
+        },
+      },
+      isAvailable: hasProject,
+      async execute(args, context) {
+        const { conversationService } = await import('@/lib/conversations/conversation-service');
+        const { conversations, total } = await conversationService.getProjectConversations(
+          context.userId,
+          context.projectId!,
+          {
+            query: typeof args.query === 'string' ? args.query : undefined,
+            limit: clampLimit(args.limit, 10, 50),
+            isArchived: false,
+          }
+        );
+
+        return {
+          total,
+          conversations: conversations.map(conversation => ({
+            id: conversation.id,
+            title: conversation.title,
+            description: conversation.description,
+            lastMessageAt: conversation.lastMessageAt,
+            messageCount: conversation.messageCount,
+          })),
+        };
+      },
+    });
+  }
+}
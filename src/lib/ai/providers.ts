@@ -1,6 +1,6 @@
 import { AIProvider } from '@/types';
 
-export type AIProviderType = 'openai' | 'anthropic' | 'straico' | 'cohere';
+export type AIProviderType = 'openai' | 'anthropic' | 'straico' | 'cohere' | 'custom';
 
 export interface AIProviderConfig {
   name: string;
@@ -16,6 +16,29 @@ export interface AIProviderConfig {
   };
 }
 
+/**
+ * Connection details for a user-supplied OpenAI-compatible endpoint
+ * (Ollama, vLLM, LM Studio, ...)
+ */
+export interface CustomEndpointConfig {
+  baseUrl: string;
+  authHeader?: string;
+  models: string[];
+}
+
+/**
+ * What a model can do. `tools` includes prompt-based tool calling, and
+ * `streaming` means the provider streams natively rather than in one chunk.
+ */
+export interface ModelCapabilities {
+  contextWindow: number;
+  maxOutputTokens: number;
+  vision: boolean;
+  tools: boolean;
+  jsonMode: boolean;
+  streaming: boolean;
+}
+
 export interface AIModel {
   id: string;
   name: string;
@@ -25,8 +48,19 @@ export interface AIModel {
     input: number;
     output: number;
   };
+  capabilities: ModelCapabilities;
 }
 
+// Assumed for models we have no entry for, such as custom endpoint models
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  contextWindow: 4096,
+  maxOutputTokens: 2048,
+  vision: false,
+  tools: true,
+  jsonMode: false,
+  streaming: true,
+};
+
 /**
  * Configuration for all supported AI providers
  */
@@ -44,21 +78,24 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         name: 'GPT-4',
         description: 'Most capable model, best for complex tasks',
         maxTokens: 8192,
-        costPer1kTokens: { input: 0.03, output: 0.06 }
+        costPer1kTokens: { input: 0.03, output: 0.06 },
+        capabilities: { contextWindow: 8192, maxOutputTokens: 4096, vision: false, tools: true, jsonMode: false, streaming: true }
       },
       {
         id: 'gpt-4-turbo',
         name: 'GPT-4 Turbo',
         description: 'Faster and more cost-effective than GPT-4',
         maxTokens: 128000,
-        costPer1kTokens: { input: 0.01, output: 0.03 }
+        costPer1kTokens: { input: 0.01, output: 0.03 },
+        capabilities: { contextWindow: 128000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: true, streaming: true }
       },
       {
         id: 'gpt-3.5-turbo',
         name: 'GPT-3.5 Turbo',
         description: 'Fast and cost-effective for most tasks',
         maxTokens: 16385,
-        costPer1kTokens: { input: 0.0015, output: 0.002 }
+        costPer1kTokens: { input: 0.0015, output: 0.002 },
+        capabilities: { contextWindow: 16385, maxOutputTokens: 4096, vision: false, tools: true, jsonMode: true, streaming: true }
       }
     ],
     defaultSettings: {
@@ -79,21 +116,24 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         name: 'Claude 3 Opus',
         description: 'Most powerful model for complex tasks',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.015, output: 0.075 }
+        costPer1kTokens: { input: 0.015, output: 0.075 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: true }
       },
       {
         id: 'claude-3-sonnet-20240229',
         name: 'Claude 3 Sonnet',
         description: 'Balanced performance and speed',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.003, output: 0.015 }
+        costPer1kTokens: { input: 0.003, output: 0.015 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: true }
       },
       {
         id: 'claude-3-haiku-20240307',
         name: 'Claude 3 Haiku',
         description: 'Fastest model for simple tasks',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.00025, output: 0.00125 }
+        costPer1kTokens: { input: 0.00025, output: 0.00125 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: true }
       }
     ],
     defaultSettings: {
@@ -114,35 +154,40 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         name: 'Smart Model Selection',
         description: 'Let Straico choose the best model for your request',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.01, output: 0.03 }
+        costPer1kTokens: { input: 0.01, output: 0.03 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: false }
       },
       {
         id: 'gpt-4',
         name: 'GPT-4 (via Straico)',
         description: 'GPT-4 through Straico platform',
         maxTokens: 8192,
-        costPer1kTokens: { input: 0.035, output: 0.07 }
+        costPer1kTokens: { input: 0.035, output: 0.07 },
+        capabilities: { contextWindow: 8192, maxOutputTokens: 4096, vision: false, tools: true, jsonMode: false, streaming: false }
       },
       {
         id: 'gpt-3.5-turbo',
         name: 'GPT-3.5 Turbo (via Straico)',
         description: 'GPT-3.5 Turbo through Straico platform',
         maxTokens: 16385,
-        costPer1kTokens: { input: 0.002, output: 0.003 }
+        costPer1kTokens: { input: 0.002, output: 0.003 },
+        capabilities: { contextWindow: 16385, maxOutputTokens: 4096, vision: false, tools: true, jsonMode: false, streaming: false }
       },
       {
         id: 'claude-3-opus',
         name: 'Claude 3 Opus (via Straico)',
         description: 'Claude 3 Opus through Straico platform',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.02, output: 0.08 }
+        costPer1kTokens: { input: 0.02, output: 0.08 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: false }
       },
       {
         id: 'claude-3-sonnet',
         name: 'Claude 3 Sonnet (via Straico)',
         description: 'Claude 3 Sonnet through Straico platform',
         maxTokens: 200000,
-        costPer1kTokens: { input: 0.004, output: 0.018 }
+        costPer1kTokens: { input: 0.004, output: 0.018 },
+        capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, jsonMode: false, streaming: false }
       }
     ],
     defaultSettings: {
@@ -163,20 +208,35 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         name: 'Command',
         description: 'General purpose text generation model',
         maxTokens: 4096,
-        costPer1kTokens: { input: 0.0015, output: 0.002 }
+        costPer1kTokens: { input: 0.0015, output: 0.002 },
+        capabilities: { contextWindow: 4096, maxOutputTokens: 4000, vision: false, tools: false, jsonMode: false, streaming: true }
       },
       {
         id: 'command-light',
         name: 'Command Light',
         description: 'Faster, lighter version of Command',
         maxTokens: 4096,
-        costPer1kTokens: { input: 0.0003, output: 0.0006 }
+        costPer1kTokens: { input: 0.0003, output: 0.0006 },
+        capabilities: { contextWindow: 4096, maxOutputTokens: 4000, vision: false, tools: false, jsonMode: false, streaming: true }
       }
     ],
     defaultSettings: {
       maxTokens: 4000,
       temperature: 0.7
     }
+  },
+  custom: {
+    name: 'custom',
+    displayName: 'Custom Endpoint',
+    description: 'Self-hosted or local models behind an OpenAI-compatible server (Ollama, vLLM, LM Studio)',
+    apiKeyLabel: 'API Key (optional)',
+    apiKeyPlaceholder: 'Leave blank if your server does not require one',
+    // Models and base URL are supplied per configuration
+    models: [],
+    defaultSettings: {
+      maxTokens: 2000,
+      temperature: 0.7
+    }
   }
 };
 
@@ -202,6 +262,41 @@ export function getModelConfig(provider: AIProviderType, modelId: string): AIMod
   return providerConfig.models.find(model => model.id === modelId);
 }
 
+/**
+ * Get the models available for a provider, including user-supplied custom models
+ */
+export function getProviderModels(
+  provider: AIProviderType,
+  customModels: string[] = []
+): AIModel[] {
+  if (provider !== 'custom') {
+    return AI_PROVIDERS[provider].models;
+  }
+
+  return customModels.map(id => ({
+    id,
+    name: id,
+    description: 'Served by your custom endpoint',
+    maxTokens: DEFAULT_MODEL_CAPABILITIES.contextWindow,
+    costPer1kTokens: { input: 0, output: 0 },
+    capabilities: DEFAULT_MODEL_CAPABILITIES
+  }));
+}
+
+/**
+ * Capabilities of a provider's model. Models that aren't in the registry
+ * (newer releases, aliases) get the provider's most constrained entry.
+ */
+export function getModelCapabilities(provider: AIProviderType, modelId?: string): ModelCapabilities {
+  const model = modelId ? getModelConfig(provider, modelId) : undefined;
+  if (model) return model.capabilities;
+
+  const known = AI_PROVIDERS[provider].models.map(m => m.capabilities);
+  return known.length > 0
+    ? known.reduce((smallest, caps) => caps.contextWindow < smallest.contextWindow ? caps : smallest)
+    : DEFAULT_MODEL_CAPABILITIES;
+}
+
 /**
  * Validate API key format for a provider
  */
@@ -216,6 +311,9 @@ export function validateApiKeyFormat(provider: AIProviderType, apiKey: string):
       return apiKey.length > 10;
     case 'cohere':
       return apiKey.startsWith('co_') && apiKey.length > 20;
+    case 'custom':
+      // Local servers frequently run without authentication
+      return true;
     default:
       return false;
   }
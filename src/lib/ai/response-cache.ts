@@ -0,0 +1,443 @@
+/**
+ * Response cache for the AI abstraction layer with pluggable storage backends.
+ *
+ * Entries are always scoped to a user (and optionally a project), so a cached
+ * completion is never served to anyone other than the user who paid for it.
+ * The in-memory backend is per process; the Postgres backend survives deploys
+ * and is shared between serverless instances.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { NormalizedResponse } from './abstraction-layer';
+
+export type CacheBackendType = 'memory' | 'postgres';
+
+export interface CacheScope {
+  userId: string;
+  projectId?: string;
+}
+
+export interface CacheEntry {
+  key: string;
+  userId: string;
+  projectId?: string;
+  model: string;
+  response: NormalizedResponse;
+  timestamp: number;
+  ttl: number;
+  accessCount: number;
+  lastAccessed: number;
+}
+
+export interface CacheBackendStats {
+  entries: number;
+  averageAge: number; // seconds
+}
+
+export interface CacheStats {
+  backend: CacheBackendType;
+  size: number;
+  totalEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  averageAge: number; // seconds
+}
+
+/**
+ * Storage for cache entries. Backends only store and expire entries; TTL
+ * selection and hit/miss accounting live in ResponseCache.
+ */
+export interface ResponseCacheBackend {
+  readonly type: CacheBackendType;
+  get(key: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  /** Remove entries for a scope, or every entry when no scope is given */
+  clear(scope?: Partial<CacheScope>): Promise<number>;
+  /** Drop expired entries */
+  cleanup(): Promise<void>;
+  stats(): Promise<CacheBackendStats>;
+}
+
+export interface ResponseCacheConfig {
+  /** TTL in milliseconds used when no model rule matches */
+  defaultTTL: number;
+  /** TTL per model, matched by exact name first and then by longest prefix. 0 disables caching. */
+  modelTTLs: Record<string, number>;
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = 1000;
+
+function isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+  return now - entry.timestamp > entry.ttl;
+}
+
+function matchesScope(entry: Pick<CacheEntry, 'userId' | 'projectId'>, scope?: Partial<CacheScope>): boolean {
+  if (!scope) return true;
+  if (scope.userId && entry.userId !== scope.userId) return false;
+  if (scope.projectId && entry.projectId !== scope.projectId) return false;
+  return true;
+}
+
+export class MemoryCacheBackend implements ResponseCacheBackend {
+  readonly type = 'memory' as const;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    entry.accessCount++;
+    entry.lastAccessed = Date.now();
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      this.evictOldestEntries(Math.ceil(this.maxEntries / 10));
+    }
+  }
+
+  async clear(scope?: Partial<CacheScope>): Promise<number> {
+    if (!scope) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (matchesScope(entry, scope)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry, now)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async stats(): Promise<CacheBackendStats> {
+    const now = Date.now();
+    const entries = Array.from(this.entries.values());
+    const totalAge = entries.reduce((sum, entry) => sum + (now - entry.timestamp), 0);
+
+    return {
+      entries: entries.length,
+      averageAge: entries.length > 0 ? totalAge / entries.length / 1000 : 0,
+    };
+  }
+
+  /**
+   * Evict least recently used entries
+   */
+  private evictOldestEntries(count: number): void {
+    const oldest = Array.from(this.entries.entries())
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed)
+      .slice(0, count);
+
+    for (const [key] of oldest) {
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Stores entries in the ai_response_cache table. Uses the service role client
+ * because entries are written on behalf of the requesting user from server
+ * code, and global invalidation has to reach every user's rows.
+ */
+export class PostgresCacheBackend implements ResponseCacheBackend {
+  readonly type = 'postgres' as const;
+  private client: ReturnType<typeof createAdminClient> | null = null;
+
+  private getClient() {
+    if (!this.client) {
+      this.client = createAdminClient();
+    }
+    return this.client;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { data, error } = await this.getClient()
+      .from('ai_response_cache')
+      .select('*')
+      .eq('cache_key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading response cache:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const entry = this.mapDatabaseToEntry(data);
+    entry.accessCount++;
+    entry.lastAccessed = Date.now();
+
+    // Access bookkeeping is best effort and must not delay the response
+    this.getClient()
+      .from('ai_response_cache')
+      .update({
+        hit_count: entry.accessCount,
+        last_accessed_at: new Date(entry.lastAccessed).toISOString(),
+      })
+      .eq('cache_key', key)
+      .then(({ error: updateError }) => {
+        if (updateError) console.error('Error updating response cache entry:', updateError);
+      });
+
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const { error } = await this.getClient()
+      .from('ai_response_cache')
+      .upsert({
+        cache_key: entry.key,
+        user_id: entry.userId,
+        project_id: entry.projectId || null,
+        model: entry.model,
+        response: entry.response,
+        hit_count: entry.accessCount,
+        created_at: new Date(entry.timestamp).toISOString(),
+        last_accessed_at: new Date(entry.lastAccessed).toISOString(),
+        expires_at: new Date(entry.timestamp + entry.ttl).toISOString(),
+      }, { onConflict: 'cache_key' });
+
+    if (error) {
+      console.error('Error writing response cache:', error);
+    }
+  }
+
+  async clear(scope?: Partial<CacheScope>): Promise<number> {
+    let query = this.getClient()
+      .from('ai_response_cache')
+      .delete({ count: 'exact' });
+
+    if (scope?.userId) query = query.eq('user_id', scope.userId);
+    if (scope?.projectId) query = query.eq('project_id', scope.projectId);
+    // PostgREST refuses an unfiltered delete
+    if (!scope?.userId && !scope?.projectId) query = query.not('cache_key', 'is', null);
+
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to clear response cache: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  async cleanup(): Promise<void> {
+    const { error } = await this.getClient()
+      .from('ai_response_cache')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('Error purging expired response cache entries:', error);
+    }
+  }
+
+  async stats(): Promise<CacheBackendStats> {
+    const { data, error } = await this.getClient().rpc('get_ai_response_cache_stats');
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      return { entries: 0, averageAge: 0 };
+    }
+
+    return {
+      entries: Number(row.entries) || 0,
+      averageAge: Number(row.average_age_seconds) || 0,
+    };
+  }
+
+  private mapDatabaseToEntry(data: any): CacheEntry {
+    const timestamp = new Date(data.created_at).getTime();
+    return {
+      key: data.cache_key,
+      userId: data.user_id,
+      projectId: data.project_id || undefined,
+      model: data.model,
+      response: data.response,
+      timestamp,
+      ttl: new Date(data.expires_at).getTime() - timestamp,
+      accessCount: data.hit_count || 0,
+      lastAccessed: new Date(data.last_accessed_at || data.created_at).getTime(),
+    };
+  }
+}
+
+/**
+ * Read cache settings from the environment:
+ *   AI_CACHE_BACKEND      memory | postgres (default memory)
+ *   AI_CACHE_DEFAULT_TTL  milliseconds
+ *   AI_CACHE_MODEL_TTLS   JSON object of model (or prefix) to milliseconds
+ */
+export function loadResponseCacheConfig(env: Record<string, string | undefined> = process.env): {
+  backend: CacheBackendType;
+  config: ResponseCacheConfig;
+} {
+  let modelTTLs: Record<string, number> = {};
+  if (env.AI_CACHE_MODEL_TTLS) {
+    try {
+      const parsed = JSON.parse(env.AI_CACHE_MODEL_TTLS);
+      modelTTLs = Object.fromEntries(
+        Object.entries(parsed).filter(([, ttl]) => typeof ttl === 'number' && ttl >= 0)
+      ) as Record<string, number>;
+    } catch {
+      console.warn('Ignoring invalid AI_CACHE_MODEL_TTLS; expected a JSON object');
+    }
+  }
+
+  const defaultTTL = Number(env.AI_CACHE_DEFAULT_TTL);
+
+  return {
+    backend: env.AI_CACHE_BACKEND === 'postgres' ? 'postgres' : 'memory',
+    config: {
+      defaultTTL: Number.isFinite(defaultTTL) && defaultTTL >= 0 && env.AI_CACHE_DEFAULT_TTL
+        ? defaultTTL
+        : DEFAULT_TTL,
+      modelTTLs,
+    },
+  };
+}
+
+export function createCacheBackend(type: CacheBackendType): ResponseCacheBackend {
+  return type === 'postgres' ? new PostgresCacheBackend() : new MemoryCacheBackend();
+}
+
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private backend: ResponseCacheBackend,
+    private config: ResponseCacheConfig = { defaultTTL: DEFAULT_TTL, modelTTLs: {} }
+  ) {}
+
+  get backendType(): CacheBackendType {
+    return this.backend.type;
+  }
+
+  /**
+   * Cache key for a request. The scope is part of the key so identical prompts
+   * from different users or projects never share an entry.
+   */
+  buildKey(requestKey: string, scope: CacheScope): string {
+    return `chat_${scope.userId}_${scope.projectId || 'none'}_${requestKey}`;
+  }
+
+  /**
+   * TTL for a model: exact match, then longest matching prefix, then default
+   */
+  getTTL(model: string): number {
+    if (model in this.config.modelTTLs) {
+      return this.config.modelTTLs[model];
+    }
+
+    const prefix = Object.keys(this.config.modelTTLs)
+      .filter(candidate => model.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix !== undefined ? this.config.modelTTLs[prefix] : this.config.defaultTTL;
+  }
+
+  setModelTTL(model: string, ttl: number): void {
+    this.config.modelTTLs[model] = ttl;
+  }
+
+  async get(key: string): Promise<NormalizedResponse | null> {
+    try {
+      const entry = await this.backend.get(key);
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
+
+      this.hits++;
+      return {
+        ...entry.response,
+        metadata: { ...entry.response.metadata, cached: true },
+      };
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+      this.misses++;
+      return null;
+    }
+  }
+
+  async set(key: string, scope: CacheScope, response: NormalizedResponse): Promise<void> {
+    // Don't cache error responses
+    if (response.finishReason === 'error') return;
+
+    const ttl = this.getTTL(response.model);
+    if (ttl <= 0) return;
+
+    const now = Date.now();
+    try {
+      await this.backend.set({
+        key,
+        userId: scope.userId,
+        projectId: scope.projectId,
+        model: response.model,
+        response: { ...response, metadata: { ...response.metadata } },
+        timestamp: now,
+        ttl,
+        accessCount: 0,
+        lastAccessed: now,
+      });
+    } catch (error) {
+      console.error('Response cache write failed:', error);
+    }
+  }
+
+  /**
+   * Clear entries for a user or project. Omitting the scope clears every
+   * user's entries; callers must restrict that to admins.
+   */
+  async clear(scope?: Partial<CacheScope>): Promise<number> {
+    if (!scope) {
+      this.hits = 0;
+      this.misses = 0;
+    }
+    return this.backend.clear(scope);
+  }
+
+  async cleanup(): Promise<void> {
+    await this.backend.cleanup();
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const { entries, averageAge } = await this.backend.stats();
+    const lookups = this.hits + this.misses;
+
+    return {
+      backend: this.backend.type,
+      size: entries,
+      totalEntries: entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      averageAge,
+    };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Similarity-based response cache. Where the exact-match cache only hits on
+ * byte-identical requests, this one embeds the final user turn and reuses a
+ * response when the same user's previous question in the same project was
+ * close enough. Like the exact-match cache, it never serves one member's
+ * completion to another.
+ *
+ * Everything other than the final user turn (system prompt, history, model and
+ * sampling parameters) must still match exactly, via the context key, so a
+ * paraphrase is only answered from cache in the same situation.
+ */
+
+import type { ChatMessage } from './client';
+import type { NormalizedResponse } from './abstraction-layer';
+import type { CacheScope } from './response-cache';
+import { EmbeddingProvider, cosineSimilarity } from './embeddings';
+
+export interface SemanticCacheSettings {
+  enabled: boolean;
+  similarityThreshold: number;
+}
+
+export const DEFAULT_SEMANTIC_CACHE_SETTINGS: SemanticCacheSettings = {
+  enabled: false,
+  similarityThreshold: 0.9,
+};
+
+interface SemanticCacheEntry {
+  userId: string;
+  contextKey: string;
+  embedding: number[];
+  response: NormalizedResponse;
+  timestamp: number;
+  ttl: number;
+}
+
+export interface SemanticCacheHit {
+  response: NormalizedResponse;
+  similarity: number;
+}
+
+/**
+ * Read semantic cache settings from a project's settings JSON
+ */
+export function getSemanticCacheSettings(projectSettings: any): SemanticCacheSettings {
+  const settings = projectSettings?.semantic_cache;
+  const threshold = Number(settings?.similarity_threshold);
+
+  return {
+    enabled: settings?.enabled ?? DEFAULT_SEMANTIC_CACHE_SETTINGS.enabled,
+    similarityThreshold: threshold > 0 && threshold <= 1
+      ? threshold
+      : DEFAULT_SEMANTIC_CACHE_SETTINGS.similarityThreshold,
+  };
+}
+
+/**
+ * The text to embed, or null when the request can't be served semantically:
+ * the last turn must be a plain user question without attachments or tools
+ */
+export function getSemanticQuery(messages: ChatMessage[], hasTools: boolean): string | null {
+  const last = messages[messages.length - 1];
+  if (hasTools || !last || last.role !== 'user' || last.attachments?.length) {
+    return null;
+  }
+  return last.content.trim() || null;
+}
+
+export class SemanticCache {
+  // Entries per project, newest last
+  private entries = new Map<string, SemanticCacheEntry[]>();
+
+  /**
+   * Without an embedding provider the cache never hits. Callers pass null
+   * rather than the hashing embedder, which scores questions differing in a
+   * word such as "ascending"/"descending" as near-identical.
+   */
+  constructor(
+    private embeddings: EmbeddingProvider | null,
+    private maxEntriesPerProject: number = 200
+  ) {}
+
+  /**
+   * Best cached response above the threshold for this user, project and context
+   */
+  async lookup(
+    scope: CacheScope & { projectId: string },
+    contextKey: string,
+    query: string,
+    threshold: number
+  ): Promise<SemanticCacheHit | null> {
+    if (!this.embeddings) return null;
+
+    const candidates = this.getLiveEntries(scope.projectId).filter(
+      entry => entry.userId === scope.userId && entry.contextKey === contextKey
+    );
+    if (candidates.length === 0) return null;
+
+    const embedding = await this.embeddings.embed(query);
+    let best: SemanticCacheHit | null = null;
+
+    for (const entry of candidates) {
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { response: entry.response, similarity };
+      }
+    }
+
+    if (!best) return null;
+
+    return {
+      similarity: best.similarity,
+      response: {
+        ...best.response,
+        metadata: {
+          ...best.response.metadata,
+          cached: true,
+          similarity: Math.round(best.similarity * 1000) / 1000,
+        },
+      },
+    };
+  }
+
+  async store(
+    scope: CacheScope & { projectId: string },
+    contextKey: string,
+    query: string,
+    response: NormalizedResponse,
+    ttl: number
+  ): Promise<void> {
+    if (!this.embeddings || response.finishReason === 'error' || response.toolCalls?.length || ttl <= 0) return;
+
+    const entries = this.getLiveEntries(scope.projectId);
+    entries.push({
+      userId: scope.userId,
+      contextKey,
+      embedding: await this.embeddings.embed(query),
+      response: { ...response, metadata: { ...response.metadata } },
+      timestamp: Date.now(),
+      ttl,
+    });
+
+    if (entries.length > this.maxEntriesPerProject) {
+      entries.splice(0, entries.length - this.maxEntriesPerProject);
+    }
+    this.entries.set(scope.projectId, entries);
+  }
+
+  clear(scope?: Partial<CacheScope>): number {
+    let count = 0;
+
+    for (const [projectId, entries] of this.entries) {
+      if (scope?.projectId && projectId !== scope.projectId) continue;
+
+      const kept = scope?.userId ? entries.filter(entry => entry.userId !== scope.userId) : [];
+      count += entries.length - kept.length;
+      if (kept.length > 0) {
+        this.entries.set(projectId, kept);
+      } else {
+        this.entries.delete(projectId);
+      }
+    }
+
+    return count;
+  }
+
+  private getLiveEntries(projectId: string): SemanticCacheEntry[] {
+    const now = Date.now();
+    const live = (this.entries.get(projectId) || []).filter(entry => now - entry.timestamp <= entry.ttl);
+    if (live.length > 0) {
+      this.entries.set(projectId, live);
+    } else {
+      this.entries.delete(projectId);
+    }
+    return live;
+  }
+}
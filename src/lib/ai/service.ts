@@ -1,8 +1,19 @@
 import { db, ServerDatabaseClient } from '@/lib/supabase/database';
 import { encrypt, decrypt } from './encryption';
-import { AIProviderType, validateApiKeyFormat, getProviderConfig } from './providers';
+import {
+  AIProviderType,
+  CustomEndpointConfig,
+  validateApiKeyFormat,
+  getProviderConfig,
+  getProviderModels,
+} from './providers';
+import { fetchCustomEndpointModels, resolveCustomBaseUrl } from './custom-endpoint-utils';
+import { DEFAULT_CREDENTIAL_LABEL, getDefaultCredential } from './credentials';
 import type { AIProvider } from '@/types';
 
+// The credential queries the browser and server database clients share
+type AIProviderStore = Pick<ServerDatabaseClient, 'getAIProviders' | 'updateAIProvider'>;
+
 export class AIProviderService {
   /**
    * Create a new AI provider configuration
@@ -12,18 +23,33 @@ export class AIProviderService {
     provider: AIProviderType,
     apiKey: string,
     settings?: Partial<AIProvider['settings']>,
-    serverDb?: ServerDatabaseClient
+    serverDb?: ServerDatabaseClient,
+    options: {
+      label?: string;
+      endpoint?: Partial<CustomEndpointConfig>;
+    } = {}
   ): Promise<AIProvider> {
-    console.log('[AIProviderService] createProvider invoked', { userId, provider, hasSettings: !!settings });
+    const { endpoint } = options;
+    const label = options.label?.trim() || DEFAULT_CREDENTIAL_LABEL;
+    console.log('[AIProviderService] createProvider invoked', { userId, provider, label, hasSettings: !!settings });
     // Validate API key format
     if (!validateApiKeyFormat(provider, apiKey)) {
       throw new Error(`Invalid API key format for ${provider}`);
     }
 
+    const customEndpoint = provider === 'custom'
+      ? await this.resolveCustomEndpoint(endpoint, apiKey)
+      : undefined;
+
     // Get default settings for the provider
     const providerConfig = getProviderConfig(provider);
+    const models = getProviderModels(provider, customEndpoint?.models);
+    if (models.length === 0) {
+      throw new Error('No models available for this provider. Add at least one model name.');
+    }
+
     const defaultSettings = {
-      defaultModel: providerConfig.models[0].id,
+      defaultModel: models[0].id,
       maxTokens: providerConfig.defaultSettings.maxTokens,
       temperature: providerConfig.defaultSettings.temperature,
       ...settings
@@ -43,8 +69,8 @@ export class AIProviderService {
     }
     console.log('[AIProviderService] encrypted key prepared', { length: encryptedApiKey.length });
 
-    // Check if provider already exists for this user
-    console.info('[AIProviderService] createProvider start', { userId, provider });
+    // Check if a credential with this label already exists for this user
+    console.info('[AIProviderService] createProvider start', { userId, provider, label });
   const dataClient = serverDb ?? db;
   let existingProviders: any[] = [];
   try {
@@ -53,7 +79,8 @@ export class AIProviderService {
     console.error('[AIProviderService] getAIProviders failed', { message: e?.message, code: e?.code });
     throw e;
   }
-  const existingProvider = existingProviders.find(p => p.provider === provider && p.user_id === userId);
+  const sameProvider = existingProviders.filter(p => p.provider === provider && p.user_id === userId);
+  const existingProvider = sameProvider.find(p => (p.label || DEFAULT_CREDENTIAL_LABEL) === label);
     
     if (existingProvider) {
       console.info('[AIProviderService] existing provider found, updating', { id: existingProvider.id });
@@ -61,7 +88,8 @@ export class AIProviderService {
       const updatedProvider = await (dataClient as any).updateAIProvider(existingProvider.id, {
         api_key_encrypted: encryptedApiKey,
         is_active: true,
-        settings: defaultSettings
+        settings: defaultSettings,
+        ...this.mapEndpointToDatabase(customEndpoint),
       });
       console.info('[AIProviderService] provider updated successfully', { id: updatedProvider.id });
       return this.mapDatabaseToType(updatedProvider);
@@ -81,7 +109,11 @@ export class AIProviderService {
         provider,
         api_key_encrypted: encryptedApiKey,
         is_active: true,
-        settings: defaultSettings
+        settings: defaultSettings,
+        label,
+        // The first credential for a provider becomes its default
+        is_default: sameProvider.length === 0,
+        ...this.mapEndpointToDatabase(customEndpoint),
       });
     } catch (e: any) {
       console.error('[AIProviderService] insert failed', { message: e?.message, code: e?.code });
@@ -133,6 +165,10 @@ export class AIProviderService {
       api_key_encrypted?: string;
       is_active?: boolean;
       settings?: any;
+      base_url?: string | null;
+      auth_header?: string | null;
+      models?: string[];
+      label?: string;
     }
   ): Promise<AIProvider> {
   const updatedProvider = await db.updateAIProvider(id, updates);
@@ -140,10 +176,42 @@ export class AIProviderService {
   }
 
   /**
-   * Delete an AI provider
+   * Make a credential the default for its provider, clearing the previous default
+   */
+  async setDefaultProvider(id: string, serverDb?: ServerDatabaseClient): Promise<AIProvider> {
+    const dataClient: AIProviderStore = serverDb ?? db;
+    const providers = await dataClient.getAIProviders();
+    const target = providers.find(p => p.id === id);
+    if (!target) {
+      throw new Error('Provider not found');
+    }
+
+    // Clear first: a partial unique index allows only one default per provider
+    const previousDefaults = providers.filter(
+      p => p.id !== id && p.provider === target.provider && p.user_id === target.user_id && p.is_default
+    );
+    for (const previous of previousDefaults) {
+      await dataClient.updateAIProvider(previous.id, { is_default: false });
+    }
+
+    const updated = await dataClient.updateAIProvider(id, { is_default: true });
+    return this.mapDatabaseToType(updated);
+  }
+
+  /**
+   * Delete an AI provider, promoting another credential if the default was removed
    */
   async deleteProvider(id: string): Promise<void> {
+    const deleted = await this.getProvider(id);
     await db.deleteAIProvider(id);
+
+    if (deleted?.isDefault) {
+      const remaining = await this.getProviders(deleted.userId);
+      const successor = remaining.find(p => p.provider === deleted.provider);
+      if (successor) {
+        await this.setDefaultProvider(successor.id);
+      }
+    }
   }
 
   /**
@@ -162,6 +230,34 @@ export class AIProviderService {
     }
   }
 
+  /**
+   * Validate a custom endpoint configuration, discovering models when none are given
+   */
+  async resolveCustomEndpoint(
+    endpoint: Partial<CustomEndpointConfig> | undefined,
+    apiKey: string
+  ): Promise<CustomEndpointConfig> {
+    if (!endpoint?.baseUrl) {
+      throw new Error('A base URL is required for custom endpoints');
+    }
+
+    const resolved: CustomEndpointConfig = {
+      baseUrl: await resolveCustomBaseUrl(endpoint.baseUrl),
+      authHeader: endpoint.authHeader?.trim() || undefined,
+      models: (endpoint.models || []).map(m => m.trim()).filter(Boolean),
+    };
+
+    if (resolved.models.length === 0) {
+      try {
+        resolved.models = await fetchCustomEndpointModels(resolved, apiKey);
+      } catch (e: any) {
+        console.warn('[AIProviderService] custom endpoint model discovery failed', { message: e?.message });
+      }
+    }
+
+    return resolved;
+  }
+
   /**
    * Test an API key by making a simple request
    */
@@ -179,11 +275,19 @@ export class AIProviderService {
   }
 
   /**
-   * Get the active provider for a user
+   * Get the active provider for a user, preferring the default credential.
+   * When a provider type is given, resolve that provider's default credential.
    */
-  async getActiveProvider(userId?: string): Promise<AIProvider | null> {
-    const providers = await this.getProviders(userId);
-    return providers.find(p => p.isActive) || null;
+  async getActiveProvider(
+    userId?: string,
+    providerType?: AIProviderType,
+    serverDb?: ServerDatabaseClient
+  ): Promise<AIProvider | null> {
+    const providers = await this.getProviders(userId, serverDb);
+    if (providerType) {
+      return getDefaultCredential(providers, providerType) || null;
+    }
+    return providers.find(p => p.isActive && p.isDefault) || providers.find(p => p.isActive) || null;
   }
 
   /**
@@ -196,7 +300,30 @@ export class AIProviderService {
       provider: dbProvider.provider as AIProviderType,
       apiKeyEncrypted: dbProvider.api_key_encrypted,
       isActive: dbProvider.is_active,
-      settings: dbProvider.settings || {}
+      label: dbProvider.label || DEFAULT_CREDENTIAL_LABEL,
+      isDefault: !!dbProvider.is_default,
+      settings: dbProvider.settings || {},
+      createdAt: dbProvider.created_at,
+      endpoint: dbProvider.base_url
+        ? {
+            baseUrl: dbProvider.base_url,
+            authHeader: dbProvider.auth_header || undefined,
+            models: dbProvider.models || [],
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Map a custom endpoint configuration to database columns
+   */
+  private mapEndpointToDatabase(endpoint?: CustomEndpointConfig) {
+    if (!endpoint) return {};
+
+    return {
+      base_url: endpoint.baseUrl,
+      auth_header: endpoint.authHeader || null,
+      models: endpoint.models,
     };
   }
 }
@@ -2,6 +2,9 @@
  * Straico API utilities for model fetching and file uploads
  */
 
+import type { ChatMessage, ToolChoice, ToolDefinition } from './client';
+import { buildToolSystemPrompt, toPromptToolMessages } from './tool-utils';
+
 export interface StraicoModel {
   id: string;
   name: string;
@@ -183,4 +186,143 @@ export function createStraicoRequestWithFiles(
   }
 
   return requestBody;
-}
\ No newline at end of file
+}
+/**
+ * Upload loaded attachments so they can be referenced by `file_ids`
+ */
+export async function uploadStraicoAttachments(
+  apiKey: string,
+  messages: ChatMessage[]
+): Promise<ChatMessage[]> {
+  return Promise.all(messages.map(async message => {
+    if (!message.attachments?.some(a => a.data && !a.straicoFileId)) {
+      return message;
+    }
+
+    const attachments = await Promise.all(message.attachments.map(async attachment => {
+      if (!attachment.data || attachment.straicoFileId) return attachment;
+
+      const uploaded = await uploadBufferToStraico(
+        apiKey,
+        Buffer.from(attachment.data, 'base64'),
+        attachment.name,
+        attachment.mimeType
+      );
+      return { ...attachment, straicoFileId: uploaded.file_id };
+    }));
+
+    return { ...message, attachments };
+  }));
+}
+
+/**
+ * Build a Straico completion body from chat messages. Straico has no native
+ * tool calling, so tools are described in a system prompt.
+ */
+export function createStraicoChatRequest(
+  messages: ChatMessage[],
+  options: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    stream?: boolean;
+    tools?: ToolDefinition[];
+    toolChoice?: ToolChoice;
+  } = {}
+) {
+  const promptMessages = toPromptToolMessages(messages);
+  if (options.tools?.length && options.toolChoice !== 'none') {
+    promptMessages.unshift({
+      role: 'system',
+      content: buildToolSystemPrompt(options.tools, options.toolChoice),
+    });
+  }
+
+  return createStraicoRequestWithFiles(promptMessages, options);
+}
+
+export interface StraicoCompletionResult {
+  id: string;
+  content: string;
+  model: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  finishReason: string;
+}
+
+/**
+ * Send a non-streaming chat completion request to Straico
+ */
+export async function sendStraicoCompletion(
+  apiKey: string,
+  requestBody: any,
+  signal?: AbortSignal
+): Promise<any> {
+  const response = await fetch('https://api.straico.com/v0/prompt/completion', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...requestBody, stream: false }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    // Keep the status in the message; the circuit breakers read it from there
+    let errorMessage = `Straico API error: ${response.status}`;
+
+    try {
+      const errorData = JSON.parse(errorText);
+      const detail = errorData.error?.message || errorData.message;
+      if (detail) {
+        errorMessage += ` ${detail}`;
+      }
+    } catch {
+      errorMessage += ` ${errorText}`;
+    }
+
+    if (response.status === 401) {
+      throw new Error('Invalid or expired Straico API key');
+    } else if (response.status === 403) {
+      throw new Error('API key does not have permission to access this resource');
+    } else if (response.status === 429) {
+      throw new Error('Rate limit exceeded. Please try again later');
+    }
+
+    throw new Error(errorMessage);
+  }
+
+  return response.json();
+}
+
+/**
+ * Extract content and usage from the various Straico completion response shapes
+ */
+export function parseStraicoCompletion(data: any, fallbackModel?: string): StraicoCompletionResult {
+  const content = data.completion?.choices?.[0]?.message?.content ||
+                 data.choices?.[0]?.message?.content ||
+                 (typeof data.completion === 'string' ? data.completion : '') ||
+                 data.response ||
+                 '';
+
+  const usage = data.usage || data.completion?.usage || {};
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+
+  return {
+    id: data.id || `straico-${Date.now()}`,
+    content,
+    model: data.model || fallbackModel || 'unknown',
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens || promptTokens + completionTokens,
+    },
+    finishReason: data.finish_reason || data.completion?.choices?.[0]?.finish_reason || 'stop',
+  };
+}
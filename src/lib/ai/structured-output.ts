@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { ValidationError } from '@/lib/errors/types';
+import type { ChatMessage, ResponseFormat } from './client';
+
+/**
+ * Helpers for JSON-schema replies: the instructions given to the model, and
+ * parsing and validating what comes back
+ */
+
+export interface StructuredOutputIssue {
+  // Dotted path to the offending value, empty for the reply as a whole
+  path: string;
+  message: string;
+}
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: StructuredOutputIssue[] };
+
+/**
+ * Raised when the model didn't produce valid output within the allowed attempts
+ */
+export class StructuredOutputError extends ValidationError {
+  constructor(
+    public readonly issues: StructuredOutputIssue[],
+    public readonly content: string,
+    attempts: number
+  ) {
+    super(
+      `Structured output failed validation after ${attempts} attempt(s)`,
+      'The AI response did not match the requested format. Please try again.',
+      { metadata: { issues, attempts } }
+    );
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Patterns come from API callers and run against model output on the server
+const MAX_PATTERN_LENGTH = 200;
+// Longest string a pattern is tested against; longer ones fail validation
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+/**
+ * Whether a pattern repeats a group that can match the same text more than
+ * one way: one holding an alternation or an optional or quantified element,
+ * like (a+)+, (a|aa)+, (\w+\s?)* or (.*,){12}. These are the groups that
+ * backtrack catastrophically.
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+  // One entry per open group: whether it holds an alternation or quantifier
+  const groups: boolean[] = [];
+  // Whether the previous token was a group that holds one
+  let ambiguousGroupEnded = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const quantifier =
+      char === '*' || char === '+' || char === '?' || (char === '{' && /^\{\d/.test(pattern.slice(i)));
+
+    if (quantifier) {
+      if (ambiguousGroupEnded) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      if (char === '{') i = pattern.indexOf('}', i);
+      continue;
+    }
+
+    ambiguousGroupEnded = false;
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class, which holds no groups or quantifiers
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the ? of (?: (?= (?! and lookbehinds
+      if (pattern[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const ambiguous = groups.pop() || false;
+      if (ambiguous && groups.length > 0) groups[groups.length - 1] = true;
+      ambiguousGroupEnded = ambiguous;
+    } else if (char === '|' && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (hasAmbiguousRepetition(pattern)) {
+    throw new Error('pattern repeats a group with alternatives or quantifiers');
+  }
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`pattern is not a valid regular expression: ${pattern}`);
+  }
+}
+
+/**
+ * Build a zod schema from a JSON Schema. Covers the keywords models are
+ * usually given; anything else is accepted as is. Throws on a pattern that is
+ * invalid or could take too long to match.
+ */
+export function jsonSchemaToZod(schema: Record<string, any>): z.ZodType {
+  const union = (options: z.ZodType[]) =>
+    options.length === 1 ? options[0] : z.union(options as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+
+  if (schema.const !== undefined) {
+    return z.literal(schema.const);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value: unknown) => z.literal(value as string | number | boolean | null)));
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return union(variants.map((variant: Record<string, any>) => jsonSchemaToZod(variant)));
+  }
+
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type: string) => jsonSchemaToZod({ ...schema, type })));
+  }
+
+  let result: z.ZodType;
+  switch (schema.type) {
+    case 'string': {
+      let string = z.string();
+      if (typeof schema.minLength === 'number') string = string.min(schema.minLength);
+      if (typeof schema.maxLength === 'number') string = string.max(schema.maxLength);
+      if (typeof schema.pattern === 'string') {
+        const regex = compilePattern(schema.pattern);
+        string = string.refine(
+          value => value.length <= MAX_PATTERN_INPUT_LENGTH && regex.test(value),
+          `Must be at most ${MAX_PATTERN_INPUT_LENGTH} characters and match ${schema.pattern}`
+        );
+      }
+      result = string;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = schema.type === 'integer' ? z.number().int() : z.number();
+      if (typeof schema.minimum === 'number') number = number.min(schema.minimum);
+      if (typeof schema.maximum === 'number') number = number.max(schema.maximum);
+      result = number;
+      break;
+    }
+    case 'boolean':
+      result = z.boolean();
+      break;
+    case 'null':
+      result = z.null();
+      break;
+    case 'array': {
+      let array = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+      if (typeof schema.minItems === 'number') array = array.min(schema.minItems);
+      if (typeof schema.maxItems === 'number') array = array.max(schema.maxItems);
+      result = array;
+      break;
+    }
+    case 'object': {
+      const required: string[] = schema.required || [];
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries<Record<string, any>>(schema.properties || {})) {
+        const field = jsonSchemaToZod(property);
+        shape[key] = required.includes(key) ? field : field.optional();
+      }
+      result = schema.additionalProperties === false ? z.strictObject(shape) : z.looseObject(shape);
+      break;
+    }
+    default:
+      result = z.unknown();
+  }
+
+  return schema.nullable === true ? result.nullable() : result;
+}
+
+/**
+ * What the model is told about the reply format
+ */
+export function getResponseFormatInstructions(format: ResponseFormat): string {
+  return [
+    `Respond with a single JSON value${format.name ? ` (${format.name})` : ''} that matches this JSON Schema:`,
+    JSON.stringify(format.schema, null, 2),
+    'Reply with the JSON only: no explanations and no markdown code fences.',
+  ].join('\n');
+}
+
+/**
+ * Add the format instructions to the system message, or as one when there is none
+ */
+export function withResponseFormatInstructions(
+  messages: ChatMessage[],
+  format: ResponseFormat
+): ChatMessage[] {
+  const instructions = getResponseFormatInstructions(format);
+  const systemIndex = messages.findIndex(message => message.role === 'system');
+
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: instructions }, ...messages];
+  }
+
+  return messages.map((message, index) =>
+    index === systemIndex
+      ? { ...message, content: `${message.content}\n\n${instructions}` }
+      : message
+  );
+}
+
+/**
+ * Pull the JSON out of a reply, tolerating code fences and surrounding prose
+ */
+export function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // Fall back to the outermost object or array in the text
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a reply and check it against the schema
+ */
+export function validateStructuredOutput<T>(
+  text: string,
+  schema: z.ZodType<T>
+): StructuredOutputResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [{ path: '', message: `Reply is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` }],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * The follow-up sent after an invalid reply
+ */
+export function getValidationFeedback(issues: StructuredOutputIssue[]): string {
+  const problems = issues
+    .map(issue => `- ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+    .join('\n');
+  return `Your reply did not match the required JSON Schema:\n${problems}\nReply again with corrected JSON only.`;
+}
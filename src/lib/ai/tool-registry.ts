@@ -0,0 +1,107 @@
+/**
+ * Server-side registry of tools the model may call during a chat
+ */
+
+import type { ToolArguments, ToolCall, ToolDefinition } from './client';
+
+export interface ToolContext {
+  userId: string;
+  projectId?: string;
+  conversationId?: string;
+}
+
+export interface RegisteredTool extends ToolDefinition {
+  execute(args: ToolArguments, context: ToolContext): Promise<unknown>;
+  // Hide the tool when it cannot run in this context (e.g. no project)
+  isAvailable?(context: ToolContext): boolean;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+// Keep tool output from crowding out the conversation in the next request
+const MAX_RESULT_LENGTH = 8000;
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  register(tool: RegisteredTool): void {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Definitions to send to the model, optionally limited to the named tools
+   */
+  getDefinitions(context: ToolContext, names?: string[]): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(tool => !names || names.includes(tool.name))
+      .filter(tool => !tool.isAvailable || tool.isAvailable(context))
+      .map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * Run a tool call. Failures are returned as error results for the model to
+   * see rather than thrown, so one bad call does not abort the conversation.
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool || (tool.isAvailable && !tool.isAvailable(context))) {
+      return this.errorResult(call, `Unknown tool: ${call.name}`);
+    }
+
+    const missing = (tool.parameters.required || []).filter(
+      param => call.arguments[param] === undefined || call.arguments[param] === null
+    );
+    if (missing.length > 0) {
+      return this.errorResult(call, `Missing required arguments: ${missing.join(', ')}`);
+    }
+
+    try {
+      const output = await tool.execute(call.arguments, context);
+      const content = typeof output === 'string' ? output : JSON.stringify(output ?? null);
+
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: content.length > MAX_RESULT_LENGTH
+          ? `${content.slice(0, MAX_RESULT_LENGTH)}... [truncated]`
+          : content,
+        isError: false,
+      };
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return this.errorResult(call, error instanceof Error ? error.message : 'Tool execution failed');
+    }
+  }
+
+  private errorResult(call: ToolCall, message: string): ToolResult {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      content: JSON.stringify({ error: message }),
+      isError: true,
+    };
+  }
+}
+
+// Export singleton instance
+export const toolRegistry = new ToolRegistry();
@@ -0,0 +1,300 @@
+/**
+ * Translation between the provider-neutral tool schema and vendor wire formats
+ */
+
+import type { ChatMessage, ToolArguments, ToolCall, ToolChoice, ToolDefinition } from './client';
+import { toAnthropicContent, toOpenAIContent, toTextContent } from './attachment-utils';
+
+function isToolArguments(value: unknown): value is ToolArguments {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse tool-call arguments, tolerating malformed JSON from the model
+ */
+export function parseToolArguments(raw: unknown): ToolArguments {
+  if (isToolArguments(raw)) {
+    return raw;
+  }
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isToolArguments(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ===== OpenAI (and OpenAI-compatible endpoints) =====
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+export function toOpenAIToolChoice(choice?: ToolChoice) {
+  if (!choice) return undefined;
+  if (typeof choice === 'string') return choice;
+  return { type: 'function' as const, function: { name: choice.name } };
+}
+
+export function toOpenAIMessages(messages: ChatMessage[]) {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool' as const,
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant' as const,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: message.role, content: toOpenAIContent(message) };
+  });
+}
+
+interface OpenAIToolCallPayload {
+  id: string;
+  function?: { name: string; arguments?: unknown };
+}
+
+export function parseOpenAIToolCalls(
+  message?: { tool_calls?: OpenAIToolCallPayload[] | null }
+): ToolCall[] | undefined {
+  const calls = message?.tool_calls;
+  if (!Array.isArray(calls) || calls.length === 0) return undefined;
+
+  return calls.map(call => ({
+    id: call.id,
+    name: call.function?.name ?? '',
+    arguments: parseToolArguments(call.function?.arguments),
+  }));
+}
+
+// ===== Anthropic =====
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id?: string; content: string };
+
+type AnthropicToolResultBlock = Extract<AnthropicBlock, { type: 'tool_result' }>;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: ReturnType<typeof toAnthropicContent> | AnthropicBlock[];
+}
+
+export function toAnthropicTools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+export function toAnthropicToolChoice(choice?: ToolChoice) {
+  if (!choice || choice === 'none') return undefined;
+  if (choice === 'auto') return { type: 'auto' as const };
+  return { type: 'tool' as const, name: choice.name };
+}
+
+/**
+ * Convert messages to Anthropic format.
+ *
+ * System prompts move to the top-level `system` field, tool calls become
+ * `tool_use` blocks, and consecutive tool results are merged into a single user
+ * turn of `tool_result` blocks as the Messages API requires.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: AnthropicMessage[];
+} {
+  const systemPrompts = messages.filter(m => m.role === 'system').map(m => m.content);
+  const converted: AnthropicMessage[] = [];
+  // The tool results of the user turn being built, if the last turn is one
+  let toolResults: AnthropicToolResultBlock[] | null = null;
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block: AnthropicToolResultBlock = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      if (toolResults) {
+        toolResults.push(block);
+      } else {
+        toolResults = [block];
+        converted.push({ role: 'user', content: toolResults });
+      }
+      continue;
+    }
+    toolResults = null;
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: toAnthropicContent(message) });
+  }
+
+  return {
+    system: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+    messages: converted,
+  };
+}
+
+export function parseAnthropicContent(content: AnthropicBlock[] = []): {
+  text: string;
+  toolCalls?: ToolCall[];
+} {
+  const text = content
+    .filter((block): block is Extract<AnthropicBlock, { type: 'text' }> => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const toolCalls = content
+    .filter((block): block is Extract<AnthropicBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      name: block.name,
+      arguments: parseToolArguments(block.input),
+    }));
+
+  return { text, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+}
+
+// ===== Prompt-based tool calling (providers without native support, e.g. Straico) =====
+
+/**
+ * Build a system prompt describing the tools and the JSON reply format
+ */
+export function buildToolSystemPrompt(tools: ToolDefinition[], choice?: ToolChoice): string {
+  const toolList = tools
+    .map(tool => `- ${tool.name}: ${tool.description}\n  parameters: ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+  const requirement = typeof choice === 'object'
+    ? `You must call the "${choice.name}" tool.`
+    : 'Only call a tool when it is needed to answer.';
+
+  return [
+    'You can call the following tools:',
+    toolList,
+    '',
+    'To call tools, reply with ONLY a JSON object and no other text:',
+    '{"tool_calls": [{"name": "<tool name>", "arguments": {}}]}',
+    `${requirement} Tool results will be sent back to you; then answer normally.`,
+  ].join('\n');
+}
+
+/**
+ * Flatten tool calls and results into plain text turns. Attachments uploaded to
+ * Straico are referenced by file id; the rest are flattened into the text.
+ */
+export function toPromptToolMessages(
+  messages: ChatMessage[]
+): { role: 'user' | 'assistant' | 'system'; content: string; file_ids?: string[] }[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'user' as const,
+        content: `Tool result for ${message.name || 'tool'} (${message.toolCallId}):\n${message.content}`,
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant' as const,
+        content: JSON.stringify({
+          tool_calls: message.toolCalls.map(call => ({ name: call.name, arguments: call.arguments })),
+        }),
+      };
+    }
+
+    const uploaded = (message.attachments || []).filter(a => a.straicoFileId);
+    if (uploaded.length === 0) {
+      return { role: message.role, content: toTextContent(message) };
+    }
+
+    return {
+      role: message.role,
+      content: toTextContent({
+        content: message.content,
+        attachments: message.attachments!.filter(a => !a.straicoFileId),
+      }),
+      file_ids: uploaded.map(a => a.straicoFileId!),
+    };
+  });
+}
+
+/**
+ * Extract tool calls from a prompt-based reply, if the reply is a tool-call object
+ */
+export function parsePromptToolCalls(
+  text: string,
+  tools: ToolDefinition[]
+): ToolCall[] | undefined {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  if (!candidate.startsWith('{') || !candidate.includes('tool_calls')) {
+    return undefined;
+  }
+
+  let parsed: { tool_calls?: unknown };
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(parsed?.tool_calls)) return undefined;
+
+  const known = new Set(tools.map(tool => tool.name));
+  const calls = (parsed.tool_calls as { name?: unknown; arguments?: unknown }[])
+    .filter((call): call is { name: string; arguments?: unknown } =>
+      typeof call?.name === 'string' && known.has(call.name))
+    .map((call, index) => ({
+      id: `call_${Date.now().toString(36)}_${index}`,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments),
+    }));
+
+  return calls.length > 0 ? calls : undefined;
+}
@@ -0,0 +1,54 @@
+import { buildEffectivenessReport, EffectivenessSample } from '../prompt-effectiveness'
+
+function rated(count: number, positive: number, sample: Partial<EffectivenessSample>): EffectivenessSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    contextInjected: false,
+    ...sample,
+    rating: i < positive ? 1 : -1
+  }))
+}
+
+describe('Prompt effectiveness report', () => {
+  const since = new Date('2025-09-01T00:00:00Z')
+
+  test('should group ratings and recommend only well-sampled, clearly better groups', () => {
+    const review = { id: 'tpl-1', name: 'Code review' }
+    const report = buildEffectivenessReport('project-1', since, [
+      ...rated(6, 5, { model: 'gpt-4o', template: review, contextInjected: true, cost: 0.02 }),
+      ...rated(6, 2, { model: 'claude-3-haiku', cost: 0.0005 }),
+      ...rated(2, 2, { model: 'llama-3' })
+    ])
+
+    expect(report.overall).toMatchObject({ ratedCount: 14, positiveCount: 9 })
+    expect(report.byModel.map(group => [group.key, group.ratedCount])).toEqual([
+      ['llama-3', 2],
+      ['gpt-4o', 6],
+      ['claude-3-haiku', 6]
+    ])
+    expect(report.byTemplate.find(group => group.key === 'none')?.ratedCount).toBe(8)
+    expect(report.byCost.map(group => group.key).sort()).toEqual(['high', 'low'])
+    expect(report.byModel.find(group => group.key === 'gpt-4o')?.averageCost).toBeCloseTo(0.02)
+
+    // llama-3 has the best rate but too few ratings to be recommended
+    expect(report.recommendations).toEqual([
+      'gpt-4o is rated best here: 83% helpful over 6 rated replies.',
+      'Replies with injected project context are rated better (83% helpful with, 50% without).'
+    ])
+  })
+
+  test('should count each model once per decided comparison', () => {
+    const report = buildEffectivenessReport('project-1', since, [
+      { model: 'gpt-4o', contextInjected: false, comparison: { id: 'c1', winner: true } },
+      { model: 'gpt-4o', contextInjected: false, comparison: { id: 'c1' } },
+      { model: 'claude-3-haiku', contextInjected: false, comparison: { id: 'c1' } },
+      // Undecided comparisons don't count
+      { model: 'gpt-4o', contextInjected: false, comparison: { id: 'c2' } },
+      { model: 'claude-3-haiku', contextInjected: false, comparison: { id: 'c2' } }
+    ])
+
+    const byKey = Object.fromEntries(report.byModel.map(group => [group.key, group]))
+    expect(byKey['gpt-4o']).toMatchObject({ comparisonCount: 1, comparisonWins: 1, winRate: 1, ratedCount: 0 })
+    expect(byKey['claude-3-haiku']).toMatchObject({ comparisonCount: 1, comparisonWins: 0, winRate: 0 })
+    expect(report.overall.ratedCount).toBe(0)
+  })
+})
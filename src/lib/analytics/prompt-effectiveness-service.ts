@@ -0,0 +1,132 @@
+import { createClient } from '@/lib/supabase/server'
+import type { MessageMetadata, PromptEffectivenessReport } from '@/types'
+import { buildEffectivenessReport, EffectivenessSample } from './prompt-effectiveness'
+
+// Keeps `.in()` filters within URL length limits
+const ID_BATCH_SIZE = 100
+
+export class PromptEffectivenessService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * What works best in the project: ratings and comparison wins of replies
+   * from the last `days` days, grouped by model, template, injected context
+   * and cost
+   */
+  async getReport(userId: string, projectId: string, days: number = 90): Promise<PromptEffectivenessReport> {
+    const hasAccess = await this.checkProjectAccess(userId, projectId)
+    if (!hasAccess) {
+      throw new Error('Access denied to project')
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const supabase = await this.getSupabase()
+
+    const { data: replies, error } = await supabase
+      .from('project_prompts')
+      .select('id, parent_message_id, model, metadata')
+      .eq('project_id', projectId)
+      .eq('role', 'assistant')
+      .gte('created_at', since.toISOString())
+      .or('metadata->rating.not.is.null,metadata->comparison.not.is.null')
+
+    if (error) {
+      throw new Error(`Failed to load rated replies: ${error.message}`)
+    }
+
+    const promptIds = Array.from(new Set(
+      (replies || []).map(reply => reply.parent_message_id).filter((id): id is string => !!id)
+    ))
+    const [prompts, injectedPromptIds] = await Promise.all([
+      this.loadPromptMetadata(promptIds),
+      this.loadInjectedPromptIds(projectId, since)
+    ])
+
+    const samples: EffectivenessSample[] = (replies || []).map(reply => {
+      const metadata = (reply.metadata || {}) as MessageMetadata
+      const prompt = reply.parent_message_id ? prompts.get(reply.parent_message_id) : undefined
+
+      return {
+        rating: metadata.rating,
+        model: reply.model,
+        template: prompt?.template,
+        contextInjected: !!reply.parent_message_id && injectedPromptIds.has(reply.parent_message_id),
+        cost: metadata.cost,
+        cached: metadata.cached,
+        comparison: metadata.comparison
+      }
+    })
+
+    return buildEffectivenessReport(projectId, since, samples)
+  }
+
+  private async loadPromptMetadata(promptIds: string[]): Promise<Map<string, MessageMetadata>> {
+    const supabase = await this.getSupabase()
+    const prompts = new Map<string, MessageMetadata>()
+
+    for (let i = 0; i < promptIds.length; i += ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('project_prompts')
+        .select('id, metadata')
+        .in('id', promptIds.slice(i, i + ID_BATCH_SIZE))
+
+      if (error) {
+        throw new Error(`Failed to load prompts: ${error.message}`)
+      }
+      for (const prompt of data || []) {
+        prompts.set(prompt.id, (prompt.metadata || {}) as MessageMetadata)
+      }
+    }
+    return prompts
+  }
+
+  /**
+   * Prompts sent with retrieved project context. The logs are per user, so
+   * other members' prompts count as sent without.
+   */
+  private async loadInjectedPromptIds(projectId: string, since: Date): Promise<Set<string>> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('context_injection_logs')
+      .select('metadata')
+      .eq('project_id', projectId)
+      .gte('created_at', since.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to load context injection logs: ${error.message}`)
+    }
+
+    return new Set(
+      (data || [])
+        .map(log => (log.metadata as { messageId?: string } | null)?.messageId)
+        .filter((id): id is string => !!id)
+    )
+  }
+
+  private async checkProjectAccess(userId: string, projectId: string): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .single()
+
+    if (project?.user_id === userId) {
+      return true
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .single()
+
+    return !!membership
+  }
+}
+
+// Export singleton instance
+export const promptEffectivenessService = new PromptEffectivenessService()
@@ -0,0 +1,214 @@
+import type { EffectivenessGroup, PromptEffectivenessReport } from '@/types'
+
+/**
+ * Replies are rated helpful (+1) or unhelpful (-1) from the chat, and model
+ * comparisons end with the user keeping one reply. Both are grouped here by
+ * what went into the reply so a project can see what works best for it.
+ */
+
+export interface EffectivenessSample {
+  rating?: number
+  model?: string | null
+  template?: { id: string; name: string }
+  // Whether retrieved project context was in the system prompt
+  contextInjected: boolean
+  cost?: number
+  cached?: boolean
+  comparison?: { id: string; winner?: boolean }
+}
+
+export const MIN_SAMPLE_SIZE = 5
+
+// Differences in helpful rate smaller than this aren't worth mentioning
+const NOTABLE_DIFFERENCE = 0.1
+
+interface GroupKey {
+  key: string
+  label: string
+}
+
+function modelKey(sample: EffectivenessSample): GroupKey {
+  return sample.model ? { key: sample.model, label: sample.model } : { key: 'unknown', label: 'Unknown model' }
+}
+
+function templateKey(sample: EffectivenessSample): GroupKey {
+  return sample.template
+    ? { key: sample.template.id, label: sample.template.name }
+    : { key: 'none', label: 'No template' }
+}
+
+function contextKey(sample: EffectivenessSample): GroupKey {
+  return sample.contextInjected
+    ? { key: 'with', label: 'With project context' }
+    : { key: 'without', label: 'Without project context' }
+}
+
+function costKey(sample: EffectivenessSample): GroupKey | null {
+  if (sample.cached) return { key: 'cached', label: 'Cached (free)' }
+  if (sample.cost === undefined) return null
+  if (sample.cost < 0.001) return { key: 'low', label: 'Under $0.001' }
+  if (sample.cost < 0.01) return { key: 'medium', label: '$0.001 to $0.01' }
+  return { key: 'high', label: '$0.01 and up' }
+}
+
+function emptyGroup({ key, label }: GroupKey): EffectivenessGroup {
+  return { key, label, ratedCount: 0, positiveCount: 0, comparisonCount: 0, comparisonWins: 0 }
+}
+
+/**
+ * Comparisons in which the user kept one of the replies, keyed by comparison
+ */
+function decidedComparisons(samples: EffectivenessSample[]): Map<string, EffectivenessSample[]> {
+  const comparisons = new Map<string, EffectivenessSample[]>()
+  for (const sample of samples) {
+    if (!sample.comparison) continue
+    const candidates = comparisons.get(sample.comparison.id) || []
+    candidates.push(sample)
+    comparisons.set(sample.comparison.id, candidates)
+  }
+
+  for (const [id, candidates] of comparisons) {
+    if (!candidates.some(candidate => candidate.comparison?.winner)) {
+      comparisons.delete(id)
+    }
+  }
+  return comparisons
+}
+
+function groupSamples(
+  samples: EffectivenessSample[],
+  getKey: (sample: EffectivenessSample) => GroupKey | null,
+  // Only meaningful where the compared replies can differ in the grouping;
+  // they share their prompt, and so its template and context
+  countComparisons = false
+): EffectivenessGroup[] {
+  const groups = new Map<string, EffectivenessGroup & { costTotal: number; costCount: number }>()
+  const groupOf = (sample: EffectivenessSample) => {
+    const key = getKey(sample)
+    if (!key) return null
+    if (!groups.has(key.key)) {
+      groups.set(key.key, { ...emptyGroup(key), costTotal: 0, costCount: 0 })
+    }
+    return groups.get(key.key)!
+  }
+
+  for (const sample of samples) {
+    if (sample.rating === undefined) continue
+    const group = groupOf(sample)
+    if (!group) continue
+
+    group.ratedCount++
+    if (sample.rating > 0) group.positiveCount++
+    if (sample.cost !== undefined) {
+      group.costTotal += sample.cost
+      group.costCount++
+    }
+  }
+
+  const comparisons = countComparisons ? decidedComparisons(samples).values() : []
+  for (const candidates of comparisons) {
+    // A model counts once per comparison, even in several columns
+    const seen = new Set<string>()
+    for (const candidate of candidates) {
+      const group = groupOf(candidate)
+      if (!group || seen.has(group.key)) continue
+      seen.add(group.key)
+
+      group.comparisonCount++
+      if (candidates.some(other => other.comparison?.winner && getKey(other)?.key === group.key)) {
+        group.comparisonWins++
+      }
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ costTotal, costCount, ...group }) => ({
+      ...group,
+      helpfulRate: group.ratedCount > 0 ? group.positiveCount / group.ratedCount : undefined,
+      winRate: group.comparisonCount > 0 ? group.comparisonWins / group.comparisonCount : undefined,
+      averageCost: costCount > 0 ? costTotal / costCount : undefined,
+    }))
+    .sort((a, b) => (b.helpfulRate ?? -1) - (a.helpfulRate ?? -1) || b.ratedCount - a.ratedCount)
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+function bestBy(
+  groups: EffectivenessGroup[],
+  rate: 'helpfulRate' | 'winRate',
+  count: 'ratedCount' | 'comparisonCount'
+): EffectivenessGroup | null {
+  const eligible = groups.filter(group => group[count] >= MIN_SAMPLE_SIZE && group[rate] !== undefined)
+  if (eligible.length < 2) return null
+
+  const sorted = [...eligible].sort((a, b) => b[rate]! - a[rate]!)
+  return sorted[0][rate]! - sorted[1][rate]! >= NOTABLE_DIFFERENCE ? sorted[0] : null
+}
+
+function recommend(report: Omit<PromptEffectivenessReport, 'recommendations'>): string[] {
+  const recommendations: string[] = []
+
+  const model = bestBy(report.byModel, 'helpfulRate', 'ratedCount')
+  if (model) {
+    recommendations.push(
+      `${model.label} is rated best here: ${percent(model.helpfulRate!)} helpful over ${model.ratedCount} rated replies.`
+    )
+  }
+
+  const winner = bestBy(report.byModel, 'winRate', 'comparisonCount')
+  if (winner) {
+    recommendations.push(
+      `${winner.label} wins ${percent(winner.winRate!)} of the ${winner.comparisonCount} comparisons it was in.`
+    )
+  }
+
+  const template = bestBy(report.byTemplate.filter(group => group.key !== 'none'), 'helpfulRate', 'ratedCount')
+  if (template) {
+    recommendations.push(
+      `The "${template.label}" template works best: ${percent(template.helpfulRate!)} helpful over ${template.ratedCount} rated replies.`
+    )
+  }
+
+  const withContext = report.byContext.find(group => group.key === 'with')
+  const withoutContext = report.byContext.find(group => group.key === 'without')
+  if (
+    withContext && withoutContext &&
+    withContext.ratedCount >= MIN_SAMPLE_SIZE && withoutContext.ratedCount >= MIN_SAMPLE_SIZE &&
+    Math.abs(withContext.helpfulRate! - withoutContext.helpfulRate!) >= NOTABLE_DIFFERENCE
+  ) {
+    const helps = withContext.helpfulRate! > withoutContext.helpfulRate!
+    recommendations.push(
+      `Replies ${helps ? 'with' : 'without'} injected project context are rated better ` +
+      `(${percent(withContext.helpfulRate!)} helpful with, ${percent(withoutContext.helpfulRate!)} without).`
+    )
+  }
+
+  return recommendations
+}
+
+/**
+ * Group the samples by model, template, injected context and cost
+ */
+export function buildEffectivenessReport(
+  projectId: string,
+  since: Date,
+  samples: EffectivenessSample[]
+): PromptEffectivenessReport {
+  const overall = groupSamples(samples, () => ({ key: 'all', label: 'All replies' }))[0]
+    ?? emptyGroup({ key: 'all', label: 'All replies' })
+
+  const report = {
+    projectId,
+    since: since.toISOString(),
+    minSampleSize: MIN_SAMPLE_SIZE,
+    overall,
+    byModel: groupSamples(samples, modelKey, true),
+    byTemplate: groupSamples(samples, templateKey),
+    byContext: groupSamples(samples, contextKey),
+    byCost: groupSamples(samples, costKey),
+  }
+
+  return { ...report, recommendations: recommend(report) }
+}
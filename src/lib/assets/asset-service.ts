@@ -0,0 +1,220 @@
+import { createClient } from '@/lib/supabase/server'
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  getAttachmentKind,
+  isTextAttachment,
+  resolveAttachmentType,
+  validateAttachmentFile,
+} from '@/lib/ai/attachment-utils'
+import type { ChatAttachment } from '@/lib/ai/client'
+import type { MessageAttachment, ProjectAsset } from '@/types'
+
+// Private bucket; files are served through the project assets API
+export const PROJECT_ASSETS_BUCKET = 'project-assets'
+
+export class AssetService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Store a chat attachment as a project asset
+   */
+  async uploadChatAttachment(
+    userId: string,
+    projectId: string,
+    file: File
+  ): Promise<MessageAttachment> {
+    const hasAccess = await this.checkProjectAccess(userId, projectId)
+    if (!hasAccess) {
+      throw new Error('Access denied to project')
+    }
+
+    const validationError = validateAttachmentFile(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    const mimeType = resolveAttachmentType(file)
+    const supabase = await this.getSupabase()
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_') || 'attachment'
+    const storagePath = `${projectId}/${crypto.randomUUID()}/${safeName}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(PROJECT_ASSETS_BUCKET)
+      .upload(storagePath, file, { contentType: mimeType })
+
+    if (uploadError) {
+      throw new Error(`Failed to store attachment: ${uploadError.message}`)
+    }
+
+    const kind = getAttachmentKind(mimeType)!
+    const { data, error } = await supabase
+      .from('project_assets')
+      .insert({
+        project_id: projectId,
+        name: file.name,
+        file_url: storagePath,
+        type: mimeType,
+        size: file.size,
+        metadata: {
+          source: 'chat',
+          kind,
+          bucket: PROJECT_ASSETS_BUCKET,
+          uploadedBy: userId,
+        },
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      // Don't leave an orphaned file behind
+      await supabase.storage.from(PROJECT_ASSETS_BUCKET).remove([storagePath])
+      throw new Error('Failed to save attachment')
+    }
+
+    return this.mapAssetToAttachment(this.mapDatabaseToAsset(data))
+  }
+
+  /**
+   * Download an asset's file for serving to the browser
+   */
+  async getAssetFile(
+    userId: string,
+    projectId: string,
+    assetId: string
+  ): Promise<{ asset: ProjectAsset; file: Blob }> {
+    const [asset] = await this.getProjectAssets(userId, projectId, [assetId])
+    if (!asset) {
+      throw new Error('Asset not found')
+    }
+
+    return { asset, file: await this.downloadAsset(asset) }
+  }
+
+  /**
+   * Load attachments for sending to a model: images and PDFs as base64, text
+   * files decoded
+   */
+  async loadChatAttachments(
+    userId: string,
+    projectId: string,
+    assetIds: string[]
+  ): Promise<{ attachments: MessageAttachment[]; contents: ChatAttachment[] }> {
+    if (assetIds.length === 0) {
+      return { attachments: [], contents: [] }
+    }
+    if (assetIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`)
+    }
+
+    const assets = await this.getProjectAssets(userId, projectId, assetIds)
+    if (assets.length !== new Set(assetIds).size) {
+      throw new Error('Attachment not found')
+    }
+
+    const contents = await Promise.all(assets.map(async asset => {
+      const buffer = Buffer.from(await (await this.downloadAsset(asset)).arrayBuffer())
+      const attachment = this.mapAssetToAttachment(asset)
+
+      return {
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        kind: attachment.kind,
+        ...(isTextAttachment(asset.type)
+          ? { text: buffer.toString('utf8') }
+          : { data: buffer.toString('base64') }),
+      }
+    }))
+
+    return { attachments: assets.map(asset => this.mapAssetToAttachment(asset)), contents }
+  }
+
+  private async getProjectAssets(
+    userId: string,
+    projectId: string,
+    assetIds: string[]
+  ): Promise<ProjectAsset[]> {
+    const hasAccess = await this.checkProjectAccess(userId, projectId)
+    if (!hasAccess) {
+      throw new Error('Access denied to project')
+    }
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_assets')
+      .select('*')
+      .eq('project_id', projectId)
+      .in('id', assetIds)
+
+    if (error) {
+      throw new Error('Failed to load attachments')
+    }
+
+    // Keep the order the attachments were given in
+    const assets = (data || []).map(row => this.mapDatabaseToAsset(row))
+    return assetIds
+      .map(id => assets.find(asset => asset.id === id))
+      .filter((asset): asset is ProjectAsset => !!asset)
+  }
+
+  private async downloadAsset(asset: ProjectAsset): Promise<Blob> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase.storage
+      .from(asset.metadata.bucket || PROJECT_ASSETS_BUCKET)
+      .download(asset.fileUrl)
+
+    if (error || !data) {
+      throw new Error(`Failed to read attachment ${asset.name}`)
+    }
+
+    return data
+  }
+
+  private async checkProjectAccess(userId: string, projectId: string): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .single()
+
+    if (project?.user_id === userId) {
+      return true
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .single()
+
+    return !!membership
+  }
+
+  private mapAssetToAttachment(asset: ProjectAsset): MessageAttachment {
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      mimeType: asset.type,
+      size: asset.size,
+      kind: asset.metadata.kind || getAttachmentKind(asset.type) || 'file',
+    }
+  }
+
+  private mapDatabaseToAsset(data: any): ProjectAsset {
+    return {
+      id: data.id,
+      projectId: data.project_id,
+      name: data.name,
+      fileUrl: data.file_url,
+      type: data.type,
+      size: data.size,
+      metadata: data.metadata || {},
+      createdAt: new Date(data.created_at),
+    }
+  }
+}
+
+export const assetService = new AssetService()
@@ -0,0 +1,25 @@
+import { buildProjectSystemPrompt, withRetrievedContext } from '../system-prompt'
+
+describe('Assistant system prompt', () => {
+  test('should describe the project when no profile applies', () => {
+    const prompt = buildProjectSystemPrompt({
+      name: 'Storefront',
+      description: null,
+      github_repo: 'acme/storefront',
+      local_path: null,
+      settings: null,
+      project_members: [{}, {}]
+    })
+
+    expect(prompt).toContain('helping with the project "Storefront"')
+    expect(prompt).toContain('- GitHub Repository: acme/storefront')
+    expect(prompt).toContain('- Team Members: 2')
+  })
+
+  test('should follow the base prompt with the retrieved context', () => {
+    expect(withRetrievedContext('You review code.', '### README\nSetup steps'))
+      .toBe('You review code.\n\n## Relevant Context\n### README\nSetup steps')
+    expect(withRetrievedContext('You review code.', '')).toBe('You review code.')
+    expect(withRetrievedContext('You review code.')).toBe('You review code.')
+  })
+})
@@ -0,0 +1,416 @@
+import type { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { aiProviderService } from '@/lib/ai/service'
+import { conversationService } from '@/lib/conversations/conversation-service'
+import { getDefaultCredential, getProviderSettingDisplayName, isAutoRouted } from '@/lib/ai/credentials'
+import { AIProviderType, getAvailableProviders } from '@/lib/ai/providers'
+import { contextInjectionService, type ContextSelection } from '@/lib/context/context-injection-service'
+import type { assistantProfileSchema, assistantProfileUpdateSchema } from '@/lib/supabase/validation'
+import type { AIProvider, AssistantProfile, AvailableAssistantProfile } from '@/types'
+import { buildProjectSystemPrompt, withRetrievedContext } from './system-prompt'
+
+/**
+ * Assistant profiles are named bundles of a system prompt, provider/model,
+ * temperature and context-injection defaults. Each is a project_settings row
+ * keyed `assistant_profile:<id>`; the project default is another row. A
+ * conversation's choice is kept in its metadata as `assistantProfileId`.
+ */
+
+const PROFILE_KEY_PREFIX = 'assistant_profile:'
+const DEFAULT_PROFILE_KEY = 'assistant_profile_default'
+
+export type AssistantProfileInput = z.infer<typeof assistantProfileSchema>
+export type AssistantProfileUpdate = z.infer<typeof assistantProfileUpdateSchema>
+
+export interface ResolveAssistantRequest {
+  projectId: string
+  conversationId?: string
+  // Picked for this request; otherwise the conversation's profile is used,
+  // then the project default
+  profileId?: string
+  // Context the client picked; it is looked up again server-side
+  context?: ContextSelection
+}
+
+export interface ResolvedAssistant {
+  profile: AssistantProfile | null
+  systemPrompt: string
+  // Set only when the profile decides them
+  providerId?: string
+  model?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export class AssistantProfileService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Profiles of a project, by name, and which one is the default
+   */
+  async listProfiles(projectId: string): Promise<{ profiles: AssistantProfile[]; defaultProfileId: string | null }> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_settings')
+      .select('key, value')
+      .eq('project_id', projectId)
+      .like('key', 'assistant_profile%')
+
+    if (error) {
+      throw new Error(`Failed to load assistant profiles: ${error.message}`)
+    }
+
+    const rows = data || []
+    const profiles = rows
+      .filter(row => row.key.startsWith(PROFILE_KEY_PREFIX))
+      .map(row => row.value as unknown as AssistantProfile)
+      .sort((a, b) => a.name.localeCompare(b.name))
+    const defaultRow = rows.find(row => row.key === DEFAULT_PROFILE_KEY)
+    const defaultProfileId = (defaultRow?.value as { profileId?: string } | undefined)?.profileId ?? null
+
+    return {
+      profiles,
+      defaultProfileId: profiles.some(profile => profile.id === defaultProfileId) ? defaultProfileId : null
+    }
+  }
+
+  async getProfile(projectId: string, profileId: string): Promise<AssistantProfile | null> {
+    const supabase = await this.getSupabase()
+    const { data } = await supabase
+      .from('project_settings')
+      .select('value')
+      .eq('project_id', projectId)
+      .eq('key', PROFILE_KEY_PREFIX + profileId)
+      .maybeSingle()
+
+    return (data?.value as unknown as AssistantProfile) ?? null
+  }
+
+  async createProfile(
+    userId: string,
+    projectId: string,
+    input: AssistantProfileInput,
+    copiedFrom?: AssistantProfile['copiedFrom']
+  ): Promise<AssistantProfile> {
+    await this.checkProjectOwner(userId, projectId)
+
+    const now = new Date().toISOString()
+    const profile: AssistantProfile = {
+      ...input,
+      ...(await this.describeProvider(userId, input.providerId)),
+      id: crypto.randomUUID(),
+      projectId,
+      ...(copiedFrom && { copiedFrom }),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await this.writeProfile(projectId, profile)
+    return profile
+  }
+
+  async updateProfile(
+    userId: string,
+    projectId: string,
+    profileId: string,
+    updates: AssistantProfileUpdate
+  ): Promise<AssistantProfile> {
+    await this.checkProjectOwner(userId, projectId)
+
+    const current = await this.getProfile(projectId, profileId)
+    if (!current) {
+      throw new Error('Assistant profile not found')
+    }
+
+    // null clears a setting
+    const merged: Record<string, unknown> = { ...current, ...updates }
+    for (const key of Object.keys(merged)) {
+      if (merged[key] === null) delete merged[key]
+    }
+
+    const profile: AssistantProfile = {
+      ...(merged as unknown as AssistantProfile),
+      ...('providerId' in updates && await this.describeProvider(userId, updates.providerId ?? undefined)),
+      id: current.id,
+      projectId,
+      updatedAt: new Date().toISOString()
+    }
+
+    await this.writeProfile(projectId, profile)
+    return profile
+  }
+
+  async deleteProfile(userId: string, projectId: string, profileId: string): Promise<void> {
+    await this.checkProjectOwner(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('project_settings')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('key', PROFILE_KEY_PREFIX + profileId)
+
+    if (error) {
+      throw new Error(`Failed to delete assistant profile: ${error.message}`)
+    }
+    // A dangling default is ignored by listProfiles and resolve
+  }
+
+  /**
+   * Make a profile the project default, or clear the default with null
+   */
+  async setDefaultProfile(userId: string, projectId: string, profileId: string | null): Promise<void> {
+    await this.checkProjectOwner(userId, projectId)
+
+    if (profileId && !await this.getProfile(projectId, profileId)) {
+      throw new Error('Assistant profile not found')
+    }
+
+    const supabase = await this.getSupabase()
+    const { error } = profileId
+      ? await supabase
+          .from('project_settings')
+          .upsert({ project_id: projectId, key: DEFAULT_PROFILE_KEY, value: { profileId } }, { onConflict: 'project_id,key' })
+      : await supabase
+          .from('project_settings')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('key', DEFAULT_PROFILE_KEY)
+
+    if (error) {
+      throw new Error(`Failed to set default assistant profile: ${error.message}`)
+    }
+  }
+
+  /**
+   * Profiles across every project the user owns, for copying into another
+   */
+  async listAvailableProfiles(userId: string): Promise<AvailableAssistantProfile[]> {
+    const supabase = await this.getSupabase()
+    const { data: projects } = await supabase
+      .from('projects')
+      .select('id, name')
+      .eq('user_id', userId)
+
+    if (!projects || projects.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('project_settings')
+      .select('project_id, value')
+      .in('project_id', projects.map(project => project.id))
+      .like('key', `${PROFILE_KEY_PREFIX}%`)
+
+    if (error) {
+      throw new Error(`Failed to load assistant profiles: ${error.message}`)
+    }
+
+    const names = new Map(projects.map(project => [project.id, project.name]))
+    return (data || [])
+      .map(row => ({
+        ...(row.value as unknown as AssistantProfile),
+        projectName: names.get(row.project_id) || 'Unknown project'
+      }))
+      .sort((a, b) => a.projectName.localeCompare(b.projectName) || a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Copy a profile from another of the user's projects
+   */
+  async copyProfile(
+    userId: string,
+    sourceProjectId: string,
+    profileId: string,
+    targetProjectId: string
+  ): Promise<AssistantProfile> {
+    await this.checkProjectOwner(userId, sourceProjectId)
+
+    const source = await this.getProfile(sourceProjectId, profileId)
+    if (!source) {
+      throw new Error('Assistant profile not found')
+    }
+
+    const { name, description, systemPrompt, providerId, model, temperature, maxTokens, contextDefaults } = source
+    return this.createProfile(
+      userId,
+      targetProjectId,
+      { name, description, systemPrompt, providerId, model, temperature, maxTokens, contextDefaults },
+      { projectId: sourceProjectId, profileId }
+    )
+  }
+
+  /**
+   * Pick the profile a conversation uses; null goes back to the project
+   * default
+   */
+  async setConversationProfile(userId: string, conversationId: string, profileId: string | null): Promise<void> {
+    const conversation = await conversationService.getConversation(userId, conversationId)
+    if (!conversation) {
+      throw new Error('Conversation not found or access denied')
+    }
+    if (profileId && !await this.getProfile(conversation.projectId, profileId)) {
+      throw new Error('Assistant profile not found')
+    }
+
+    const metadata: Record<string, any> = { ...conversation.metadata, assistantProfileId: profileId }
+    if (!profileId) {
+      delete metadata.assistantProfileId
+    }
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('conversations')
+      .update({ metadata })
+      .eq('id', conversationId)
+
+    if (error) {
+      throw new Error(`Failed to update conversation: ${error.message}`)
+    }
+  }
+
+  /**
+   * Work out the assistant for a chat request. The system prompt is the
+   * profile's, or the project's default prompt, followed by the context the
+   * client picked as rebuilt from the project's data.
+   */
+  async resolve(userId: string, request: ResolveAssistantRequest): Promise<ResolvedAssistant> {
+    const supabase = await this.getSupabase()
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('name, description, github_repo, local_path, settings, project_members(id)')
+      .eq('id', request.projectId)
+      .single()
+
+    if (error || !project) {
+      throw new Error('Project not found')
+    }
+
+    const profile = await this.findProfile(request)
+    const basePrompt = profile?.systemPrompt || buildProjectSystemPrompt(
+      project,
+      getProviderSettingDisplayName(await aiProviderService.getProviders(userId), project.settings?.defaultAIProvider)
+    )
+    const systemPrompt = withRetrievedContext(basePrompt, await this.getSelectedContext(userId, request))
+    if (!profile) {
+      return { profile: null, systemPrompt }
+    }
+
+    const providerId = await this.resolveProvider(userId, profile)
+    return {
+      profile,
+      systemPrompt,
+      providerId,
+      // A model only makes sense with the provider it was chosen for
+      model: providerId && !isAutoRouted(providerId) ? profile.model : undefined,
+      temperature: profile.temperature,
+      maxTokens: profile.maxTokens
+    }
+  }
+
+  private async getSelectedContext(userId: string, request: ResolveAssistantRequest): Promise<string> {
+    const { context } = request
+    if (typeof context?.query !== 'string' || !Array.isArray(context.itemIds)) {
+      return ''
+    }
+
+    return contextInjectionService.getSelectedContext(userId, request.projectId, {
+      query: context.query,
+      itemIds: context.itemIds.filter((id): id is string => typeof id === 'string')
+    })
+  }
+
+  private async findProfile(request: ResolveAssistantRequest): Promise<AssistantProfile | null> {
+    if (request.profileId) {
+      const profile = await this.getProfile(request.projectId, request.profileId)
+      if (!profile) {
+        throw new Error('Assistant profile not found')
+      }
+      return profile
+    }
+
+    if (request.conversationId) {
+      const supabase = await this.getSupabase()
+      const { data } = await supabase
+        .from('conversations')
+        .select('metadata')
+        .eq('id', request.conversationId)
+        .maybeSingle()
+
+      const chosen = data?.metadata?.assistantProfileId
+      if (chosen) {
+        const profile = await this.getProfile(request.projectId, chosen)
+        if (profile) return profile
+      }
+    }
+
+    const { profiles, defaultProfileId } = await this.listProfiles(request.projectId)
+    return profiles.find(profile => profile.id === defaultProfileId) ?? null
+  }
+
+  /**
+   * The requesting user's credential for the profile's provider. Profiles are
+   * shared with project members, who have their own keys, so a credential
+   * that isn't theirs falls back to their default key for the same vendor.
+   */
+  private async resolveProvider(userId: string, profile: AssistantProfile): Promise<string | undefined> {
+    if (!profile.providerId) return undefined
+    if (isAutoRouted(profile.providerId)) return profile.providerId
+
+    const credentials = await aiProviderService.getProviders(userId)
+    const own = credentials.find(credential => credential.id === profile.providerId && credential.isActive)
+    if (own) return own.id
+
+    const providerType = profile.providerType || profile.providerId
+    if (!(getAvailableProviders() as string[]).includes(providerType)) return undefined
+    return getDefaultCredential(credentials, providerType as AIProviderType)?.id
+  }
+
+  /**
+   * Record which vendor a profile's provider is, so it can be matched for
+   * other users
+   */
+  private async describeProvider(
+    userId: string,
+    providerId?: string
+  ): Promise<Pick<AssistantProfile, 'providerType'>> {
+    if (!providerId || isAutoRouted(providerId)) return { providerType: undefined }
+    if ((getAvailableProviders() as string[]).includes(providerId)) return { providerType: providerId }
+
+    const credentials: AIProvider[] = await aiProviderService.getProviders(userId)
+    return { providerType: credentials.find(credential => credential.id === providerId)?.provider }
+  }
+
+  private async writeProfile(projectId: string, profile: AssistantProfile): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('project_settings')
+      .upsert(
+        { project_id: projectId, key: PROFILE_KEY_PREFIX + profile.id, value: JSON.parse(JSON.stringify(profile)) },
+        { onConflict: 'project_id,key' }
+      )
+
+    if (error) {
+      throw new Error(`Failed to save assistant profile: ${error.message}`)
+    }
+  }
+
+  private async checkProjectOwner(userId: string, projectId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .single()
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    if (project.user_id !== userId) {
+      throw new Error('Access denied: only the project owner can manage assistant profiles')
+    }
+  }
+}
+
+// Export singleton instance
+export const assistantProfileService = new AssistantProfileService()
@@ -0,0 +1,40 @@
+import { INJECTED_CONTEXT_HEADING } from '@/lib/ai/context-budget'
+
+/**
+ * The fields of a project row the default system prompt describes
+ */
+export interface ProjectPromptSource {
+  name: string
+  description: string | null
+  github_repo: string | null
+  local_path: string | null
+  settings: Record<string, any> | null
+  project_members?: unknown[] | null
+}
+
+/**
+ * The system prompt used when no assistant profile is in effect. The
+ * provider is passed by name, since the project setting holds a credential id.
+ */
+export function buildProjectSystemPrompt(project: ProjectPromptSource, providerName?: string | null): string {
+  return `You are an AI assistant helping with the project "${project.name}".
+
+Project Details:
+- Name: ${project.name}
+- Description: ${project.description || 'No description provided'}
+- GitHub Repository: ${project.github_repo || 'Not connected'}
+- Local Path: ${project.local_path || 'Not configured'}
+- AI Provider: ${providerName || 'Default'}
+- Team Members: ${project.project_members?.length || 0}
+
+You have access to this project's context and should provide helpful, relevant assistance for web development tasks. Be concise but thorough in your responses. When discussing code or technical concepts, consider the project's specific context and requirements.
+
+If the user asks about project-specific information that you don't have access to, let them know what additional context would be helpful.`
+}
+
+/**
+ * Put a base prompt in front of the context retrieved for a request
+ */
+export function withRetrievedContext(basePrompt: string, injectedContext?: string): string {
+  return injectedContext ? basePrompt + INJECTED_CONTEXT_HEADING + injectedContext : basePrompt
+}
@@ -0,0 +1,67 @@
+import { gzipSync } from 'zlib'
+import JSZip from 'jszip'
+import { archiveSource, resolveArchiveType } from '../archive-source'
+import { indexRepository } from '../repository-indexer'
+
+// A minimal ustar archive; the reader doesn't check header checksums
+function createTar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = []
+  for (const [name, content] of Object.entries(files)) {
+    const header = Buffer.alloc(512)
+    header.write(name, 0)
+    header.write(content.length.toString(8).padStart(11, '0'), 124)
+    header.write('0', 156)
+    header.write('ustar', 257)
+    blocks.push(header)
+
+    const data = Buffer.alloc(Math.ceil(content.length / 512) * 512)
+    data.write(content, 0)
+    blocks.push(data)
+  }
+  blocks.push(Buffer.alloc(1024))
+  return Buffer.concat(blocks)
+}
+
+describe('Archive import', () => {
+  test('should recognise archive types by extension', () => {
+    expect(resolveArchiveType('app.zip')).toBe('zip')
+    expect(resolveArchiveType('app-main.TAR.GZ')).toBe('tar.gz')
+    expect(resolveArchiveType('app.tgz')).toBe('tar.gz')
+    expect(resolveArchiveType('app.tar')).toBe('tar')
+    expect(resolveArchiveType('app.rar')).toBeNull()
+  })
+
+  test('should read a gzipped tarball without its top-level folder', async () => {
+    const archive = gzipSync(createTar({
+      'app-main/src/index.ts': 'export const answer = 42\n',
+      'app-main/README.md': '# App\n'
+    }))
+
+    const source = await archiveSource(archive, 'tar.gz')
+
+    expect(await source.listFiles()).toEqual([
+      { path: 'src/index.ts', size: 25 },
+      { path: 'README.md', size: 6 }
+    ])
+    expect((await source.readFile('src/index.ts')).toString()).toBe('export const answer = 42\n')
+  })
+
+  test('should index a zip with exclude patterns and a file size limit', async () => {
+    const zip = new JSZip()
+    zip.file('src/index.ts', 'export const answer = 42\n')
+    zip.file('src/index.test.ts', 'test("answer", () => {})\n')
+    zip.file('data/fixtures.json', JSON.stringify({ rows: 'x'.repeat(4096) }))
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+
+    const index = await indexRepository(await archiveSource(archive, 'zip'), {
+      excludePatterns: ['*.test.ts'],
+      maxFileSize: 2048
+    })
+
+    expect(index.files.map(file => file.path)).toEqual(['src/index.ts'])
+    expect(index.skipped).toEqual([
+      { path: 'src/index.test.ts', reason: 'excluded' },
+      { path: 'data/fixtures.json', reason: 'too_large' }
+    ])
+  })
+})
@@ -0,0 +1,48 @@
+import { createIgnoreMatcher } from '../gitignore'
+
+describe('Gitignore matching', () => {
+  test('should match unanchored patterns at any depth and anchored ones at the root', () => {
+    const isIgnored = createIgnoreMatcher([
+      { path: '.gitignore', content: '# build output\n*.log\n/out\ntmp/\n' }
+    ])
+
+    expect(isIgnored('debug.log')).toBe(true)
+    expect(isIgnored('src/server/debug.log')).toBe(true)
+    expect(isIgnored('out/index.js')).toBe(true)
+    expect(isIgnored('src/out/index.js')).toBe(false)
+    expect(isIgnored('src/tmp/cache.json')).toBe(true)
+    expect(isIgnored('src/tmp.ts')).toBe(false)
+  })
+
+  test('should apply negations and nested .gitignore files in order', () => {
+    const isIgnored = createIgnoreMatcher([
+      { path: 'packages/api/.gitignore', content: '!keep.env\n' },
+      { path: '.gitignore', content: '*.env\n' }
+    ])
+
+    expect(isIgnored('local.env')).toBe(true)
+    expect(isIgnored('packages/api/local.env')).toBe(true)
+    expect(isIgnored('packages/api/keep.env')).toBe(false)
+    expect(isIgnored('keep.env')).toBe(true)
+  })
+
+  test('should keep files ignored when their directory is ignored', () => {
+    const isIgnored = createIgnoreMatcher([
+      { path: '.gitignore', content: 'generated/\n!generated/schema.ts\n' }
+    ])
+
+    expect(isIgnored('generated/schema.ts')).toBe(true)
+  })
+
+  test('should support ** and character classes', () => {
+    const isIgnored = createIgnoreMatcher([
+      { path: '.gitignore', content: 'docs/**/draft-*.md\nfile[0-9].txt\n' }
+    ])
+
+    expect(isIgnored('docs/draft-a.md')).toBe(true)
+    expect(isIgnored('docs/guides/setup/draft-b.md')).toBe(true)
+    expect(isIgnored('docs/guides/final.md')).toBe(false)
+    expect(isIgnored('file1.txt')).toBe(true)
+    expect(isIgnored('fileA.txt')).toBe(false)
+  })
+})
@@ -0,0 +1,73 @@
+import { gitHubSource, indexRepository } from '../repository-indexer'
+import type { GitHubClient, GitHubRepository } from '../github-client'
+
+// An in-memory repository at a single commit
+function mockGitHubClient(files: Record<string, string | Buffer>): GitHubClient {
+  return {
+    getDefaultBranch: async () => 'main',
+    resolveRef: async () => 'abc123',
+    getTree: async () => ({
+      entries: Object.entries(files).map(([path, content]) => ({ path, type: 'blob' as const, size: content.length })),
+      truncated: false
+    }),
+    getFile: async (_repository, path) => {
+      if (!(path in files)) throw new Error('Repository or branch not found')
+      const content = files[path]
+      return typeof content === 'string' ? Buffer.from(content) : content
+    }
+  }
+}
+
+const repository: GitHubRepository = { owner: 'acme', repo: 'app' }
+
+describe('Repository indexing', () => {
+  test('should chunk source files by declaration', async () => {
+    const source = [
+      "import { db } from './db'",
+      '',
+      '// Load a user by id',
+      'export async function getUser(id: string) {',
+      '  return db.users.find(id)',
+      '}',
+      '',
+      'export class UserService {',
+      ...Array.from({ length: 90 }, (_, i) => `  field${i} = ${i}`),
+      '}'
+    ].join('\n')
+
+    const index = await indexRepository(gitHubSource(mockGitHubClient({ 'src/users.ts': source }), repository, 'abc123'))
+
+    expect(index.files).toEqual([{ path: 'src/users.ts', language: 'typescript', size: source.length, chunkCount: 2 }])
+    expect(index.chunks.map(chunk => [chunk.symbols, chunk.startLine, chunk.endLine])).toEqual([
+      [['getUser'], 1, 7],
+      [['UserService'], 8, 99]
+    ])
+    expect(index.chunks[0].content).toContain('// Load a user by id')
+    expect(index.chunks[0].language).toBe('typescript')
+  })
+
+  test('should skip ignored, vendored, lock and binary files', async () => {
+    const client = mockGitHubClient({
+      '.gitignore': 'secrets/\n*.generated.ts\n',
+      'src/index.ts': 'export const answer = 42\n',
+      'src/schema.generated.ts': 'export type Schema = {}\n',
+      'secrets/key.ts': 'export const key = "x"\n',
+      'node_modules/lib/index.js': 'module.exports = {}\n',
+      'package-lock.json': '{}\n',
+      'public/logo.png': 'not really a png',
+      'data/blob.dat': Buffer.from([0x50, 0x4b, 0x00, 0x01])
+    })
+
+    const index = await indexRepository(gitHubSource(client, repository, 'abc123'))
+
+    expect(Array.from(new Set(index.chunks.map(chunk => chunk.filePath))).sort()).toEqual(['.gitignore', 'src/index.ts'])
+    expect(Object.fromEntries(index.skipped.map(file => [file.path, file.reason]))).toEqual({
+      'src/schema.generated.ts': 'ignored',
+      'secrets/key.ts': 'ignored',
+      'node_modules/lib/index.js': 'ignored',
+      'package-lock.json': 'ignored',
+      'public/logo.png': 'binary',
+      'data/blob.dat': 'binary'
+    })
+  })
+})
@@ -0,0 +1,208 @@
+import type { Readable } from 'stream'
+import { gunzipSync } from 'zlib'
+import JSZip from 'jszip'
+import { MAX_FILE_SIZE_LIMIT, RepositorySource } from './repository-indexer'
+
+export type ArchiveType = 'zip' | 'tar' | 'tar.gz'
+
+export const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024 // 50MB
+// Guards against archives that decompress to far more than they weigh
+export const MAX_EXTRACTED_SIZE = 200 * 1024 * 1024 // 200MB
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz']
+
+export function resolveArchiveType(fileName: string): ArchiveType | null {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.zip')) return 'zip'
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz'
+  if (name.endsWith('.tar')) return 'tar'
+  return null
+}
+
+/**
+ * Repository-relative form of an archive entry path, or null for entries
+ * that would point outside the archive
+ */
+function normalizeEntryPath(path: string): string | null {
+  const parts = path.replace(/\\/g, '/').split('/').filter(part => part && part !== '.')
+  if (parts.length === 0 || parts.includes('..')) return null
+  return parts.join('/')
+}
+
+// Archives of a project usually wrap everything in one folder, such as the
+// "repo-main/" of a GitHub download; paths are indexed without it
+function stripCommonRoot(paths: string[]): (path: string) => string {
+  const roots = new Set(paths.map(path => path.split('/')[0]))
+  const [root] = Array.from(roots)
+  if (roots.size !== 1 || paths.some(path => !path.includes('/'))) {
+    return path => path
+  }
+  return path => path.slice(root.length + 1)
+}
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8')
+}
+
+// The path record of a pax extended header, whose lines read "<length> <key>=<value>"
+function readPaxPath(data: Buffer): string | undefined {
+  const match = data.toString('utf8').match(/^\d+ path=(.*)$/m)
+  return match?.[1]
+}
+
+/**
+ * Regular files of a tar archive, by entry path
+ */
+export function readTar(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>()
+  let offset = 0
+  let longName: string | undefined
+
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512)
+    // The archive ends with zero-filled blocks
+    if (header.every(byte => byte === 0)) break
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8)
+    if (Number.isNaN(size)) {
+      throw new Error('The archive is not a valid tar file')
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30)
+    const data = archive.subarray(offset + 512, offset + 512 + size)
+    offset += 512 + Math.ceil(size / 512) * 512
+
+    if (type === 'L') {
+      // GNU long name for the entry that follows
+      longName = readTarString(data, 0, data.length)
+      continue
+    }
+    if (type === 'x') {
+      longName = readPaxPath(data) ?? longName
+      continue
+    }
+
+    const prefix = readTarString(header, 345, 155)
+    const name = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100))
+    longName = undefined
+
+    if (type === '0' || type === '\0') {
+      files.set(name, data)
+    }
+  }
+
+  return files
+}
+
+function decompress(archive: Buffer): Buffer {
+  try {
+    return gunzipSync(archive, { maxOutputLength: MAX_EXTRACTED_SIZE })
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`The archive expands to more than ${MAX_EXTRACTED_SIZE / 1024 / 1024}MB`)
+    }
+    throw new Error('The archive is not a valid gzip file')
+  }
+}
+
+function tarSource(archive: Buffer): RepositorySource {
+  const entries = new Map<string, Buffer>()
+  for (const [name, data] of readTar(archive)) {
+    const path = normalizeEntryPath(name)
+    if (path) entries.set(path, data)
+  }
+
+  const strip = stripCommonRoot(Array.from(entries.keys()))
+  const files = new Map(Array.from(entries, ([path, data]) => [strip(path), data]))
+
+  return {
+    async listFiles() {
+      return Array.from(files, ([path, data]) => ({ path, size: data.length }))
+    },
+    async readFile(path) {
+      const data = files.get(path)
+      if (!data) throw new Error(`${path} is not in the archive`)
+      return data
+    }
+  }
+}
+
+// Reads stop just past the largest size a file may be indexed at, which is
+// enough for the indexer to reject it
+function readZipEntry(entry: JSZip.JSZipObject): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    // A Readable underneath, though typed as the bare stream interface
+    const stream = entry.nodeStream('nodebuffer') as Readable
+
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+      size += chunk.length
+      if (size > MAX_FILE_SIZE_LIMIT) {
+        stream.removeAllListeners()
+        stream.destroy()
+        resolve(Buffer.concat(chunks))
+      }
+    })
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
+
+async function zipSource(archive: Buffer): Promise<RepositorySource> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch {
+    throw new Error('The archive is not a valid zip file')
+  }
+
+  const entries = new Map<string, JSZip.JSZipObject>()
+  for (const entry of Object.values(zip.files)) {
+    const path = entry.dir ? null : normalizeEntryPath(entry.name)
+    if (path) entries.set(path, entry)
+  }
+
+  const strip = stripCommonRoot(Array.from(entries.keys()))
+  const files = new Map(Array.from(entries, ([path, entry]) => [strip(path), entry]))
+  let extracted = 0
+
+  return {
+    async listFiles() {
+      return Array.from(files.keys(), path => ({ path }))
+    },
+    async readFile(path) {
+      const entry = files.get(path)
+      if (!entry) throw new Error(`${path} is not in the archive`)
+
+      const data = await readZipEntry(entry)
+      extracted += data.length
+      if (extracted > MAX_EXTRACTED_SIZE) {
+        throw new Error(`The archive expands to more than ${MAX_EXTRACTED_SIZE / 1024 / 1024}MB`)
+      }
+      return data
+    }
+  }
+}
+
+/**
+ * An uploaded zip or tar archive of a codebase, as a source for
+ * indexRepository
+ */
+export async function archiveSource(archive: Buffer, type: ArchiveType): Promise<RepositorySource> {
+  if (archive.length > MAX_ARCHIVE_SIZE) {
+    throw new Error(`Archives can be at most ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB`)
+  }
+
+  switch (type) {
+    case 'zip':
+      return zipSource(archive)
+    case 'tar.gz':
+      return tarSource(decompress(archive))
+    case 'tar':
+      return tarSource(archive)
+  }
+}
@@ -0,0 +1,132 @@
+export interface CodeChunk {
+  filePath: string
+  language: string
+  // Declarations the chunk contains, in order; empty for imports and other
+  // top-level code
+  symbols: string[]
+  // 1-based and inclusive
+  startLine: number
+  endLine: number
+  content: string
+}
+
+// Chunks grow to about this many lines by taking in following declarations
+const TARGET_CHUNK_LINES = 80
+// Longer declarations, and files with no recognised declarations, are split
+// into windows of this many lines
+const MAX_CHUNK_LINES = 150
+const WINDOW_LINES = 100
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', go: 'go', rs: 'rust', rb: 'ruby', php: 'php',
+  java: 'java', kt: 'kotlin', swift: 'swift', cs: 'csharp', scala: 'scala',
+  c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp',
+  sh: 'shell', bash: 'shell', sql: 'sql',
+  css: 'css', scss: 'scss', html: 'html', vue: 'vue', svelte: 'svelte',
+  md: 'markdown', mdx: 'markdown', json: 'json', yaml: 'yaml', yml: 'yaml', toml: 'toml'
+}
+
+// Top-level declarations, with the declared name as the first group
+const DECLARATIONS: Record<string, RegExp> = {
+  typescript: /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/,
+  javascript: /^(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  python: /^(?:async\s+)?(?:def|class)\s+(\w+)/,
+  go: /^(?:func\s+(?:\([^)]*\)\s*)?|type\s+)(\w+)/,
+  rust: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|impl(?:<[^>]*>)?|mod|type)\s+([\w:]+)/,
+  ruby: /^(?:def|class|module)\s+([\w.:]+)/,
+  php: /^(?:(?:abstract|final)\s+)?(?:function|class|interface|trait)\s+(\w+)/,
+  java: /^(?:(?:public|protected|private|abstract|final|static|sealed)\s+)*(?:class|interface|enum|record)\s+(\w+)/,
+  kotlin: /^(?:(?:public|internal|private|abstract|open|data|sealed)\s+)*(?:fun|class|interface|object)\s+([\w.]+)/,
+  csharp: /^(?:(?:public|internal|private|abstract|sealed|static|partial)\s+)*(?:class|interface|struct|enum|record)\s+(\w+)/,
+  swift: /^(?:(?:public|internal|private|open|final)\s+)*(?:func|class|struct|enum|protocol|extension)\s+(\w+)/
+}
+
+// Comments and decorators directly above a declaration belong to it
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|#(?!include)|@|"""|''')/
+
+export function detectLanguage(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return LANGUAGES[extension] || 'text'
+}
+
+interface Segment {
+  start: number
+  end: number
+  symbols: string[]
+}
+
+function splitIntoWindows(segment: Segment): Segment[] {
+  if (segment.end - segment.start + 1 <= MAX_CHUNK_LINES) return [segment]
+
+  const windows: Segment[] = []
+  for (let start = segment.start; start <= segment.end; start += WINDOW_LINES) {
+    windows.push({ start, end: Math.min(start + WINDOW_LINES - 1, segment.end), symbols: segment.symbols })
+  }
+  return windows
+}
+
+/**
+ * Split a source file into chunks along top-level declarations. Small
+ * neighbouring declarations share a chunk; files in languages without a
+ * declaration pattern are cut into fixed windows.
+ */
+export function chunkCode(filePath: string, content: string): CodeChunk[] {
+  const language = detectLanguage(filePath)
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  if (lines.length === 0) return []
+
+  const pattern = DECLARATIONS[language]
+  const boundaries: { line: number; name: string }[] = []
+
+  if (pattern) {
+    // Leading comments can't reach back past the previous declaration
+    let floor = 0
+    lines.forEach((line, index) => {
+      const name = line.match(pattern)?.[1]
+      if (!name) return
+
+      let start = index
+      while (start > floor && LEADING_LINE.test(lines[start - 1])) {
+        start--
+      }
+      boundaries.push({ line: start, name })
+      floor = index + 1
+    })
+  }
+
+  const segments: Segment[] = []
+  if (boundaries.length === 0 || boundaries[0].line > 0) {
+    segments.push({ start: 0, end: (boundaries[0]?.line ?? lines.length) - 1, symbols: [] })
+  }
+  boundaries.forEach((boundary, index) => {
+    const end = (boundaries[index + 1]?.line ?? lines.length) - 1
+    segments.push({ start: boundary.line, end, symbols: [boundary.name] })
+  })
+
+  // Merge small neighbours, then split what is still too long
+  const merged: Segment[] = []
+  for (const segment of segments) {
+    const last = merged[merged.length - 1]
+    if (last && segment.end - last.start + 1 <= TARGET_CHUNK_LINES) {
+      last.end = segment.end
+      last.symbols = [...last.symbols, ...segment.symbols]
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+
+  return merged
+    .flatMap(splitIntoWindows)
+    .map(segment => ({
+      filePath,
+      language,
+      symbols: segment.symbols,
+      startLine: segment.start + 1,
+      endLine: segment.end + 1,
+      content: lines.slice(segment.start, segment.end + 1).join('\n')
+    }))
+    .filter(chunk => chunk.content.trim())
+}
@@ -0,0 +1,76 @@
+export interface RelevantLines {
+  start: number
+  end: number
+  reason: string
+}
+
+// Matches this close together are reported as one range
+const MERGE_DISTANCE = 2
+const MAX_RANGES = 5
+
+/**
+ * Line ranges of a chunk that mention any of the keywords, numbered from the
+ * chunk's first line in its file
+ */
+export function findRelevantLines(content: string, startLine: number, keywords: string[]): RelevantLines[] {
+  const terms = keywords.map(keyword => keyword.toLowerCase()).filter(Boolean)
+  if (terms.length === 0) return []
+
+  const ranges: (RelevantLines & { terms: Set<string> })[] = []
+  content.split('\n').forEach((line, index) => {
+    const lower = line.toLowerCase()
+    const matched = terms.filter(term => lower.includes(term))
+    if (matched.length === 0) return
+
+    const lineNumber = startLine + index
+    const last = ranges[ranges.length - 1]
+    if (last && lineNumber - last.end <= MERGE_DISTANCE) {
+      last.end = lineNumber
+      matched.forEach(term => last.terms.add(term))
+    } else {
+      ranges.push({ start: lineNumber, end: lineNumber, reason: '', terms: new Set(matched) })
+    }
+  })
+
+  return ranges
+    .sort((a, b) => b.terms.size - a.terms.size || a.start - b.start)
+    .slice(0, MAX_RANGES)
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, end, terms: matched }) => ({
+      start,
+      end,
+      reason: `Mentions ${Array.from(matched).map(term => `"${term}"`).join(', ')}`
+    }))
+}
+
+const IMPORT_PATTERNS: Record<string, RegExp[]> = {
+  typescript: [/\bfrom\s+['"]([^'"]+)['"]/g, /\bimport\s+['"]([^'"]+)['"]/g, /\b(?:require|import)\(\s*['"]([^'"]+)['"]\s*\)/g],
+  python: [/^\s*from\s+([\w.]+)\s+import\b/gm, /^\s*import\s+([\w.]+)/gm],
+  go: [/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm],
+  rust: [/^\s*(?:pub\s+)?use\s+([\w:]+)/gm, /^\s*extern\s+crate\s+(\w+)/gm],
+  ruby: [/^\s*require(?:_relative)?\s+['"]([^'"]+)['"]/gm],
+  java: [/^\s*import\s+(?:static\s+)?([\w.]+)/gm]
+}
+IMPORT_PATTERNS.javascript = IMPORT_PATTERNS.typescript
+IMPORT_PATTERNS.kotlin = IMPORT_PATTERNS.java
+
+/**
+ * Modules a file imports, as written in its import statements
+ */
+export function extractDependencies(content: string, language: string): string[] {
+  const dependencies = new Set<string>()
+  for (const pattern of IMPORT_PATTERNS[language] || []) {
+    for (const match of content.matchAll(pattern)) {
+      dependencies.add(match[1])
+    }
+  }
+  if (language === 'go') {
+    // Grouped imports: import ( "fmt"; log "github.com/..." )
+    for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+      for (const match of block[1].matchAll(/"([^"]+)"/g)) {
+        dependencies.add(match[1])
+      }
+    }
+  }
+  return Array.from(dependencies)
+}
@@ -0,0 +1,439 @@
+import { createClient } from '@/lib/supabase/server'
+import { EmbeddingProvider, embedTexts, getEmbeddingProvider } from '@/lib/ai/embeddings'
+import { GitHubClient, RestGitHubClient, parseGitHubRepository } from './github-client'
+import { gitHubSource, indexRepository, IndexOptions, RepositoryIndex } from './repository-indexer'
+import { archiveSource, resolveArchiveType } from './archive-source'
+import { localDirectorySource, resolveLocalPath } from './local-source'
+import { detectLanguage, type CodeChunk } from './code-chunker'
+import type { CodeIndexStatus } from '@/types'
+
+export interface CodeChunkMatch extends CodeChunk {
+  id: string
+  // Unset when the chunk was found by keyword only
+  similarity?: number
+}
+
+// Chunks embedded per provider request and inserted per database write
+const EMBED_BATCH_SIZE = 64
+const INSERT_BATCH_SIZE = 200
+// Skipped files recorded on the index, for showing why something is missing
+const SKIPPED_SAMPLE_SIZE = 50
+// An index stuck "indexing" longer than this is assumed to have died
+const STALE_INDEXING_MS = 15 * 60 * 1000
+
+/**
+ * Indexes a project's code into code_chunks and searches it for chat context
+ */
+export class CodeIndexService {
+  constructor(
+    private github: GitHubClient = new RestGitHubClient(),
+    private embeddings: EmbeddingProvider = getEmbeddingProvider()
+  ) {}
+
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  async getStatus(userId: string, projectId: string): Promise<CodeIndexStatus | null> {
+    await this.checkAccess(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    const { data } = await supabase
+      .from('code_indexes')
+      .select('*')
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    return data ? this.mapDatabaseToStatus(data) : null
+  }
+
+  /**
+   * Index the project's linked GitHub repository at a branch, by default the
+   * repository's default branch. Failures after indexing starts are recorded
+   * on the returned status.
+   */
+  async indexGitHubRepository(
+    userId: string,
+    projectId: string,
+    branch?: string,
+    options: IndexOptions = {}
+  ): Promise<CodeIndexStatus> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('github_repo')
+      .eq('id', projectId)
+      .single()
+
+    const repository = project?.github_repo ? parseGitHubRepository(project.github_repo) : null
+    if (!repository) {
+      throw new Error('Link a GitHub repository in the project settings before indexing')
+    }
+
+    const ref = branch || await this.github.getDefaultBranch(repository)
+    const sha = await this.github.resolveRef(repository, ref)
+
+    return this.runIndexing(projectId, {
+      source: 'github',
+      repository: `${repository.owner}/${repository.repo}`,
+      ref,
+      commit_sha: sha
+    }, options, () => indexRepository(gitHubSource(this.github, repository, sha), options))
+  }
+
+  /**
+   * Index an uploaded zip or tar archive of the project's code. The archive
+   * is opened first, so one that isn't a valid zip or tar is refused without
+   * touching the current index.
+   */
+  async indexArchive(
+    userId: string,
+    projectId: string,
+    archive: Buffer,
+    fileName: string,
+    options: IndexOptions = {}
+  ): Promise<CodeIndexStatus> {
+    await this.checkAccess(userId, projectId, true)
+
+    const type = resolveArchiveType(fileName)
+    if (!type) {
+      throw new Error('Unsupported archive: upload a .zip, .tar, .tar.gz or .tgz file')
+    }
+
+    const source = await archiveSource(archive, type)
+
+    return this.runIndexing(projectId, {
+      source: 'archive',
+      repository: fileName
+    }, options, () => indexRepository(source, options))
+  }
+
+  /**
+   * Index the project's local path on the server's disk. Only the stored
+   * path is read, which only the project owner can change, so members can't
+   * reach other directories under the import root. Only available where the
+   * server has an import root configured.
+   */
+  async indexLocalPath(
+    userId: string,
+    projectId: string,
+    options: IndexOptions = {}
+  ): Promise<CodeIndexStatus> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('local_path')
+      .eq('id', projectId)
+      .single()
+    const requested = project?.local_path
+    if (!requested) {
+      throw new Error('Set a local path in the project settings before importing')
+    }
+
+    const directory = await resolveLocalPath(requested)
+
+    return this.runIndexing(projectId, {
+      source: 'local',
+      repository: requested
+    }, options, () => indexRepository(localDirectorySource(directory), options))
+  }
+
+  /**
+   * An indexed file's content, put back together from its chunks
+   */
+  async getFile(
+    userId: string,
+    projectId: string,
+    filePath: string
+  ): Promise<{ path: string; language: string; content: string }> {
+    await this.checkAccess(userId, projectId)
+
+    const chunks = await this.getFileChunks(projectId, [filePath])
+    if (chunks.length === 0) {
+      throw new Error('File not found in the code index')
+    }
+
+    // Blank stretches between declarations aren't stored; restore them so
+    // line numbers match the file
+    const lines: string[] = []
+    for (const chunk of chunks) {
+      while (lines.length < chunk.startLine - 1) lines.push('')
+      lines.push(...chunk.content.split('\n'))
+    }
+
+    return {
+      path: filePath,
+      language: detectLanguage(filePath),
+      content: lines.join('\n')
+    }
+  }
+
+  /**
+   * Chunks for a query: the closest by embedding plus those mentioning a
+   * keyword in their text or path. `vectorSearched` is false when the
+   * embedding search was unavailable, so similarities are missing throughout.
+   */
+  async searchChunks(
+    projectId: string,
+    query: string,
+    keywords: string[],
+    limit: number = 20
+  ): Promise<{ matches: CodeChunkMatch[]; vectorSearched: boolean }> {
+    const supabase = await this.getSupabase()
+    const matches = new Map<string, CodeChunkMatch>()
+    let vectorSearched = false
+
+    try {
+      const embedding = await this.embeddings.embed(query)
+      const { data, error } = await supabase.rpc('match_code_chunks', {
+        p_project_id: projectId,
+        p_embedding: JSON.stringify(embedding),
+        p_provider: this.embeddings.id,
+        p_match_count: limit
+      })
+      if (error) throw error
+
+      for (const row of data || []) {
+        matches.set(row.id, { ...this.mapDatabaseToChunk(row), similarity: row.similarity })
+      }
+      vectorSearched = true
+    } catch (error) {
+      console.error('Code vector search failed, using keywords only:', error)
+    }
+
+    const terms = keywords
+      .map(keyword => keyword.replace(/[%_,()]/g, ''))
+      .filter(keyword => keyword.length > 2)
+      .slice(0, 5)
+
+    if (terms.length > 0) {
+      const { data } = await supabase
+        .from('code_chunks')
+        .select('id, file_path, language, symbols, start_line, end_line, content')
+        .eq('project_id', projectId)
+        .or(terms.flatMap(term => [`content.ilike.%${term}%`, `file_path.ilike.%${term}%`]).join(','))
+        .limit(limit)
+
+      for (const row of data || []) {
+        if (!matches.has(row.id)) {
+          matches.set(row.id, this.mapDatabaseToChunk(row))
+        }
+      }
+    }
+
+    return { matches: Array.from(matches.values()), vectorSearched }
+  }
+
+  /**
+   * Indexed chunks of the given files, in file and line order
+   */
+  async getFileChunks(projectId: string, filePaths: string[]): Promise<CodeChunkMatch[]> {
+    if (filePaths.length === 0) return []
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('code_chunks')
+      .select('id, file_path, language, symbols, start_line, end_line, content')
+      .eq('project_id', projectId)
+      .in('file_path', filePaths)
+      .order('file_path')
+      .order('start_line')
+
+    if (error) {
+      throw new Error(`Failed to load code: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDatabaseToChunk(row))
+  }
+
+  private async runIndexing(
+    projectId: string,
+    snapshot: { source: CodeIndexStatus['source']; repository?: string; ref?: string; commit_sha?: string },
+    options: IndexOptions,
+    build: () => Promise<RepositoryIndex>
+  ): Promise<CodeIndexStatus> {
+    const supabase = await this.getSupabase()
+
+    const { data: current } = await supabase
+      .from('code_indexes')
+      .select('status, started_at')
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    if (current?.status === 'indexing' && Date.now() - new Date(current.started_at).getTime() < STALE_INDEXING_MS) {
+      throw new Error('This project is already being indexed')
+    }
+
+    const { error: startError } = await supabase
+      .from('code_indexes')
+      .upsert({
+        project_id: projectId,
+        ref: null,
+        commit_sha: null,
+        ...snapshot,
+        status: 'indexing',
+        error: null,
+        started_at: new Date().toISOString(),
+        completed_at: null
+      })
+
+    if (startError) {
+      throw new Error(`Failed to start indexing: ${startError.message}`)
+    }
+
+    const settings = { excludePatterns: options.excludePatterns || [], maxFileSize: options.maxFileSize }
+    let result
+    let replacing = false
+    try {
+      const index = await build()
+      replacing = true
+      await this.replaceChunks(projectId, index.chunks)
+
+      result = {
+        status: 'ready',
+        file_count: index.files.length,
+        chunk_count: index.chunks.length,
+        skipped_count: index.skipped.length,
+        metadata: { ...settings, files: index.files, skipped: index.skipped.slice(0, SKIPPED_SAMPLE_SIZE) }
+      }
+    } catch (error) {
+      console.error(`Error indexing code for project ${projectId}:`, error)
+      result = {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Indexing failed',
+        // The previous index stays usable unless storing the new one had begun
+        ...(replacing && { file_count: 0, chunk_count: 0, skipped_count: 0, metadata: { ...settings, files: [], skipped: [] } })
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('code_indexes')
+      .update({ ...result, completed_at: new Date().toISOString() })
+      .eq('project_id', projectId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error('Failed to save index status')
+    }
+
+    return this.mapDatabaseToStatus(data)
+  }
+
+  private async replaceChunks(projectId: string, chunks: CodeChunk[]): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error: deleteError } = await supabase
+      .from('code_chunks')
+      .delete()
+      .eq('project_id', projectId)
+
+    if (deleteError) {
+      throw new Error(`Failed to clear the previous index: ${deleteError.message}`)
+    }
+
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE)
+
+      // Without embeddings the chunks are still found by keyword
+      let embeddings: number[][] | null = null
+      try {
+        embeddings = await embedTexts(this.embeddings, batch.map(chunk =>
+          `${chunk.filePath}\n${chunk.symbols.join(', ')}\n\n${chunk.content}`
+        ))
+      } catch (error) {
+        console.error('Failed to embed code chunks:', error)
+      }
+
+      for (let j = 0; j < batch.length; j += INSERT_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('code_chunks')
+          .insert(batch.slice(j, j + INSERT_BATCH_SIZE).map((chunk, index) => ({
+            project_id: projectId,
+            file_path: chunk.filePath,
+            language: chunk.language,
+            symbols: chunk.symbols,
+            start_line: chunk.startLine,
+            end_line: chunk.endLine,
+            content: chunk.content,
+            embedding: embeddings ? JSON.stringify(embeddings[j + index]) : null,
+            provider: embeddings ? this.embeddings.id : null
+          })))
+
+        if (error) {
+          throw new Error(`Failed to store code chunks: ${error.message}`)
+        }
+      }
+    }
+  }
+
+  /**
+   * Everyone on the project may read the index; rebuilding it needs a role
+   * other than viewer
+   */
+  private async checkAccess(userId: string, projectId: string, write: boolean = false): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .maybeSingle()
+
+    if (project?.user_id === userId) {
+      return
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!membership) {
+      throw new Error('Access denied to project')
+    }
+    if (write && membership.role === 'viewer') {
+      throw new Error('Access denied: viewers cannot index code')
+    }
+  }
+
+  private mapDatabaseToChunk(data: any): CodeChunkMatch {
+    return {
+      id: data.id,
+      filePath: data.file_path,
+      language: data.language,
+      symbols: data.symbols || [],
+      startLine: data.start_line,
+      endLine: data.end_line,
+      content: data.content
+    }
+  }
+
+  private mapDatabaseToStatus(data: any): CodeIndexStatus {
+    return {
+      projectId: data.project_id,
+      source: data.source,
+      repository: data.repository || undefined,
+      ref: data.ref || undefined,
+      commitSha: data.commit_sha || undefined,
+      status: data.status,
+      fileCount: data.file_count,
+      chunkCount: data.chunk_count,
+      skippedCount: data.skipped_count,
+      files: data.metadata?.files || [],
+      skipped: data.metadata?.skipped || [],
+      excludePatterns: data.metadata?.excludePatterns || [],
+      maxFileSize: data.metadata?.maxFileSize,
+      error: data.error || undefined,
+      startedAt: data.started_at,
+      completedAt: data.completed_at || undefined
+    }
+  }
+}
+
+// Export singleton instance
+export const codeIndexService = new CodeIndexService()
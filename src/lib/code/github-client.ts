@@ -0,0 +1,99 @@
+import { config } from '@/lib/config'
+
+export interface GitHubRepository {
+  owner: string
+  repo: string
+}
+
+export interface GitHubTreeEntry {
+  path: string
+  type: 'blob' | 'tree' | 'commit'
+  size?: number
+}
+
+/**
+ * The GitHub calls the repository indexer makes. Tests pass an in-memory
+ * implementation so indexing runs offline.
+ */
+export interface GitHubClient {
+  getDefaultBranch(repository: GitHubRepository): Promise<string>
+  // Commit SHA the branch or tag currently points at
+  resolveRef(repository: GitHubRepository, ref: string): Promise<string>
+  getTree(repository: GitHubRepository, sha: string): Promise<{ entries: GitHubTreeEntry[]; truncated: boolean }>
+  getFile(repository: GitHubRepository, path: string, sha: string): Promise<Buffer>
+}
+
+/**
+ * Owner and name from a repository URL or an "owner/repo" shorthand
+ */
+export function parseGitHubRepository(value: string): GitHubRepository | null {
+  const match = value.trim().match(
+    /^(?:(?:https?:\/\/)?(?:www\.)?github\.com\/|git@github\.com:)?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?(?:[#?].*)?$/i
+  )
+  if (!match) return null
+
+  return { owner: match[1], repo: match[2] }
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/')
+}
+
+export class RestGitHubClient implements GitHubClient {
+  constructor(private token: string | undefined = config.github.token) {}
+
+  async getDefaultBranch({ owner, repo }: GitHubRepository): Promise<string> {
+    const response = await this.request(`/repos/${owner}/${repo}`)
+    return (await response.json()).default_branch
+  }
+
+  async resolveRef({ owner, repo }: GitHubRepository, ref: string): Promise<string> {
+    const response = await this.request(
+      `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+      'application/vnd.github.sha'
+    )
+    return (await response.text()).trim()
+  }
+
+  async getTree({ owner, repo }: GitHubRepository, sha: string) {
+    const response = await this.request(`/repos/${owner}/${repo}/git/trees/${sha}?recursive=1`)
+    const data = await response.json() as { tree: GitHubTreeEntry[]; truncated: boolean }
+    return { entries: data.tree, truncated: data.truncated }
+  }
+
+  async getFile({ owner, repo }: GitHubRepository, path: string, sha: string): Promise<Buffer> {
+    // Raw downloads don't count against the API rate limit, but only work
+    // for public repositories
+    const response = this.token
+      ? await this.request(`/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${sha}`, 'application/vnd.github.raw')
+      : await fetch(`https://raw.githubusercontent.com/${owner}/${repo}/${sha}/${encodePath(path)}`)
+
+    if (!response.ok) {
+      throw new Error(`GitHub error ${response.status} reading ${path}`)
+    }
+
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  private async request(path: string, accept: string = 'application/vnd.github+json'): Promise<Response> {
+    const response = await fetch(`https://api.github.com${path}`, {
+      headers: {
+        'Accept': accept,
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(this.token && { 'Authorization': `Bearer ${this.token}` })
+      }
+    })
+
+    if (response.status === 404) {
+      throw new Error('Repository or branch not found. Private repositories need GITHUB_TOKEN to be set.')
+    }
+    if (response.status === 403 || response.status === 429) {
+      throw new Error('GitHub refused the request: rate limit exceeded or no permission')
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${await response.text()}`)
+    }
+
+    return response
+  }
+}
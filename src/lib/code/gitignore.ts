@@ -0,0 +1,123 @@
+interface IgnoreRule {
+  // Directory of the .gitignore the rule came from, '' for the root
+  base: string
+  pattern: RegExp
+  negate: boolean
+  directoryOnly: boolean
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|\\]/g, '\\$&')
+}
+
+// Translate a gitignore glob into a regular expression source
+function globToRegExp(glob: string): string {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/'
+      const atEnd = i + 2 === glob.length
+      if (atStart && glob[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?'
+        i += 2
+      } else if (atStart && atEnd) {
+        source += '.*'
+        i += 1
+      } else {
+        source += '[^/]*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')
+        source += `[${set}]`
+        i = end
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1])
+      i += 1
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return source
+}
+
+/**
+ * Rules from one .gitignore file, in file order
+ */
+export function parseGitignore(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    const negate = line.startsWith('!')
+    if (negate) line = line.slice(1)
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1)
+
+    const directoryOnly = line.endsWith('/')
+    if (directoryOnly) line = line.slice(0, -1)
+    if (!line) continue
+
+    // A slash anywhere but the end ties the pattern to the .gitignore's directory
+    const anchored = line.includes('/')
+    line = line.replace(/^\//, '')
+
+    const source = globToRegExp(line)
+    rules.push({
+      base,
+      pattern: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negate,
+      directoryOnly
+    })
+  }
+
+  return rules
+}
+
+/**
+ * A matcher for the .gitignore files of a repository, given as paths and
+ * contents. Like git, a file in an ignored directory stays ignored even if a
+ * later rule would re-include it.
+ */
+export function createIgnoreMatcher(gitignores: { path: string; content: string }[]): (path: string) => boolean {
+  // Shallower files first, so deeper rules override them
+  const rules = gitignores
+    .map(file => ({ ...file, base: file.path.split('/').slice(0, -1).join('/') }))
+    .sort((a, b) => a.base.split('/').length - b.base.split('/').length || a.base.localeCompare(b.base))
+    .flatMap(file => parseGitignore(file.content, file.base))
+
+  const isIgnored = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue
+
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path
+      if (rule.pattern.test(relative)) {
+        ignored = !rule.negate
+      }
+    }
+    return ignored
+  }
+
+  return (path: string) => {
+    const parts = path.split('/')
+    for (let i = 1; i < parts.length; i++) {
+      if (isIgnored(parts.slice(0, i).join('/'), true)) return true
+    }
+    return isIgnored(path, false)
+  }
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { config } from '@/lib/config'
+import { isAlwaysIgnored, RepositorySource } from './repository-indexer'
+
+// Directory walks stop after this many files, well past what gets indexed
+const MAX_LISTED_FILES = 20000
+
+/**
+ * Resolve a path the server may import code from. Paths must exist and sit
+ * inside the configured import root once symlinks are resolved.
+ */
+export async function resolveLocalPath(requested: string, root: string | undefined = config.codeImport.localRoot): Promise<string> {
+  if (!root) {
+    throw new Error('Importing from a local path is not enabled on this server')
+  }
+
+  let resolvedRoot
+  let resolved
+  try {
+    resolvedRoot = await fs.realpath(root)
+    resolved = await fs.realpath(path.resolve(resolvedRoot, requested))
+  } catch {
+    throw new Error(`Local path not found: ${requested}`)
+  }
+
+  const relative = path.relative(resolvedRoot, resolved)
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error('Access denied: the path is outside the directory code can be imported from')
+  }
+  if (!(await fs.stat(resolved)).isDirectory()) {
+    throw new Error(`Local path not found: ${requested} is not a directory`)
+  }
+
+  return resolved
+}
+
+/**
+ * A directory on the server's disk, as a source for indexRepository.
+ * Symlinks are not followed, so nothing outside the directory is read.
+ */
+export function localDirectorySource(directory: string): RepositorySource {
+  return {
+    async listFiles() {
+      const files: { path: string; size: number }[] = []
+      const pending = ['']
+
+      while (pending.length > 0 && files.length < MAX_LISTED_FILES) {
+        const relativeDirectory = pending.pop()!
+        const entries = await fs.readdir(path.join(directory, relativeDirectory), { withFileTypes: true })
+
+        for (const entry of entries) {
+          const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name
+
+          if (entry.isDirectory()) {
+            // Skipping these here saves walking node_modules and the like
+            if (!isAlwaysIgnored(`${relativePath}/`)) pending.push(relativePath)
+          } else if (entry.isFile()) {
+            const { size } = await fs.stat(path.join(directory, relativePath))
+            files.push({ path: relativePath, size })
+          }
+        }
+      }
+
+      return files
+    },
+    readFile: relativePath => fs.readFile(path.join(directory, relativePath))
+  }
+}
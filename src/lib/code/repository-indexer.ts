@@ -0,0 +1,169 @@
+import { chunkCode, CodeChunk, detectLanguage } from './code-chunker'
+import { createIgnoreMatcher } from './gitignore'
+import type { GitHubClient, GitHubRepository } from './github-client'
+
+/**
+ * Files of a repository snapshot, wherever it comes from
+ */
+export interface RepositorySource {
+  listFiles(): Promise<{ path: string; size?: number }[]>
+  readFile(path: string): Promise<Buffer>
+}
+
+export interface SkippedFile {
+  path: string
+  reason: 'ignored' | 'excluded' | 'binary' | 'too_large' | 'limit' | 'unreadable'
+}
+
+export interface IndexedFile {
+  path: string
+  language: string
+  size: number
+  chunkCount: number
+}
+
+export interface RepositoryIndex {
+  chunks: CodeChunk[]
+  files: IndexedFile[]
+  skipped: SkippedFile[]
+}
+
+export interface IndexOptions {
+  // Gitignore-style patterns applied on top of the repository's own
+  excludePatterns?: string[]
+  maxFileSize?: number
+}
+
+export const MAX_INDEXED_FILES = 1000
+export const MAX_INDEXED_FILE_SIZE = 256 * 1024 // 256KB
+// Upper bound for a per-import maxFileSize
+export const MAX_FILE_SIZE_LIMIT = 1024 * 1024 // 1MB
+
+// Fetched files are read this many at a time
+const READ_CONCURRENCY = 8
+
+// Skipped even without a .gitignore saying so
+const ALWAYS_IGNORED = /(^|\/)(\.git|node_modules|vendor|dist|build|\.next|coverage|__pycache__|\.venv)\//
+
+const LOCK_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|Gemfile\.lock|composer\.lock|go\.sum)$/
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'ico', 'bmp', 'tiff', 'psd', 'svgz',
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar', 'war',
+  'exe', 'dll', 'so', 'dylib', 'bin', 'o', 'a', 'class', 'pyc', 'wasm',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'mp3', 'mp4', 'wav', 'ogg', 'mov', 'avi', 'webm', 'flac',
+  'sqlite', 'db', 'lockb'
+])
+
+export function isAlwaysIgnored(path: string): boolean {
+  return ALWAYS_IGNORED.test(path) || LOCK_FILES.test(path)
+}
+
+export function isBinaryPath(path: string): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return BINARY_EXTENSIONS.has(extension) || /\.min\.(js|css)$/.test(path)
+}
+
+// Binary files almost always contain a NUL byte near the start
+export function looksBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0)
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  })
+  await Promise.all(workers)
+  return results
+}
+
+/**
+ * Read and chunk the source files of a repository, leaving out what its
+ * .gitignore files or the exclude patterns match, binaries, generated and
+ * vendored directories and oversized files
+ */
+export async function indexRepository(source: RepositorySource, options: IndexOptions = {}): Promise<RepositoryIndex> {
+  const files = await source.listFiles()
+  const skipped: SkippedFile[] = []
+  const maxFileSize = Math.min(options.maxFileSize ?? MAX_INDEXED_FILE_SIZE, MAX_FILE_SIZE_LIMIT)
+
+  const gitignores = await Promise.all(
+    files
+      .filter(file => file.path === '.gitignore' || file.path.endsWith('/.gitignore'))
+      .filter(file => !ALWAYS_IGNORED.test(file.path))
+      .map(async file => ({ path: file.path, content: (await source.readFile(file.path)).toString('utf8') }))
+  )
+  const isIgnored = createIgnoreMatcher(gitignores)
+  const isExcluded = createIgnoreMatcher([{ path: '.gitignore', content: (options.excludePatterns || []).join('\n') }])
+
+  const candidates: string[] = []
+  for (const file of files) {
+    if (isAlwaysIgnored(file.path) || isIgnored(file.path)) {
+      skipped.push({ path: file.path, reason: 'ignored' })
+    } else if (isExcluded(file.path)) {
+      skipped.push({ path: file.path, reason: 'excluded' })
+    } else if (isBinaryPath(file.path)) {
+      skipped.push({ path: file.path, reason: 'binary' })
+    } else if ((file.size ?? 0) > maxFileSize) {
+      skipped.push({ path: file.path, reason: 'too_large' })
+    } else if (candidates.length >= MAX_INDEXED_FILES) {
+      skipped.push({ path: file.path, reason: 'limit' })
+    } else {
+      candidates.push(file.path)
+    }
+  }
+
+  const contents = await mapWithConcurrency(candidates, READ_CONCURRENCY, async path => {
+    try {
+      return await source.readFile(path)
+    } catch (error) {
+      console.error(`Failed to read ${path}:`, error)
+      return null
+    }
+  })
+
+  const chunks: CodeChunk[] = []
+  const indexed: IndexedFile[] = []
+  candidates.forEach((path, index) => {
+    const content = contents[index]
+    if (!content) {
+      skipped.push({ path, reason: 'unreadable' })
+    } else if (looksBinary(content)) {
+      skipped.push({ path, reason: 'binary' })
+    } else if (content.length > maxFileSize) {
+      skipped.push({ path, reason: 'too_large' })
+    } else {
+      const fileChunks = chunkCode(path, content.toString('utf8'))
+      chunks.push(...fileChunks)
+      indexed.push({ path, language: detectLanguage(path), size: content.length, chunkCount: fileChunks.length })
+    }
+  })
+
+  return { chunks, files: indexed, skipped }
+}
+
+/**
+ * A GitHub repository at one commit, as a source for indexRepository
+ */
+export function gitHubSource(client: GitHubClient, repository: GitHubRepository, sha: string): RepositorySource {
+  return {
+    async listFiles() {
+      const { entries, truncated } = await client.getTree(repository, sha)
+      if (truncated) {
+        console.warn(`GitHub truncated the tree of ${repository.owner}/${repository.repo}; some files won't be indexed`)
+      }
+      return entries
+        .filter(entry => entry.type === 'blob')
+        .map(entry => ({ path: entry.path, size: entry.size }))
+    },
+    readFile: path => client.getFile(repository, path, sha)
+  }
+}
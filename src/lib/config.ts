@@ -30,12 +30,31 @@ export const config = {
     straico: {
       apiKey: process.env.STRAICO_API_KEY!,
     },
+    // Embeddings for knowledge retrieval: "local" or "openai"
+    embeddings: {
+      provider: process.env.EMBEDDING_PROVIDER || 'local',
+      model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    },
+    // Custom endpoints may only reach public addresses unless a self-hosted
+    // server allows its own network, e.g. for an Ollama beside the app
+    customEndpoints: {
+      allowPrivateNetwork: process.env.CUSTOM_ENDPOINT_ALLOW_PRIVATE_NETWORK === 'true',
+    },
   },
 
   // GitHub Integration
   github: {
     clientId: process.env.GITHUB_CLIENT_ID!,
     clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+    // Optional; needed for private repositories and higher API rate limits
+    token: process.env.GITHUB_TOKEN,
+  },
+
+  // Code Import
+  codeImport: {
+    // Directory a self-hosted server may index local code from; unset
+    // disables local path imports
+    localRoot: process.env.CODE_IMPORT_LOCAL_ROOT,
   },
 
   // Security
@@ -0,0 +1,34 @@
+import { LocalEmbeddingProvider, cosineSimilarity } from '@/lib/ai/embeddings'
+import { VECTOR_WEIGHT, bestChunkByDocument, hybridScore } from '../hybrid-retrieval'
+
+describe('Hybrid retrieval', () => {
+  test('should keep the keyword score for documents without embeddings', () => {
+    expect(hybridScore(0.4)).toBe(0.4)
+    expect(hybridScore(0.4, 0.9)).toBeCloseTo(VECTOR_WEIGHT * 0.9 + (1 - VECTOR_WEIGHT) * 0.4)
+    expect(hybridScore(0.4, -0.2)).toBeCloseTo((1 - VECTOR_WEIGHT) * 0.4)
+  })
+
+  test('should rank a paraphrased match above an unrelated document with the local embedder', async () => {
+    const provider = new LocalEmbeddingProvider(512)
+    const [query, related, unrelated] = await Promise.all([
+      provider.embed('How do users authenticate?'),
+      provider.embed('Authentication: sign in with email and password, then a session token is issued'),
+      provider.embed('Deployment runs on Vercel with preview builds for every branch')
+    ])
+
+    // Neither document shares a keyword with the question
+    expect(hybridScore(0, cosineSimilarity(query, related)))
+      .toBeGreaterThan(hybridScore(0, cosineSimilarity(query, unrelated)))
+  })
+
+  test('should keep the most similar chunk of each document', () => {
+    const best = bestChunkByDocument([
+      { knowledgeId: 'a', chunkIndex: 0, content: 'intro', similarity: 0.2 },
+      { knowledgeId: 'b', chunkIndex: 0, content: 'other', similarity: 0.5 },
+      { knowledgeId: 'a', chunkIndex: 3, content: 'details', similarity: 0.7 }
+    ])
+
+    expect(best.get('a')?.chunkIndex).toBe(3)
+    expect(best.get('b')?.content).toBe('other')
+  })
+})
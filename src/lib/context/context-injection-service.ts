@@ -1,5 +1,9 @@
 import { createClient } from '@/lib/supabase/server'
 import type { Project, KnowledgeDocument, ProjectAsset } from '@/types'
+import { knowledgeEmbeddingIndex } from '@/lib/knowledge/embedding-index'
+import { bestChunkByDocument, hybridScore } from './hybrid-retrieval'
+import { codeIndexService } from '@/lib/code/code-index-service'
+import { extractDependencies, findRelevantLines } from '@/lib/code/code-context'
 
 export interface ContextItem {
   id: string
@@ -29,6 +33,20 @@ export interface ContextAnalysisResult {
   estimatedTokens: number
 }
 
+// An item as recorded in context_injection_logs metadata
+export interface InjectedContextItem {
+  type: string
+  title: string
+  relevanceScore: number
+}
+
+// The context a client picked for a chat request: the message it was
+// retrieved for and the ids of the items to include
+export interface ContextSelection {
+  query: string
+  itemIds: string[]
+}
+
 export interface CodeContext {
   filePath: string
   content: string
@@ -38,7 +56,9 @@ export interface CodeContext {
 }
 
 export class ContextInjectionService {
-  private supabase = createClient()
+  private async getSupabase() {
+    return await createClient()
+  }
 
   /**
    * Analyze user message and suggest relevant context
@@ -154,43 +174,71 @@ export class ContextInjectionService {
   }
 
   /**
-   * Get code context from GitHub repository or local files
+   * Context for a chat request's system prompt, rebuilt from the project's
+   * own data: the query is analyzed again and only the picked items are kept,
+   * so the text that reaches the prompt is never written by the client
+   */
+  async getSelectedContext(
+    userId: string,
+    projectId: string,
+    selection: ContextSelection
+  ): Promise<string> {
+    if (selection.itemIds.length === 0) {
+      return ''
+    }
+
+    const { suggestedContext } = await this.analyzeMessageForContext(userId, projectId, selection.query, {
+      maxItems: Infinity,
+      minRelevanceScore: 0
+    })
+    const picked = new Set(selection.itemIds)
+
+    return this.getFormattedContext(suggestedContext.filter(item => picked.has(item.id)), 'markdown')
+  }
+
+  /**
+   * Get code context for files from the project's code index. Without file
+   * paths, the files with chunks matching the query are used.
    */
   async getCodeContext(
     projectId: string,
     filePaths: string[],
     query?: string
   ): Promise<CodeContext[]> {
-    // This would integrate with GitHub API or local file system
-    // For now, return mock data structure
-    const codeContexts: CodeContext[] = []
-
-    // Get project to check for GitHub integration
-    const { data: project } = await this.supabase
-      .from('projects')
-      .select('github_repo, local_path, settings')
-      .eq('id', projectId)
-      .single()
-
-    if (!project) {
-      throw new Error('Project not found')
-    }
-
-    // If GitHub repo is connected, fetch from GitHub
-    if (project.github_repo) {
-      // TODO: Implement GitHub API integration
-      // const githubContext = await this.getGitHubCodeContext(project.github_repo, filePaths, query)
-      // codeContexts.push(...githubContext)
+    const keywords = query ? this.extractKeywords(query) : []
+
+    let chunks
+    if (filePaths.length > 0) {
+      chunks = await codeIndexService.getFileChunks(projectId, filePaths)
+    } else if (query) {
+      const { matches } = await codeIndexService.searchChunks(projectId, query, keywords)
+      chunks = await codeIndexService.getFileChunks(
+        projectId,
+        Array.from(new Set(matches.map(match => match.filePath)))
+      )
+    } else {
+      return []
     }
 
-    // If local path is configured, read local files
-    if (project.local_path) {
-      // TODO: Implement local file system integration
-      // const localContext = await this.getLocalCodeContext(project.local_path, filePaths, query)
-      // codeContexts.push(...localContext)
+    const byFile = new Map<string, typeof chunks>()
+    for (const chunk of chunks) {
+      byFile.set(chunk.filePath, [...(byFile.get(chunk.filePath) || []), chunk])
     }
 
-    return codeContexts
+    return Array.from(byFile.entries()).map(([filePath, fileChunks]) => {
+      const content = fileChunks.map(chunk => chunk.content).join('\n')
+      const language = fileChunks[0].language
+
+      return {
+        filePath,
+        content,
+        language,
+        relevantLines: fileChunks.flatMap(chunk =>
+          findRelevantLines(chunk.content, chunk.startLine, keywords)
+        ),
+        dependencies: extractDependencies(content, language)
+      }
+    })
   }
 
   /**
@@ -236,7 +284,8 @@ export class ContextInjectionService {
     userMessage: string
   ): Promise<void> {
     // Store feedback for improving relevance scoring
-    const { error } = await this.supabase
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
       .from('context_feedback')
       .insert({
         user_id: userId,
@@ -251,10 +300,67 @@ export class ContextInjectionService {
     }
   }
 
+  /**
+   * Record the context that was sent with a chat message, as formatted into
+   * its system prompt by getFormattedContext
+   */
+  async logInjection(
+    userId: string,
+    log: {
+      projectId: string
+      conversationId: string
+      messageId: string
+      userMessage: string
+      injectedContext: string
+    }
+  ): Promise<void> {
+    const items = this.parseInjectedContext(log.injectedContext)
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('context_injection_logs')
+      .insert({
+        user_id: userId,
+        project_id: log.projectId,
+        conversation_id: log.conversationId,
+        user_message: log.userMessage,
+        context_items_count: items.length,
+        total_relevance_score: items.reduce((sum, item) => sum + item.relevanceScore, 0),
+        estimated_tokens: Math.ceil(log.injectedContext.length / 4),
+        context_types: Array.from(new Set(items.map(item => item.type))),
+        injection_method: 'automatic',
+        metadata: { messageId: log.messageId, items: items.map(item => ({ ...item })) }
+      })
+
+    if (error) {
+      console.error('Failed to log context injection:', error)
+    }
+  }
+
   // Private helper methods
 
+  /**
+   * The items in context formatted by formatContextAsMarkdown
+   */
+  private parseInjectedContext(markdown: string): InjectedContextItem[] {
+    const items: InjectedContextItem[] = []
+    let type = ''
+
+    for (const line of markdown.split('\n')) {
+      const heading = line.match(/^### (\w+)$/)
+      const item = line.match(/^\*\*(.+)\*\* \(Relevance: (\d+)%\)$/)
+      if (heading) {
+        type = heading[1].toLowerCase()
+      } else if (item && type) {
+        items.push({ type, title: item[1], relevanceScore: Number(item[2]) / 100 })
+      }
+    }
+    return items
+  }
+
   private async verifyProjectAccess(userId: string, projectId: string): Promise<void> {
-    const { data: project } = await this.supabase
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
       .from('projects')
       .select('user_id')
       .eq('id', projectId)
@@ -262,7 +368,7 @@ export class ContextInjectionService {
 
     if (!project || project.user_id !== userId) {
       // Check if user is a project member
-      const { data: member } = await this.supabase
+      const { data: member } = await supabase
         .from('project_members')
         .select('id')
         .eq('project_id', projectId)
@@ -334,33 +440,41 @@ export class ContextInjectionService {
     keywords: string[],
     topics: string[]
   ): Promise<ContextItem[]> {
-    const { data: knowledgeItems } = await this.supabase
-      .from('project_knowledge')
-      .select('*')
-      .eq('project_id', projectId)
+    const supabase = await this.getSupabase()
+    const [{ data: knowledgeItems }, vectorMatches] = await Promise.all([
+      supabase
+        .from('project_knowledge')
+        .select('*')
+        .eq('project_id', projectId),
+      this.searchKnowledgeEmbeddings(projectId, message)
+    ])
 
     if (!knowledgeItems) return []
 
     return knowledgeItems
       .map(item => {
-        const relevanceScore = this.calculateRelevanceScore(
+        const keywordScore = this.calculateRelevanceScore(
           message,
           item.title + ' ' + (item.content || ''),
           keywords,
           topics
         )
+        const match = vectorMatches?.matches.get(item.id)
+        const similarity = match?.similarity ?? (vectorMatches?.indexed.has(item.id) ? 0 : undefined)
 
         return {
           id: item.id,
           type: 'knowledge' as const,
           title: item.title,
-          content: item.content || '',
-          relevanceScore,
+          // The matching chunk rather than the start of a long document
+          content: match?.content || item.content || '',
+          relevanceScore: hybridScore(keywordScore, similarity),
           source: `Knowledge Base - ${item.category}`,
           metadata: {
             category: item.category,
             fileUrl: item.file_url,
-            ...item.metadata
+            ...item.metadata,
+            ...(match && { matchedChunk: match.chunkIndex, similarity: match.similarity })
           },
           createdAt: new Date(item.created_at)
         }
@@ -368,15 +482,68 @@ export class ContextInjectionService {
       .filter(item => item.relevanceScore > 0)
   }
 
+  /**
+   * Best-matching chunk per document and the documents that have embeddings,
+   * or null when vector search is unavailable and keyword scoring has to do
+   */
+  private async searchKnowledgeEmbeddings(projectId: string, message: string) {
+    try {
+      const [matches, indexed] = await Promise.all([
+        knowledgeEmbeddingIndex.search(projectId, message),
+        knowledgeEmbeddingIndex.getIndexedDocumentIds(projectId)
+      ])
+      return { matches: bestChunkByDocument(matches), indexed }
+    } catch (error) {
+      console.error('Knowledge vector search failed, using keyword scores:', error)
+      return null
+    }
+  }
+
   private async getRelevantCodeContext(
     projectId: string,
     message: string,
     keywords: string[],
     topics: string[]
   ): Promise<ContextItem[]> {
-    // This would integrate with actual code repositories
-    // For now, return empty array as code integration is not yet implemented
-    return []
+    let result
+    try {
+      result = await codeIndexService.searchChunks(projectId, message, keywords)
+    } catch (error) {
+      console.error('Code search failed:', error)
+      return []
+    }
+
+    return result.matches
+      .map(chunk => {
+        const keywordScore = this.calculateRelevanceScore(
+          message,
+          `${chunk.filePath} ${chunk.symbols.join(' ')} ${chunk.content}`,
+          keywords,
+          topics
+        )
+        const similarity = chunk.similarity ?? (result.vectorSearched ? 0 : undefined)
+        const symbols = chunk.symbols.length > 0 ? ` (${chunk.symbols.join(', ')})` : ''
+
+        return {
+          id: chunk.id,
+          type: 'code' as const,
+          title: `${chunk.filePath}:${chunk.startLine}-${chunk.endLine}${symbols}`,
+          content: chunk.content,
+          relevanceScore: hybridScore(keywordScore, similarity),
+          source: `Code - ${chunk.filePath}`,
+          metadata: {
+            filePath: chunk.filePath,
+            language: chunk.language,
+            symbols: chunk.symbols,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            relevantLines: findRelevantLines(chunk.content, chunk.startLine, keywords),
+            ...(chunk.similarity !== undefined && { similarity: chunk.similarity })
+          },
+          createdAt: new Date()
+        }
+      })
+      .filter(item => item.relevanceScore > 0)
   }
 
   private async getRelevantAssets(
@@ -385,7 +552,8 @@ export class ContextInjectionService {
     keywords: string[],
     topics: string[]
   ): Promise<ContextItem[]> {
-    const { data: assets } = await this.supabase
+    const supabase = await this.getSupabase()
+    const { data: assets } = await supabase
       .from('project_assets')
       .select('*')
       .eq('project_id', projectId)
@@ -427,7 +595,8 @@ export class ContextInjectionService {
     topics: string[]
   ): Promise<ContextItem[]> {
     // Get recent conversations from the project
-    const { data: conversations } = await this.supabase
+    const supabase = await this.getSupabase()
+    const { data: conversations } = await supabase
       .from('conversations')
       .select(`
         *,
@@ -552,7 +721,11 @@ export class ContextInjectionService {
         formatted += `**${item.title}** (Relevance: ${(item.relevanceScore * 100).toFixed(0)}%)\n`
         formatted += `*Source: ${item.source}*\n\n`
         
-        if (item.content) {
+        if (item.type === 'code' && item.content) {
+          // Code is only useful whole, so it gets more room and keeps its formatting
+          const code = item.content.substring(0, 1500)
+          formatted += `\`\`\`${item.metadata.language || ''}\n${code}${item.content.length > 1500 ? '\n...' : ''}\n\`\`\`\n\n`
+        } else if (item.content) {
           formatted += `${item.content.substring(0, 500)}${item.content.length > 500 ? '...' : ''}\n\n`
         }
         
@@ -0,0 +1,31 @@
+import type { ChunkMatch } from '@/lib/knowledge/embedding-index'
+
+// Share of a document's relevance that comes from vector similarity when it
+// has embeddings; the rest is the keyword score
+export const VECTOR_WEIGHT = 0.7
+
+/**
+ * Relevance from a keyword score and, when the document has embeddings, the
+ * similarity of its best chunk. Documents without embeddings keep their
+ * keyword score, so they aren't buried while the index catches up.
+ */
+export function hybridScore(keywordScore: number, similarity?: number): number {
+  if (similarity === undefined) return keywordScore
+
+  const vectorScore = Math.min(Math.max(similarity, 0), 1)
+  return VECTOR_WEIGHT * vectorScore + (1 - VECTOR_WEIGHT) * keywordScore
+}
+
+/**
+ * The most similar chunk of each matched document
+ */
+export function bestChunkByDocument(matches: ChunkMatch[]): Map<string, ChunkMatch> {
+  const best = new Map<string, ChunkMatch>()
+  for (const match of matches) {
+    const current = best.get(match.knowledgeId)
+    if (!current || match.similarity > current.similarity) {
+      best.set(match.knowledgeId, match)
+    }
+  }
+  return best
+}
@@ -0,0 +1,105 @@
+const chatCompletion = jest.fn()
+const updates: Record<string, unknown>[] = []
+let storedMetadata: Record<string, unknown> = {}
+
+jest.mock('@/lib/ai/abstraction-layer', () => ({
+  aiAbstractionLayer: { chatCompletion: (...args: unknown[]) => chatCompletion(...args) }
+}))
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: async () => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: { metadata: storedMetadata }, error: null }) })
+      }),
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(values)
+          storedMetadata = values.metadata as Record<string, unknown>
+          return { error: null }
+        }
+      })
+    })
+  })
+}))
+
+import { ConversationMemory, planCompaction } from '../conversation-memory'
+import type { ChatMessage } from '@/types'
+
+function message(index: number, size = 400): ChatMessage {
+  return {
+    id: `m${index}`,
+    projectId: 'project-1',
+    conversationId: 'conversation-1',
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: 'x'.repeat(size),
+    provider: 'openai',
+    model: 'gpt-4',
+    metadata: {},
+    threadDepth: index,
+    isBranchPoint: false,
+    createdAt: new Date(2025, 0, 1, 12, index)
+  }
+}
+
+describe('Conversation memory', () => {
+  beforeEach(() => {
+    chatCompletion.mockReset()
+    updates.length = 0
+    storedMetadata = { pinnedNote: 'kept' }
+  })
+
+  test('should leave history alone until it outgrows the budget', () => {
+    const history = Array.from({ length: 6 }, (_, i) => message(i))
+
+    expect(planCompaction(history, 1000).fold).toEqual([])
+
+    const { fold, keep } = planCompaction(history, 500)
+    expect(fold.length + keep.length).toBe(6)
+    expect(fold.length).toBeGreaterThan(0)
+    expect(keep[0].role).toBe('user')
+  })
+
+  test('should fold older turns into a saved summary and send the rest', async () => {
+    chatCompletion.mockResolvedValue({ content: ' - user wants tests ', provider: 'openai', model: 'gpt-4' })
+    const path = Array.from({ length: 40 }, (_, i) => message(i, 1200))
+
+    const { history, summary } = await new ConversationMemory().prepareHistory('user-1', {
+      conversationId: 'conversation-1',
+      projectId: 'project-1',
+      path,
+      providerId: 'credential-1'
+    })
+
+    const lastFolded = path[path.length - history.length - 1]
+    expect(history[history.length - 1].id).toBe('m39')
+    expect(summary).toMatchObject({ content: '- user wants tests', coversThroughMessageId: lastFolded.id })
+    expect(storedMetadata).toMatchObject({ pinnedNote: 'kept', summary: { coversThroughMessageId: lastFolded.id } })
+
+    // The next turn starts after the summary and fits, so nothing is re-summarized
+    const next = await new ConversationMemory().prepareHistory('user-1', {
+      conversationId: 'conversation-1',
+      projectId: 'project-1',
+      path: [...path, message(40, 100)],
+      providerId: 'credential-1'
+    })
+    expect(chatCompletion).toHaveBeenCalledTimes(1)
+    expect(next.history.map(m => m.id)).toEqual([...history.map(m => m.id), 'm40'])
+  })
+
+  test('should send uncompacted history when summarizing fails', async () => {
+    chatCompletion.mockRejectedValue(new Error('provider down'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const path = Array.from({ length: 40 }, (_, i) => message(i, 1200))
+
+    const { history, summary } = await new ConversationMemory().prepareHistory('user-1', {
+      conversationId: 'conversation-1',
+      projectId: 'project-1',
+      path,
+      providerId: 'credential-1'
+    })
+
+    expect(history).toHaveLength(40)
+    expect(summary).toBeUndefined()
+    expect(updates).toHaveLength(0)
+  })
+})
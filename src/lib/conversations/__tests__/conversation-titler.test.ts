@@ -0,0 +1,31 @@
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+jest.mock('@/lib/ai/abstraction-layer', () => ({ aiAbstractionLayer: {} }))
+jest.mock('@/lib/ai/model-router', () => ({ modelRouter: {} }))
+
+import { normalizeDetails, normalizeTag } from '../conversation-titler'
+
+describe('Conversation titler', () => {
+  test('should normalize tags to lowercase slugs', () => {
+    expect(normalizeTag(' #React Hooks ')).toBe('react-hooks')
+    expect(normalizeTag('C++')).toBe('c')
+  })
+
+  test('should tidy titles and reuse the project tag spelling', () => {
+    const details = normalizeDetails({
+      title: '"Debugging the Supabase auth redirect loop."',
+      description: 'The user   wants to fix a redirect loop after sign-in.',
+      tags: ['Auth', 'supabase', 'AUTH', 'nextjs', 'redirects', 'cookies']
+    }, ['Supabase', 'auth'])
+
+    expect(details.title).toBe('Debugging the Supabase auth redirect loop')
+    expect(details.description).toBe('The user wants to fix a redirect loop after sign-in.')
+    expect(details.tags).toEqual(['auth', 'Supabase', 'nextjs', 'redirects'])
+  })
+
+  test('should clip long titles', () => {
+    const { title } = normalizeDetails({ title: 'word '.repeat(30), description: '', tags: [] }, [])
+
+    expect(title.length).toBeLessThanOrEqual(60)
+    expect(title.endsWith('…')).toBe(true)
+  })
+})
@@ -0,0 +1,53 @@
+import { getAncestorPath, getSelectedPath, getSelectedPaths } from '../message-tree'
+
+function message(id: string, parentMessageId: string | undefined, minute: number, selectedMinute?: number) {
+  return {
+    id,
+    parentMessageId,
+    conversationId: 'conversation-1',
+    createdAt: new Date(2025, 0, 1, 12, minute),
+    selectedAt: selectedMinute === undefined ? undefined : new Date(2025, 0, 1, 12, selectedMinute),
+  }
+}
+
+describe('Message tree', () => {
+  // u1 -> a1 (regenerated as a2) -> u2 under a1, u3 under a2
+  const thread = [
+    message('u1', undefined, 0),
+    message('a1', 'u1', 1),
+    message('u2', 'a1', 2),
+    message('a2', 'u1', 3),
+    message('u3', 'a2', 4),
+  ]
+
+  test('should follow the newest version by default', () => {
+    const path = getSelectedPath(thread)
+
+    expect(path.map(m => m.id)).toEqual(['u1', 'a2', 'u3'])
+    expect(path[1].versions).toEqual({ index: 2, count: 2, ids: ['a1', 'a2'] })
+    expect(path[0].versions).toBeUndefined()
+  })
+
+  test('should follow a version picked after newer ones were created', () => {
+    const picked = thread.map(m => m.id === 'a1' ? message('a1', 'u1', 1, 10) : m)
+    const path = getSelectedPath(picked)
+
+    expect(path.map(m => m.id)).toEqual(['u1', 'a1', 'u2'])
+    expect(path[1].versions?.index).toBe(1)
+  })
+
+  test('should walk up from a message to the root', () => {
+    expect(getAncestorPath(thread, 'u3').map(m => m.id)).toEqual(['u1', 'a2', 'u3'])
+    expect(getAncestorPath(thread, 'missing')).toEqual([])
+  })
+
+  test('should keep messages outside conversations and merge paths in time order', () => {
+    const legacy = { ...message('old', undefined, 5), conversationId: null }
+    const other = [
+      { ...message('x1', undefined, 6), conversationId: 'conversation-2' },
+    ]
+
+    expect(getSelectedPaths([...thread, legacy, ...other]).map(m => m.id))
+      .toEqual(['u1', 'a2', 'u3', 'old', 'x1'])
+  })
+})
@@ -0,0 +1,270 @@
+import { createClient } from '@/lib/supabase/server'
+import { aiAbstractionLayer } from '@/lib/ai/abstraction-layer'
+import { estimateMessageTokens } from '@/lib/ai/context-budget'
+import type { ChatMessage, RollingSummary } from '@/types'
+
+/**
+ * Rolling memory for long conversations. Once the turns after the summary
+ * outgrow a token budget, the older ones are folded into a running summary
+ * by the model; requests then send the summary plus the recent turns
+ * instead of the whole thread. The summary lives on the conversation's
+ * metadata, where the user can read and correct it.
+ */
+
+// Unsummarized history above this many estimated tokens gets compacted
+export const HISTORY_TOKEN_BUDGET = 6000
+// Share of the budget the verbatim recent turns may use after compacting
+const RECENT_SHARE = 0.5
+const MIN_RECENT_MESSAGES = 4
+const MAX_SUMMARY_TOKENS = 800
+// Long messages are clipped in the transcript given to the summarizer
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 4000
+
+const SUMMARY_HEADING = '## Conversation Summary\n'
+
+const SUMMARIZER_PROMPT = [
+  'You maintain a running summary of a conversation between a user and an AI assistant.',
+  'Merge the new messages into the current summary. Keep facts, decisions, requirements,',
+  'names, file paths and code identifiers, open questions and stated preferences; drop',
+  'greetings and repetition. Write terse bullet points, at most about 400 words, and reply',
+  'with the updated summary only.'
+].join(' ')
+
+type HistoryMessage = Pick<ChatMessage, 'id' | 'role' | 'content'>
+
+export interface CompactionPlan<T extends HistoryMessage> {
+  // Oldest messages, to be folded into the summary
+  fold: T[]
+  // Recent messages, sent as they are
+  keep: T[]
+}
+
+export interface PrepareHistoryRequest {
+  conversationId: string
+  projectId: string
+  // Selected path before the current prompt, oldest first
+  path: ChatMessage[]
+  // Where the summarizing request goes: the credential and model of the chat
+  providerId: string
+  model?: string
+  // Compact once more than this many messages are unsummarized
+  maxMessages?: number
+}
+
+export interface PreparedHistory {
+  // Messages after the summary, oldest first
+  history: ChatMessage[]
+  summary?: RollingSummary
+}
+
+function tokensOf(message: HistoryMessage): number {
+  return estimateMessageTokens({ role: message.role, content: message.content })
+}
+
+/**
+ * Split unsummarized history into what to fold and what to keep. Nothing is
+ * folded while it is within the budget; otherwise the newest messages are
+ * kept up to a share of it, starting at a prompt so a reply or tool result
+ * never opens the history.
+ */
+export function planCompaction<T extends HistoryMessage>(
+  messages: T[],
+  budget: number = HISTORY_TOKEN_BUDGET,
+  maxMessages: number = Infinity
+): CompactionPlan<T> {
+  const tokens = messages.map(tokensOf)
+  const total = tokens.reduce((sum, count) => sum + count, 0)
+  if (total <= budget && messages.length <= maxMessages) {
+    return { fold: [], keep: messages }
+  }
+
+  const recentBudget = budget * RECENT_SHARE
+  const recentLimit = Math.max(MIN_RECENT_MESSAGES, Math.floor(maxMessages / 2))
+  let used = 0
+  let firstKept = messages.length
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const kept = messages.length - i - 1
+    if (kept >= MIN_RECENT_MESSAGES && (used + tokens[i] > recentBudget || kept >= recentLimit)) break
+    used += tokens[i]
+    firstKept = i
+  }
+  while (firstKept < messages.length && messages[firstKept].role !== 'user') {
+    firstKept++
+  }
+
+  return { fold: messages.slice(0, firstKept), keep: messages.slice(firstKept) }
+}
+
+/**
+ * The system message a summary is sent as
+ */
+export function formatSummaryMessage(summary: RollingSummary): string {
+  return `${SUMMARY_HEADING}Earlier turns of this conversation, summarized:\n${summary.content}`
+}
+
+function toTranscript(messages: HistoryMessage[]): string {
+  return messages.map(message => {
+    const text = message.content.length > MAX_TRANSCRIPT_MESSAGE_CHARS
+      ? `${message.content.slice(0, MAX_TRANSCRIPT_MESSAGE_CHARS)}…`
+      : message.content
+    const speaker = message.role === 'user' ? 'User' : message.role === 'tool' ? 'Tool result' : 'Assistant'
+    return `${speaker}: ${text}`
+  }).join('\n\n')
+}
+
+export class ConversationMemory {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * The stored summary, if any
+   */
+  async getSummary(conversationId: string): Promise<RollingSummary | null> {
+    const metadata = await this.getMetadata(conversationId)
+    return metadata.summary || null
+  }
+
+  /**
+   * Replace the summary with the user's text; empty text removes it. An
+   * edit keeps the span the summary covered, so later turns are still sent.
+   */
+  async updateSummary(conversationId: string, content: string): Promise<RollingSummary | null> {
+    const current = await this.getSummary(conversationId)
+    const trimmed = content.trim()
+    const now = new Date().toISOString()
+
+    const summary: RollingSummary | null = trimmed
+      ? {
+          ...current,
+          content: trimmed,
+          coveredMessages: current?.coveredMessages ?? 0,
+          updatedAt: now,
+          editedAt: now
+        }
+      : null
+
+    await this.saveSummary(conversationId, summary)
+    return summary
+  }
+
+  /**
+   * History to send with a turn: the messages after the summary, compacting
+   * first when they have outgrown the budget. A summary that covers messages
+   * off this path (an earlier prompt was edited) is rebuilt for this path. If
+   * summarizing fails the uncompacted history is returned.
+   */
+  async prepareHistory(userId: string, request: PrepareHistoryRequest): Promise<PreparedHistory> {
+    const { conversationId, path } = request
+
+    let summary: RollingSummary | undefined
+    let start = 0
+    try {
+      const stored = await this.getSummary(conversationId)
+      const index = stored?.coversThroughMessageId
+        ? path.findIndex(message => message.id === stored.coversThroughMessageId)
+        : -1
+      if (stored && (index !== -1 || !stored.coversThroughMessageId)) {
+        summary = stored
+        start = index + 1
+      }
+    } catch (error) {
+      console.error('Error loading conversation summary:', error)
+      return { history: path }
+    }
+
+    const pending = path.slice(start)
+    const { fold, keep } = planCompaction(pending, HISTORY_TOKEN_BUDGET, request.maxMessages)
+    if (fold.length === 0) {
+      return { history: pending, summary }
+    }
+
+    try {
+      const updated = await this.summarize(userId, request, summary, fold)
+      await this.saveSummary(conversationId, updated)
+      return { history: keep, summary: updated }
+    } catch (error) {
+      console.error('Error updating conversation summary:', error)
+      return { history: pending, summary }
+    }
+  }
+
+  /**
+   * Fold messages into the summary with the chat's own model
+   */
+  private async summarize(
+    userId: string,
+    request: PrepareHistoryRequest,
+    current: RollingSummary | undefined,
+    messages: ChatMessage[]
+  ): Promise<RollingSummary> {
+    const response = await aiAbstractionLayer.chatCompletion(
+      request.providerId,
+      {
+        messages: [
+          { role: 'system', content: SUMMARIZER_PROMPT },
+          {
+            role: 'user',
+            content: `Current summary:\n${current?.content || '(none yet)'}\n\nNew messages:\n${toTranscript(messages)}`
+          }
+        ],
+        model: request.model,
+        temperature: 0.2,
+        maxTokens: MAX_SUMMARY_TOKENS
+      },
+      userId,
+      request.projectId,
+      { enabled: false },
+      { enabled: false }
+    )
+
+    const content = response.content.trim()
+    if (!content) {
+      throw new Error('Summarizer returned an empty summary')
+    }
+
+    return {
+      content,
+      coversThroughMessageId: messages[messages.length - 1].id,
+      coveredMessages: (current?.coveredMessages ?? 0) + messages.length,
+      updatedAt: new Date().toISOString(),
+      provider: response.provider,
+      model: response.model
+    }
+  }
+
+  private async getMetadata(conversationId: string): Promise<Record<string, any>> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('metadata')
+      .eq('id', conversationId)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Conversation not found')
+    }
+
+    return data.metadata || {}
+  }
+
+  private async saveSummary(conversationId: string, summary: RollingSummary | null): Promise<void> {
+    const metadata: Record<string, any> = { ...await this.getMetadata(conversationId), summary }
+    if (!summary) {
+      delete metadata.summary
+    }
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('conversations')
+      .update({ metadata })
+      .eq('id', conversationId)
+
+    if (error) {
+      throw new Error(`Failed to save conversation summary: ${error.message}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const conversationMemory = new ConversationMemory()
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import type { Conversation, ConversationSummary, ChatMessage } from '@/types'
+import { getAncestorPath, getSelectedPath } from './message-tree'
 
 export interface CreateConversationRequest {
   projectId: string
@@ -43,6 +44,19 @@ export interface ConversationExport {
   exportVersion: string
 }
 
+/**
+ * New ids for copied messages, each following the one before it
+ */
+function chainMessages<T>(messages: T[]): { id: string; parentId: string | null; depth: number; message: T }[] {
+  const ids = messages.map(() => crypto.randomUUID())
+  return messages.map((message, index) => ({
+    id: ids[index],
+    parentId: index > 0 ? ids[index - 1] : null,
+    depth: index,
+    message
+  }))
+}
+
 export class ConversationService {
   private async getSupabase() {
     return await createClient()
@@ -296,35 +310,35 @@ export class ConversationService {
       branchPointMessageId: request.branchPointMessageId
     })
 
-    // Copy messages up to the branch point
-    const { data: messagesToCopy, error: copyError } = await supabase
+    // Copy the branch point and the versions leading up to it
+    const { data: sourceMessages, error: copyError } = await supabase
       .from('project_prompts')
       .select('*')
       .eq('conversation_id', request.sourceConversationId)
-      .lte('created_at', (await supabase
-        .from('project_prompts')
-        .select('created_at')
-        .eq('id', request.branchPointMessageId)
-        .single()
-      ).data?.created_at || new Date().toISOString())
       .order('created_at', { ascending: true })
 
     if (copyError) {
       throw new Error(`Failed to copy messages: ${copyError.message}`)
     }
 
+    const messagesToCopy = getAncestorPath(
+      (sourceMessages || []).map(msg => this.mapDatabaseToChatMessage(msg)),
+      request.branchPointMessageId
+    )
+
     // Insert copied messages into the new conversation
-    if (messagesToCopy && messagesToCopy.length > 0) {
-      const messagesToInsert = messagesToCopy.map(msg => ({
-        project_id: msg.project_id,
+    if (messagesToCopy.length > 0) {
+      const messagesToInsert = chainMessages(messagesToCopy).map(({ id, parentId, depth, message: msg }) => ({
+        id,
+        project_id: msg.projectId,
         conversation_id: branchedConversation.id,
         role: msg.role,
         content: msg.content,
-        ai_provider: msg.ai_provider,
+        ai_provider: msg.provider,
         model: msg.model,
         metadata: msg.metadata,
-        parent_message_id: null, // Reset threading for branched conversation
-        thread_depth: 0,
+        parent_message_id: parentId,
+        thread_depth: depth,
         is_branch_point: msg.id === request.branchPointMessageId
       }))
 
@@ -352,7 +366,7 @@ export class ConversationService {
       throw new Error('Conversation not found or access denied')
     }
 
-    // Get all messages in the conversation
+    // Get the messages shown in the conversation, without unselected versions
     const supabase = await this.getSupabase()
     const { data: messages, error } = await supabase
       .from('project_prompts')
@@ -366,7 +380,7 @@ export class ConversationService {
 
     return {
       conversation,
-      messages: (messages || []).map(this.mapDatabaseToChatMessage),
+      messages: getSelectedPath((messages || []).map(this.mapDatabaseToChatMessage)),
       exportedAt: new Date().toISOString(),
       exportVersion: '1.0'
     }
@@ -397,7 +411,8 @@ export class ConversationService {
     // Import messages
     if (exportData.messages && exportData.messages.length > 0) {
       const supabase = await this.getSupabase()
-      const messagesToInsert = exportData.messages.map(msg => ({
+      const messagesToInsert = chainMessages(exportData.messages).map(({ id, parentId, depth, message: msg }) => ({
+        id,
         project_id: projectId,
         conversation_id: newConversation.id,
         role: msg.role,
@@ -405,8 +420,8 @@ export class ConversationService {
         ai_provider: msg.provider,
         model: msg.model,
         metadata: msg.metadata,
-        parent_message_id: null, // Reset threading for imported conversation
-        thread_depth: 0,
+        parent_message_id: parentId,
+        thread_depth: depth,
         is_branch_point: false
       }))
 
@@ -616,6 +631,7 @@ export class ConversationService {
       parentMessageId: data.parent_message_id,
       threadDepth: data.thread_depth || 0,
       isBranchPoint: data.is_branch_point || false,
+      selectedAt: data.selected_at ? new Date(data.selected_at) : undefined,
       createdAt: new Date(data.created_at)
     }
   }
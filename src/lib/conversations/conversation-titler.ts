@@ -0,0 +1,236 @@
+import { createClient } from '@/lib/supabase/server'
+import { aiAbstractionLayer } from '@/lib/ai/abstraction-layer'
+import { modelRouter } from '@/lib/ai/model-router'
+
+/**
+ * Names new conversations. After the first exchange the cheapest model the
+ * user has configured writes a short title, a one-line description and a few
+ * tags, reusing the project's existing tags where they fit. Without a usable
+ * provider the title falls back to generate_conversation_title, which takes
+ * the start of the first message.
+ */
+
+// Title given at creation; anything else was set by the user or a previous run
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation'
+
+const MAX_TITLE_LENGTH = 60
+const MAX_DESCRIPTION_LENGTH = 160
+const MAX_TAGS = 4
+// Existing tags offered to the model, most used first
+const MAX_VOCABULARY = 50
+// The exchange is clipped before it is sent
+const MAX_EXCERPT_CHARS = 3000
+
+const DETAILS_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['title', 'description', 'tags']
+}
+
+export interface ConversationDetails {
+  title: string
+  description: string
+  tags: string[]
+}
+
+function clip(text: string, length: number): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ')
+  return trimmed.length > length ? `${trimmed.slice(0, length - 1).trimEnd()}…` : trimmed
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Tidy what the model returned: strip quotes and trailing periods from the
+ * title, bound the lengths, and map tags onto the vocabulary's spelling
+ */
+export function normalizeDetails(details: ConversationDetails, vocabulary: string[]): ConversationDetails {
+  const known = new Map(vocabulary.map(tag => [normalizeTag(tag), tag]))
+  const tags = details.tags
+    .map(tag => known.get(normalizeTag(tag)) ?? normalizeTag(tag))
+    .filter((tag, index, all) => tag && all.indexOf(tag) === index)
+    .slice(0, MAX_TAGS)
+
+  return {
+    title: clip(details.title.replace(/^["'“”]+|["'“”.]+$/g, ''), MAX_TITLE_LENGTH),
+    description: clip(details.description, MAX_DESCRIPTION_LENGTH),
+    tags
+  }
+}
+
+export class ConversationTitler {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Title, describe and tag a conversation from its first exchange. Does
+   * nothing once the conversation has a title other than the default.
+   */
+  async titleConversation(userId: string, conversationId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('id, project_id, title, description, tags, metadata')
+      .eq('id', conversationId)
+      .single()
+
+    if (error || !conversation || conversation.title !== DEFAULT_CONVERSATION_TITLE) {
+      return
+    }
+
+    try {
+      const exchange = await this.getFirstExchange(conversationId)
+      if (!exchange) return
+
+      const vocabulary = await this.getTagVocabulary(conversation.project_id)
+      const { details, provider, model } = await this.generateDetails(
+        userId,
+        conversation.project_id,
+        exchange,
+        vocabulary
+      )
+
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({
+          title: details.title,
+          description: conversation.description || details.description || null,
+          tags: Array.from(new Set([...(conversation.tags || []), ...details.tags])),
+          metadata: {
+            ...(await this.getMetadata(conversationId)),
+            autoTitle: { provider, model, generatedAt: new Date().toISOString() }
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', conversationId)
+        // Don't overwrite a rename made while the model was working
+        .eq('title', DEFAULT_CONVERSATION_TITLE)
+
+      if (updateError) {
+        throw new Error(updateError.message)
+      }
+    } catch (error) {
+      console.error('Error generating conversation title, using first message:', error)
+      await supabase.rpc('generate_conversation_title', { conversation_id: conversationId })
+    }
+  }
+
+  /**
+   * Ask the cheapest available model for the details
+   */
+  private async generateDetails(
+    userId: string,
+    projectId: string,
+    exchange: { prompt: string; reply: string },
+    vocabulary: string[]
+  ): Promise<{ details: ConversationDetails; provider: string; model: string }> {
+    const transcript = `User: ${exchange.prompt.slice(0, MAX_EXCERPT_CHARS)}\n\n` +
+      `Assistant: ${exchange.reply.slice(0, MAX_EXCERPT_CHARS)}`
+
+    const route = await modelRouter.route(userId, {
+      content: transcript,
+      complexity: 'simple',
+      maxOutputTokens: 200
+    })
+
+    const { data, response } = await aiAbstractionLayer.chatCompletionStructured<ConversationDetails>(
+      route.providerId,
+      {
+        messages: [
+          {
+            role: 'system',
+            content: [
+              'You name conversations for a chat history list.',
+              `Give a specific title of at most ${MAX_TITLE_LENGTH} characters (no quotes or trailing period),`,
+              'a one-sentence description of what the user wants, and up to',
+              `${MAX_TAGS} short lowercase tags.`,
+              vocabulary.length > 0
+                ? `Prefer these existing project tags when they fit: ${vocabulary.join(', ')}.`
+                : 'Use short, general topic tags.'
+            ].join(' ')
+          },
+          { role: 'user', content: transcript }
+        ],
+        model: route.model,
+        temperature: 0.3,
+        maxTokens: 200,
+        responseFormat: { type: 'json_schema', name: 'conversation_details', schema: DETAILS_SCHEMA }
+      },
+      userId,
+      projectId,
+      { maxAttempts: 2, fallbackConfig: { enabled: false } }
+    )
+
+    return {
+      details: normalizeDetails(data, vocabulary),
+      provider: response.provider,
+      model: response.model
+    }
+  }
+
+  /**
+   * The first prompt and the reply to it, oldest versions first
+   */
+  private async getFirstExchange(conversationId: string): Promise<{ prompt: string; reply: string } | null> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_prompts')
+      .select('role, content')
+      .eq('conversation_id', conversationId)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: true })
+      .limit(10)
+
+    if (error || !data) return null
+
+    const promptIndex = data.findIndex(message => message.role === 'user')
+    const reply = data.slice(promptIndex + 1).find(message => message.role === 'assistant')
+    if (promptIndex === -1 || !reply) return null
+
+    return { prompt: data[promptIndex].content, reply: reply.content }
+  }
+
+  /**
+   * Tags already used in the project, most used first
+   */
+  private async getTagVocabulary(projectId: string): Promise<string[]> {
+    const supabase = await this.getSupabase()
+    const { data } = await supabase
+      .from('conversations')
+      .select('tags')
+      .eq('project_id', projectId)
+
+    const counts = new Map<string, number>()
+    for (const row of data || []) {
+      for (const tag of (row.tags as string[] | null) || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1)
+      }
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_VOCABULARY)
+      .map(([tag]) => tag)
+  }
+
+  private async getMetadata(conversationId: string): Promise<Record<string, any>> {
+    const supabase = await this.getSupabase()
+    const { data } = await supabase
+      .from('conversations')
+      .select('metadata')
+      .eq('id', conversationId)
+      .single()
+
+    return data?.metadata || {}
+  }
+}
+
+// Export singleton instance
+export const conversationTitler = new ConversationTitler()
@@ -0,0 +1,113 @@
+import type { ChatMessage, MessageVersions } from '@/types'
+
+/**
+ * Conversation messages form a tree through parentMessageId. Regenerating a
+ * reply or editing a prompt adds a sibling version rather than replacing the
+ * original, and the conversation that is shown (and sent to the model) is the
+ * path taking the selected version at every level.
+ */
+
+type ThreadMessage = Pick<ChatMessage, 'id' | 'parentMessageId' | 'createdAt' | 'selectedAt'>
+
+// Picking a version in the switcher and creating a new one both select it
+function selectionTime(message: ThreadMessage): number {
+  return Math.max(message.createdAt.getTime(), message.selectedAt?.getTime() ?? 0)
+}
+
+/**
+ * Children of each message, oldest first; roots are keyed by null. A parent
+ * missing from the set makes the message a root.
+ */
+export function groupVersions<T extends ThreadMessage>(messages: T[]): Map<string | null, T[]> {
+  const ids = new Set(messages.map(message => message.id))
+  const children = new Map<string | null, T[]>()
+
+  for (const message of messages) {
+    const parentId = message.parentMessageId && ids.has(message.parentMessageId)
+      ? message.parentMessageId
+      : null
+    const siblings = children.get(parentId) || []
+    siblings.push(message)
+    children.set(parentId, siblings)
+  }
+
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  }
+  return children
+}
+
+/**
+ * The selected path through a conversation, root first. Messages with sibling
+ * versions carry their position among them.
+ */
+export function getSelectedPath<T extends ThreadMessage>(messages: T[]): (T & { versions?: MessageVersions })[] {
+  const children = groupVersions(messages)
+  const path: (T & { versions?: MessageVersions })[] = []
+  let siblings = children.get(null)
+
+  while (siblings && siblings.length > 0) {
+    const selected = siblings.reduce((current, candidate) =>
+      selectionTime(candidate) >= selectionTime(current) ? candidate : current
+    )
+
+    path.push(siblings.length > 1
+      ? {
+          ...selected,
+          versions: {
+            index: siblings.indexOf(selected) + 1,
+            count: siblings.length,
+            ids: siblings.map(sibling => sibling.id),
+          },
+        }
+      : selected)
+
+    // Guards against a cycle in corrupted data
+    if (path.length > messages.length) break
+    siblings = children.get(selected.id)
+  }
+
+  return path
+}
+
+/**
+ * A message and its ancestors, root first
+ */
+export function getAncestorPath<T extends ThreadMessage>(messages: T[], messageId: string): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const path: T[] = []
+  let current = byId.get(messageId)
+
+  while (current && path.length <= messages.length) {
+    path.unshift(current)
+    current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined
+  }
+
+  return path
+}
+
+/**
+ * The selected path of every conversation in the set, merged in time order.
+ * Messages outside any conversation predate threading and are all kept.
+ */
+export function getSelectedPaths<T extends ThreadMessage & { conversationId?: string | null }>(
+  messages: T[]
+): (T & { versions?: MessageVersions })[] {
+  const byConversation = new Map<string, T[]>()
+  const unthreaded: T[] = []
+
+  for (const message of messages) {
+    if (!message.conversationId) {
+      unthreaded.push(message)
+      continue
+    }
+    const conversation = byConversation.get(message.conversationId) || []
+    conversation.push(message)
+    byConversation.set(message.conversationId, conversation)
+  }
+
+  return [
+    ...unthreaded,
+    ...[...byConversation.values()].flatMap(conversation => getSelectedPath(conversation)),
+  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+}
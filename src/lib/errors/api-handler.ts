@@ -77,6 +77,10 @@ export class APIErrorHandler {
           severity: appError.severity,
           recoverable: appError.recoverable,
           retryable: appError.retryable,
+          // Field-level problems, so clients can point at what to fix
+          ...(appError.category === ErrorCategory.VALIDATION && appError.context.metadata?.issues && {
+            issues: appError.context.metadata.issues,
+          }),
         } : undefined,
         timestamp: new Date().toISOString(),
         requestId,
@@ -0,0 +1,37 @@
+import { chunkDocument, normalizeText } from '../chunking'
+
+describe('Document chunking', () => {
+  test('should normalize line endings, ligatures and blank runs', () => {
+    expect(normalizeText('\ufeffThe \ufb01rst line  \r\n\r\n\r\n\r\nnext\u0007 line\r\n')).toBe('The first line\n\nnext line')
+  })
+
+  test('should keep short sections together with their headings', () => {
+    const text = '# Guide\n\nIntro.\n\n## Install\n\nRun the installer.\n\n# Reference\n\n## API\n\nCall it.'
+
+    expect(chunkDocument(text)).toEqual([
+      { content: text, headings: ['Guide'] }
+    ])
+  })
+
+  test('should repeat enclosing headings on chunks that start mid-document', () => {
+    const paragraph = 'word '.repeat(30).trim()
+    const text = `# Guide\n\n## Install\n\n${paragraph}\n\n${paragraph}\n\n## Usage\n\n${paragraph}`
+
+    const chunks = chunkDocument(text, 200)
+
+    expect(chunks.map(chunk => chunk.headings)).toEqual([
+      ['Guide', 'Install'],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage']
+    ])
+    expect(chunks[1].content).toBe(`# Guide\n## Install\n\n${paragraph}`)
+    expect(chunks.every(chunk => chunk.content.length <= 200)).toBe(true)
+  })
+
+  test('should ignore heading-like lines inside code fences', () => {
+    const chunks = chunkDocument('# Setup\n\n```sh\n# not a heading\nnpm install\n```', 200)
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].headings).toEqual(['Setup'])
+  })
+})
@@ -0,0 +1,149 @@
+export interface DocumentChunk {
+  content: string
+  // Headings the chunk falls under, outermost first
+  headings: string[]
+}
+
+export const DEFAULT_CHUNK_SIZE = 4000
+
+interface Heading {
+  level: number
+  text: string
+}
+
+interface Section {
+  // Enclosing headings; the last is the section's own, if it has one
+  trail: Heading[]
+  body: string
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+/**
+ * Clean up extracted text: unify line endings, fold compatibility characters
+ * such as PDF ligatures, drop control characters and collapse blank runs
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/[\u200b\ufeff]/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function headingLine(heading: Heading): string {
+  return `${'#'.repeat(heading.level)} ${heading.text}`
+}
+
+function splitSections(text: string): Section[] {
+  const sections: Section[] = []
+  let trail: Heading[] = []
+  let lines: string[] = []
+  let inFence = false
+
+  const flush = () => {
+    const body = lines.join('\n').trim()
+    // A heading directly followed by a subheading has no text of its own
+    if (body) {
+      sections.push({ trail, body })
+    }
+    lines = []
+  }
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+    }
+
+    const match = inFence ? null : line.match(HEADING)
+    if (!match) {
+      lines.push(line)
+      continue
+    }
+
+    flush()
+    const heading = { level: match[1].length, text: match[2] }
+    trail = [...trail.filter(h => h.level < heading.level), heading]
+  }
+  flush()
+
+  return sections
+}
+
+// Split text that is too long for one chunk at paragraph, then line, then
+// sentence boundaries, cutting mid-text only as a last resort
+function splitText(text: string, size: number): string[] {
+  if (text.length <= size) return [text]
+
+  for (const separator of ['\n\n', '\n', '. ']) {
+    const parts = text.split(separator)
+    if (parts.length === 1) continue
+
+    const pieces: string[] = []
+    let current = ''
+    for (const part of parts) {
+      const candidate = current ? current + separator + part : part
+      if (candidate.length <= size) {
+        current = candidate
+        continue
+      }
+      if (current) pieces.push(current)
+      current = part
+    }
+    if (current) pieces.push(current)
+
+    return pieces.flatMap(piece => splitText(piece, size))
+  }
+
+  const pieces: string[] = []
+  for (let i = 0; i < text.length; i += size) {
+    pieces.push(text.slice(i, i + size))
+  }
+  return pieces
+}
+
+/**
+ * Split normalized text into chunks of at most about `size` characters.
+ * Consecutive short sections share a chunk; a chunk that starts inside a
+ * section repeats the headings above it so it still reads in context.
+ */
+export function chunkDocument(text: string, size: number = DEFAULT_CHUNK_SIZE): DocumentChunk[] {
+  const chunks: DocumentChunk[] = []
+  let current: DocumentChunk | null = null
+  let previousTrail: Heading[] = []
+
+  for (const section of splitSections(text)) {
+    // Headings not already opened by the previous section, e.g. a parent
+    // heading whose only content is this section
+    let shared = 0
+    while (shared < previousTrail.length && previousTrail[shared] === section.trail[shared]) {
+      shared++
+    }
+    const opened = section.trail.slice(shared).map(headingLine)
+    previousTrail = section.trail
+
+    const sectionText = [...opened, section.body].join('\n\n')
+    if (current && current.content.length + 2 + sectionText.length <= size) {
+      current.content += `\n\n${sectionText}`
+      continue
+    }
+    if (current) chunks.push(current)
+
+    const context = section.trail.map(headingLine).join('\n')
+    const headings = section.trail.map(h => h.text)
+    const bodySize = Math.max(size - context.length - 2, size / 2)
+
+    const pieces = splitText(section.body, bodySize)
+    for (const piece of pieces.slice(0, -1)) {
+      chunks.push({ content: context ? `${context}\n\n${piece}` : piece, headings })
+    }
+    const last = pieces[pieces.length - 1]
+    current = { content: context ? `${context}\n\n${last}` : last, headings }
+  }
+  if (current) chunks.push(current)
+
+  return chunks
+}
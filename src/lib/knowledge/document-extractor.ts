@@ -0,0 +1,112 @@
+import { extractText, getDocumentProxy } from 'unpdf'
+import mammoth from 'mammoth'
+
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024 // 20MB
+
+export const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export const UPLOAD_TYPES = ['application/pdf', 'text/markdown', 'text/html', 'text/plain', DOCX_TYPE]
+
+// Browsers report an empty or generic type for several of these
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  txt: 'text/plain',
+  text: 'text/plain',
+  docx: DOCX_TYPE
+}
+
+/**
+ * MIME type for an uploaded document, preferring its extension
+ */
+export function resolveDocumentType(file: { name: string; type: string }): string {
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  return EXTENSION_TYPES[extension] || file.type
+}
+
+/**
+ * Validate an uploaded document, returning an error message or null
+ */
+export function validateDocumentFile(file: { name: string; type: string; size: number }): string | null {
+  const type = resolveDocumentType(file)
+  if (!UPLOAD_TYPES.includes(type)) {
+    return `File type ${type || 'unknown'} is not supported. Upload PDF, Markdown, HTML, text or DOCX files.`
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return `File size exceeds maximum limit of ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB`
+  }
+  if (file.size === 0) {
+    return 'File is empty'
+  }
+  return null
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Reduce HTML to Markdown-like text, keeping headings, list items and
+ * paragraph breaks so the chunker can find sections
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|ul|ol|table|tr|blockquote|pre|figure)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/(td|th)>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const { text } = await extractText(pdf, { mergePages: false })
+  return text.join('\n\n')
+}
+
+/**
+ * Extract a document's text. Structure the format carries (HTML and DOCX
+ * headings) comes back as Markdown headings.
+ */
+export async function extractDocumentText(buffer: Buffer, type: string): Promise<string> {
+  switch (type) {
+    case 'application/pdf':
+      return extractPdf(buffer)
+    case DOCX_TYPE: {
+      const { value } = await mammoth.convertToHtml({ buffer })
+      return htmlToText(value)
+    }
+    case 'text/html':
+      return htmlToText(buffer.toString('utf8'))
+    case 'text/markdown':
+    case 'text/plain':
+      return buffer.toString('utf8')
+    default:
+      throw new Error(`File type ${type || 'unknown'} is not supported`)
+  }
+}
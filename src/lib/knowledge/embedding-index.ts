@@ -0,0 +1,115 @@
+import { createClient } from '@/lib/supabase/server'
+import { EmbeddingProvider, embedTexts, getEmbeddingProvider } from '@/lib/ai/embeddings'
+import { chunkDocument, normalizeText } from './chunking'
+
+// Smaller than ingestion chunks, so one embedding covers one topic
+export const EMBEDDING_CHUNK_SIZE = 1500
+
+export interface ChunkMatch {
+  knowledgeId: string
+  chunkIndex: number
+  content: string
+  similarity: number
+}
+
+/**
+ * Chunk-level embeddings of knowledge documents, kept in knowledge_embeddings
+ * and searched with pgvector
+ */
+export class KnowledgeEmbeddingIndex {
+  constructor(private provider: EmbeddingProvider = getEmbeddingProvider()) {}
+
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Replace a document's embeddings with ones for its current content
+   */
+  async indexDocument(document: { id: string; projectId: string; title: string; content: string }): Promise<number> {
+    const chunks = chunkDocument(normalizeText(document.content), EMBEDDING_CHUNK_SIZE)
+    const contents = chunks.length > 0 ? chunks.map(chunk => chunk.content) : [document.title]
+    // The title often names what the chunk is about when the text doesn't
+    const embeddings = await embedTexts(
+      this.provider,
+      contents.map(content => `${document.title}\n\n${content}`)
+    )
+
+    const supabase = await this.getSupabase()
+    const { error: deleteError } = await supabase
+      .from('knowledge_embeddings')
+      .delete()
+      .eq('knowledge_id', document.id)
+
+    if (deleteError) {
+      throw new Error(`Failed to clear embeddings: ${deleteError.message}`)
+    }
+
+    const { error } = await supabase
+      .from('knowledge_embeddings')
+      .insert(contents.map((content, index) => ({
+        knowledge_id: document.id,
+        project_id: document.projectId,
+        chunk_index: index,
+        content,
+        embedding: JSON.stringify(embeddings[index]),
+        provider: this.provider.id
+      })))
+
+    if (error) {
+      throw new Error(`Failed to store embeddings: ${error.message}`)
+    }
+
+    return contents.length
+  }
+
+  /**
+   * Documents in a project that have embeddings from the current provider
+   */
+  async getIndexedDocumentIds(projectId: string): Promise<Set<string>> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('knowledge_embeddings')
+      .select('knowledge_id')
+      .eq('project_id', projectId)
+      .eq('provider', this.provider.id)
+      .eq('chunk_index', 0)
+
+    if (error) {
+      throw new Error(`Failed to load embeddings: ${error.message}`)
+    }
+
+    return new Set((data || []).map(row => row.knowledge_id as string))
+  }
+
+  /**
+   * Chunks most similar to the query, best first. Only chunks embedded by the
+   * current provider are compared.
+   */
+  async search(projectId: string, query: string, limit: number = 50): Promise<ChunkMatch[]> {
+    const embedding = await this.provider.embed(query)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase.rpc('match_knowledge_embeddings', {
+      p_project_id: projectId,
+      p_embedding: JSON.stringify(embedding),
+      p_provider: this.provider.id,
+      p_match_count: limit
+    })
+
+    if (error) {
+      throw new Error(`Failed to search embeddings: ${error.message}`)
+    }
+
+    return ((data || []) as { knowledge_id: string; chunk_index: number; content: string; similarity: number }[])
+      .map(row => ({
+        knowledgeId: row.knowledge_id,
+        chunkIndex: row.chunk_index,
+        content: row.content,
+        similarity: row.similarity
+      }))
+  }
+}
+
+// Export singleton instance
+export const knowledgeEmbeddingIndex = new KnowledgeEmbeddingIndex()
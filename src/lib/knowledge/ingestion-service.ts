@@ -0,0 +1,229 @@
+import { createClient } from '@/lib/supabase/server'
+import { PROJECT_ASSETS_BUCKET } from '@/lib/assets/asset-service'
+import { knowledgeService } from './knowledge-service'
+import { extractDocumentText, resolveDocumentType, validateDocumentFile } from './document-extractor'
+import { chunkDocument, normalizeText } from './chunking'
+import type { KnowledgeDocument, KnowledgeUpload } from '@/types'
+
+export interface IngestionOptions {
+  category: KnowledgeDocument['category']
+  tags: string[]
+}
+
+// Knowledge document titles are limited to 200 characters
+const MAX_TITLE_LENGTH = 200
+
+function chunkTitle(fileName: string, headings: string[], index: number, count: number): string {
+  const suffix = count > 1 ? ` (${index + 1}/${count})` : ''
+  const title = [fileName, ...headings].join(' › ')
+  const room = MAX_TITLE_LENGTH - suffix.length
+
+  return (title.length > room ? title.slice(0, room - 1) + '…' : title) + suffix
+}
+
+/**
+ * Turns uploaded files into knowledge documents. The original file is kept as
+ * a project asset, whose metadata records how ingestion went.
+ */
+export class IngestionService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Store a file and ingest it. Extraction failures are recorded on the
+   * upload rather than thrown, so they can be shown next to the file.
+   */
+  async ingestFile(
+    userId: string,
+    projectId: string,
+    file: File,
+    options: IngestionOptions
+  ): Promise<KnowledgeUpload> {
+    await knowledgeService.checkAccess(userId, projectId, true)
+
+    const validationError = validateDocumentFile(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    const type = resolveDocumentType(file)
+    const supabase = await this.getSupabase()
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_') || 'document'
+    const storagePath = `${projectId}/${crypto.randomUUID()}/${safeName}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(PROJECT_ASSETS_BUCKET)
+      .upload(storagePath, file, { contentType: type })
+
+    if (uploadError) {
+      throw new Error(`Failed to store ${file.name}: ${uploadError.message}`)
+    }
+
+    const metadata = {
+      source: 'knowledge',
+      bucket: PROJECT_ASSETS_BUCKET,
+      uploadedBy: userId,
+      category: options.category,
+      tags: options.tags,
+      ingestion: { status: 'processing', chunkCount: 0 }
+    }
+
+    const { data: asset, error } = await supabase
+      .from('project_assets')
+      .insert({
+        project_id: projectId,
+        name: file.name,
+        file_url: storagePath,
+        type,
+        size: file.size,
+        metadata
+      })
+      .select()
+      .single()
+
+    if (error || !asset) {
+      // Don't leave an orphaned file behind
+      await supabase.storage.from(PROJECT_ASSETS_BUCKET).remove([storagePath])
+      throw new Error(`Failed to save ${file.name}`)
+    }
+
+    let ingestion
+    try {
+      const text = normalizeText(await extractDocumentText(Buffer.from(await file.arrayBuffer()), type))
+      if (!text) {
+        throw new Error('No text could be extracted from this file')
+      }
+
+      const chunks = chunkDocument(text)
+      const { data: documents, error: insertError } = await supabase
+        .from('project_knowledge')
+        .insert(chunks.map((chunk, index) => ({
+          project_id: projectId,
+          title: chunkTitle(file.name, chunk.headings, index, chunks.length),
+          content: chunk.content,
+          file_url: storagePath,
+          category: options.category,
+          metadata: {
+            tags: options.tags,
+            fileType: type,
+            size: file.size,
+            sourceAssetId: asset.id,
+            chunkIndex: index,
+            chunkCount: chunks.length,
+            headings: chunk.headings
+          }
+        })))
+        .select('id, title, content')
+
+      if (insertError) {
+        throw new Error(`Failed to save extracted text: ${insertError.message}`)
+      }
+
+      for (const document of documents || []) {
+        await knowledgeService.indexDocument({ ...document, projectId, content: document.content || '' })
+      }
+
+      ingestion = { status: 'completed', chunkCount: chunks.length, completedAt: new Date().toISOString() }
+    } catch (err) {
+      console.error(`Error ingesting ${file.name}:`, err)
+      ingestion = {
+        status: 'failed',
+        chunkCount: 0,
+        error: err instanceof Error ? err.message : 'Failed to extract text',
+        completedAt: new Date().toISOString()
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('project_assets')
+      .update({ metadata: { ...metadata, ingestion } })
+      .eq('id', asset.id)
+      .select()
+      .single()
+
+    return this.mapAssetToUpload(updated || { ...asset, metadata: { ...metadata, ingestion } })
+  }
+
+  async listUploads(userId: string, projectId: string): Promise<KnowledgeUpload[]> {
+    await knowledgeService.checkAccess(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_assets')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('metadata->>source', 'knowledge')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load uploads: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapAssetToUpload(row))
+  }
+
+  /**
+   * Delete an uploaded file along with the documents ingested from it
+   */
+  async deleteUpload(userId: string, projectId: string, assetId: string): Promise<void> {
+    await knowledgeService.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data: asset } = await supabase
+      .from('project_assets')
+      .select('*')
+      .eq('id', assetId)
+      .eq('project_id', projectId)
+      .eq('metadata->>source', 'knowledge')
+      .maybeSingle()
+
+    if (!asset) {
+      throw new Error('Upload not found')
+    }
+
+    const { error: knowledgeError } = await supabase
+      .from('project_knowledge')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('metadata->>sourceAssetId', assetId)
+
+    if (knowledgeError) {
+      throw new Error(`Failed to delete ingested documents: ${knowledgeError.message}`)
+    }
+
+    const { error } = await supabase
+      .from('project_assets')
+      .delete()
+      .eq('id', assetId)
+
+    if (error) {
+      throw new Error(`Failed to delete upload: ${error.message}`)
+    }
+
+    await supabase.storage
+      .from((asset.metadata as { bucket?: string } | null)?.bucket || PROJECT_ASSETS_BUCKET)
+      .remove([asset.file_url])
+  }
+
+  private mapAssetToUpload(data: any): KnowledgeUpload {
+    const metadata = data.metadata || {}
+    const ingestion = metadata.ingestion || {}
+
+    return {
+      assetId: data.id,
+      name: data.name,
+      type: data.type,
+      size: data.size,
+      category: metadata.category || 'documentation',
+      status: ingestion.status || 'processing',
+      error: ingestion.error,
+      chunkCount: ingestion.chunkCount || 0,
+      uploadedAt: data.created_at,
+      completedAt: ingestion.completedAt
+    }
+  }
+}
+
+// Export singleton instance
+export const ingestionService = new IngestionService()
@@ -0,0 +1,289 @@
+import type { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import type { knowledgeSchema } from '@/lib/supabase/validation'
+import type { InjectedContextItem } from '@/lib/context/context-injection-service'
+import { knowledgeEmbeddingIndex } from './embedding-index'
+import type { KnowledgeDocument, RecentlyInjectedDocument } from '@/types'
+
+export type KnowledgeInput = Omit<z.infer<typeof knowledgeSchema>, 'project_id'>
+
+export interface KnowledgeListOptions {
+  category?: KnowledgeDocument['category']
+  tag?: string
+  search?: string
+}
+
+// Injection logs read when looking for recently injected documents
+const RECENT_INJECTION_LOGS = 100
+
+export class KnowledgeService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  async listDocuments(
+    userId: string,
+    projectId: string,
+    options: KnowledgeListOptions = {}
+  ): Promise<KnowledgeDocument[]> {
+    await this.checkAccess(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('project_knowledge')
+      .select('*')
+      .eq('project_id', projectId)
+
+    if (options.category) {
+      query = query.eq('category', options.category)
+    }
+    if (options.tag) {
+      query = query.contains('metadata', { tags: [options.tag] })
+    }
+    if (options.search) {
+      const term = options.search.replace(/[%_,()]/g, ' ').trim()
+      if (term) {
+        query = query.or(`title.ilike.%${term}%,content.ilike.%${term}%`)
+      }
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load knowledge: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDatabaseToDocument(row))
+  }
+
+  async getDocument(userId: string, projectId: string, documentId: string): Promise<KnowledgeDocument> {
+    await this.checkAccess(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_knowledge')
+      .select('*')
+      .eq('id', documentId)
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    if (error || !data) {
+      throw new Error('Knowledge document not found')
+    }
+
+    return this.mapDatabaseToDocument(data)
+  }
+
+  async createDocument(userId: string, projectId: string, input: KnowledgeInput): Promise<KnowledgeDocument> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_knowledge')
+      .insert({ ...input, project_id: projectId, metadata: input.metadata || {} })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create knowledge document: ${error.message}`)
+    }
+
+    const document = this.mapDatabaseToDocument(data)
+    await this.indexDocument(document)
+    return document
+  }
+
+  async updateDocument(
+    userId: string,
+    projectId: string,
+    documentId: string,
+    updates: Partial<KnowledgeInput>
+  ): Promise<KnowledgeDocument> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_knowledge')
+      .update(updates)
+      .eq('id', documentId)
+      .eq('project_id', projectId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update knowledge document: ${error.message}`)
+    }
+    if (!data) {
+      throw new Error('Knowledge document not found')
+    }
+
+    const document = this.mapDatabaseToDocument(data)
+    if (updates.title !== undefined || updates.content !== undefined) {
+      await this.indexDocument(document)
+    }
+    return document
+  }
+
+  async deleteDocument(userId: string, projectId: string, documentId: string): Promise<void> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('project_knowledge')
+      .delete()
+      .eq('id', documentId)
+      .eq('project_id', projectId)
+
+    if (error) {
+      throw new Error(`Failed to delete knowledge document: ${error.message}`)
+    }
+  }
+
+  /**
+   * Embed a document for retrieval. A document that can't be embedded is
+   * still found by keyword, so failures are logged rather than thrown.
+   */
+  async indexDocument(document: Pick<KnowledgeDocument, 'id' | 'projectId' | 'title' | 'content'>): Promise<boolean> {
+    try {
+      await knowledgeEmbeddingIndex.indexDocument(document)
+      return true
+    } catch (error) {
+      console.error(`Failed to index knowledge document ${document.id}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Re-embed every document in a project, e.g. after changing the embedding
+   * provider or for documents written before embeddings existed
+   */
+  async reindexProject(userId: string, projectId: string): Promise<{ indexed: number; failed: number }> {
+    await this.checkAccess(userId, projectId, true)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('project_knowledge')
+      .select('id, title, content')
+      .eq('project_id', projectId)
+
+    if (error) {
+      throw new Error(`Failed to load knowledge: ${error.message}`)
+    }
+
+    let indexed = 0
+    for (const row of data || []) {
+      const ok = await this.indexDocument({ id: row.id, projectId, title: row.title, content: row.content || '' })
+      if (ok) indexed++
+    }
+
+    return { indexed, failed: (data || []).length - indexed }
+  }
+
+  /**
+   * Documents recently sent as chat context, most recent first. The logs
+   * name items by title, so a document is matched on its current title.
+   */
+  async getRecentlyInjected(userId: string, projectId: string, limit: number = 10): Promise<RecentlyInjectedDocument[]> {
+    await this.checkAccess(userId, projectId)
+
+    const supabase = await this.getSupabase()
+    const [{ data: logs, error }, { data: documents }] = await Promise.all([
+      supabase
+        .from('context_injection_logs')
+        .select('metadata, created_at')
+        .eq('project_id', projectId)
+        .contains('context_types', ['knowledge'])
+        .order('created_at', { ascending: false })
+        .limit(RECENT_INJECTION_LOGS),
+      supabase
+        .from('project_knowledge')
+        .select('id, title, category')
+        .eq('project_id', projectId)
+    ])
+
+    if (error) {
+      throw new Error(`Failed to load context injection logs: ${error.message}`)
+    }
+
+    const byTitle = new Map((documents || []).map(document => [document.title, document]))
+    const recent = new Map<string, RecentlyInjectedDocument>()
+
+    for (const log of logs || []) {
+      const items = ((log.metadata as { items?: InjectedContextItem[] } | null)?.items || [])
+        .filter(item => item.type === 'knowledge')
+
+      for (const item of items) {
+        const document = byTitle.get(item.title)
+        if (!document) continue
+
+        const entry = recent.get(document.id)
+        if (entry) {
+          entry.injectionCount++
+        } else {
+          recent.set(document.id, {
+            documentId: document.id,
+            title: document.title,
+            category: document.category as KnowledgeDocument['category'],
+            lastInjectedAt: log.created_at,
+            injectionCount: 1
+          })
+        }
+      }
+    }
+
+    return Array.from(recent.values()).slice(0, limit)
+  }
+
+  /**
+   * Owners and members may read; changing documents also needs a role
+   * other than viewer
+   */
+  async checkAccess(userId: string, projectId: string, write: boolean = false): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data: project } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .maybeSingle()
+
+    if (project?.user_id === userId) {
+      return
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!membership) {
+      throw new Error('Access denied to project')
+    }
+    if (write && membership.role === 'viewer') {
+      throw new Error('Access denied: viewers cannot change the knowledge base')
+    }
+  }
+
+  private mapDatabaseToDocument(data: any): KnowledgeDocument {
+    const metadata = data.metadata || {}
+
+    return {
+      id: data.id,
+      projectId: data.project_id,
+      title: data.title,
+      content: data.content || '',
+      fileUrl: data.file_url || undefined,
+      category: data.category,
+      metadata: {
+        ...metadata,
+        tags: metadata.tags || []
+      },
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at)
+    }
+  }
+}
+
+// Export singleton instance
+export const knowledgeService = new KnowledgeService()
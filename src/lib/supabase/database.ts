@@ -102,6 +102,17 @@ export class DatabaseClient {
     return data
   }
 
+  async getPrompt(id: string) {
+    const { data, error } = await this.supabase
+      .from('project_prompts')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
   async createPrompt(prompt: Inserts<'project_prompts'>) {
     const { data, error } = await this.supabase
       .from('project_prompts')
@@ -134,6 +145,16 @@ export class DatabaseClient {
     if (error) throw error
   }
 
+  // Moves a message's replies up to its parent, so deleting it keeps the thread connected
+  async reparentPrompts(parentId: string, newParentId: string | null) {
+    const { error } = await this.supabase
+      .from('project_prompts')
+      .update({ parent_message_id: newParentId })
+      .eq('parent_message_id', parentId)
+
+    if (error) throw error
+  }
+
   // Project Knowledge
   async getProjectKnowledge(projectId: string) {
     const { data, error } = await this.supabase
@@ -105,6 +105,11 @@ export interface Database {
           ai_provider: string | null
           model: string | null
           metadata: Json
+          conversation_id: string | null
+          parent_message_id: string | null
+          thread_depth: number
+          is_branch_point: boolean
+          selected_at: string | null
           created_at: string
         }
         Insert: {
@@ -115,6 +120,11 @@ export interface Database {
           ai_provider?: string | null
           model?: string | null
           metadata?: Json
+          conversation_id?: string | null
+          parent_message_id?: string | null
+          thread_depth?: number
+          is_branch_point?: boolean
+          selected_at?: string | null
           created_at?: string
         }
         Update: {
@@ -125,6 +135,11 @@ export interface Database {
           ai_provider?: string | null
           model?: string | null
           metadata?: Json
+          conversation_id?: string | null
+          parent_message_id?: string | null
+          thread_depth?: number
+          is_branch_point?: boolean
+          selected_at?: string | null
           created_at?: string
         }
       }
@@ -229,6 +244,11 @@ export interface Database {
           api_key_encrypted: string
           is_active: boolean
           settings: Json
+          base_url: string | null
+          auth_header: string | null
+          models: string[]
+          label: string
+          is_default: boolean
           created_at: string
         }
         Insert: {
@@ -238,6 +258,11 @@ export interface Database {
           api_key_encrypted: string
           is_active?: boolean
           settings?: Json
+          base_url?: string | null
+          auth_header?: string | null
+          models?: string[]
+          label?: string
+          is_default?: boolean
           created_at?: string
         }
         Update: {
@@ -247,6 +272,11 @@ export interface Database {
           api_key_encrypted?: string
           is_active?: boolean
           settings?: Json
+          base_url?: string | null
+          auth_header?: string | null
+          models?: string[]
+          label?: string
+          is_default?: boolean
           created_at?: string
         }
       }
@@ -285,6 +315,196 @@ export interface Database {
           updated_at?: string
         }
       }
+      template_stats: {
+        Row: {
+          template_id: string
+          usage_count: number
+          rating_count: number
+          rating_total: number
+          last_used_at: string | null
+        }
+        Insert: {
+          template_id: string
+          usage_count?: number
+          rating_count?: number
+          rating_total?: number
+          last_used_at?: string | null
+        }
+        Update: {
+          template_id?: string
+          usage_count?: number
+          rating_count?: number
+          rating_total?: number
+          last_used_at?: string | null
+        }
+      }
+      context_injection_logs: {
+        Row: {
+          id: string
+          user_id: string
+          project_id: string
+          conversation_id: string | null
+          user_message: string
+          context_items_count: number
+          total_relevance_score: number | null
+          estimated_tokens: number | null
+          context_types: string[]
+          injection_method: string
+          user_accepted: boolean | null
+          metadata: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          project_id: string
+          conversation_id?: string | null
+          user_message: string
+          context_items_count?: number
+          total_relevance_score?: number | null
+          estimated_tokens?: number | null
+          context_types?: string[]
+          injection_method?: string
+          user_accepted?: boolean | null
+          metadata?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          project_id?: string
+          conversation_id?: string | null
+          user_message?: string
+          context_items_count?: number
+          total_relevance_score?: number | null
+          estimated_tokens?: number | null
+          context_types?: string[]
+          injection_method?: string
+          user_accepted?: boolean | null
+          metadata?: Json
+          created_at?: string
+        }
+      }
+      knowledge_embeddings: {
+        Row: {
+          id: string
+          knowledge_id: string
+          project_id: string
+          chunk_index: number
+          content: string
+          embedding: string
+          provider: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          knowledge_id: string
+          project_id: string
+          chunk_index: number
+          content: string
+          embedding: string
+          provider: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          knowledge_id?: string
+          project_id?: string
+          chunk_index?: number
+          content?: string
+          embedding?: string
+          provider?: string
+          created_at?: string
+        }
+      }
+      code_indexes: {
+        Row: {
+          project_id: string
+          source: string
+          repository: string | null
+          ref: string | null
+          commit_sha: string | null
+          status: 'indexing' | 'ready' | 'failed'
+          file_count: number
+          chunk_count: number
+          skipped_count: number
+          error: string | null
+          metadata: Json
+          started_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          project_id: string
+          source: string
+          repository?: string | null
+          ref?: string | null
+          commit_sha?: string | null
+          status: 'indexing' | 'ready' | 'failed'
+          file_count?: number
+          chunk_count?: number
+          skipped_count?: number
+          error?: string | null
+          metadata?: Json
+          started_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          project_id?: string
+          source?: string
+          repository?: string | null
+          ref?: string | null
+          commit_sha?: string | null
+          status?: 'indexing' | 'ready' | 'failed'
+          file_count?: number
+          chunk_count?: number
+          skipped_count?: number
+          error?: string | null
+          metadata?: Json
+          started_at?: string
+          completed_at?: string | null
+        }
+      }
+      code_chunks: {
+        Row: {
+          id: string
+          project_id: string
+          file_path: string
+          language: string
+          symbols: string[]
+          start_line: number
+          end_line: number
+          content: string
+          embedding: string | null
+          provider: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          file_path: string
+          language: string
+          symbols?: string[]
+          start_line: number
+          end_line: number
+          content: string
+          embedding?: string | null
+          provider?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          file_path?: string
+          language?: string
+          symbols?: string[]
+          start_line?: number
+          end_line?: number
+          content?: string
+          embedding?: string | null
+          provider?: string | null
+          created_at?: string
+        }
+      }
       user_subscriptions: {
         Row: {
           id: string
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { VARIABLE_NAME_PATTERN } from '@/lib/templates/template-variables'
+import { MAX_FILE_SIZE_LIMIT } from '@/lib/code/repository-indexer'
 
 // Install zod for validation
 // npm install zod
@@ -34,7 +36,7 @@ export const projectMemberSchema = z.object({
 // Prompt validation
 export const promptSchema = z.object({
   project_id: z.string().uuid('Invalid project ID'),
-  role: z.enum(['user', 'assistant', 'system']),
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
   content: z.string().min(1, 'Content is required').max(50000, 'Content too long'),
   ai_provider: z.string().optional(),
   model: z.string().optional(),
@@ -82,7 +84,7 @@ export const assetSchema = z.object({
 
 // AI Provider validation
 export const aiProviderSchema = z.object({
-  provider: z.enum(['openai', 'anthropic', 'straico', 'cohere']),
+  provider: z.enum(['openai', 'anthropic', 'straico', 'cohere', 'custom']),
   api_key_encrypted: z.string().min(1, 'API key is required'),
   is_active: z.boolean().optional().default(true),
   settings: z.object({
@@ -90,24 +92,81 @@ export const aiProviderSchema = z.object({
     maxTokens: z.number().positive().optional(),
     temperature: z.number().min(0).max(2).optional(),
   }).optional(),
+  base_url: z.string().url('Invalid endpoint URL').optional().nullable(),
+  auth_header: z.string().max(100, 'Header name too long').optional().nullable(),
+  models: z.array(z.string().min(1)).optional(),
+  label: z.string().trim().min(1, 'Label is required').max(50, 'Label too long').optional(),
+  is_default: z.boolean().optional(),
 })
 
 // Template validation
+export const templateVariableSchema = z.object({
+  name: z.string().regex(VARIABLE_NAME_PATTERN, 'Invalid variable name'),
+  type: z.enum(['text', 'textarea', 'number', 'select', 'boolean']),
+  label: z.string().max(100, 'Label too long').optional(),
+  description: z.string().max(300, 'Description too long').optional(),
+  defaultValue: z.string().max(5000, 'Default value too long').optional(),
+  options: z.array(z.string().max(200)).max(50, 'Too many options').optional(),
+  required: z.boolean().optional(),
+})
+
 export const templateSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
   content: z.string().min(1, 'Content is required').max(50000, 'Content too long'),
   category: z.string().min(1, 'Category is required').max(50, 'Category too long'),
   is_public: z.boolean().optional().default(false),
   metadata: z.object({
+    description: z.string().max(500, 'Description too long').optional(),
     language: z.string().optional(),
     framework: z.string().optional(),
     tags: z.array(z.string()).optional(),
     version: z.string().optional(),
+    variables: z.array(templateVariableSchema).max(30, 'Too many variables').optional(),
   }).optional(),
 })
 
 export const templateUpdateSchema = templateSchema.partial()
 
+// Assistant profile validation
+export const assistantProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80, 'Name too long'),
+  description: z.string().max(300, 'Description too long').optional(),
+  systemPrompt: z.string().min(1, 'System prompt is required').max(20000, 'System prompt too long'),
+  providerId: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  contextDefaults: z.object({
+    enabled: z.boolean(),
+    autoInjectKnowledge: z.boolean(),
+    autoInjectCode: z.boolean(),
+    autoInjectAssets: z.boolean(),
+    maxContextItems: z.number().int().min(1).max(20),
+    minRelevanceScore: z.number().min(0).max(1),
+  }).optional(),
+})
+
+// Optional settings are cleared with null
+export const assistantProfileUpdateSchema = assistantProfileSchema.partial().extend({
+  description: assistantProfileSchema.shape.description.nullable(),
+  providerId: assistantProfileSchema.shape.providerId.nullable(),
+  model: assistantProfileSchema.shape.model.nullable(),
+  temperature: assistantProfileSchema.shape.temperature.nullable(),
+  maxTokens: assistantProfileSchema.shape.maxTokens.nullable(),
+  contextDefaults: assistantProfileSchema.shape.contextDefaults.nullable(),
+})
+
+// Code import validation; archives are uploaded as form data with the same options
+export const codeImportOptionsSchema = z.object({
+  excludePatterns: z.array(z.string().trim().min(1).max(200, 'Pattern too long')).max(100, 'Too many exclude patterns').optional(),
+  maxFileSize: z.number().int().min(1024, 'File size limit must be at least 1KB').max(MAX_FILE_SIZE_LIMIT, 'File size limit too large').optional(),
+})
+
+export const codeImportSchema = codeImportOptionsSchema.extend({
+  source: z.enum(['github', 'local']).default('github'),
+  branch: z.string().trim().min(1).max(255).optional(),
+})
+
 // User validation
 export const userSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -154,6 +213,22 @@ export function validateTemplateUpdate(data: unknown) {
   return templateUpdateSchema.parse(data)
 }
 
+export function validateAssistantProfile(data: unknown) {
+  return assistantProfileSchema.parse(data)
+}
+
+export function validateAssistantProfileUpdate(data: unknown) {
+  return assistantProfileUpdateSchema.parse(data)
+}
+
+export function validateCodeImport(data: unknown) {
+  return codeImportSchema.parse(data)
+}
+
+export function validateCodeImportOptions(data: unknown) {
+  return codeImportOptionsSchema.parse(data)
+}
+
 export function validateUser(data: unknown) {
   return userSchema.parse(data)
 }
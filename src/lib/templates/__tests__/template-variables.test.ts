@@ -0,0 +1,36 @@
+import {
+  initialVariableValues,
+  renderTemplate,
+  resolveVariables,
+  validateVariableValues
+} from '../template-variables'
+
+describe('Template variables', () => {
+  const content = 'Review this {{ language }} code for {{focus}}. Strict: {{strict}}. Again: {{language}}'
+
+  test('should describe each placeholder once, defaulting to required text', () => {
+    const variables = resolveVariables(content, [
+      { name: 'focus', type: 'select', options: ['bugs', 'style'], required: true },
+      { name: 'strict', type: 'boolean' },
+      { name: 'removed', type: 'number' }
+    ])
+
+    expect(variables.map(variable => variable.name)).toEqual(['language', 'focus', 'strict'])
+    expect(variables[0]).toEqual({ name: 'language', type: 'text', required: true })
+    expect(initialVariableValues(variables)).toEqual({ language: '', focus: 'bugs', strict: 'false' })
+  })
+
+  test('should validate values and render the template', () => {
+    const variables = resolveVariables(content, [
+      { name: 'focus', type: 'select', label: 'Focus', options: ['bugs', 'style'] }
+    ])
+
+    expect(validateVariableValues(variables, { focus: 'speed' })).toEqual({
+      language: 'language is required',
+      focus: 'Focus must be one of: bugs, style',
+      strict: 'strict is required'
+    })
+    expect(renderTemplate(content, { language: 'Go', focus: 'bugs' }))
+      .toBe('Review this Go code for bugs. Strict: . Again: Go')
+  })
+})
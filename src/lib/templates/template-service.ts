@@ -0,0 +1,202 @@
+import type { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { templateSchema } from '@/lib/supabase/validation'
+import type { PromptTemplate } from '@/types'
+
+export type TemplateInput = z.infer<typeof templateSchema>
+
+export interface TemplateListOptions {
+  // "mine" is the user's own, "public" everyone's shared ones
+  scope?: 'all' | 'mine' | 'public'
+  category?: string
+  search?: string
+  sortBy?: 'updated' | 'usage' | 'rating'
+}
+
+export class TemplateService {
+  private async getSupabase() {
+    return await createClient()
+  }
+
+  /**
+   * Templates the user can see: their own and public ones
+   */
+  async listTemplates(userId: string, options: TemplateListOptions = {}): Promise<PromptTemplate[]> {
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('templates')
+      .select('*, template_stats(*)')
+
+    if (options.scope === 'mine') {
+      query = query.eq('user_id', userId)
+    } else if (options.scope === 'public') {
+      query = query.eq('is_public', true)
+    } else {
+      query = query.or(`user_id.eq.${userId},is_public.eq.true`)
+    }
+    if (options.category) {
+      query = query.eq('category', options.category)
+    }
+    if (options.search) {
+      const term = options.search.replace(/[%_,()]/g, ' ').trim()
+      if (term) {
+        query = query.or(`name.ilike.%${term}%,content.ilike.%${term}%`)
+      }
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load templates: ${error.message}`)
+    }
+
+    const templates = (data || []).map(row => this.mapDatabaseToTemplate(row))
+    if (options.sortBy === 'usage') {
+      templates.sort((a, b) => b.usageCount - a.usageCount)
+    } else if (options.sortBy === 'rating') {
+      templates.sort((a, b) => (b.averageRating ?? 0) - (a.averageRating ?? 0) || b.ratingCount - a.ratingCount)
+    }
+    return templates
+  }
+
+  /**
+   * A template the user owns or that is public
+   */
+  async getTemplate(userId: string, templateId: string): Promise<PromptTemplate | null> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('templates')
+      .select('*, template_stats(*)')
+      .eq('id', templateId)
+      .maybeSingle()
+
+    if (error || !data || (data.user_id !== userId && !data.is_public)) {
+      return null
+    }
+
+    return this.mapDatabaseToTemplate(data)
+  }
+
+  async createTemplate(userId: string, input: TemplateInput): Promise<PromptTemplate> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('templates')
+      .insert({ ...input, user_id: userId, metadata: input.metadata || {} })
+      .select('*, template_stats(*)')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create template: ${error.message}`)
+    }
+
+    return this.mapDatabaseToTemplate(data)
+  }
+
+  async updateTemplate(userId: string, templateId: string, updates: Partial<TemplateInput>): Promise<PromptTemplate> {
+    await this.checkOwner(userId, templateId)
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('templates')
+      .update(updates)
+      .eq('id', templateId)
+      .select('*, template_stats(*)')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update template: ${error.message}`)
+    }
+
+    return this.mapDatabaseToTemplate(data)
+  }
+
+  async deleteTemplate(userId: string, templateId: string): Promise<void> {
+    await this.checkOwner(userId, templateId)
+
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) {
+      throw new Error(`Failed to delete template: ${error.message}`)
+    }
+  }
+
+  /**
+   * Count a message sent from the template. Stats can only be changed with
+   * the service role, so users can't set them by calling the database.
+   */
+  async recordUsage(userId: string, templateId: string): Promise<void> {
+    const { error } = await createAdminClient().rpc('record_template_usage', {
+      p_template_id: templateId,
+      p_user_id: userId
+    })
+
+    if (error) {
+      throw new Error(`Failed to record template usage: ${error.message}`)
+    }
+  }
+
+  /**
+   * Count a rating (-1 or 1) of a reply to a message sent from the template;
+   * a previous rating of the same reply is replaced
+   */
+  async recordRating(userId: string, templateId: string, rating: number, previousRating?: number): Promise<void> {
+    const { error } = await createAdminClient().rpc('record_template_rating', {
+      p_template_id: templateId,
+      p_user_id: userId,
+      p_rating: rating,
+      p_previous_rating: previousRating ?? null
+    })
+
+    if (error) {
+      throw new Error(`Failed to record template rating: ${error.message}`)
+    }
+  }
+
+  private async checkOwner(userId: string, templateId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { data: template } = await supabase
+      .from('templates')
+      .select('user_id')
+      .eq('id', templateId)
+      .maybeSingle()
+
+    if (!template) {
+      throw new Error('Template not found')
+    }
+    if (template.user_id !== userId) {
+      throw new Error('Access denied: only the template owner can change it')
+    }
+  }
+
+  private mapDatabaseToTemplate(data: any): PromptTemplate {
+    const metadata = data.metadata || {}
+    // PostgREST embeds the one-to-one stats row as an object or a one-row array
+    const stats = Array.isArray(data.template_stats) ? data.template_stats[0] : data.template_stats
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      name: data.name,
+      content: data.content,
+      category: data.category,
+      isPublic: data.is_public,
+      description: metadata.description,
+      tags: metadata.tags || [],
+      variables: metadata.variables || [],
+      usageCount: stats?.usage_count || 0,
+      ratingCount: stats?.rating_count || 0,
+      averageRating: stats?.rating_count ? stats.rating_total / stats.rating_count : undefined,
+      lastUsedAt: stats?.last_used_at || undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    }
+  }
+}
+
+// Export singleton instance
+export const templateService = new TemplateService()
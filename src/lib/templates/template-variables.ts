@@ -0,0 +1,77 @@
+import type { TemplateVariable } from '@/types'
+
+/**
+ * Prompt templates mark the parts to fill in with `{{name}}`. A template may
+ * describe its placeholders (type, label, default, choices) in metadata;
+ * placeholders it doesn't describe are required free-text inputs.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/
+
+/**
+ * Placeholder names in the order they first appear
+ */
+export function extractVariableNames(content: string): string[] {
+  const names = Array.from(content.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+  return Array.from(new Set(names))
+}
+
+/**
+ * One input per placeholder, using the template's description where it has
+ * one. Descriptions of placeholders no longer in the content are dropped.
+ */
+export function resolveVariables(content: string, definitions: TemplateVariable[] = []): TemplateVariable[] {
+  const defined = new Map(definitions.map(variable => [variable.name, variable]))
+  return extractVariableNames(content).map(name =>
+    defined.get(name) ?? { name, type: 'text', required: true }
+  )
+}
+
+/**
+ * Starting values: the defaults, the first choice of a required select, and
+ * "false" for switches
+ */
+export function initialVariableValues(variables: TemplateVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map(variable => {
+    if (variable.defaultValue !== undefined) return [variable.name, variable.defaultValue]
+    if (variable.type === 'boolean') return [variable.name, 'false']
+    if (variable.type === 'select' && variable.required) return [variable.name, variable.options?.[0] ?? '']
+    return [variable.name, '']
+  }))
+}
+
+/**
+ * Problems with the filled-in values, keyed by variable name
+ */
+export function validateVariableValues(
+  variables: TemplateVariable[],
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const variable of variables) {
+    const value = (values[variable.name] ?? '').trim()
+    const label = variable.label || variable.name
+
+    if (!value) {
+      if (variable.required) errors[variable.name] = `${label} is required`
+      continue
+    }
+    if (variable.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[variable.name] = `${label} must be a number`
+    } else if (variable.type === 'select' && variable.options?.length && !variable.options.includes(value)) {
+      errors[variable.name] = `${label} must be one of: ${variable.options.join(', ')}`
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Replace each placeholder with its value; unfilled optional ones become empty
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '')
+}
@@ -0,0 +1,31 @@
+import { isUnifiedDiff, parseUnifiedDiff } from '../diff';
+
+const patch = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,3 +10,4 @@ export function start() {
+   const app = createApp();
+-  app.listen(3000);
++  const port = Number(process.env.PORT) || 3000;
++  app.listen(port);
+ }
+`;
+
+describe('Unified diff', () => {
+  test('should recognise diffs but not code with leading signs', () => {
+    expect(isUnifiedDiff(patch)).toBe(true);
+    expect(isUnifiedDiff('-1\n+2\n')).toBe(false);
+  });
+
+  test('should classify lines and number them from the hunk header', () => {
+    const lines = parseUnifiedDiff(patch);
+
+    expect(lines.map(line => line.type)).toEqual([
+      'file', 'file', 'file', 'hunk', 'context', 'remove', 'add', 'add', 'context',
+    ]);
+    expect(lines[5].oldLine).toBe(11);
+    expect(lines[5].newLine).toBeUndefined();
+    expect(lines[7]).toMatchObject({ newLine: 12 });
+    expect(lines[8]).toMatchObject({ oldLine: 12, newLine: 13 });
+  });
+});
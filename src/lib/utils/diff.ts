@@ -0,0 +1,63 @@
+// Unified diff parsing for display
+
+export type DiffLineType = 'file' | 'hunk' | 'add' | 'remove' | 'context' | 'meta';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  // Line numbers in the old and new file, where the line exists there
+  oldLine?: number;
+  newLine?: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Whether text looks like a unified diff rather than code that happens to
+ * start with + or -
+ */
+export function isUnifiedDiff(text: string): boolean {
+  const lines = text.split('\n');
+  return lines.some(line => HUNK_HEADER.test(line)) ||
+    (lines.some(line => line.startsWith('--- ')) && lines.some(line => line.startsWith('+++ ')));
+}
+
+/**
+ * Classify each line of a unified diff, numbering lines from the hunk headers
+ */
+export function parseUnifiedDiff(text: string): DiffLine[] {
+  let oldLine = 0;
+  let newLine = 0;
+  let inHunk = false;
+
+  return text.replace(/\n$/, '').split('\n').map((content): DiffLine => {
+    const hunk = HUNK_HEADER.exec(content);
+    if (hunk) {
+      oldLine = parseInt(hunk[1], 10);
+      newLine = parseInt(hunk[2], 10);
+      inHunk = true;
+      return { type: 'hunk', content };
+    }
+
+    if (content.startsWith('diff ') || content.startsWith('--- ') || content.startsWith('+++ ')) {
+      inHunk = false;
+      return { type: 'file', content };
+    }
+
+    if (!inHunk) {
+      return { type: 'meta', content };
+    }
+
+    if (content.startsWith('+')) {
+      return { type: 'add', content, newLine: newLine++ };
+    }
+    if (content.startsWith('-')) {
+      return { type: 'remove', content, oldLine: oldLine++ };
+    }
+    if (content.startsWith('\\')) {
+      // "\ No newline at end of file"
+      return { type: 'meta', content };
+    }
+    return { type: 'context', content, oldLine: oldLine++, newLine: newLine++ };
+  });
+}
@@ -2,6 +2,7 @@
 export * from './validation';
 export * from './formatting';
 export * from './api';
+export * from './diff';
 
 // Re-export the main utils from ShadCN
 export { cn } from '../utils';
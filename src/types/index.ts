@@ -19,18 +19,97 @@ export interface Project {
   updatedAt: Date;
 }
 
+/**
+ * Context injection a profile turns on, overriding the project's context settings
+ */
+export interface AssistantContextDefaults {
+  enabled: boolean;
+  autoInjectKnowledge: boolean;
+  autoInjectCode: boolean;
+  autoInjectAssets: boolean;
+  maxContextItems: number;
+  minRelevanceScore: number;
+}
+
+/**
+ * A named assistant for a project: who it is (the system prompt) and how it
+ * is run. Stored in project_settings; unset fields fall back to what the
+ * chat request asks for.
+ */
+export interface AssistantProfile {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  // Credential id, "auto", or a provider type for that provider's default credential
+  providerId?: string;
+  // Vendor of providerId, for users who don't have that credential
+  providerType?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  contextDefaults?: AssistantContextDefaults;
+  // Profile this one was copied from, when shared from another project
+  copiedFrom?: { projectId: string; profileId: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A profile listed alongside profiles from the user's other projects
+export interface AvailableAssistantProfile extends AssistantProfile {
+  projectName: string;
+}
+
 export interface ProjectSettings {
+  // Credential id, or a provider type to use that provider's default credential
   defaultAIProvider: string;
   defaultModel: string;
   collaborationEnabled: boolean;
   publicTemplates: boolean;
 }
 
+/**
+ * A `{{name}}` placeholder in a prompt template and the input used to fill it
+ */
+export interface TemplateVariable {
+  name: string;
+  type: 'text' | 'textarea' | 'number' | 'select' | 'boolean';
+  label?: string;
+  description?: string;
+  defaultValue?: string;
+  // Choices for select variables
+  options?: string[];
+  required?: boolean;
+}
+
+/**
+ * A reusable prompt from the templates table, with its usage counters
+ */
+export interface PromptTemplate {
+  id: string;
+  userId: string;
+  name: string;
+  content: string;
+  category: string;
+  isPublic: boolean;
+  description?: string;
+  tags: string[];
+  variables: TemplateVariable[];
+  usageCount: number;
+  ratingCount: number;
+  // Mean rating, from -1 to 1, of replies to messages sent from the template
+  averageRating?: number;
+  lastUsedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ChatMessage {
   id: string;
   projectId: string;
   conversationId: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
   content: string;
   provider: string;
   model: string;
@@ -38,9 +117,23 @@ export interface ChatMessage {
   parentMessageId?: string;
   threadDepth: number;
   isBranchPoint: boolean;
+  // Last time this version was picked in the version switcher
+  selectedAt?: Date;
+  // Set on the selected path where the message has sibling versions
+  versions?: MessageVersions;
   createdAt: Date;
 }
 
+/**
+ * Sibling versions of a message: regenerated replies or edited prompts
+ */
+export interface MessageVersions {
+  // 1-based position of this version, oldest first
+  index: number;
+  count: number;
+  ids: string[];
+}
+
 export interface Conversation {
   id: string;
   projectId: string;
@@ -60,6 +153,22 @@ export interface Conversation {
   updatedAt: Date;
 }
 
+/**
+ * Running summary of a conversation's older turns, kept in the conversation's
+ * metadata under `summary` and sent in place of those turns
+ */
+export interface RollingSummary {
+  content: string;
+  // Last message folded in; unset for a summary written by hand from scratch
+  coversThroughMessageId?: string;
+  coveredMessages: number;
+  updatedAt: string;
+  // Set when the user last edited it
+  editedAt?: string;
+  provider?: string;
+  model?: string;
+}
+
 export interface ConversationSummary extends Conversation {
   projectName: string;
   latestMessage?: string;
@@ -69,11 +178,52 @@ export interface ConversationSummary extends Conversation {
   assistantMessageCount: number;
 }
 
+/**
+ * A project asset attached to a chat message
+ */
+export interface MessageAttachment {
+  assetId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: 'image' | 'file';
+}
+
 export interface MessageMetadata {
   tokens?: number;
   cost?: number;
   responseTime?: number;
   rating?: number;
+  cached?: boolean;
+  // Semantic cache hits: similarity of the cached question to this one
+  similarity?: number;
+  // Set on replies that stopped before the model finished
+  interrupted?: boolean;
+  interruptReason?: 'cancelled' | 'disconnected' | 'error';
+  // Set when the "auto" pseudo-model picked the provider and model
+  routing?: {
+    provider: string;
+    model: string;
+    complexity: 'simple' | 'moderate' | 'complex';
+    estimatedCost: number;
+    rationale: string;
+  };
+  // Set on replies from a compare run; the other candidates are sibling versions
+  comparison?: {
+    id: string;
+    // Column the reply was shown in
+    index: number;
+    winner?: boolean;
+  };
+  // Tool calling: set on assistant messages that requested tools
+  toolCalls?: { id: string; name: string; arguments: Record<string, any> }[];
+  // Set on tool messages
+  toolCallId?: string;
+  toolName?: string;
+  isError?: boolean;
+  attachments?: MessageAttachment[];
+  // Set on user messages sent from a prompt template
+  template?: { id: string; name: string };
 }
 
 export interface KnowledgeDocument {
@@ -87,11 +237,78 @@ export interface KnowledgeDocument {
     fileType?: string;
     size?: number;
     tags: string[];
+    version?: string;
+    // Set on chunks ingested from an uploaded file
+    sourceAssetId?: string;
+    chunkIndex?: number;
+    chunkCount?: number;
+    headings?: string[];
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A file uploaded to the knowledge base and the state of its ingestion into
+ * knowledge documents
+ */
+export interface KnowledgeUpload {
+  assetId: string;
+  name: string;
+  type: string;
+  size: number;
+  category: KnowledgeDocument['category'];
+  status: 'processing' | 'completed' | 'failed';
+  error?: string;
+  chunkCount: number;
+  uploadedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * A knowledge document sent to the model as chat context, from the caller's
+ * context injection logs
+ */
+export interface RecentlyInjectedDocument {
+  documentId: string;
+  title: string;
+  category: KnowledgeDocument['category'];
+  lastInjectedAt: string;
+  injectionCount: number;
+}
+
+/**
+ * The snapshot of a project's code that chat context is drawn from, and how
+ * indexing it went
+ */
+export interface CodeIndexStatus {
+  projectId: string;
+  source: 'github' | 'archive' | 'local';
+  // "owner/repo", the uploaded archive's name or the local path
+  repository?: string;
+  ref?: string;
+  commitSha?: string;
+  status: 'indexing' | 'ready' | 'failed';
+  fileCount: number;
+  chunkCount: number;
+  skippedCount: number;
+  files: CodeIndexFile[];
+  // A sample of the files left out, with why
+  skipped: { path: string; reason: string }[];
+  excludePatterns: string[];
+  maxFileSize?: number;
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface CodeIndexFile {
+  path: string;
+  language: string;
+  size: number;
+  chunkCount: number;
+}
+
 export interface ProjectAsset {
   id: string;
   projectId: string;
@@ -106,14 +323,24 @@ export interface ProjectAsset {
 export interface AIProvider {
   id: string;
   userId: string;
-  provider: 'openai' | 'anthropic' | 'straico' | 'cohere';
+  provider: 'openai' | 'anthropic' | 'straico' | 'cohere' | 'custom';
   apiKeyEncrypted: string;
   isActive: boolean;
+  // User-chosen name distinguishing multiple keys for the same provider
+  label: string;
+  isDefault: boolean;
   settings: {
     defaultModel: string;
     maxTokens: number;
     temperature: number;
   };
+  createdAt?: string;
+  // Only set for custom OpenAI-compatible endpoints
+  endpoint?: {
+    baseUrl: string;
+    authHeader?: string;
+    models: string[];
+  };
 }
 
 export interface ProjectMember {
@@ -170,7 +397,7 @@ export interface UserSubscription {
 export interface UsageQuotaDetailed {
   id: string;
   userId: string;
-  provider: 'openai' | 'anthropic' | 'straico' | 'cohere';
+  provider: 'openai' | 'anthropic' | 'straico' | 'cohere' | 'custom';
   quotaType: 'tokens' | 'requests' | 'cost';
   monthlyLimit: number;
   currentUsage: number;
@@ -184,7 +411,7 @@ export interface AIUsageLog {
   id: string;
   userId: string;
   projectId?: string;
-  provider: 'openai' | 'anthropic' | 'straico' | 'cohere';
+  provider: 'openai' | 'anthropic' | 'straico' | 'cohere' | 'custom';
   model: string;
   inputTokens: number;
   outputTokens: number;
@@ -201,7 +428,7 @@ export interface UsageAlert {
   id: string;
   userId: string;
   alertType: 'quota_warning' | 'quota_exceeded' | 'cost_warning' | 'upgrade_prompt';
-  provider?: 'openai' | 'anthropic' | 'straico' | 'cohere';
+  provider?: 'openai' | 'anthropic' | 'straico' | 'cohere' | 'custom';
   thresholdPercentage?: number;
   currentUsage?: number;
   limitValue?: number;
@@ -266,5 +493,33 @@ export interface CostBreakdown {
   avgCostPerToken: number;
 }
 
+// How rated replies in one group (a model, a template, ...) were received
+export interface EffectivenessGroup {
+  key: string;
+  label: string;
+  ratedCount: number;
+  positiveCount: number;
+  // Share of rated replies rated helpful
+  helpfulRate?: number;
+  averageCost?: number;
+  // Model comparisons the group took part in, and how many it won
+  comparisonCount: number;
+  comparisonWins: number;
+  winRate?: number;
+}
+
+export interface PromptEffectivenessReport {
+  projectId: string;
+  since: string;
+  // Groups with fewer rated replies are reported but never recommended
+  minSampleSize: number;
+  overall: EffectivenessGroup;
+  byModel: EffectivenessGroup[];
+  byTemplate: EffectivenessGroup[];
+  byContext: EffectivenessGroup[];
+  byCost: EffectivenessGroup[];
+  recommendations: string[];
+}
+
 // Re-export feature flag types
 export * from './feature-flags';
@@ -0,0 +1,42 @@
+-- Add custom OpenAI-compatible endpoint provider type
+-- Date: 2025-08-25
+-- Reason: Allow self-hosted/local models (Ollama, vLLM, LM Studio) to be configured
+--         alongside the hosted vendors, with a per-configuration base URL,
+--         optional auth header name and model list.
+
+BEGIN;
+
+-- ===== Step 1: Endpoint columns on ai_providers =====
+ALTER TABLE public.ai_providers
+ADD COLUMN IF NOT EXISTS base_url TEXT,
+ADD COLUMN IF NOT EXISTS auth_header TEXT,
+ADD COLUMN IF NOT EXISTS models TEXT[] DEFAULT '{}';
+
+-- ===== Step 2: Allow the 'custom' provider type =====
+ALTER TABLE public.ai_providers DROP CONSTRAINT IF EXISTS ai_providers_provider_check;
+ALTER TABLE public.ai_providers
+ADD CONSTRAINT ai_providers_provider_check
+CHECK (provider IN ('openai', 'anthropic', 'straico', 'cohere', 'custom'));
+
+-- Custom endpoints must carry a base URL
+ALTER TABLE public.ai_providers
+ADD CONSTRAINT ai_providers_custom_base_url_check
+CHECK (provider <> 'custom' OR base_url IS NOT NULL);
+
+-- ===== Step 3: Usage tables must accept the new provider type =====
+ALTER TABLE public.usage_quotas DROP CONSTRAINT IF EXISTS usage_quotas_provider_check;
+ALTER TABLE public.usage_quotas
+ADD CONSTRAINT usage_quotas_provider_check
+CHECK (provider IN ('openai', 'anthropic', 'straico', 'cohere', 'custom'));
+
+ALTER TABLE public.ai_usage_logs DROP CONSTRAINT IF EXISTS ai_usage_logs_provider_check;
+ALTER TABLE public.ai_usage_logs
+ADD CONSTRAINT ai_usage_logs_provider_check
+CHECK (provider IN ('openai', 'anthropic', 'straico', 'cohere', 'custom'));
+
+ALTER TABLE public.usage_alerts DROP CONSTRAINT IF EXISTS usage_alerts_provider_check;
+ALTER TABLE public.usage_alerts
+ADD CONSTRAINT usage_alerts_provider_check
+CHECK (provider IN ('openai', 'anthropic', 'straico', 'cohere', 'custom'));
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Allow multiple named API keys per provider
+-- Date: 2025-08-26
+-- Reason: UNIQUE(user_id, provider) prevented keeping e.g. a personal and a company
+--         OpenAI key side by side. Credentials are now labeled, unique per label,
+--         and one credential per provider is flagged as the default.
+
+BEGIN;
+
+-- ===== Step 1: Label and default flag =====
+ALTER TABLE public.ai_providers
+ADD COLUMN IF NOT EXISTS label TEXT NOT NULL DEFAULT 'Default',
+ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing rows were unique per provider, so each one is its provider's default
+UPDATE public.ai_providers SET is_default = true;
+
+-- ===== Step 2: Replace the one-key-per-provider constraint =====
+ALTER TABLE public.ai_providers DROP CONSTRAINT IF EXISTS ai_providers_user_id_provider_key;
+
+ALTER TABLE public.ai_providers
+ADD CONSTRAINT ai_providers_user_id_provider_label_key UNIQUE (user_id, provider, label);
+
+ALTER TABLE public.ai_providers
+ADD CONSTRAINT ai_providers_label_check CHECK (char_length(trim(label)) BETWEEN 1 AND 50);
+
+-- At most one default credential per user and provider
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_providers_one_default
+ON public.ai_providers(user_id, provider)
+WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_ai_providers_user_provider
+ON public.ai_providers(user_id, provider);
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Allow tool messages in project_prompts
+-- Date: 2025-08-27
+-- Reason: Tool calling persists each tool result as its own prompt with role 'tool'
+--         (the requesting call id and tool name live in metadata), which the
+--         original role check rejected.
+
+BEGIN;
+
+-- ===== Step 1: Widen the role check =====
+ALTER TABLE public.project_prompts DROP CONSTRAINT IF EXISTS project_prompts_role_check;
+
+ALTER TABLE public.project_prompts
+ADD CONSTRAINT project_prompts_role_check
+CHECK (role IN ('user', 'assistant', 'system', 'tool'));
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- Storage bucket for chat attachments
+-- Date: 2025-08-28
+-- Reason: Images and documents attached in project chat are stored as
+--         project_assets rows backed by files in a private storage bucket. Files
+--         live under "<project_id>/..." so access follows project ownership, the
+--         same rule the project_assets policies use.
+
+BEGIN;
+
+-- ===== Step 1: Private bucket =====
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('project-assets', 'project-assets', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+-- ===== Step 2: Object policies scoped to the owning project =====
+DROP POLICY IF EXISTS "Project owners can read asset files" ON storage.objects;
+DROP POLICY IF EXISTS "Project owners can upload asset files" ON storage.objects;
+DROP POLICY IF EXISTS "Project owners can delete asset files" ON storage.objects;
+
+CREATE POLICY "Project owners can read asset files" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'project-assets' AND EXISTS (
+            SELECT 1 FROM public.projects
+            WHERE id::text = (storage.foldername(name))[1] AND user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Project owners can upload asset files" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'project-assets' AND EXISTS (
+            SELECT 1 FROM public.projects
+            WHERE id::text = (storage.foldername(name))[1] AND user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Project owners can delete asset files" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'project-assets' AND EXISTS (
+            SELECT 1 FROM public.projects
+            WHERE id::text = (storage.foldername(name))[1] AND user_id = auth.uid()
+        )
+    );
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- Persistent AI response cache
+-- Date: 2025-08-29
+-- Reason: The abstraction layer cached responses in a per-process Map, which is
+--         lost on every deploy and not shared between serverless instances.
+--         With AI_CACHE_BACKEND=postgres entries are stored here instead. Rows
+--         are scoped to the requesting user and project; the server writes them
+--         with the service role, users may only read their own.
+
+BEGIN;
+
+-- ===== Step 1: Cache table =====
+CREATE TABLE IF NOT EXISTS public.ai_response_cache (
+    cache_key TEXT PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    model TEXT NOT NULL,
+    response JSONB NOT NULL,
+    hit_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    last_accessed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_user_id ON public.ai_response_cache(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_project_id ON public.ai_response_cache(project_id);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON public.ai_response_cache(expires_at);
+
+-- ===== Step 2: Row level security =====
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own cached responses" ON public.ai_response_cache;
+
+CREATE POLICY "Users can view own cached responses" ON public.ai_response_cache
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- ===== Step 3: Stats helper =====
+CREATE OR REPLACE FUNCTION get_ai_response_cache_stats()
+RETURNS TABLE (entries BIGINT, average_age_seconds DOUBLE PRECISION) AS $$
+    SELECT
+        COUNT(*),
+        COALESCE(AVG(EXTRACT(EPOCH FROM (NOW() - created_at))), 0)::DOUBLE PRECISION
+    FROM public.ai_response_cache
+    WHERE expires_at > NOW();
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
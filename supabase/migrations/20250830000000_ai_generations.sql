@@ -0,0 +1,41 @@
+-- Streamed AI generations
+-- Date: 2025-08-30
+-- Reason: Chat streams were tied to the HTTP response, so a dropped connection
+--         lost the partial reply while the provider request kept running.
+--         Each streamed generation now runs server-side and is recorded here
+--         with its status and accumulated content, so clients can resume a
+--         stream, cancel it, and see what was produced before it stopped.
+
+BEGIN;
+
+-- ===== Step 1: Generations table =====
+CREATE TABLE IF NOT EXISTS public.ai_generations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+    assistant_message_id UUID REFERENCES public.project_prompts(id) ON DELETE SET NULL,
+    status TEXT DEFAULT 'streaming' NOT NULL
+        CHECK (status IN ('streaming', 'completed', 'cancelled', 'interrupted', 'failed')),
+    content TEXT DEFAULT '' NOT NULL,
+    last_event_id INTEGER DEFAULT 0 NOT NULL,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generations_user_id ON public.ai_generations(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_generations_project_id ON public.ai_generations(project_id);
+CREATE INDEX IF NOT EXISTS idx_ai_generations_status ON public.ai_generations(status)
+    WHERE status = 'streaming';
+
+-- ===== Step 2: Row level security =====
+ALTER TABLE public.ai_generations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own generations" ON public.ai_generations;
+
+CREATE POLICY "Users can view own generations" ON public.ai_generations
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Message versions
+-- Date: 2025-08-31
+-- Reason: Regenerating a reply or editing and resending a prompt keeps the old
+--         message and adds a sibling version under the same parent_message_id.
+--         Messages were stored without parents until now, so existing
+--         conversations are chained in creation order. selected_at records
+--         when a version was picked in the version switcher; the version
+--         shown at each level is the one picked or created most recently.
+
+BEGIN;
+
+-- ===== Step 1: Chain existing messages in creation order =====
+WITH ordered AS (
+    SELECT
+        id,
+        LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id,
+        ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY created_at, id) - 1 AS depth
+    FROM public.project_prompts
+    WHERE conversation_id IS NOT NULL
+)
+UPDATE public.project_prompts p
+SET parent_message_id = ordered.previous_id,
+    thread_depth = ordered.depth
+FROM ordered
+WHERE p.id = ordered.id
+  AND p.parent_message_id IS NULL;
+
+-- ===== Step 2: Version selection =====
+ALTER TABLE public.project_prompts
+ADD COLUMN IF NOT EXISTS selected_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_project_prompts_conversation_parent
+    ON public.project_prompts(conversation_id, parent_message_id);
+
+COMMIT;
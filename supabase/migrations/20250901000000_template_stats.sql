@@ -0,0 +1,80 @@
+-- Template usage and ratings
+-- Date: 2025-09-01
+-- Reason: Prompt templates are picked from the chat composer. Each message
+--         sent from a template counts as a use, and ratings on the replies to
+--         those messages are collected per template. The counters live in
+--         their own table so that using a template doesn't touch the
+--         template's updated_at, and are only changed through the functions
+--         below because most uses are of templates other users own.
+
+BEGIN;
+
+-- ===== Step 1: Counters =====
+CREATE TABLE IF NOT EXISTS public.template_stats (
+    template_id UUID PRIMARY KEY REFERENCES public.templates(id) ON DELETE CASCADE,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    rating_count INTEGER NOT NULL DEFAULT 0,
+    rating_total INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.template_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view stats of visible templates" ON public.template_stats;
+CREATE POLICY "Users can view stats of visible templates" ON public.template_stats
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.templates t
+            WHERE t.id = template_id
+              AND (t.user_id = auth.uid() OR t.is_public = true)
+        )
+    );
+
+-- ===== Step 2: Recording =====
+CREATE OR REPLACE FUNCTION public.record_template_usage(p_template_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE id = p_template_id
+          AND (user_id = auth.uid() OR is_public = true)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.template_stats (template_id, usage_count, last_used_at)
+    VALUES (p_template_id, 1, NOW())
+    ON CONFLICT (template_id) DO UPDATE
+    SET usage_count = template_stats.usage_count + 1,
+        last_used_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A changed rating replaces the earlier one instead of adding another
+CREATE OR REPLACE FUNCTION public.record_template_rating(
+    p_template_id UUID,
+    p_rating INTEGER,
+    p_previous_rating INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE id = p_template_id
+          AND (user_id = auth.uid() OR is_public = true)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.template_stats (template_id, rating_count, rating_total)
+    VALUES (p_template_id, 1, p_rating)
+    ON CONFLICT (template_id) DO UPDATE
+    SET rating_count = template_stats.rating_count + CASE WHEN p_previous_rating IS NULL THEN 1 ELSE 0 END,
+        rating_total = template_stats.rating_total + p_rating - COALESCE(p_previous_rating, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_template_usage(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_template_rating(UUID, INTEGER, INTEGER) TO authenticated;
+
+COMMIT;
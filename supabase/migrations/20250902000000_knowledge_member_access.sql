@@ -0,0 +1,35 @@
+-- Knowledge base access for project members
+-- Date: 2025-09-02
+-- Reason: The knowledge base is shared by everyone on a project, but since
+--         20250820000000_fix_recursive_rls_final only project owners can read
+--         or change project_knowledge. Members may now read it, and all but
+--         viewers may change it. The checks read the caller's own
+--         project_members row only, which that table's policies allow without
+--         recursing into projects.
+
+BEGIN;
+
+-- ===== Step 1: Read access for members =====
+DROP POLICY IF EXISTS "Project members can view knowledge" ON public.project_knowledge;
+CREATE POLICY "Project members can view knowledge" ON public.project_knowledge
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = project_knowledge.project_id
+              AND pm.user_id = auth.uid()
+        )
+    );
+
+-- ===== Step 2: Write access for members who aren't viewers =====
+DROP POLICY IF EXISTS "Project members can manage knowledge" ON public.project_knowledge;
+CREATE POLICY "Project members can manage knowledge" ON public.project_knowledge
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = project_knowledge.project_id
+              AND pm.user_id = auth.uid()
+              AND pm.role IN ('owner', 'admin', 'member')
+        )
+    );
+
+COMMIT;
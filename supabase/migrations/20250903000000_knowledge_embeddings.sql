@@ -0,0 +1,84 @@
+-- Knowledge embeddings for hybrid retrieval
+-- Date: 2025-09-03
+-- Reason: Context injection scored knowledge by keyword overlap alone, which
+--         misses paraphrases and ranks long documents poorly. Each knowledge
+--         document is now split into chunks whose embeddings are stored here
+--         with pgvector. Vectors from different embedding providers are not
+--         comparable, so every row records the provider that produced it and
+--         searches only ever compare rows from one provider.
+
+BEGIN;
+
+-- ===== Step 1: pgvector =====
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- ===== Step 2: Embeddings table =====
+CREATE TABLE IF NOT EXISTS public.knowledge_embeddings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    knowledge_id UUID REFERENCES public.project_knowledge(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding extensions.vector(512) NOT NULL,
+    provider TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    UNIQUE (knowledge_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_embeddings_project_provider
+    ON public.knowledge_embeddings(project_id, provider);
+CREATE INDEX IF NOT EXISTS idx_knowledge_embeddings_embedding
+    ON public.knowledge_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- ===== Step 3: Row level security =====
+-- Readable wherever the document is; writable by those who may change it
+ALTER TABLE public.knowledge_embeddings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view embeddings of visible knowledge" ON public.knowledge_embeddings;
+DROP POLICY IF EXISTS "Knowledge editors can manage embeddings" ON public.knowledge_embeddings;
+
+CREATE POLICY "Users can view embeddings of visible knowledge" ON public.knowledge_embeddings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.project_knowledge k
+            WHERE k.id = knowledge_embeddings.knowledge_id
+        )
+    );
+
+CREATE POLICY "Knowledge editors can manage embeddings" ON public.knowledge_embeddings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.projects p
+            WHERE p.id = knowledge_embeddings.project_id
+              AND p.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = knowledge_embeddings.project_id
+              AND pm.user_id = auth.uid()
+              AND pm.role IN ('owner', 'admin', 'member')
+        )
+    );
+
+-- ===== Step 4: Similarity search =====
+-- Runs as the caller, so the policies above still apply
+CREATE OR REPLACE FUNCTION match_knowledge_embeddings(
+    p_project_id UUID,
+    p_embedding extensions.vector(512),
+    p_provider TEXT,
+    p_match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (knowledge_id UUID, chunk_index INTEGER, content TEXT, similarity DOUBLE PRECISION) AS $$
+    SELECT
+        e.knowledge_id,
+        e.chunk_index,
+        e.content,
+        1 - (e.embedding OPERATOR(extensions.<=>) p_embedding)
+    FROM public.knowledge_embeddings e
+    WHERE e.project_id = p_project_id
+      AND e.provider = p_provider
+    ORDER BY e.embedding OPERATOR(extensions.<=>) p_embedding
+    LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -0,0 +1,130 @@
+-- Code index for chat context
+-- Date: 2025-09-04
+-- Reason: Projects can link a GitHub repository, but context injection had
+--         no code to draw on. A repository snapshot is now split into
+--         chunks along top-level declarations and stored here with
+--         embeddings, alongside one row per project describing the snapshot
+--         and how indexing went. Re-indexing replaces a project's chunks.
+
+BEGIN;
+
+-- ===== Step 1: Index status =====
+CREATE TABLE IF NOT EXISTS public.code_indexes (
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE PRIMARY KEY,
+    source TEXT NOT NULL,
+    repository TEXT,
+    ref TEXT,
+    commit_sha TEXT,
+    status TEXT NOT NULL CHECK (status IN ('indexing', 'ready', 'failed')),
+    file_count INTEGER DEFAULT 0 NOT NULL,
+    chunk_count INTEGER DEFAULT 0 NOT NULL,
+    skipped_count INTEGER DEFAULT 0 NOT NULL,
+    error TEXT,
+    metadata JSONB DEFAULT '{}' NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ===== Step 2: Chunks =====
+CREATE TABLE IF NOT EXISTS public.code_chunks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    file_path TEXT NOT NULL,
+    language TEXT NOT NULL,
+    symbols TEXT[] DEFAULT '{}' NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    -- Null when the chunk couldn't be embedded; it is still found by keyword
+    embedding extensions.vector(512),
+    provider TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_chunks_project_file ON public.code_chunks(project_id, file_path);
+CREATE INDEX IF NOT EXISTS idx_code_chunks_embedding
+    ON public.code_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- ===== Step 3: Row level security =====
+-- Everyone on the project may read the index; all but viewers may rebuild it
+ALTER TABLE public.code_indexes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.code_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Project users can view code index" ON public.code_indexes;
+DROP POLICY IF EXISTS "Project editors can manage code index" ON public.code_indexes;
+DROP POLICY IF EXISTS "Project users can view code chunks" ON public.code_chunks;
+DROP POLICY IF EXISTS "Project editors can manage code chunks" ON public.code_chunks;
+
+CREATE POLICY "Project users can view code index" ON public.code_indexes
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = code_indexes.project_id AND p.user_id = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = code_indexes.project_id AND pm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Project editors can manage code index" ON public.code_indexes
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = code_indexes.project_id AND p.user_id = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = code_indexes.project_id AND pm.user_id = auth.uid()
+              AND pm.role IN ('owner', 'admin', 'member')
+        )
+    );
+
+CREATE POLICY "Project users can view code chunks" ON public.code_chunks
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = code_chunks.project_id AND p.user_id = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = code_chunks.project_id AND pm.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Project editors can manage code chunks" ON public.code_chunks
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.projects p WHERE p.id = code_chunks.project_id AND p.user_id = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.project_members pm
+            WHERE pm.project_id = code_chunks.project_id AND pm.user_id = auth.uid()
+              AND pm.role IN ('owner', 'admin', 'member')
+        )
+    );
+
+-- ===== Step 4: Similarity search =====
+CREATE OR REPLACE FUNCTION match_code_chunks(
+    p_project_id UUID,
+    p_embedding extensions.vector(512),
+    p_provider TEXT,
+    p_match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    file_path TEXT,
+    language TEXT,
+    symbols TEXT[],
+    start_line INTEGER,
+    end_line INTEGER,
+    content TEXT,
+    similarity DOUBLE PRECISION
+) AS $$
+    SELECT
+        c.id,
+        c.file_path,
+        c.language,
+        c.symbols,
+        c.start_line,
+        c.end_line,
+        c.content,
+        1 - (c.embedding OPERATOR(extensions.<=>) p_embedding)
+    FROM public.code_chunks c
+    WHERE c.project_id = p_project_id
+      AND c.provider = p_provider
+      AND c.embedding IS NOT NULL
+    ORDER BY c.embedding OPERATOR(extensions.<=>) p_embedding
+    LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
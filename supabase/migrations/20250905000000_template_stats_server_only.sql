@@ -0,0 +1,74 @@
+-- Template stats recorded by the server only
+-- Date: 2025-09-05
+-- Reason: 20250901000000_template_stats let any signed-in user call the
+--         recording functions directly, and the rating function added any
+--         integer it was given, so a public template's usage count and rating
+--         could be set to anything. The functions are now only callable with
+--         the service role, take the acting user explicitly since auth.uid()
+--         is unset there, and only accept ratings of -1 and 1.
+
+BEGIN;
+
+-- ===== Step 1: Replace the client-callable versions =====
+DROP FUNCTION IF EXISTS public.record_template_usage(UUID);
+DROP FUNCTION IF EXISTS public.record_template_rating(UUID, INTEGER, INTEGER);
+
+-- ===== Step 2: Recording =====
+CREATE OR REPLACE FUNCTION public.record_template_usage(
+    p_template_id UUID,
+    p_user_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE id = p_template_id
+          AND (user_id = p_user_id OR is_public = true)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.template_stats (template_id, usage_count, last_used_at)
+    VALUES (p_template_id, 1, NOW())
+    ON CONFLICT (template_id) DO UPDATE
+    SET usage_count = template_stats.usage_count + 1,
+        last_used_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A changed rating replaces the earlier one instead of adding another
+CREATE OR REPLACE FUNCTION public.record_template_rating(
+    p_template_id UUID,
+    p_user_id UUID,
+    p_rating INTEGER,
+    p_previous_rating INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF p_rating NOT IN (-1, 1) OR p_previous_rating NOT IN (-1, 1) THEN
+        RAISE EXCEPTION 'Template ratings must be -1 or 1';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.templates
+        WHERE id = p_template_id
+          AND (user_id = p_user_id OR is_public = true)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.template_stats (template_id, rating_count, rating_total)
+    VALUES (p_template_id, 1, p_rating)
+    ON CONFLICT (template_id) DO UPDATE
+    SET rating_count = template_stats.rating_count + CASE WHEN p_previous_rating IS NULL THEN 1 ELSE 0 END,
+        rating_total = template_stats.rating_total + p_rating - COALESCE(p_previous_rating, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===== Step 3: Service role only =====
+REVOKE EXECUTE ON FUNCTION public.record_template_usage(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_template_rating(UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_template_usage(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_template_rating(UUID, UUID, INTEGER, INTEGER) TO service_role;
+
+COMMIT;
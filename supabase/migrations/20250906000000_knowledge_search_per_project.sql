@@ -0,0 +1,42 @@
+-- Exact per-project knowledge search
+-- Date: 2025-09-06
+-- Reason: knowledge_embeddings had one HNSW index across every project, and
+--         match_knowledge_embeddings filtered by project after the index
+--         scan. The scan only returns about 40 candidates (hnsw.ef_search),
+--         so once other projects had closer rows a project got few or no
+--         vector matches and quietly fell back to keyword scores. The
+--         function now ranks the project's own rows exactly, found through
+--         the (project_id, provider) index; the HNSW index is no longer used
+--         and is dropped.
+
+BEGIN;
+
+-- ===== Step 1: Index =====
+DROP INDEX IF EXISTS public.idx_knowledge_embeddings_embedding;
+
+-- ===== Step 2: Similarity search =====
+-- Materialized so the planner can't order the whole table by distance first
+CREATE OR REPLACE FUNCTION match_knowledge_embeddings(
+    p_project_id UUID,
+    p_embedding extensions.vector(512),
+    p_provider TEXT,
+    p_match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (knowledge_id UUID, chunk_index INTEGER, content TEXT, similarity DOUBLE PRECISION) AS $$
+    WITH candidates AS MATERIALIZED (
+        SELECT
+            e.knowledge_id,
+            e.chunk_index,
+            e.content,
+            e.embedding OPERATOR(extensions.<=>) p_embedding AS distance
+        FROM public.knowledge_embeddings e
+        WHERE e.project_id = p_project_id
+          AND e.provider = p_provider
+    )
+    SELECT knowledge_id, chunk_index, content, 1 - distance
+    FROM candidates
+    ORDER BY distance
+    LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -0,0 +1,55 @@
+-- Exact per-project code search
+-- Date: 2025-09-07
+-- Reason: As with knowledge in 20250906000000_knowledge_search_per_project,
+--         code_chunks had one HNSW index across every project and
+--         match_code_chunks filtered by project after the index scan, so a
+--         project's chunks were crowded out by closer ones from other
+--         projects. The function now ranks the project's own chunks exactly,
+--         found through the (project_id, file_path) index, and the HNSW index
+--         is dropped.
+
+BEGIN;
+
+-- ===== Step 1: Index =====
+DROP INDEX IF EXISTS public.idx_code_chunks_embedding;
+
+-- ===== Step 2: Similarity search =====
+-- Materialized so the planner can't order the whole table by distance first
+CREATE OR REPLACE FUNCTION match_code_chunks(
+    p_project_id UUID,
+    p_embedding extensions.vector(512),
+    p_provider TEXT,
+    p_match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    file_path TEXT,
+    language TEXT,
+    symbols TEXT[],
+    start_line INTEGER,
+    end_line INTEGER,
+    content TEXT,
+    similarity DOUBLE PRECISION
+) AS $$
+    WITH candidates AS MATERIALIZED (
+        SELECT
+            c.id,
+            c.file_path,
+            c.language,
+            c.symbols,
+            c.start_line,
+            c.end_line,
+            c.content,
+            c.embedding OPERATOR(extensions.<=>) p_embedding AS distance
+        FROM public.code_chunks c
+        WHERE c.project_id = p_project_id
+          AND c.provider = p_provider
+          AND c.embedding IS NOT NULL
+    )
+    SELECT id, file_path, language, symbols, start_line, end_line, content, 1 - distance
+    FROM candidates
+    ORDER BY distance
+    LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -0,0 +1,89 @@
+-- Vector search ranks only the searching project's rows
+-- Run with: supabase test db
+--
+-- Another project's rows are all closer to the query than this project's,
+-- which is what starved the earlier post-filtered index scans.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+    ('00000000-0000-0000-0000-000000000001', 'ours@example.com'),
+    ('00000000-0000-0000-0000-000000000002', 'theirs@example.com');
+INSERT INTO public.users (id, email) VALUES
+    ('00000000-0000-0000-0000-000000000001', 'ours@example.com'),
+    ('00000000-0000-0000-0000-000000000002', 'theirs@example.com');
+INSERT INTO public.projects (id, user_id, name) VALUES
+    ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'Ours'),
+    ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000002', 'Theirs');
+INSERT INTO public.project_knowledge (id, project_id, title, category) VALUES
+    ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'Ours', 'documentation'),
+    ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', 'Theirs', 'documentation');
+
+-- The query is [1, 0, ...]; the other project's rows match it exactly
+INSERT INTO public.knowledge_embeddings (knowledge_id, project_id, chunk_index, content, embedding, provider)
+SELECT '20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002', i, 'theirs',
+       (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512), 'test'
+FROM generate_series(0, 199) AS i;
+INSERT INTO public.knowledge_embeddings (knowledge_id, project_id, chunk_index, content, embedding, provider)
+SELECT '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', i, 'ours',
+       (ARRAY[0.5::real, 1] || array_fill(0::real, ARRAY[510]))::extensions.vector(512), 'test'
+FROM generate_series(0, 4) AS i;
+
+INSERT INTO public.code_chunks (project_id, file_path, language, start_line, end_line, content, embedding, provider)
+SELECT '10000000-0000-0000-0000-000000000002', 'src/theirs.ts', 'typescript', i, i, 'theirs',
+       (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512), 'test'
+FROM generate_series(1, 200) AS i;
+INSERT INTO public.code_chunks (project_id, file_path, language, start_line, end_line, content, embedding, provider)
+SELECT '10000000-0000-0000-0000-000000000001', 'src/ours.ts', 'typescript', i, i, 'ours',
+       (ARRAY[0.5::real, 1] || array_fill(0::real, ARRAY[510]))::extensions.vector(512), 'test'
+FROM generate_series(1, 5) AS i;
+
+SELECT is(
+    (SELECT count(*)::int FROM match_knowledge_embeddings(
+        '10000000-0000-0000-0000-000000000001',
+        (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512),
+        'test',
+        5
+    ) WHERE content = 'ours'),
+    5,
+    'knowledge search returns the project''s own chunks'
+);
+
+SELECT is(
+    (SELECT count(*)::int FROM match_knowledge_embeddings(
+        '10000000-0000-0000-0000-000000000002',
+        (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512),
+        'other-provider',
+        5
+    )),
+    0,
+    'knowledge search only compares vectors from the same provider'
+);
+
+SELECT is(
+    (SELECT count(*)::int FROM match_code_chunks(
+        '10000000-0000-0000-0000-000000000001',
+        (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512),
+        'test',
+        5
+    ) WHERE content = 'ours'),
+    5,
+    'code search returns the project''s own chunks'
+);
+
+SELECT is(
+    (SELECT count(*)::int FROM match_code_chunks(
+        '10000000-0000-0000-0000-000000000001',
+        (ARRAY[1::real] || array_fill(0::real, ARRAY[511]))::extensions.vector(512),
+        'test',
+        20
+    )),
+    5,
+    'code search never returns other projects'' chunks'
+);
+
+SELECT * FROM finish();
+ROLLBACK;